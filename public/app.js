@@ -5,6 +5,7 @@ let currentProfileId = null;
 let analysisStartTime = null;
 let progressInterval = null;
 let lastAnalysisParams = null; // Store last successful analysis parameters
+let liveSource = null; // EventSource of the live mode (/api/live), null when off
 const txDetailsCache = {}; // Global cache for transaction details
 
 // Copy to clipboard helper with visual feedback
@@ -29,6 +30,25 @@ function copyToClipboard(text, event) {
   event.preventDefault();
 }
 
+// fetch for routes behind the server's ADMIN_TOKEN (live mode, cache admin). The token is asked
+// for when the server rejects the request and kept for this tab only; a rejected token is dropped.
+async function adminFetch(url, init = {}) {
+  const send = () => fetch(url, {
+    ...init,
+    headers: { ...(init.headers || {}), 'x-admin-token': sessionStorage.getItem('adminToken') || '' }
+  });
+  let response = await send();
+  if (response.status === 401) {
+    sessionStorage.removeItem('adminToken');
+    const token = prompt('Admin token:');
+    if (!token) return response;
+    sessionStorage.setItem('adminToken', token);
+    response = await send();
+    if (response.status === 401) sessionStorage.removeItem('adminToken');
+  }
+  return response;
+}
+
 // Derive a product/recipe name for crafting without falling back to burned materials
 function inferRecipeName(decoded, burns, claims) {
   // Prefer claimed items (produced outputs)
@@ -418,6 +438,14 @@ document.addEventListener('DOMContentLoaded', () => {
       wipeAndReload();
     });
   }
+
+  const cacheLiveBtn = document.getElementById('cacheLiveBtn');
+  if (cacheLiveBtn) {
+    cacheLiveBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      toggleLive();
+    });
+  }
 });
 
 // Helper to update progress message
@@ -433,6 +461,16 @@ function updateProgress(message) {
   }
 }
 
+// USD value of a fee: at the prices of its block times when the whole result could be valued
+// with them (feeValuation), otherwise at today's SOL price
+function feeUsd(lamports, historicalUsd, result) {
+  const valuation = result && result.feeValuation;
+  if (valuation && valuation.pricedTransactions > 0 && valuation.unpricedTransactions === 0 && typeof historicalUsd === 'number') {
+    return historicalUsd.toFixed(2);
+  }
+  return window.prices && window.prices.solana ? ((lamports / 1e9) * window.prices.solana.usd).toFixed(2) : '--';
+}
+
 // Global helper to format timestamps used across the UI
 function formatTimestamp(ts) {
   if (!ts) return '';
@@ -450,13 +488,16 @@ function formatTimestamp(ts) {
   return '';
 }
 
-// Tabs handling
-// Tabs handling (single Fees view only)
+// Tabs handling (Fees and Groups views; the Groups view lives in groups.js)
 function showFees() {
   const fees = document.getElementById('fees-view');
+  const groups = document.getElementById('groups-view');
   const tabFees = document.getElementById('tab-fees');
+  const tabGroups = document.getElementById('tab-groups');
   if (fees) fees.style.display = '';
+  if (groups) groups.style.display = 'none';
   if (tabFees) tabFees.classList.add('tab-active');
+  if (tabGroups) tabGroups.classList.remove('tab-active');
 }
 
 document.addEventListener('DOMContentLoaded', () => {
@@ -492,12 +533,10 @@ function displayPartialResults(update, fleets, fleetRentalStatus) {
         <div class="summary-item">
           <span class="label">Total Fees:</span>
           <span class="value">${(update.totalFees24h / 1e9).toFixed(6)} SOL</span>
-                  <span class="value">${(update.totalFees24h / 1e9).toFixed(6)} SOL <span style="color:#7dd3fc;font-size:13px;">($${window.prices && window.prices.solana ? ((update.totalFees24h / 1e9) * window.prices.solana.usd).toFixed(2) : '--'})</span></span>
         </div>
         <div class="summary-item">
           <span class="label">SAGE Fees:</span>
-          <span class="value">${(update.sageFees24h / 1e9).toFixed(6)} SOL</span>
-                  <span class="value">${(update.sageFees24h / 1e9).toFixed(6)} SOL <span style="color:#7dd3fc;font-size:13px;">($${window.prices && window.prices.solana ? ((update.sageFees24h / 1e9) * window.prices.solana.usd).toFixed(2) : '--'})</span></span>
+          <span class="value">${(update.sageFees24h / 1e9).toFixed(6)} SOL <span style="color:#7dd3fc;font-size:13px;">($${feeUsd(update.sageFees24h, update.feeValuation && update.feeValuation.sage.usd, update)})</span></span>
         </div>
         <div class="summary-item">
           <span class="label">Transactions:</span>
@@ -525,7 +564,7 @@ function displayPartialResults(update, fleets, fleetRentalStatus) {
             <span class="fleet-name ${nameClass}">${fleetName}</span>
             ${badge}
             <span class="fleet-fee">${(fleetData.totalFee / 1e9).toFixed(6)} SOL</span>
-                        <span class="fleet-fee">${(fleetData.totalFee / 1e9).toFixed(6)} SOL <span style="color:#7dd3fc;font-size:13px;">($${window.prices && window.prices.solana ? ((fleetData.totalFee / 1e9) * window.prices.solana.usd).toFixed(2) : '--'})</span></span>
+                        <span class="fleet-fee">${(fleetData.totalFee / 1e9).toFixed(6)} SOL <span style="color:#7dd3fc;font-size:13px;">($${feeUsd(fleetData.totalFee, fleetData.totalFeeUsd, update)})</span></span>
             <span class="fleet-pct">${pct}%</span>
           </div>
         </div>
@@ -552,6 +591,7 @@ async function analyzeFees() {
   
   // Store profile ID globally
   currentProfileId = profileId;
+  if (liveSource) stopLive();
   
   // Hide form and sidebar during analysis
   const formBox = document.querySelector('.form-box');
@@ -664,6 +704,7 @@ async function analyzeFees() {
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ 
         walletPubkey, 
+        profileId,
         fleetAccounts: uniqueFleetAccounts,
         fleetNames: fleetNames,
         fleetRentalStatus: fleetRentalStatus,
@@ -1011,6 +1052,7 @@ async function updateCache() {
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ 
         walletPubkey, 
+        profileId: currentProfileId,
         fleetAccounts,
         fleetNames,
         fleetRentalStatus,
@@ -1122,6 +1164,71 @@ async function updateCache() {
   }
 }
 
+// Live mode: the server watches the wallet's logs and pushes every updated result
+async function toggleLive() {
+  if (liveSource) {
+    stopLive();
+    return;
+  }
+  if (!lastAnalysisParams) {
+    alert('No previous analysis found. Please run "Analyze 24h" first.');
+    return;
+  }
+  const liveBtn = document.getElementById('cacheLiveBtn');
+  const { walletPubkey, fleetAccounts, fleetNames, fleetRentalStatus, fleets } = lastAnalysisParams;
+
+  try {
+    const response = await adminFetch('/api/live', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ walletPubkey, profileId: currentProfileId, fleetAccounts, fleetNames, fleetRentalStatus, hours: 24 })
+    });
+    const created = await response.json();
+    if (!response.ok) {
+      throw new Error(created.error || 'Failed to start live mode');
+    }
+
+    const rentedFleetNames = new Set();
+    fleets.forEach(f => {
+      if (fleetRentalStatus[f.key] || fleetRentalStatus[f.data.fleetShips]) rentedFleetNames.add(f.callsign);
+    });
+
+    let arrived = 0;
+    liveSource = new EventSource(created.eventsUrl);
+    liveSource.onmessage = (e) => {
+      const update = JSON.parse(e.data);
+      if (update.type === 'live-transactions') {
+        arrived += update.transactions.length;
+        if (liveBtn) {
+          liveBtn.textContent = `🔴 Live (${arrived} new)`;
+          liveBtn.title = 'Latest: ' + update.transactions.map(tx => tx.fleetName ? `${tx.operation} (${tx.fleetName})` : tx.operation).join(', ');
+        }
+      } else if (update.type === 'complete') {
+        displayResults(update, fleetNames, rentedFleetNames);
+      } else if (update.type === 'live-error') {
+        if (liveBtn) liveBtn.title = `Last update failed: ${update.message}`;
+      } else if (update.type === 'live-stopped') {
+        stopLive();
+      }
+    };
+    if (liveBtn) liveBtn.textContent = '🔴 Live';
+  } catch (error) {
+    console.error('Live mode error:', error);
+    alert(`Live mode unavailable: ${error.message}`);
+  }
+}
+
+// The server drops the watch once no client is connected for a while
+function stopLive() {
+  if (liveSource) liveSource.close();
+  liveSource = null;
+  const liveBtn = document.getElementById('cacheLiveBtn');
+  if (liveBtn) {
+    liveBtn.textContent = '📡 Go Live';
+    liveBtn.title = '';
+  }
+}
+
 async function wipeAndReload() {
   if (!currentProfileId) return;
   
@@ -1176,18 +1283,23 @@ async function wipeAndReload() {
   try {
     // Call wipe endpoint
     console.log('Wiping cache for profile:', currentProfileId);
-    const wipeResponse = await fetch('/api/cache/wipe', {
+    const wipeResponse = await adminFetch('/api/cache/wipe', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ profileId: currentProfileId })
+      body: JSON.stringify({
+        profileId: currentProfileId,
+        walletPubkey: lastAnalysisParams ? lastAnalysisParams.walletPubkey : undefined
+      })
     });
     
     if (!wipeResponse.ok) {
       throw new Error('Failed to wipe cache');
     }
+    const wipeResult = await wipeResponse.json();
+    const wipedKb = ((wipeResult.removedBytes || 0) / 1024).toFixed(1);
     
-    console.log('Cache wiped, reloading data...');
-    updateProgress('Cache wiped, fetching fresh data...');
+    console.log(`Cache wiped (${wipeResult.removedEntries} entries, ${wipedKb} KB), reloading data...`);
+    updateProgress(`Cache wiped (${wipeResult.removedEntries} entries, ${wipedKb} KB), fetching fresh data...`);
     
     // Now call refresh
     await refreshAnalysis();
@@ -1314,6 +1426,7 @@ async function refreshAnalysis() {
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ 
         walletPubkey: walletPubkey, 
+        profileId: currentProfileId,
         fleetAccounts: uniqueFleetAccounts,
         fleetNames: fleetNames,
         fleetRentalStatus: fleetRentalStatus,
@@ -1539,7 +1652,7 @@ function displayResults(data, fleetNames, rentedFleetNames = new Set()) {
       </div>
       <div class="stat-card">
         <div class="stat-label">Total Fees</div>
-        <div class="stat-value highlight">${(data.sageFees24h / 1e9).toFixed(6)} SOL <span style="color:#7dd3fc;font-size:13px;">($${window.prices && window.prices.solana ? ((data.sageFees24h / 1e9) * window.prices.solana.usd).toFixed(2) : '--'})</span></div>
+        <div class="stat-value highlight">${(data.sageFees24h / 1e9).toFixed(6)} SOL <span style="color:#7dd3fc;font-size:13px;">($${feeUsd(data.sageFees24h, data.feeValuation && data.feeValuation.sage.usd, data)})</span>${data.feeValuation && data.feeValuation.sage.atlas !== null && data.feeValuation.unpricedTransactions === 0 ? ` <span style="color:#fbbf24;font-size:13px;">${data.feeValuation.sage.atlas.toFixed(2)} ATLAS</span>` : ''}</div>
       </div>
     </div>
 
@@ -1566,6 +1679,13 @@ function displayResults(data, fleetNames, rentedFleetNames = new Set()) {
     <h2 class="section-title">Operations Summary</h2>
     <div id="operationList"></div>
   `;
+  if (data.failureReport && data.failureReport.totals.failed > 0) {
+    const totals = data.failureReport.totals;
+    html += `
+    <h2 class="section-title">Failed Transactions <span style="color:#9aa6b2;font-size:14px;font-weight:400;">${totals.failed} of ${totals.transactions} (${totals.failureRate.toFixed(1)}%) · ${(totals.wastedFee / 1e9).toFixed(6)} SOL wasted</span></h2>
+    <div id="failureList"></div>
+  `;
+  }
   
   resultsDiv.innerHTML = html;
   
@@ -1575,6 +1695,9 @@ function displayResults(data, fleetNames, rentedFleetNames = new Set()) {
   // Create operation list with fold/unfold
   createOperationList(data, fleetNames, rentedFleetNames);
 
+  // Failed transactions per operation, unfolding to instruction / error / fleet
+  if (document.getElementById('failureList')) createFailureList(data, fleetNames);
+
   // Helper to format timestamp values used by the details table
   function formatTimestamp(ts) {
     if (!ts) return '';
@@ -1670,7 +1793,7 @@ function createFleetList(data, fleetNames, rentedFleetNames = new Set()) {
           <div class="${nameClass}">${nameInner}</div>
           <div class="fleet-ops">${fleetData.totalOperations} ops</div>
           <div class="fleet-pct">${((fleetData.totalFee / (data.sageFees24h || 1)) * 100).toFixed(1)}%</div>
-            <div class="fleet-sol">${(fleetData.totalFee / 1e9).toFixed(6)} SOL <span style="color:#7dd3fc;font-size:13px;">($${window.prices && window.prices.solana ? ((fleetData.totalFee / 1e9) * window.prices.solana.usd).toFixed(2) : '--'})</span></div>
+            <div class="fleet-sol">${(fleetData.totalFee / 1e9).toFixed(6)} SOL <span style="color:#7dd3fc;font-size:13px;">($${feeUsd(fleetData.totalFee, fleetData.totalFeeUsd, data)})</span></div>
         </div>
         <div class="fleet-details" id="${fleetId}">
           <table class="fleet-ops-table">
@@ -1692,7 +1815,7 @@ function createFleetList(data, fleetNames, rentedFleetNames = new Set()) {
             <td>${stats.count}x</td>
             <td>${stats.percentageOfFleet.toFixed(1)}%</td>
             <td>${(stats.totalFee / 1e9).toFixed(6)} SOL</td>
-            <td style="color:#7dd3fc;font-size:13px;">$${window.prices && window.prices.solana ? ((stats.totalFee / 1e9) * window.prices.solana.usd).toFixed(2) : '--'}</td>
+            <td style="color:#7dd3fc;font-size:13px;">$${feeUsd(stats.totalFee, stats.totalFeeUsd, data)}</td>
           </tr>
         `;
       }
@@ -1718,6 +1841,21 @@ function createFleetList(data, fleetNames, rentedFleetNames = new Set()) {
       }
     });
     
+    // Unattributed bucket: show why the fees couldn't be tied to a fleet
+    if (fleetData.unattributedReasons) {
+      Object.entries(fleetData.unattributedReasons).forEach(([reason, r]) => {
+        html += `
+          <tr style="color:#94a3b8;font-style:italic;">
+            <td>reason: ${reason}</td>
+            <td>${r.count}x</td>
+            <td></td>
+            <td>${(r.totalFee / 1e9).toFixed(6)} SOL</td>
+            <td></td>
+          </tr>
+        `;
+      });
+    }
+    
     html += `
           </table>
         </div>
@@ -1728,6 +1866,48 @@ function createFleetList(data, fleetNames, rentedFleetNames = new Set()) {
   fleetListDiv.innerHTML = html;
 }
 
+function createFailureList(data, fleetNames) {
+  const failureListDiv = document.getElementById('failureList');
+  const report = data.failureReport;
+  const failedOperations = Object.entries(report.byOperation)
+    .filter(([, opStats]) => opStats.failed > 0)
+    .sort((a, b) => b[1].wastedFee - a[1].wastedFee);
+
+  let html = '';
+  failedOperations.forEach(([operation, opStats]) => {
+    const failId = 'fail-' + operation.replace(/[^a-zA-Z0-9]/g, '-').substring(0, 20);
+    html += `
+      <div class="fleet-item" onclick="toggleFleet('${failId}')">
+        <div class="fleet-header">
+          <div class="fleet-name">${operation}</div>
+          <div class="fleet-ops">${opStats.failed}/${opStats.transactions} failed</div>
+          <div class="fleet-pct">${opStats.failureRate.toFixed(1)}%</div>
+          <div class="fleet-sol">${(opStats.wastedFee / 1e9).toFixed(6)} SOL <span style="color:#7dd3fc;font-size:13px;">($${feeUsd(opStats.wastedFee, null, data)})</span></div>
+        </div>
+        <div class="fleet-details" id="${failId}">
+          <table class="fleet-ops-table">
+    `;
+    report.groups.filter(group => group.operation === operation).forEach(group => {
+      const title = group.message ? ` title="${group.message.replace(/"/g, '&quot;')}"` : '';
+      html += `
+            <tr>
+              <td>${group.instruction}</td>
+              <td${title}>${group.error}${group.code !== undefined ? ` <span style="color:#9aa6b2;">(${group.code})</span>` : ''}</td>
+              <td>${fleetNames[group.fleet] || group.fleet}</td>
+              <td>${group.count}x</td>
+              <td>${(group.wastedFee / 1e9).toFixed(6)} SOL</td>
+            </tr>
+      `;
+    });
+    html += `
+          </table>
+        </div>
+      </div>
+    `;
+  });
+  failureListDiv.innerHTML = html;
+}
+
 function createOperationList(data, fleetNames, rentedFleetNames = new Set()) {
   const operationListDiv = document.getElementById('operationList');
   const rentedLc = new Set(Array.from(rentedFleetNames).map(n => (n || '').toString().toLowerCase()));
@@ -1749,6 +1929,7 @@ function createOperationList(data, fleetNames, rentedFleetNames = new Set()) {
         isRented,
         count: opStats.count,
         totalFee: opStats.totalFee,
+        totalFeeUsd: opStats.totalFeeUsd,
         percentageOfFleet: opStats.percentageOfFleet
       });
     });
@@ -1776,7 +1957,7 @@ function createOperationList(data, fleetNames, rentedFleetNames = new Set()) {
           <div class="fleet-name">${operation}</div>
           <div class="fleet-ops">${opStats.count} ops</div>
           <div class="fleet-pct">${opPercentage.toFixed(1)}%</div>
-            <div class="fleet-sol">${(opStats.totalFee / 1e9).toFixed(6)} SOL <span style="color:#7dd3fc;font-size:13px;">($${window.prices && window.prices.solana ? ((opStats.totalFee / 1e9) * window.prices.solana.usd).toFixed(2) : '--'})</span></div>
+            <div class="fleet-sol">${(opStats.totalFee / 1e9).toFixed(6)} SOL <span style="color:#7dd3fc;font-size:13px;">($${feeUsd(opStats.totalFee, opStats.totalFeeUsd, data)})</span></div>
         </div>
         <div class="fleet-details" id="${opId}">
           <table class="fleet-ops-table">
@@ -1802,7 +1983,7 @@ function createOperationList(data, fleetNames, rentedFleetNames = new Set()) {
             <td>${fleet.count}x</td>
             <td>${fleetOpPercentage.toFixed(1)}%</td>
             <td>${(fleet.totalFee / 1e9).toFixed(6)} SOL</td>
-            <td style="color:#7dd3fc;font-size:13px;">$${window.prices && window.prices.solana ? ((fleet.totalFee / 1e9) * window.prices.solana.usd).toFixed(2) : '--'}</td>
+            <td style="color:#7dd3fc;font-size:13px;">$${feeUsd(fleet.totalFee, fleet.totalFeeUsd, data)}</td>
           </tr>
         `;
       });
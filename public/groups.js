@@ -0,0 +1,295 @@
+// Groups view: named groups of profiles/wallets analysed together (/api/groups) and compared member by member
+
+const memberColors = ['#34d399', '#60a5fa', '#f59e0b', '#a78bfa', '#ec4899', '#06b6d4', '#f97316', '#fbbf24', '#ef4444', '#14b8a6'];
+let groupsCache = [];
+let groupSource = null;
+
+function escapeGroupHtml(value) {
+  return String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]));
+}
+
+function showGroups() {
+  const fees = document.getElementById('fees-view');
+  const groups = document.getElementById('groups-view');
+  if (fees) fees.style.display = 'none';
+  if (groups) groups.style.display = '';
+  document.getElementById('tab-fees')?.classList.remove('tab-active');
+  document.getElementById('tab-groups')?.classList.add('tab-active');
+  loadGroups();
+}
+
+function selectedGroup() {
+  const id = document.getElementById('groupSelect').value;
+  return groupsCache.find(g => g.id === id) || null;
+}
+
+async function loadGroups(selectId) {
+  const select = document.getElementById('groupSelect');
+  try {
+    const res = await fetch('/api/groups');
+    const data = await res.json();
+    groupsCache = data.groups || [];
+  } catch (e) {
+    console.warn('[groups] Could not load groups:', e);
+    groupsCache = [];
+  }
+  const current = selectId || select.value;
+  select.innerHTML = '<option value="">➕ New group</option>' + groupsCache.map(g => `<option value="${g.id}">${escapeGroupHtml(g.name)} (${g.members.length})</option>`).join('');
+  select.value = groupsCache.some(g => g.id === current) ? current : '';
+  onGroupSelected();
+}
+
+// One member per line: "profileId", "label: profileId" or "label: wallet:<pubkey>" for a wallet without profile
+function parseGroupMembers(text) {
+  return text.split('\n').map(line => line.trim()).filter(Boolean).map(line => {
+    const sep = line.indexOf(':');
+    const hasLabel = sep > 0 && !line.startsWith('wallet:');
+    const label = hasLabel ? line.slice(0, sep).trim() : undefined;
+    const address = (hasLabel ? line.slice(sep + 1) : line).trim();
+    return address.startsWith('wallet:') ? { label, walletPubkey: address.slice(7).trim() } : { label, profileId: address };
+  });
+}
+
+function formatGroupMembers(members) {
+  return members.map(m => {
+    const address = m.profileId || `wallet:${m.walletPubkey}`;
+    return m.label && m.label !== (m.profileId || m.walletPubkey) ? `${m.label}: ${address}` : address;
+  }).join('\n');
+}
+
+async function onGroupSelected() {
+  const group = selectedGroup();
+  document.getElementById('groupName').value = group ? group.name : '';
+  document.getElementById('groupMembers').value = group ? formatGroupMembers(group.members) : '';
+  document.getElementById('groupDeleteBtn').disabled = !group;
+  document.getElementById('groupAnalyzeBtn').disabled = !group;
+  const results = document.getElementById('groupResults');
+  results.innerHTML = '';
+  if (!group) return;
+  // Show the latest report of the group, if any
+  try {
+    const res = await fetch(`/api/groups/${group.id}/report`);
+    if (res.ok) displayGroupReport(await res.json());
+  } catch (e) {
+    console.warn('[groups] Could not load report:', e);
+  }
+}
+
+async function saveGroup() {
+  const group = selectedGroup();
+  const members = parseGroupMembers(document.getElementById('groupMembers').value).map(member => {
+    // Fleet lists set through the API are not editable here: keep them for the same address
+    const previous = group && group.members.find(m => (m.profileId || m.walletPubkey) === (member.profileId || member.walletPubkey));
+    return previous ? { ...previous, ...member, label: member.label || previous.label } : member;
+  });
+  const body = { name: document.getElementById('groupName').value.trim(), members };
+  const res = await fetch(group ? `/api/groups/${group.id}` : '/api/groups', {
+    method: group ? 'PUT' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    document.getElementById('groupResults').innerHTML = `<div class="error">${escapeGroupHtml(data.error || 'Failed to save group')}</div>`;
+    return;
+  }
+  await loadGroups(data.id);
+}
+
+async function deleteGroup() {
+  const group = selectedGroup();
+  if (!group || !confirm(`Delete group "${group.name}"?`)) return;
+  await fetch(`/api/groups/${group.id}`, { method: 'DELETE' });
+  await loadGroups('');
+}
+
+function stopGroupAnalysis() {
+  if (groupSource) groupSource.close();
+  groupSource = null;
+  document.getElementById('groupAnalyzeBtn').disabled = !selectedGroup();
+}
+
+async function analyzeGroup() {
+  const group = selectedGroup();
+  if (!group) return;
+  const results = document.getElementById('groupResults');
+  const hours = Number(document.getElementById('groupHours').value) || 24;
+  stopGroupAnalysis();
+  document.getElementById('groupAnalyzeBtn').disabled = true;
+  results.innerHTML = '<div class="loading">Starting group analysis...</div>';
+
+  const res = await fetch(`/api/groups/${group.id}/analyze`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ hours, refresh: document.getElementById('groupRefresh').checked })
+  });
+  const job = await res.json();
+  if (!res.ok) {
+    results.innerHTML = `<div class="error">${escapeGroupHtml(job.error || 'Failed to start group analysis')}</div>`;
+    stopGroupAnalysis();
+    return;
+  }
+
+  // Member progress is shown under the overall progress
+  let overall = 'Queued...';
+  let memberLine = '';
+  groupSource = new EventSource(job.eventsUrl);
+  groupSource.onmessage = (event) => {
+    const data = JSON.parse(event.data);
+    if (data.type === 'progress') overall = `${data.message} — ${data.percentage}%`;
+    if (data.type === 'member-progress') memberLine = `${data.member}: ${data.message || ''}${data.percentage ? ` (${data.percentage}%)` : ''}`;
+    if (data.type === 'member-error') memberLine = `${data.member}: ${data.error}`;
+    if (data.type === 'complete') {
+      displayGroupReport(data);
+      return;
+    }
+    if (data.type === 'job' && ['completed', 'failed', 'cancelled'].includes(data.status)) {
+      if (data.status !== 'completed') results.innerHTML = `<div class="error">Group analysis ${data.status}${data.error ? `: ${escapeGroupHtml(data.error)}` : ''}</div>`;
+      stopGroupAnalysis();
+      return;
+    }
+    results.innerHTML = `<div class="loading">${escapeGroupHtml(overall)}<br><span style="font-size:11px; color:#7a8ba0; margin-top:8px; display:block;">${escapeGroupHtml(memberLine)}</span></div>`;
+  };
+  groupSource.onerror = () => {
+    // EventSource reconnects by itself (Last-Event-ID); give up only once the stream is closed
+    if (groupSource && groupSource.readyState === EventSource.CLOSED) stopGroupAnalysis();
+  };
+}
+
+function groupSol(lamports) {
+  return (lamports / 1e9).toFixed(6);
+}
+
+function displayGroupReport(report) {
+  const results = document.getElementById('groupResults');
+  const totals = report.totals;
+  const usd = totals.feesUsd !== null ? totals.feesUsd.toFixed(2) : feeUsd(totals.sageFees);
+  const members = report.members.slice().sort((a, b) => b.sageFees - a.sageFees);
+  const maxFee = Math.max(1, ...members.map(m => m.sageFees));
+
+  let html = `
+    <div class="analysis-period" style="margin-bottom:12px;color:#9aa6b2;font-size:14px;">${escapeGroupHtml(report.name)} — ${escapeGroupHtml(report.period)} (generated ${new Date(report.generatedAt).toLocaleString()})</div>
+    <div class="stats-grid">
+      <div class="stat-card">
+        <div class="stat-label">Members</div>
+        <div class="stat-value">${totals.members - totals.failedMembers}/${totals.members}</div>
+      </div>
+      <div class="stat-card">
+        <div class="stat-label">Transactions</div>
+        <div class="stat-value">${totals.transactions}</div>
+      </div>
+      <div class="stat-card">
+        <div class="stat-label">Total Fees</div>
+        <div class="stat-value highlight">${groupSol(totals.sageFees)} SOL <span style="color:#7dd3fc;font-size:13px;">($${usd})</span></div>
+      </div>
+      <div class="stat-card">
+        <div class="stat-label">Wasted on Failures</div>
+        <div class="stat-value">${groupSol(totals.wastedFee)} SOL <span style="color:#9aa6b2;font-size:13px;">(${totals.failed} tx)</span></div>
+      </div>
+    </div>
+
+    <h2 class="section-title">Members</h2>
+    <table>
+      <thead><tr><th>Member</th><th>Tx</th><th>Fees</th><th>Share</th><th>Priority</th><th>Failure rate</th><th>Wasted</th><th>Fleets</th><th>Top operation</th></tr></thead>
+      <tbody>
+  `;
+  members.forEach(m => {
+    const color = memberColors[report.members.indexOf(m) % memberColors.length];
+    if (m.error) {
+      html += `<tr><td>${escapeGroupHtml(m.label)}</td><td colspan="8" style="color:#f87171;">${escapeGroupHtml(m.error)}</td></tr>`;
+      return;
+    }
+    html += `
+        <tr>
+          <td><span style="display:inline-block;width:8px;height:8px;background:${color};margin-right:6px;"></span>${escapeGroupHtml(m.label)}</td>
+          <td>${m.transactions}</td>
+          <td class="fee-value">${groupSol(m.sageFees)} SOL <span style="color:#7dd3fc;">($${m.feesUsd !== null ? m.feesUsd.toFixed(2) : feeUsd(m.sageFees)})</span>
+            <div style="height:3px;background:${color};width:${((m.sageFees / maxFee) * 100).toFixed(1)}%;margin-top:3px;"></div></td>
+          <td>${m.feeShare.toFixed(1)}%</td>
+          <td>${m.sageFees > 0 ? ((m.priorityFees / m.sageFees) * 100).toFixed(1) : '0.0'}%</td>
+          <td>${m.failureRate.toFixed(1)}%</td>
+          <td>${groupSol(m.wastedFee)} SOL</td>
+          <td>${m.fleets}</td>
+          <td>${escapeGroupHtml(m.topOperation || '-')}</td>
+        </tr>
+    `;
+  });
+  html += '</tbody></table>';
+
+  if (report.feeSeries && report.feeSeries.points.length > 1) {
+    html += `
+    <h2 class="section-title">Fees over time</h2>
+    <div class="chart-card" style="height:260px;"><canvas id="groupSeriesChart"></canvas></div>
+    `;
+  }
+
+  // Operations with a column per member
+  const labels = members.filter(m => !m.error).map(m => m.label);
+  const operations = Object.entries(report.byOperation).sort((a, b) => b[1].totalFee - a[1].totalFee);
+  html += `
+    <h2 class="section-title">Operations by Member</h2>
+    <table>
+      <thead><tr><th>Operation</th><th>Total</th>${labels.map(l => `<th>${escapeGroupHtml(l)}</th>`).join('')}</tr></thead>
+      <tbody>
+  `;
+  operations.forEach(([operation, op]) => {
+    html += `<tr><td>${escapeGroupHtml(operation)}</td><td>${op.count}x · ${groupSol(op.totalFee)} SOL</td>`;
+    labels.forEach(label => {
+      const entry = op.byMember[label];
+      html += `<td>${entry ? `${entry.count}x · ${groupSol(entry.totalFee)}` : '<span style="color:#4b5563;">-</span>'}</td>`;
+    });
+    html += '</tr>';
+  });
+  html += '</tbody></table>';
+
+  const maxFleets = 25;
+  html += `
+    <h2 class="section-title">Top Fleets</h2>
+    <table>
+      <thead><tr><th>Fleet</th><th>Member</th><th>Ops</th><th>Fees</th><th>Share</th></tr></thead>
+      <tbody>
+  `;
+  report.fleets.slice(0, maxFleets).forEach(f => {
+    const name = f.isRented ? `<span style="color:#fbbf24;font-weight:800">${escapeGroupHtml(f.fleet)}</span>` : escapeGroupHtml(f.fleet);
+    html += `<tr><td>${name}</td><td>${escapeGroupHtml(f.member)}</td><td>${f.operations}</td><td class="fee-value">${groupSol(f.totalFee)} SOL</td><td>${f.feeShare.toFixed(1)}%</td></tr>`;
+  });
+  if (report.fleets.length > maxFleets) {
+    html += `<tr><td colspan="5" style="color:#7a8ba0;">… ${report.fleets.length - maxFleets} more fleets</td></tr>`;
+  }
+  html += '</tbody></table>';
+
+  results.innerHTML = html;
+  if (document.getElementById('groupSeriesChart')) renderGroupSeriesChart(report, members);
+}
+
+// Stacked fees per bucket, one dataset per member
+function renderGroupSeriesChart(report, members) {
+  const canvas = document.getElementById('groupSeriesChart');
+  const points = report.feeSeries.points;
+  const dayBuckets = report.feeSeries.bucket !== 'hour';
+  new Chart(canvas, {
+    type: 'bar',
+    data: {
+      labels: points.map(p => dayBuckets ? new Date(p.start).toLocaleDateString() : new Date(p.start).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit' })),
+      datasets: members.filter(m => !m.error).map(m => ({
+        label: m.label,
+        data: points.map(p => (p.byMember[m.label]?.totalFee || 0) / 1e9),
+        backgroundColor: memberColors[report.members.indexOf(m) % memberColors.length]
+      }))
+    },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      scales: {
+        x: { stacked: true, ticks: { color: '#7a8ba0' }, grid: { color: '#1a1d28' } },
+        y: { stacked: true, ticks: { color: '#7a8ba0' }, grid: { color: '#1a1d28' }, title: { display: true, text: 'SOL', color: '#7a8ba0' } }
+      },
+      plugins: { legend: { labels: { color: '#b8c0cc' } } }
+    }
+  });
+}
+
+document.addEventListener('DOMContentLoaded', () => {
+  document.getElementById('tab-groups')?.addEventListener('click', showGroups);
+  document.getElementById('groupSelect')?.addEventListener('change', () => onGroupSelected());
+});
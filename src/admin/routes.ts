@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import express, { NextFunction, Request, Response } from 'express';
+import { RpcPoolManager, getGlobalRpcPoolManager } from '../utils/rpc/rpc-pool-manager.js';
+import { isRpcSelectionStrategyName, RPC_SELECTION_STRATEGIES } from '../utils/rpc/selection-strategies.js';
+import { listPoolAudit } from '../utils/rpc/pool-audit.js';
+import { RpcEntryConfig } from '../utils/rpc/types.js';
+import {
+  AdminErrorResponse,
+  RpcPoolAuditResponse,
+  RpcPoolChangeResponse,
+  RpcPoolResponse,
+  RpcProbeResponse,
+} from './types.js';
+
+// Fields an admin may set on an endpoint (name is the identity and cannot change)
+const EDITABLE_FIELDS: (keyof RpcEntryConfig)[] = [
+  'url', 'ws', 'maxConcurrent', 'cooldownMs', 'backoffBaseMs', 'capabilities', 'weight', 'disabled', 'rateLimit',
+];
+
+/**
+ * Requests must carry the ADMIN_TOKEN value in the x-admin-token header;
+ * without ADMIN_TOKEN configured the admin API is disabled.
+ */
+export function requireAdminToken(req: Request, res: Response<AdminErrorResponse>, next: NextFunction) {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return res.status(403).json({ error: 'admin API disabled', message: 'Set ADMIN_TOKEN to enable it' });
+  }
+  if (!tokenMatches(req.header('x-admin-token'), token)) {
+    return res.status(401).json({ error: 'invalid admin token' });
+  }
+  next();
+}
+
+// Constant-time comparison (of digests, so the token length doesn't leak either)
+function tokenMatches(given: string | undefined, expected: string): boolean {
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(given ?? ''), digest(expected));
+}
+
+function actorOf(req: Request): string {
+  return `admin@${req.ip}`;
+}
+
+function pickEditable(body: any): { patch: Partial<RpcEntryConfig>; invalid?: string } {
+  const patch: Partial<RpcEntryConfig> = {};
+  for (const key of EDITABLE_FIELDS) {
+    if (body?.[key] !== undefined) (patch as any)[key] = body[key];
+  }
+  if (patch.weight !== undefined && patch.weight !== null && (typeof patch.weight !== 'number' || patch.weight < 0)) {
+    return { patch, invalid: 'weight must be a number >= 0' };
+  }
+  if (patch.disabled !== undefined && typeof patch.disabled !== 'boolean') {
+    return { patch, invalid: 'disabled must be a boolean' };
+  }
+  if (patch.url !== undefined && (typeof patch.url !== 'string' || !/^https?:\/\//.test(patch.url))) {
+    return { patch, invalid: 'url must be an http(s) URL' };
+  }
+  return { patch };
+}
+
+export function createRpcAdminRouter(poolManager: RpcPoolManager = getGlobalRpcPoolManager()) {
+  const router = express.Router();
+  router.use(requireAdminToken);
+
+  const findMetrics = (name: string) => poolManager.getRpcMetrics().find(m => m.name === name);
+
+  // GET /api/admin/rpc - Endpoints with settings and health (URLs redacted)
+  router.get('/', (_req, res: Response<RpcPoolResponse>) => {
+    res.json({
+      strategy: poolManager.getSelectionStrategy(),
+      endpoints: poolManager.getRpcMetrics(),
+    });
+  });
+
+  // GET /api/admin/rpc/audit?limit=100 - Persisted log of pool changes, newest first
+  router.get('/audit', async (req, res: Response<RpcPoolAuditResponse | AdminErrorResponse>) => {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 1000);
+    try {
+      res.json({ entries: await listPoolAudit(limit) });
+    } catch (err: any) {
+      res.status(500).json({ error: 'Failed to read audit log', message: err.message });
+    }
+  });
+
+  // POST /api/admin/rpc/reload - Re-read the pool file now
+  router.post('/reload', async (req, res: Response<RpcPoolChangeResponse | AdminErrorResponse>) => {
+    try {
+      res.json({ success: true, diff: await poolManager.reloadPool(actorOf(req)) });
+    } catch (err: any) {
+      res.status(400).json({ error: 'Invalid pool file, current pool kept', message: err.message });
+    }
+  });
+
+  // PUT /api/admin/rpc/strategy - { strategy } switches the selection strategy and stores it in the pool file
+  router.put('/strategy', async (req, res: Response<{ success: true; strategy: string } | AdminErrorResponse>) => {
+    const strategy = req.body?.strategy;
+    if (!isRpcSelectionStrategyName(strategy)) {
+      return res.status(400).json({ error: 'Invalid strategy', message: `Expected one of: ${RPC_SELECTION_STRATEGIES.join(', ')}` });
+    }
+    try {
+      await poolManager.updateSelectionStrategy(strategy, actorOf(req));
+      res.json({ success: true, strategy: poolManager.getSelectionStrategy() });
+    } catch (err: any) {
+      res.status(500).json({ error: 'Failed to update strategy', message: err.message });
+    }
+  });
+
+  // POST /api/admin/rpc - Add an endpoint ({ name, url, ...settings })
+  router.post('/', async (req, res: Response<RpcPoolChangeResponse | AdminErrorResponse>) => {
+    const name = req.body?.name;
+    if (!name || typeof name !== 'string') {
+      return res.status(400).json({ error: 'name required' });
+    }
+    const { patch, invalid } = pickEditable(req.body);
+    if (invalid || !patch.url) {
+      return res.status(400).json({ error: invalid || 'url required' });
+    }
+    if (findMetrics(name)) {
+      return res.status(409).json({ error: `Endpoint ${name} already exists` });
+    }
+    try {
+      const diff = await poolManager.addEndpoint({ ...patch, name, url: patch.url }, actorOf(req));
+      res.status(201).json({ success: true, diff });
+    } catch (err: any) {
+      res.status(500).json({ error: 'Failed to add endpoint', message: err.message });
+    }
+  });
+
+  // PATCH /api/admin/rpc/:name - Change settings, e.g. { disabled: true }, { weight: 0.5 } or a rotated url (null clears a field)
+  router.patch('/:name', async (req, res: Response<RpcPoolChangeResponse | AdminErrorResponse>) => {
+    const { name } = req.params;
+    if (!findMetrics(name)) {
+      return res.status(404).json({ error: `Endpoint ${name} not found` });
+    }
+    const { patch, invalid } = pickEditable(req.body);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    if (Object.keys(patch).length === 0) {
+      return res.status(400).json({ error: 'Nothing to update', message: `Editable fields: ${EDITABLE_FIELDS.join(', ')}` });
+    }
+    try {
+      res.json({ success: true, diff: await poolManager.updateEndpoint(name, patch, actorOf(req)) });
+    } catch (err: any) {
+      res.status(500).json({ error: 'Failed to update endpoint', message: err.message });
+    }
+  });
+
+  // DELETE /api/admin/rpc/:name - Remove an endpoint from the pool file
+  router.delete('/:name', async (req, res: Response<RpcPoolChangeResponse | AdminErrorResponse>) => {
+    const { name } = req.params;
+    if (!findMetrics(name)) {
+      return res.status(404).json({ error: `Endpoint ${name} not found` });
+    }
+    try {
+      res.json({ success: true, diff: await poolManager.removeEndpoint(name, actorOf(req)) });
+    } catch (err: any) {
+      res.status(500).json({ error: 'Failed to remove endpoint', message: err.message });
+    }
+  });
+
+  // POST /api/admin/rpc/:name/probe - Probe now; success brings the endpoint back out of backoff
+  router.post('/:name/probe', async (req, res: Response<RpcProbeResponse | AdminErrorResponse>) => {
+    const { name } = req.params;
+    if (!findMetrics(name)) {
+      return res.status(404).json({ error: `Endpoint ${name} not found` });
+    }
+    try {
+      const ok = await poolManager.probeEndpoint(name, actorOf(req));
+      res.json({ name, ok, metrics: findMetrics(name) || null });
+    } catch (err: any) {
+      res.status(500).json({ error: 'Probe failed', message: err.message });
+    }
+  });
+
+  return router;
+}
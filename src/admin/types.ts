@@ -0,0 +1,28 @@
+// Response schemas for the admin API mounted under /api/admin
+
+import { RpcMetrics, RpcPoolAuditEntry, RpcPoolDiff, RpcSelectionStrategyName } from '../utils/rpc/types.js';
+
+export interface AdminErrorResponse {
+  error: string;
+  message?: string;
+}
+
+export interface RpcPoolResponse {
+  strategy: RpcSelectionStrategyName;
+  endpoints: RpcMetrics[];
+}
+
+export interface RpcPoolChangeResponse {
+  success: true;
+  diff: RpcPoolDiff;
+}
+
+export interface RpcProbeResponse {
+  name: string;
+  ok: boolean;
+  metrics: RpcMetrics | null;
+}
+
+export interface RpcPoolAuditResponse {
+  entries: RpcPoolAuditEntry[];
+}
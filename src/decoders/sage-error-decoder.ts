@@ -0,0 +1,115 @@
+/**
+ * SAGE Error Decoder
+ *
+ * Names the error a failed transaction ended with: custom error codes of the SAGE program
+ * come from the SAGE IDL, framework codes (< 6000) from Anchor, and the AnchorError log
+ * line is used when the program wrote one (which also covers the other Anchor programs).
+ */
+
+import { SAGE_IDL } from '@staratlas/sage';
+import { Idl, LangErrorCode, LangErrorMessage } from '@project-serum/anchor';
+import { SAGE_PROGRAM_ID } from '../examples/sage-classifier.js';
+
+// First custom error code of an Anchor program (#[error_code] enums start here)
+const ANCHOR_CUSTOM_ERROR_OFFSET = 6000;
+
+export type DecodedTransactionError = {
+  // Program whose instruction failed, when the logs tell
+  programId?: string;
+  // Instruction being executed when it failed ("Program log: Instruction: X")
+  instruction?: string;
+  code?: number;
+  // Error name, e.g. NotEnoughFuel, ConstraintHasOne, InsufficientFundsForFee, Custom:6099
+  name: string;
+  message?: string;
+};
+
+// Custom error declared by an IDL ({ code, name, msg? })
+export type IdlError = NonNullable<Idl['errors']>[number];
+
+let sageErrors: Map<number, { name: string; msg?: string }> | null = null;
+let anchorErrorNames: Map<number, string> | null = null;
+
+/**
+ * Custom errors of the SAGE program, as declared by its IDL
+ */
+export function getSageIdlErrors(idl: Idl = SAGE_IDL): IdlError[] {
+  return idl.errors || [];
+}
+
+function getSageErrors(): Map<number, { name: string; msg?: string }> {
+  if (!sageErrors) {
+    sageErrors = new Map(getSageIdlErrors().map(e => [e.code, { name: e.name, msg: e.msg }]));
+  }
+  return sageErrors;
+}
+
+function getAnchorErrorNames(): Map<number, string> {
+  if (!anchorErrorNames) {
+    anchorErrorNames = new Map(Object.entries(LangErrorCode).map(([name, code]) => [code, name]));
+  }
+  return anchorErrorNames;
+}
+
+/**
+ * Name of a custom error code raised by `programId`
+ */
+export function decodeCustomError(code: number, programId?: string): { name: string; message?: string } {
+  if (code < ANCHOR_CUSTOM_ERROR_OFFSET) {
+    const name = getAnchorErrorNames().get(code);
+    if (name) return { name, message: LangErrorMessage.get(code) };
+  } else if (!programId || programId === SAGE_PROGRAM_ID) {
+    const sage = getSageErrors().get(code);
+    if (sage) return { name: sage.name, message: sage.msg };
+  }
+  return { name: `Custom:${code}` };
+}
+
+/**
+ * Decode the error of a failed transaction from its `err` and log messages; null for a successful one
+ */
+export function decodeTransactionError(tx: { err: any; logMessages?: string[] }): DecodedTransactionError | null {
+  if (!tx.err) return null;
+  const logs = tx.logMessages || [];
+
+  // The failing program and the instruction it was running
+  let programId: string | undefined;
+  let instruction: string | undefined;
+  let failure: string | undefined;
+  let lastInstruction: string | undefined;
+  for (const line of logs) {
+    const ix = line.match(/^Program log: Instruction: (\w+)/);
+    if (ix) lastInstruction = ix[1];
+    const failed = line.match(/^Program (\w+) failed: (.*)$/);
+    if (failed) {
+      programId = failed[1];
+      failure = failed[2];
+      instruction = lastInstruction;
+      break;
+    }
+  }
+
+  // "AnchorError occurred. Error Code: NotEnoughFuel. Error Number: 6012. Error Message: ..."
+  const anchorLine = logs.find(line => line.includes('AnchorError') && line.includes('Error Code:'));
+  if (anchorLine) {
+    const name = anchorLine.match(/Error Code: (\w+)/)?.[1];
+    const code = anchorLine.match(/Error Number: (\d+)/)?.[1];
+    const message = anchorLine.match(/Error Message: (.*?)\.?$/)?.[1];
+    if (name) return { programId, instruction, code: code ? Number(code) : undefined, name, message };
+  }
+
+  // { InstructionError: [index, { Custom: n }] } or [index, "InvalidAccountData"]
+  const instructionError = tx.err?.InstructionError;
+  if (Array.isArray(instructionError)) {
+    const detail = instructionError[1];
+    if (detail && typeof detail === 'object' && typeof detail.Custom === 'number') {
+      return { programId, instruction, code: detail.Custom, ...decodeCustomError(detail.Custom, programId) };
+    }
+    const name = typeof detail === 'string' ? detail : Object.keys(detail || {})[0] || 'InstructionError';
+    return { programId, instruction, name, message: failure };
+  }
+
+  // Transaction-level errors: "InsufficientFundsForFee", { InsufficientFundsForRent: { account_index } }, ...
+  const name = typeof tx.err === 'string' ? tx.err : Object.keys(tx.err)[0] || 'Unknown';
+  return { programId, instruction, name, message: failure };
+}
@@ -0,0 +1,439 @@
+/**
+ * SAGE Transaction Decoder
+ *
+ * Human-friendly details of one transaction for /api/tx-details: the shared classification,
+ * the fleet it ran on, the crafting recipe/process accounts it touched (crafting decoders,
+ * then the Rust decoder) and the materials burned or claimed. Pure: the caller fetches the
+ * accounts listed by transactionDetailsAccounts() and passes them in.
+ */
+
+import { AccountInfo, PublicKey } from '@solana/web3.js';
+import { toTransactionInfo } from '../examples/account-transactions.js';
+import { classifySageTransaction, CraftingAction, SageClassification, SAGE_PROGRAM_ID } from '../examples/sage-classifier.js';
+import { decodeCraftableItem, decodeCraftingProcess, decodeRecipe } from './crafting-decoder.js';
+import { decodeAccountWithRust } from './rust-wrapper.js';
+
+const CRAFTING_PROGRAM_ID = 'CRAFT2RPXPJWCEix4WpJST3E7NLf79GTqZUL75wngXo5';
+// Never fleets nor crafting accounts
+const PROGRAM_ACCOUNTS = new Set([SAGE_PROGRAM_ID, 'ComputeBudget111111111111111111111111111111', '11111111111111111111111111111111']);
+// Fleet accounts: 536 bytes owned by SAGE, label at bytes 170-201
+const FLEET_ACCOUNT_SIZE = 536;
+const FLEET_LABEL_OFFSET = 170;
+// Accounts decoded per SAGE transaction (instruction accounts first, then the rest of the message)
+const MAX_DECODED_ACCOUNTS = 24;
+
+// Token mints of crafting inputs and outputs
+export const MATERIAL_MINTS: Record<string, string> = {
+  'RfZkpkTYoud6ewWbTrKjQEtRQEJ1n4WkWdIofxRMUjAQ': 'Hydrogen',
+  'HYDR4EPHJcDPcaLYUcNCtrXUdt1PnaN4MvE655pevBYp': 'Hydrogen', // Recipe item variant
+  'Fsox7imqcJo2ZrARpTfq4ZHsPQ1peVnvaPwtVB4hokHo': 'Carbon',
+  '4FVBwPR1GuuhXwPaFWGQwm1osYQVnvKUu76jcFbGwCoC': 'Copper',
+  '6aeaH8q7unhosrg3rn3eqi3pUz1DxDyU2aQvGPF2s6dg': 'Iron',
+  '2cKBVnG5xh4jS4Vo7713RhrejrKbLK7L3e8DePAd4nw9': 'Nickel',
+  'BWm75a4GoJfBS2NvNV8e8LprdUEDh94AMB9xkpopJECC': 'Silicon',
+  '5CifeGtRNtAw5GDW7TSJZsGhEbmJxaAHf5KcqEA1DF3r': 'Gold',
+  'GAMEzqJehF8yAnKiTARUuhZMvLvkZVAsCVri5vSfemLr': 'Platinum',
+  'AjVrjRvmz3bquxntsBkM7GLZrCPutrtfLYXT4Lxn7MAE': 'Titanium',
+  'MASS9GqtJz6ABisAxcUn3FeR4phMqH1XfG6LPKJePog': 'Biomass',
+  'foodQJAztMzX1DKpLaiounNe2BDMds5RNuPC6jsNrDG': 'Food',
+  'fueL3hBZjLLLJHiFH9cqZoozTG3XQZ53diwFPwbzNim': 'Fuel', // Recipe item variant (Hydrogen)
+};
+
+// Crafting outputs, never burned as inputs
+const OUTPUT_MATERIALS = new Set(['Food', 'Fuel']);
+
+export type MaterialTransfer = {
+  mint: string;
+  material: string;
+  item?: string;
+  amount: string;
+  owner?: string;
+  source: 'balance-diff' | 'inner-instruction' | 'recipe-items';
+  preAmt?: string;
+  postAmt?: string;
+  parsedInfo?: any;
+};
+
+export type FleetMoveDetails = {
+  type: 'MoveSubwarp';
+  from_sector: string;
+  to_sector: string;
+  current_sector: string;
+  departure_time: number;
+  arrival_time: number;
+  fuel_expenditure: number;
+};
+
+export type TransactionAction = {
+  action: CraftingAction | 'CRAFT2RP_crafting';
+  decodedAccounts: any[];
+  material?: string | null;
+  materialMint?: string | null;
+  recipeName?: string | null;
+  craftingGroupKey?: string | null;
+  quantity?: string | null;
+  recipe?: any;
+  process?: any;
+  burnedMaterials?: MaterialTransfer[];
+  claimedItems?: MaterialTransfer[];
+  instructionType?: string | null;
+  moveDetails?: FleetMoveDetails | null;
+  fleetAccount?: string | null;
+  fleetName?: string | null;
+};
+
+export type TransactionDetails = {
+  txid: string;
+  operation: string;
+  groupedOperation: string;
+  classification: SageClassification;
+  material: string | null;
+  materialMint?: string | null;
+  recipeName?: string | null;
+  instructionType?: string | null;
+  moveDetails?: FleetMoveDetails | null;
+  fleetAccount?: string | null;
+  fleetName?: string | null;
+  claimedItems?: MaterialTransfer[];
+  burnedMaterials?: MaterialTransfer[];
+  quantity: string | null;
+  recipe: string | null;
+  process: string | null;
+  details: string | null;
+  actions: TransactionAction[];
+  messageAccountKeys?: string[];
+};
+
+type AccountMap = Map<string, AccountInfo<Buffer> | null>;
+
+function keyToString(key: any): string | undefined {
+  if (!key) return undefined;
+  if (typeof key === 'string') return key;
+  return key.pubkey?.toString?.() || key.toString?.();
+}
+
+function messageAccountKeys(tx: any): string[] {
+  const keys = tx.transaction?.message?.accountKeys;
+  return Array.isArray(keys) ? keys.map(keyToString).filter((k): k is string => !!k) : [];
+}
+
+// Accounts of the instructions of `programId`, in order, without duplicates
+function instructionAccounts(tx: any, programId: string): string[] {
+  const keys: string[] = [];
+  for (const ix of tx.transaction?.message?.instructions || []) {
+    if (ix.programId?.toString() !== programId) continue;
+    for (const acc of ix.accounts || []) {
+      const key = keyToString(acc);
+      if (key && !keys.includes(key)) keys.push(key);
+    }
+  }
+  return keys;
+}
+
+function hasInstructionOf(tx: any, programId: string): boolean {
+  return (tx.transaction?.message?.instructions || []).some((ix: any) => ix.programId?.toString() === programId);
+}
+
+/**
+ * Accounts decodeTransactionDetails() needs fetched: the message accounts (fleet lookup) and
+ * the accounts of the crafting program instructions
+ */
+export function transactionDetailsAccounts(tx: any): string[] {
+  const keys = new Set(messageAccountKeys(tx).filter(k => !PROGRAM_ACCOUNTS.has(k)));
+  instructionAccounts(tx, CRAFTING_PROGRAM_ID).forEach(k => keys.add(k));
+  return Array.from(keys);
+}
+
+// Instruction name and subwarp movement from "Program log: ..." lines
+function parseLogs(logMessages: string[]): { instructionType: string | null; moveDetails: FleetMoveDetails | null } {
+  let instructionType: string | null = null;
+  let moveDetails: FleetMoveDetails | null = null;
+  for (const log of logMessages) {
+    const instrMatch = log.match(/Program log: Instruction: (\w+)/);
+    if (instrMatch) instructionType = instrMatch[1];
+    const subwarpMatch = log.match(/Current state: MoveSubwarp\(MoveSubwarp \{ from_sector: \[([^\]]+)\], to_sector: \[([^\]]+)\], current_sector: \[([^\]]+)\], departure_time: (\d+), arrival_time: (\d+), fuel_expenditure: (\d+)/);
+    if (subwarpMatch) {
+      moveDetails = {
+        type: 'MoveSubwarp',
+        from_sector: subwarpMatch[1],
+        to_sector: subwarpMatch[2],
+        current_sector: subwarpMatch[3],
+        departure_time: parseInt(subwarpMatch[4]),
+        arrival_time: parseInt(subwarpMatch[5]),
+        fuel_expenditure: parseInt(subwarpMatch[6]),
+      };
+    }
+  }
+  return { instructionType, moveDetails };
+}
+
+// First SAGE fleet account among the message accounts, with its label
+function findFleet(keys: string[], accounts: AccountMap): { fleetAccount: string | null; fleetName: string | null } {
+  for (const key of keys) {
+    const info = accounts.get(key);
+    if (!info || info.data.length !== FLEET_ACCOUNT_SIZE || info.owner.toString() !== SAGE_PROGRAM_ID) continue;
+    const label = Buffer.from(info.data.slice(FLEET_LABEL_OFFSET, FLEET_LABEL_OFFSET + 32)).toString('utf8').replace(/\0/g, '').trim();
+    return { fleetAccount: key, fleetName: label || null };
+  }
+  return { fleetAccount: null, fleetName: null };
+}
+
+/**
+ * Decode account data with the crafting decoders (recipe, process, item; first match wins),
+ * keeping the Rust decoder's output alongside, or on its own when no crafting decoder matched
+ */
+export function decodeAccountData(data: Buffer): any | null {
+  let primary: any = null;
+  for (const [type, decode] of [['recipe', decodeRecipe], ['process', decodeCraftingProcess], ['item', decodeCraftableItem]] as const) {
+    try {
+      const result = decode(data);
+      if (result) {
+        primary = { type, ...result };
+        break;
+      }
+    } catch {
+      // not this account type
+    }
+  }
+  let rust: any = null;
+  try {
+    rust = decodeAccountWithRust(data);
+  } catch {
+    rust = null;
+  }
+  if (primary) {
+    if (rust) primary.rust_raw = rust.raw ?? JSON.stringify(rust);
+    return primary;
+  }
+  return rust ? { type: 'rust', rust } : null;
+}
+
+// Only crafting processes carry the quantity of the operation; recipes, items and domains don't
+function normalizeDecoded(decoded: any): any {
+  const normalized = { ...decoded };
+  const kind = String(decoded?.type || decoded?.kind || '').toLowerCase();
+  const isProcess = kind.includes('process') || (decoded?.crafting_id != null && decoded?.authority != null);
+  const isRecipeOrItem = kind.includes('recipe') || kind.includes('item') || kind.includes('domain');
+  if (isRecipeOrItem && !isProcess) {
+    delete normalized.quantity;
+    delete normalized.quantity_bigint;
+  }
+  if (isProcess && !isRecipeOrItem) {
+    try {
+      const quantity = decoded.quantity ?? decoded.data?.Process?.quantity ?? decoded.value?.quantity;
+      if (quantity != null) {
+        normalized.quantity_bigint = BigInt(String(quantity));
+        normalized.quantity = normalized.quantity_bigint.toString();
+      }
+    } catch {
+      // non-numeric quantity
+    }
+  }
+  return normalized;
+}
+
+function decodeAccounts(keys: string[], accounts: AccountMap): any[] {
+  const decoded: any[] = [];
+  for (const pubkey of keys) {
+    const info = accounts.get(pubkey);
+    if (!info?.data) continue;
+    const result = decodeAccountData(Buffer.from(info.data));
+    if (result) decoded.push({ pubkey, ...normalizeDecoded(result) });
+  }
+  return decoded;
+}
+
+function bytesToBase58(bytes: number[] | Uint8Array): string {
+  try {
+    return new PublicKey(bytes).toBase58();
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Materials burned and items claimed, from the token balance deltas and the inner token
+ * instructions. A gain matching a burn of the same mint and amount is the transfer into the
+ * crafting vault, not a claim.
+ */
+export function extractMaterialTransfers(tx: any): { burnedMaterials: MaterialTransfer[]; claimedItems: MaterialTransfer[] } {
+  let burnedMaterials: MaterialTransfer[] = [];
+  let claimedItems: MaterialTransfer[] = [];
+
+  try {
+    const preMap: Record<string, any> = {};
+    for (const p of tx.meta?.preTokenBalances || []) {
+      if (p) preMap[`${p.owner || ''}:${p.mint || ''}`] = p;
+    }
+    for (const p of tx.meta?.postTokenBalances || []) {
+      if (!p?.mint || !MATERIAL_MINTS[p.mint]) continue;
+      const material = MATERIAL_MINTS[p.mint];
+      const pre = preMap[`${p.owner || ''}:${p.mint}`];
+      const preAmt = pre?.uiTokenAmount?.amount ? BigInt(pre.uiTokenAmount.amount) : 0n;
+      const postAmt = p.uiTokenAmount?.amount ? BigInt(p.uiTokenAmount.amount) : 0n;
+      const delta = postAmt - preAmt;
+      const balances = { owner: p.owner, source: 'balance-diff' as const, preAmt: preAmt.toString(), postAmt: postAmt.toString() };
+      if (delta < 0n && !OUTPUT_MATERIALS.has(material)) {
+        burnedMaterials.push({ mint: p.mint, material, amount: (-delta).toString(), ...balances });
+      } else if (delta > 0n) {
+        claimedItems.push({ mint: p.mint, material, item: material, amount: delta.toString(), ...balances });
+      }
+    }
+    claimedItems = claimedItems.filter(c => !burnedMaterials.some(b => b.mint === c.mint && b.amount === c.amount));
+  } catch {
+    // malformed balances
+  }
+
+  try {
+    for (const inner of tx.meta?.innerInstructions || []) {
+      for (const inst of inner?.instructions || []) {
+        const parsed = inst?.parsed;
+        const parsedInfo = parsed?.info || inst?.info || parsed;
+        if (!parsedInfo) continue;
+        const amount = parsedInfo.amount || parsedInfo.tokenAmount?.amount || parsedInfo.uiTokenAmount?.amount;
+        const mint = parsedInfo.mint || parsedInfo.mintAddress || parsedInfo.tokenMint;
+        if (!amount || !mint || !MATERIAL_MINTS[mint]) continue;
+        const value = BigInt(String(amount));
+        if (value <= 0n) continue;
+        const material = MATERIAL_MINTS[mint];
+        const owner = parsedInfo.authority || parsedInfo.source || parsedInfo.owner || undefined;
+        const isBurn = typeof parsed?.type === 'string' && parsed.type.toLowerCase().includes('burn');
+        if (isBurn && !OUTPUT_MATERIALS.has(material)) {
+          burnedMaterials.push({ mint, material, amount: value.toString(), owner, source: 'inner-instruction', parsedInfo });
+        } else {
+          claimedItems.push({ mint, material, item: material, amount: value.toString(), owner, source: 'inner-instruction', parsedInfo });
+        }
+      }
+    }
+  } catch {
+    // non-numeric amounts
+  }
+
+  burnedMaterials = burnedMaterials.filter(b => !OUTPUT_MATERIALS.has(b.material));
+  return { burnedMaterials, claimedItems };
+}
+
+// Ingredients of the decoded recipe, used when no token movement shows what was burned
+function recipeItems(decodedAccounts: any[]): MaterialTransfer[] {
+  const items: MaterialTransfer[] = [];
+  for (const da of decodedAccounts) {
+    if (da?.type !== 'recipe' || !Array.isArray(da.value?.recipe_items)) continue;
+    for (const item of da.value.recipe_items) {
+      const mint = item?.mint ? bytesToBase58(item.mint) : '';
+      if (mint && MATERIAL_MINTS[mint]) items.push({ mint, material: MATERIAL_MINTS[mint], amount: String(item.amount || 0), source: 'recipe-items' });
+    }
+  }
+  return items;
+}
+
+function recipeNameOf(decodedAccounts: any[], recipe: any, burnedMaterials: MaterialTransfer[]): string | null {
+  const knownMint = decodedAccounts.find(a => a.mint && MATERIAL_MINTS[a.mint]);
+  if (knownMint) return MATERIAL_MINTS[knownMint.mint];
+  for (const item of recipe?.value?.recipe_items || []) {
+    const mint = item?.mint ? bytesToBase58(item.mint) : '';
+    if (mint && MATERIAL_MINTS[mint]) return MATERIAL_MINTS[mint];
+  }
+  return burnedMaterials[0]?.material ?? null;
+}
+
+// What was produced (claimed), else what was consumed (burned), else a decoded quantity
+function actionQuantityOf(claimedItems: MaterialTransfer[], burnedMaterials: MaterialTransfer[], decodedAccounts: any[]): string | null {
+  if (claimedItems.length > 0) return claimedItems[0].amount;
+  if (burnedMaterials.length > 0) return burnedMaterials[0].amount;
+  for (const da of decodedAccounts) {
+    if (da?.type !== 'process') continue;
+    const quantity = da.quantity ?? da.quantity_bigint ?? da.value?.quantity ?? da.data?.Process?.quantity ?? da.decoded?.quantity;
+    if (quantity != null) return String(quantity);
+  }
+  // Any other decoded quantity, recipes excepted (their fields mean something else)
+  for (const da of decodedAccounts) {
+    if (!da || da.type === 'recipe' || da.kind?.includes?.('Recipe')) continue;
+    const quantity = da.quantity ?? da.quantity_bigint;
+    if (quantity != null) return String(quantity);
+  }
+  return null;
+}
+
+function summarizeDecoded(obj: any): string | null {
+  if (!obj) return null;
+  if (typeof obj === 'string' || typeof obj === 'number') return String(obj);
+  try {
+    return obj.recipe_pubkey || obj.recipeId || obj.recipe || obj.mint || obj.id || obj.name || JSON.stringify(obj, (_k, v) => (typeof v === 'bigint' ? v.toString() : v)).slice(0, 160);
+  } catch {
+    return String(obj);
+  }
+}
+
+function detailsOf(decodedAccounts: any[]): string | null {
+  if (decodedAccounts.length === 0) return null;
+  return decodedAccounts.map(d => {
+    const type = d.type || d.decodedKind || '';
+    const pubkey = d.pubkey ? `${d.pubkey.substring(0, 8)}...` : '';
+    const summary = summarizeDecoded(d);
+    return `${type}${pubkey ? ' ' + pubkey : ''}${summary ? ' ' + summary : ''}`.trim();
+  }).join(' | ');
+}
+
+/**
+ * Details of a parsed transaction (getParsedTransaction result) from the accounts listed by
+ * transactionDetailsAccounts(). BigInt quantities are kept: serialize with a replacer.
+ */
+export function decodeTransactionDetails(txid: string, tx: any, accounts: AccountMap): TransactionDetails {
+  const classification = classifySageTransaction(toTransactionInfo({ signature: txid, slot: tx.slot, blockTime: tx.blockTime, err: tx.meta?.err ?? null }, tx));
+  const keys = messageAccountKeys(tx);
+  const actions: TransactionAction[] = [];
+
+  if (hasInstructionOf(tx, SAGE_PROGRAM_ID)) {
+    const { instructionType, moveDetails } = parseLogs(tx.meta?.logMessages || []);
+    const { fleetAccount, fleetName } = findFleet(keys, accounts);
+    const candidates = Array.from(new Set([...instructionAccounts(tx, SAGE_PROGRAM_ID), ...keys])).slice(0, MAX_DECODED_ACCOUNTS);
+    const decodedAccounts = decodeAccounts(candidates, accounts);
+    const { burnedMaterials: burned, claimedItems } = extractMaterialTransfers(tx);
+    const burnedMaterials = burned.length > 0 ? burned : recipeItems(decodedAccounts);
+    const recipe = decodedAccounts.find(a => a.type === 'recipe') || null;
+    const process = decodedAccounts.find(a => a.type === 'process') || null;
+    const recipeName = recipeNameOf(decodedAccounts, recipe, burnedMaterials);
+    actions.push({
+      action: classification.isCrafting && classification.craftingAction ? classification.craftingAction : (claimedItems.length > 0 ? 'crafting_claim' : 'crafting_start'),
+      material: null,
+      materialMint: null,
+      recipeName,
+      craftingGroupKey: recipe?.pubkey || recipeName || null,
+      quantity: actionQuantityOf(claimedItems, burnedMaterials, decodedAccounts),
+      recipe,
+      process,
+      decodedAccounts,
+      burnedMaterials,
+      claimedItems,
+      instructionType,
+      moveDetails,
+      fleetAccount,
+      fleetName,
+    });
+  }
+  if (hasInstructionOf(tx, CRAFTING_PROGRAM_ID)) {
+    actions.push({ action: 'CRAFT2RP_crafting', decodedAccounts: decodeAccounts(instructionAccounts(tx, CRAFTING_PROGRAM_ID), accounts) });
+  }
+
+  const base = { txid, operation: classification.operation, groupedOperation: classification.groupedOperation, classification, actions };
+  const action = actions[0];
+  if (!action) return { ...base, material: null, quantity: null, recipe: null, process: null, details: null };
+
+  return {
+    ...base,
+    material: action.material ?? null,
+    materialMint: action.materialMint ?? null,
+    recipeName: action.recipeName ?? null,
+    instructionType: action.instructionType ?? null,
+    moveDetails: action.moveDetails ?? null,
+    fleetAccount: action.fleetAccount ?? null,
+    fleetName: action.fleetName ?? null,
+    claimedItems: action.claimedItems || [],
+    burnedMaterials: action.burnedMaterials || [],
+    quantity: action.quantity ?? null,
+    recipe: summarizeDecoded(action.recipe),
+    process: summarizeDecoded(action.process),
+    details: detailsOf(action.decodedAccounts),
+    messageAccountKeys: keys,
+  };
+}
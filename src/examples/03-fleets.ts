@@ -5,12 +5,13 @@ import { Fleet, SAGE_IDL } from "@staratlas/sage";
 import { newConnection, newAnchorProvider, withRetry } from '../utils/anchor-setup.js';
 import { RpcPoolConnection } from '../utils/rpc/pool-connection.js';
 import { getRpcMetrics } from '../utils/rpc-pool.js';
+import { abortableSleep, isAbortError, throwIfAborted } from '../utils/rpc/abort.js';
 import { loadKeypair } from '../utils/wallet-setup.js';
 
 const SAGE_PROGRAM_ID = "SAGE2HAwep459SNq61LHvjxPk4pLPEJLoMETef7f7EE";
 const SRSLY_PROGRAM_ID = "SRSLY1fq9TJqCk1gNSE7VZL2bztvTn9wm4VR8u8jMKT";
 
-export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walletPath: string, profileId: string) {
+export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walletPath: string, profileId: string, signal?: AbortSignal) {
   console.log(`[fleets] start ${profileId}`);
   const startTime = Date.now();
   
@@ -48,6 +49,7 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
   ) {
     let lastError: any;
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      throwIfAborted(signal);
       try {
         const result = await readAllFromRPC(conn, prog, dataClass, commitment, filters);
         return result;
@@ -59,7 +61,7 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
         
         if (attempt < maxRetries) {
           console.log(`[readAllFromRPC] Attempt ${attempt + 1} failed (${is429 ? '429' : 'other'}), retrying in ${delay}ms...`, err?.message);
-          await new Promise(resolve => setTimeout(resolve, delay));
+          await abortableSleep(delay, signal);
         }
       }
     }
@@ -135,12 +137,13 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
       let derivSuccesses = 0;
       let derivErrors = 0;
       
-      function derivSleep(ms: number) { return new Promise(r => setTimeout(r, ms)); }
+      function derivSleep(ms: number) { return abortableSleep(ms, signal); }
       
       // Create RPC pool connection once for reuse
       const poolConnection = new RpcPoolConnection(connection);
 
       for (const f of sampleFleets) {
+        throwIfAborted(signal);
         const fleetKey = (f as any).key.toString();
         
         // Use RPC pool for getSignaturesForAddress with timeout
@@ -153,6 +156,7 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
             timeoutMs: 4000,
             maxRetries: 1,
             logErrors: false,
+            signal,
           });
           
           if (signatures.length > 0) {
@@ -173,6 +177,7 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
               timeoutMs: 3000,
               maxRetries: 0,
               logErrors: false,
+              signal,
             });
             
             if (tx) {
@@ -232,6 +237,7 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
           let totalSigs = 0;
           let totalTxs = 0;
           for (const f of fallbackFleets) {
+            throwIfAborted(signal);
             const fk = (f as any).key.toString();
             let sigs: any[] = [];
             try {
@@ -241,6 +247,7 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
                 timeoutMs: 4000,
                 maxRetries: 1,
                 logErrors: false,
+                signal,
               });
             } catch (err) {
               console.warn(`[wallet-derive] Could not fetch signatures for ${fk}:`, (err as any)?.message || String(err));
@@ -256,6 +263,7 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
                   timeoutMs: 3000,
                   maxRetries: 0,
                   logErrors: false,
+                  signal,
                 });
                 totalTxs++;
                 if (!ptx) continue;
@@ -291,10 +299,12 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
             console.warn('[wallet-derive] Fallback scan failed to derive walletAuthority');
           }
         } catch (err) {
+          if (isAbortError(err)) throw err;
           console.error('[wallet-derive] Extended fallback failed:', err);
         }
       }
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error('Error deriving wallet:', error);
     }
   }
@@ -321,12 +331,13 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
       const SUCCESS_DECREASE_STEP = 10;
       let successStreak = 0;
       let consecutiveErrors = 0;
-      function sleep(ms: number) { return new Promise(r => setTimeout(r, ms)); }
+      function sleep(ms: number) { return abortableSleep(ms, signal); }
       
       // Create pool connection for wallet signature scanning
       const poolConnection2 = new RpcPoolConnection(connection);
       
       while (walletSignatures.length < maxToAnalyze) {
+        throwIfAborted(signal);
         fetchBatchCount++;
         
         // Use RPC pool with retry logic
@@ -341,6 +352,7 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
               timeoutMs: 8000,
               maxRetries: 1,
               logErrors: false,
+              signal,
             }
           );
           batchSuccess = true;
@@ -436,6 +448,7 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
       }
 
       for (let i = 0; i < walletSignatures.length; i += chunkSize) {
+        throwIfAborted(signal);
         const batch = walletSignatures.slice(i, i + chunkSize);
         const fetchPromises = batch.map(s =>
           withTimeout(
@@ -443,6 +456,7 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
               maxSupportedTransactionVersion: 0,
               timeoutMs,
               maxRetries: 0,
+              signal,
             }),
             timeoutMs + 500
           )
@@ -485,35 +499,39 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
           }
         }
         // brief pause between batches to reduce burst pressure
-        await new Promise(resolve => setTimeout(resolve, 50));
+        await abortableSleep(50, signal);
       }
       console.log(`[tx-analysis] Found ${fleetCandidates.size} potential fleet accounts from transactions`);
       
-      // Now verify which candidates are actually fleet accounts (536 bytes, SAGE owner)
-      let verifiedCount = 0;
-      for (const candidate of fleetCandidates) {
-        verifiedCount++;
-        if (verifiedCount % 50 === 0) {
-          console.log(`[tx-analysis] verified ${verifiedCount}/${fleetCandidates.size} candidates...`);
-        }
-        
-        try {
-          const accountInfo = await connection.getAccountInfo(new PublicKey(candidate));
-          if (!accountInfo) continue;
-          if (accountInfo.data.length !== 536) continue;
-          if (accountInfo.owner.toString() !== SAGE_PROGRAM_ID) continue;
-          
+      // Now verify which candidates are actually fleet accounts (536 bytes, SAGE owner), fetched in bulk
+      const candidateList = Array.from(fleetCandidates).filter(k => {
+        try { new PublicKey(k); return true; } catch { return false; }
+      });
+      try {
+        const infos = await poolConnection.getMultipleAccountsInfo(candidateList.map(k => new PublicKey(k)), {
+          timeoutMs,
+          maxRetries: 2,
+          logErrors: false,
+          signal,
+        });
+        candidateList.forEach((candidate, j) => {
+          const accountInfo = infos[j];
+          if (!accountInfo) return;
+          if (accountInfo.data.length !== 536) return;
+          if (accountInfo.owner.toString() !== SAGE_PROGRAM_ID) return;
           // This is a fleet account!
           additionalFleetKeys.add(candidate);
-        } catch {
-          // Skip invalid accounts
-        }
+        });
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        console.warn(`[tx-analysis] Candidate verification failed: ${err instanceof Error ? err.message : String(err)}`);
       }
       
       console.log(`[tx-analysis] Found ${additionalFleetKeys.size} verified fleet accounts with recent wallet activity`);
       
       // Fetch full fleet data for additional fleets
       for (const fleetKey of additionalFleetKeys) {
+        throwIfAborted(signal);
         try {
           // Fetch by direct pubkey via Anchor account fetch
           const fleetPubkey = new PublicKey(fleetKey);
@@ -531,10 +549,12 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
             walletHeuristicKeys.add(fleetKey);
           }
         } catch (error) {
+          if (isAbortError(error)) throw error;
           console.error(`Error fetching fleet ${fleetKey}:`, error);
         }
       }
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error('Error searching for rented fleets:', error);
     }
 
@@ -543,6 +563,7 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
       const poolConn = new RpcPoolConnection(connection);
       const sample = fleets.filter((f: any) => f && (f as any).key).slice(0, Math.min(20, fleets.length));
       for (const f of sample) {
+        throwIfAborted(signal);
         const fk = (f as any).key.toString();
         try {
           const sigs = await connection.getSignaturesForAddress(new PublicKey(fk), { limit: 2 });
@@ -554,6 +575,7 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
                 timeoutMs: 3000,
                 maxRetries: 0,
                 logErrors: false,
+                signal,
               });
               const payer = tx?.transaction.message.accountKeys?.[0]?.pubkey?.toString();
               if (payer === walletAuthority) { usedByWallet = true; break; }
@@ -562,10 +584,14 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
             }
           }
           if (usedByWallet) operatedByWalletKeys.add(fk);
-        } catch {}
+        } catch (err) {
+          if (isAbortError(err)) throw err;
+        }
       }
       console.log(`Wallet usage evidence on ${operatedByWalletKeys.size} fleets`);
-    } catch {}
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+    }
   }
 
   // NEW: SRSLY rentals scan - identify fleets referenced by the rentals program for this profile
@@ -578,17 +604,19 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
     let srslyRetries = 0;
     const maxSrslyRetries = 3;
     while (srslyRetries < maxSrslyRetries) {
+      throwIfAborted(signal);
       try {
         accounts = await withRetry(() => connection.getProgramAccounts(srslyProgramKey));
         console.log(`[SRSLY] Successfully fetched program accounts (attempt ${srslyRetries + 1})`);
         break;
       } catch (err) {
+        if (isAbortError(err)) throw err;
         srslyRetries++;
         const delay = Math.min(1000 * Math.pow(2, srslyRetries), 5000); // exponential backoff, max 5s
         console.warn(`[SRSLY] Fetch failed (attempt ${srslyRetries}/${maxSrslyRetries}): ${err instanceof Error ? err.message : String(err)}`);
         if (srslyRetries < maxSrslyRetries) {
           console.log(`[SRSLY] Retrying in ${delay}ms...`);
-          await new Promise(resolve => setTimeout(resolve, delay));
+          await abortableSleep(delay, signal);
         }
       }
     }
@@ -627,34 +655,34 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
       }
     }
 
-    // Batch-check candidates in chunks with error handling
+    // Batch-check candidates through the pool (getMultipleAccounts, failed chunks retried elsewhere)
     const candidates = Array.from(candidateKeys);
     console.log(`[SRSLY] Checking ${candidates.length} candidate fleet keys...`);
-    const chunkSize = 50;
     const discoveredFleetKeys: string[] = [];
-    for (let i = 0; i < candidates.length; i += chunkSize) {
-      const chunk = candidates.slice(i, i + chunkSize).map(k => new PublicKey(k));
-      try {
-        const infos = await connection.getMultipleAccountsInfo(chunk);
-        for (let j = 0; j < chunk.length; j++) {
-          const info = infos[j];
-          if (!info) continue;
-          if (info.owner.toBase58() === SAGE_PROGRAM_ID && info.data.length === 536) {
-            const k = chunk[j].toBase58();
-            if (!knownFleetKeys.has(k)) {
-              discoveredFleetKeys.push(k);
-              console.log(`[SRSLY] Discovered candidate fleet: ${k.substring(0, 8)}...`);
-            }
-          }
+    try {
+      const srslyPoolConnection = new RpcPoolConnection(connection);
+      const infos = await srslyPoolConnection.getMultipleAccountsInfo(candidates.map(k => new PublicKey(k)), {
+        maxRetries: 2,
+        logErrors: false,
+        signal,
+      });
+      candidates.forEach((k, j) => {
+        const info = infos[j];
+        if (!info) return;
+        if (info.owner.toBase58() === SAGE_PROGRAM_ID && info.data.length === 536 && !knownFleetKeys.has(k)) {
+          discoveredFleetKeys.push(k);
+          console.log(`[SRSLY] Discovered candidate fleet: ${k.substring(0, 8)}...`);
         }
-      } catch (err) {
-        console.warn(`[SRSLY] Error checking candidate batch: ${err instanceof Error ? err.message : String(err)}`);
-      }
+      });
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      console.warn(`[SRSLY] Error checking candidates: ${err instanceof Error ? err.message : String(err)}`);
     }
 
     // Fetch and append these fleets as rented
     console.log(`[SRSLY] Fetching ${discoveredFleetKeys.length} discovered fleets...`);
     for (const k of discoveredFleetKeys) {
+      throwIfAborted(signal);
       try {
         const fleetPubkey = new PublicKey(k);
         // @ts-ignore - account type name from IDL
@@ -671,12 +699,14 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
           srslyHeuristicKeys.add(k);
         }
       } catch (e) {
+        if (isAbortError(e)) throw e;
         console.warn(`[SRSLY] Failed to fetch fleet ${k.substring(0, 8)}...: ${e instanceof Error ? e.message : String(e)}`);
       }
     }
     
     console.log(`[SRSLY] Scan complete: ${discoveredFleetKeys.length} new fleets discovered`);
   } catch (e) {
+    if (isAbortError(e)) throw e;
     console.error('[SRSLY] Scan failed (non-fatal), continuing without SRSLY data:', e instanceof Error ? e.message : String(e));
   }
 
@@ -689,6 +719,7 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
         timeoutMs: 4000,
         maxRetries: 1,
         logErrors: false,
+        signal,
       });
       const payerCounts = new Map<string, number>();
       for (const s of sigs) {
@@ -698,6 +729,7 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
             timeoutMs: 3000,
             maxRetries: 0,
             logErrors: false,
+            signal,
           });
           const payer = tx?.transaction.message.accountKeys?.[0]?.pubkey?.toString();
           if (payer) payerCounts.set(payer, (payerCounts.get(payer) || 0) + 1);
@@ -710,6 +742,7 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
       }
       walletAuthority = topPayer;
     } catch (e) {
+      if (isAbortError(e)) throw e;
       // fallback non riuscito
       walletAuthority = null;
     }
@@ -727,30 +760,27 @@ export async function getFleets(rpcEndpoint: string, rpcWebsocket: string, walle
   const ownerByKey = new Map<string, string | null>();
   const subByKey = new Map<string, string | null>();
   try {
-    const chunkSize = 50;
-    for (let i = 0; i < keyList.length; i += chunkSize) {
-      const chunk = keyList.slice(i, i + chunkSize);
-      const infos = await connection.getMultipleAccountsInfo(chunk);
-      for (let j = 0; j < chunk.length; j++) {
-        const info = infos[j];
-        const k = chunk[j].toBase58();
-        if (info?.data && info.data.length >= 105) {
-          try {
-            const ownerPk = new PublicKey(info.data.slice(41, 73)).toBase58();
-            const subPk = new PublicKey(info.data.slice(73, 105)).toBase58();
-            ownerByKey.set(k, ownerPk);
-            subByKey.set(k, subPk);
-          } catch {
-            ownerByKey.set(k, null);
-            subByKey.set(k, null);
-          }
-        } else {
+    const infos = await new RpcPoolConnection(connection).getMultipleAccountsInfo(keyList, { maxRetries: 2, logErrors: false, signal });
+    for (let j = 0; j < keyList.length; j++) {
+      const info = infos[j];
+      const k = keyList[j].toBase58();
+      if (info?.data && info.data.length >= 105) {
+        try {
+          const ownerPk = new PublicKey(info.data.slice(41, 73)).toBase58();
+          const subPk = new PublicKey(info.data.slice(73, 105)).toBase58();
+          ownerByKey.set(k, ownerPk);
+          subByKey.set(k, subPk);
+        } catch {
           ownerByKey.set(k, null);
           subByKey.set(k, null);
         }
+      } else {
+        ownerByKey.set(k, null);
+        subByKey.set(k, null);
       }
     }
   } catch (e) {
+    if (isAbortError(e)) throw e;
     console.error('Failed to pre-extract owner/subProfile from accounts:', e);
   }
 
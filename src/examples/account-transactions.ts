@@ -3,8 +3,18 @@ import { Connection, PublicKey, ConfirmedSignatureInfo } from "@solana/web3.js";
 import { newConnection } from '../utils/anchor-setup.js';
 import { getCacheDataOnly, setCache } from '../utils/persist-cache.js';
 import { RpcPoolConnection } from '../utils/rpc/pool-connection.js';
+import { abortableSleep, isAbortError, throwIfAborted } from '../utils/rpc/abort.js';
 import { detectCraftingMaterial } from './tx-utils.js';
 import OP_MAP from './op-map.js';
+import { getGlobalTransactionStore, StoredSignatureInfo } from '../utils/tx-store.js';
+import { getGlobalPipelineMetrics } from '../metrics/pipeline-metrics.js';
+import { extractComputeBudget } from './compute-budget.js';
+
+const MATERIAL_MINTS: { [pubkey: string]: string } = {
+  'FUEL_MINT_PUBKEY': 'Fuel',
+  'AMMO_MINT_PUBKEY': 'Ammo',
+  'FOOD_MINT_PUBKEY': 'Food',
+};
 
 export async function getAccountTransactions(
   rpcEndpoint: string,
@@ -13,70 +23,96 @@ export async function getAccountTransactions(
   limit: number = 1000,
   sinceUnixMs?: number,
   maxSignatures: number = 3000,
-  opts?: { refresh?: boolean },
+  opts?: { refresh?: boolean; signal?: AbortSignal; untilUnixMs?: number },  // untilUnixMs: end of the window (default now)
   poolConnection?: RpcPoolConnection  // Optional pre-configured pool connection
 ) {
   // Create default connection and wrapped pool connection
   const defaultConnection = newConnection(rpcEndpoint, rpcWebsocket);
   const conn = poolConnection || new RpcPoolConnection(defaultConnection);
+  const signal = opts?.signal;
+  const untilUnixMs = opts?.untilUnixMs;
+  // Signatures newer than the window are paged through but don't count against the limits
+  const afterWindow = (s: StoredSignatureInfo) => !!untilUnixMs && !!s.blockTime && s.blockTime * 1000 > untilUnixMs;
+  const inWindowCount = (sigs: StoredSignatureInfo[]) => sigs.reduce((n, s) => n + (afterWindow(s) ? 0 : 1), 0);
 
-  // Fetch delle firme (allSignatures) con paginazione
+  // Fetch delle firme: riusa le firme già note per l'indirizzo e pagina solo quelle nuove
   const pubkey = new PublicKey(accountPubkey);
-  const allSignatures: ConfirmedSignatureInfo[] = [];
-  let before: string | undefined = undefined;
-  let done = false;
-  
-  console.log(`[wallet-scan] sigs fetch ... limit=${limit}`);
-  while (!done && allSignatures.length < maxSignatures) {
-    let batch: ConfirmedSignatureInfo[] = [];
-    try {
-      // compact log
-      // console.log(`[account-transactions] Calling getSignaturesForAddress (attempt for batch)`);
-      batch = await conn.getSignaturesForAddress(pubkey, {
-        limit: Math.min(1000, limit),
-        before,
-        timeoutMs: 8000,
-        maxRetries: 1,
-      });
-      // console.log(`[account-transactions] Fetched ${batch.length} signatures (before=${before})`);
-    } catch (err) {
-      // If pool fails completely, silently continue with empty batch
-      console.log(`[account-transactions] Error fetching signatures:`, (err as any)?.message);
-      batch = [];
-    }
+  const store = getGlobalTransactionStore();
+  const pageLimit = Math.min(1000, limit);
+  const state = opts?.refresh ? null : await store.getAddressState(accountPubkey);
+  const knownSigs = state?.signatures || [];
 
-    if (batch.length === 0) break;
+  console.log(`[wallet-scan] sigs fetch ... limit=${limit} known=${knownSigs.length} highestSlot=${state?.highestSlot || 0}`);
+  const newer = await fetchSignaturePages(conn, pubkey, {
+    until: knownSigs[0]?.signature,
+    pageLimit,
+    sinceUnixMs,
+    untilUnixMs,
+    max: maxSignatures,
+    signal,
+  });
 
-    if (allSignatures.length % 1000 === 0) {
-      console.log(`[wallet-scan] sigs ${allSignatures.length} ...`);
-    }
-    for (const sig of batch) {
-      if (sinceUnixMs && sig.blockTime && (sig.blockTime * 1000) < sinceUnixMs) {
-        done = true;
-        break;
-      }
-      allSignatures.push(sig);
-      if (allSignatures.length >= maxSignatures || allSignatures.length >= limit) {
-        done = true;
-        break;
-      }
-    }
+  let combined: StoredSignatureInfo[];
+  let reachedEnd: boolean;
+  if (state && newer.exhausted && !newer.failed) {
+    // Paged all the way down to the stored run: append it
+    const highestSlot = state.highestSlot || 0;
+    const fresh = newer.sigs.filter(s => s.slot >= highestSlot && s.signature !== knownSigs[0]?.signature);
+    combined = [...fresh, ...knownSigs];
+    reachedEnd = state.reachedEnd;
+  } else {
+    // No stored run, or a gap between the new pages and it: start a new run
+    combined = newer.sigs;
+    reachedEnd = !state && newer.exhausted && !newer.failed;
+  }
 
-    if (!done && batch.length > 0) {
-      before = batch[batch.length - 1].signature;
-    } else {
-      done = true;
-    }
+  // Extend the run into the past if the stored history doesn't cover the window yet
+  const oldest = combined[combined.length - 1];
+  const windowCount = inWindowCount(combined);
+  const needsOlder = !!oldest && !reachedEnd && windowCount < maxSignatures && (
+    sinceUnixMs ? (oldest.blockTime || 0) * 1000 >= sinceUnixMs : windowCount < limit
+  );
+  if (needsOlder) {
+    const older = await fetchSignaturePages(conn, pubkey, {
+      before: oldest.signature,
+      pageLimit,
+      sinceUnixMs,
+      untilUnixMs,
+      max: maxSignatures - windowCount,
+      signal,
+    });
+    combined.push(...older.sigs);
+    if (older.exhausted && !older.failed) reachedEnd = true;
   }
 
-  // Definizione MATERIAL_MINTS all'interno del corpo funzione
-  const MATERIAL_MINTS: { [pubkey: string]: string } = {
-    'FUEL_MINT_PUBKEY': 'Fuel',
-    'AMMO_MINT_PUBKEY': 'Ammo',
-    'FOOD_MINT_PUBKEY': 'Food',
-  };
+  // Signatures first seen as 'confirmed' are finalized once their slot is: record it so their
+  // transactions get stored and the run isn't refetched on every scan
+  const finalizedNow = await markFinalized(conn, combined, signal);
 
-  const transactions: TransactionInfo[] = [];
+  if (newer.sigs.length > 0 || needsOlder || !state || finalizedNow > 0) {
+    await store.saveAddressState({
+      address: accountPubkey,
+      highestSlot: state?.highestSlot || 0,
+      signatures: combined,
+      reachedEnd,
+      updatedAt: Date.now(),
+    });
+  }
+
+  const allSignatures: StoredSignatureInfo[] = [];
+  for (const sig of combined) {
+    if (sinceUnixMs && sig.blockTime && (sig.blockTime * 1000) < sinceUnixMs) break;
+    if (afterWindow(sig)) continue;
+    allSignatures.push(sig);
+    if (allSignatures.length >= maxSignatures || allSignatures.length >= limit) break;
+  }
+  console.log(`[wallet-scan] sigs ${allSignatures.length} in window (${newer.sigs.length} new from RPC)`);
+
+  // Transazioni già finalizzate vengono servite dallo store, si scaricano solo le mancanti
+  const stored = opts?.refresh ? new Map<string, TransactionInfo>() : await store.getTransactions(allSignatures.map(s => s.signature));
+  const missingSignatures = allSignatures.filter(s => !stored.has(s.signature));
+  const fetchedBySig = new Map<string, TransactionInfo>();
+  const storeWrites: Promise<void>[] = [];
   let processedCount = 0;
   const startTime = Date.now();
   const BATCH_SIZE = 50;  // Further reduced batch size to minimize rate limits
@@ -89,7 +125,7 @@ export async function getAccountTransactions(
   let successStreak = 0;
   let consecutiveErrors = 0;
 
-  function sleep(ms: number) { return new Promise(r => setTimeout(r, ms)); }
+  const sleep = (ms: number) => abortableSleep(ms, signal);
 
   function withTimeout<T>(p: Promise<T>, ms: number): Promise<T | null> {
     return new Promise(resolve => {
@@ -100,17 +136,21 @@ export async function getAccountTransactions(
     });
   }
 
-  console.log(`[wallet-scan] start ${allSignatures.length} sigs`);
+  console.log(`[wallet-scan] start ${missingSignatures.length} sigs (${stored.size} from store)`);
   const batchStartTime = Date.now();
 
-  for (let i = 0; i < allSignatures.length; i += BATCH_SIZE) {
-    const batchSigs = allSignatures.slice(i, i + BATCH_SIZE);
+  for (let i = 0; i < missingSignatures.length; i += BATCH_SIZE) {
+    throwIfAborted(signal);
+    const batchSigs = missingSignatures.slice(i, i + BATCH_SIZE);
     const batchNum = Math.floor(i / BATCH_SIZE) + 1;
-    const totalBatches = Math.ceil(allSignatures.length / BATCH_SIZE);
+    const totalBatches = Math.ceil(missingSignatures.length / BATCH_SIZE);
+    // One JSON-RPC batch for the whole chunk; what it doesn't return is fetched one by one
+    const batched = await fetchTransactionBatch(conn, batchSigs, signal);
     const fetchPromises = batchSigs.map((sig: any) =>
       withTimeout<{ sig: any, tx: any }>(
         (async () => {
-          let tx: any = null;
+          let tx: any = batched.get(sig.signature) || null;
+          if (tx) return { sig, tx };
           let retries = 2;  // Allow 2 retries per transaction
           while (retries >= 0 && !tx) {
             try {
@@ -118,6 +158,12 @@ export async function getAccountTransactions(
                 maxSupportedTransactionVersion: 0,
                 timeoutMs: fetchTimeoutMs,
                 maxRetries: 0,
+                signal,
+                minBlockTime: sig.blockTime || undefined,
+                // Already kept in the transaction store, no need for an in-memory copy
+                memoTtlMs: 0,
+                // Don't let one slow endpoint hold up the whole batch
+                hedge: true,
               });
               if (tx) break;  // Success, exit retry loop
             } catch (err) {
@@ -139,6 +185,8 @@ export async function getAccountTransactions(
     );
 
     const results = await Promise.all(fetchPromises);
+    // Abandoned fetches resolve as null: don't mistake them for missing transactions
+    throwIfAborted(signal);
 
     // First pass: collect successful transactions
     for (const res of results) {
@@ -154,78 +202,13 @@ export async function getAccountTransactions(
         // Logging or stats can go here if needed
       }
 
-      // Extract programIds from transaction instructions
-      const programIds: string[] = [];
-      if (tx.transaction && tx.transaction.message && Array.isArray(tx.transaction.message.instructions)) {
-        for (const ix of tx.transaction.message.instructions) {
-          if (ix.programId) {
-            programIds.push(ix.programId.toString());
-          }
-        }
+      const info = toTransactionInfo(sig, tx);
+      fetchedBySig.set(info.signature, info);
+      if (sig.confirmationStatus === 'finalized') {
+        storeWrites.push(store.putTransaction(info, accountPubkey).catch(err => {
+          console.error('[account-transactions] Failed to store transaction:', err?.message || err);
+        }));
       }
-
-      const instructions: string[] = [];
-      const logMessages: string[] = tx.meta?.logMessages || [];
-      logMessages.forEach((log: string) => {
-        const ixMatch = log.match(/Instruction: (\w+)/);
-        if (ixMatch) instructions.push(ixMatch[1]);
-        if (log.includes('SAGE') || log.includes('sage')) {
-          const sageIxMatch = log.match(/ix([A-Z][a-zA-Z]+)/);
-          if (sageIxMatch) instructions.push(sageIxMatch[1]);
-        }
-      });
-
-      const accountKeys: string[] = (tx.transaction.message.accountKeys || []).map((k: any) => k.pubkey ? k.pubkey.toString() : (typeof k === 'string' ? k : ''));
-
-      const craftingMaterial = (() => {
-        let material: string | undefined;
-        for (const instr of instructions) {
-          if (/fuel/i.test(instr)) material = 'Fuel';
-          else if (/ore/i.test(instr)) material = 'Ore';
-          else if (/tool/i.test(instr)) material = 'Tool';
-          else if (/component/i.test(instr)) material = 'Component';
-          else if (/food/i.test(instr)) material = 'Food';
-          else if (/claim/i.test(instr) && /ammo/i.test(instr)) material = 'Ammo';
-        }
-        if (!material && tx.meta && Array.isArray(tx.meta.innerInstructions)) {
-          for (const blk of tx.meta.innerInstructions) {
-            if (!blk || !Array.isArray(blk.instructions)) continue;
-            for (const iin of blk.instructions) {
-              const fields = [iin?.parsed?.destination, iin?.parsed?.mint, iin?.parsed?.token, iin?.parsed?.authority, iin?.parsed?.source];
-              for (const val of fields) {
-                if (typeof val === 'string') {
-                  if (MATERIAL_MINTS[val]) {
-                    material = MATERIAL_MINTS[val];
-                  } else if (/^[A-Za-z0-9]{32,44}$/.test(val)) {
-                    material = val;
-                  }
-                }
-                if (material) break;
-              }
-              if (material) break;
-            }
-            if (material) break;
-          }
-        }
-        return material;
-      })();
-
-      transactions.push({
-        signature: sig.signature,
-        blockTime: sig.blockTime || 0,
-        slot: sig.slot,
-        err: sig.err,
-        memo: sig.memo || undefined,
-        timestamp: sig.blockTime ? new Date(sig.blockTime * 1000).toISOString() : 'Unknown',
-        status: sig.err ? 'failed' : 'success',
-        fee: tx.meta?.fee || 0,
-        programIds: [...new Set(programIds)],
-        instructions: [...new Set(instructions)],
-        logMessages,
-        accountKeys,
-        craftingMaterial,
-        meta: tx.meta,
-      });
     }
 
     // Adaptive delay: backoff on errors, reduce on success
@@ -234,24 +217,236 @@ export async function getAccountTransactions(
       consecutiveErrors = 0;
       successStreak = 0;
         const rate = (processedCount / (Date.now() - batchStartTime) * 1000).toFixed(0);
-        console.log(`[wallet-scan] b${batchNum}/${totalBatches}: ${processedCount}/${allSignatures.length} tx, backoff ${currentDelay}ms | ${rate} tx/s`);
+        console.log(`[wallet-scan] b${batchNum}/${totalBatches}: ${processedCount}/${missingSignatures.length} tx, backoff ${currentDelay}ms | ${rate} tx/s`);
     } else {
       successStreak++;
       if (successStreak >= 20 && currentDelay > MIN_DELAY) {
         currentDelay = Math.max(MIN_DELAY, currentDelay - SUCCESS_DECREASE_STEP);
         successStreak = 0;
         const rate = (processedCount / (Date.now() - batchStartTime) * 1000).toFixed(0);
-        console.log(`[wallet-scan] b${batchNum}/${totalBatches}: ${processedCount}/${allSignatures.length} tx, delay ${currentDelay}ms | ${rate} tx/s`);
+        console.log(`[wallet-scan] b${batchNum}/${totalBatches}: ${processedCount}/${missingSignatures.length} tx, delay ${currentDelay}ms | ${rate} tx/s`);
       } else {
         const rate = (processedCount / (Date.now() - batchStartTime) * 1000).toFixed(0);
-        console.log(`[wallet-scan] b${batchNum}/${totalBatches}: ${processedCount}/${allSignatures.length} tx, delay ${currentDelay}ms | ${rate} tx/s`);
+        console.log(`[wallet-scan] b${batchNum}/${totalBatches}: ${processedCount}/${missingSignatures.length} tx, delay ${currentDelay}ms | ${rate} tx/s`);
       }
     }
     await sleep(currentDelay);
   }
 
+  await Promise.all(storeWrites);
+
+  // Mantieni l'ordine delle firme (più recenti prima)
+  const transactions: TransactionInfo[] = [];
+  for (const sig of allSignatures) {
+    const tx = stored.get(sig.signature) || fetchedBySig.get(sig.signature);
+    if (tx) transactions.push(tx);
+  }
+
+  const pipelineMetrics = getGlobalPipelineMetrics();
+  pipelineMetrics.recordTransactions('store', stored.size);
+  pipelineMetrics.recordTransactions('rpc', fetchedBySig.size);
+  pipelineMetrics.recordTransactions('missing', missingSignatures.length - fetchedBySig.size);
+
   const elapsedSecs = (Date.now() - batchStartTime) / 1000;
-  const txPerSec = elapsedSecs > 0 ? Math.round((transactions.length / elapsedSecs) * 100) / 100 : 0;
+  const txPerSec = elapsedSecs > 0 ? Math.round((processedCount / elapsedSecs) * 100) / 100 : 0;
   console.log(`[account-transactions] COMPLETED: ${transactions.length}/${allSignatures.length} tx, ${txPerSec} tx/s, ${elapsedSecs.toFixed(1)}s elapsed`);
   return { transactions, totalSignaturesFetched: allSignatures.length };
 }
+
+/**
+ * Mark the signatures at or below the finalized slot as finalized; returns how many changed.
+ * Leaves them as they are if the finalized slot can't be fetched.
+ */
+async function markFinalized(conn: RpcPoolConnection, sigs: StoredSignatureInfo[], signal?: AbortSignal): Promise<number> {
+  const pending = sigs.filter(s => s.confirmationStatus !== 'finalized');
+  if (pending.length === 0) return 0;
+  let finalizedSlot: number;
+  try {
+    finalizedSlot = await conn.getSlot({ commitment: 'finalized', timeoutMs: 5000, maxRetries: 1, signal });
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    console.warn('[account-transactions] getSlot(finalized) failed:', (err as any)?.message || err);
+    return 0;
+  }
+  let changed = 0;
+  for (const sig of pending) {
+    if (sig.slot <= finalizedSlot) {
+      sig.confirmationStatus = 'finalized';
+      changed++;
+    }
+  }
+  return changed;
+}
+
+/**
+ * Fetch transactions with one rpcBatch of getTransaction requests (jsonParsed, like
+ * getParsedTransaction). Returns the ones that came back; an empty map if the pool can't batch.
+ */
+async function fetchTransactionBatch(
+  conn: RpcPoolConnection,
+  sigs: StoredSignatureInfo[],
+  signal?: AbortSignal
+): Promise<Map<string, any>> {
+  const found = new Map<string, any>();
+  if (sigs.length === 0) return found;
+  const blockTimes = sigs.map(s => s.blockTime || 0).filter(t => t > 0);
+  try {
+    const results = await conn.rpcBatch(
+      sigs.map(s => ({
+        method: 'getTransaction',
+        params: [s.signature, { encoding: 'jsonParsed', commitment: 'confirmed', maxSupportedTransactionVersion: 0 }],
+      })),
+      {
+        signal,
+        maxRetries: 1,
+        timeoutMs: 10000,
+        // Route to an endpoint that still holds the oldest transaction of the chunk
+        minBlockTime: blockTimes.length > 0 ? Math.min(...blockTimes) : undefined,
+      }
+    );
+    results.forEach((r, i) => {
+      if (r.result) found.set(sigs[i].signature, r.result);
+    });
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    console.warn('[account-transactions] Batched getTransaction failed, fetching one by one:', (err as any)?.message || err);
+  }
+  return found;
+}
+
+async function fetchSignaturePages(
+  conn: RpcPoolConnection,
+  pubkey: PublicKey,
+  opts: { until?: string; before?: string; pageLimit: number; sinceUnixMs?: number; untilUnixMs?: number; max: number; signal?: AbortSignal }
+): Promise<{ sigs: StoredSignatureInfo[]; exhausted: boolean; failed: boolean; hitCutoff: boolean }> {
+  const sigs: StoredSignatureInfo[] = [];
+  let before = opts.before;
+  let exhausted = false;
+  let failed = false;
+  let hitCutoff = false;
+  // Only signatures up to untilUnixMs count against max
+  let counted = 0;
+
+  while (counted < opts.max) {
+    let batch: ConfirmedSignatureInfo[];
+    try {
+      batch = await conn.getSignaturesForAddress(pubkey, {
+        limit: opts.pageLimit,
+        before,
+        until: opts.until,
+        timeoutMs: 8000,
+        maxRetries: 1,
+        signal: opts.signal,
+        minBlockTime: opts.sinceUnixMs ? Math.floor(opts.sinceUnixMs / 1000) : undefined,
+      });
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      console.error('[account-transactions] getSignaturesForAddress failed:', (err as any)?.message || err);
+      failed = true;
+      break;
+    }
+
+    for (const s of batch) {
+      sigs.push({
+        signature: s.signature,
+        slot: s.slot,
+        blockTime: s.blockTime ?? null,
+        err: s.err,
+        memo: s.memo ?? null,
+        confirmationStatus: s.confirmationStatus ?? null,
+      });
+      if (!opts.untilUnixMs || !s.blockTime || s.blockTime * 1000 <= opts.untilUnixMs) counted++;
+      if (opts.sinceUnixMs && s.blockTime && (s.blockTime * 1000) < opts.sinceUnixMs) {
+        hitCutoff = true;
+      }
+    }
+
+    if (batch.length < opts.pageLimit) {
+      exhausted = true;
+      break;
+    }
+    if (hitCutoff) break;
+    before = batch[batch.length - 1].signature;
+  }
+
+  return { sigs, exhausted, failed, hitCutoff };
+}
+
+/**
+ * Shape a parsed transaction into the TransactionInfo used by the fee pipelines.
+ */
+export function toTransactionInfo(sig: StoredSignatureInfo, tx: any): TransactionInfo {
+  // Extract programIds from transaction instructions
+  const programIds: string[] = [];
+  if (tx.transaction && tx.transaction.message && Array.isArray(tx.transaction.message.instructions)) {
+    for (const ix of tx.transaction.message.instructions) {
+      if (ix.programId) {
+        programIds.push(ix.programId.toString());
+      }
+    }
+  }
+
+  const instructions: string[] = [];
+  const logMessages: string[] = tx.meta?.logMessages || [];
+  logMessages.forEach((log: string) => {
+    const ixMatch = log.match(/Instruction: (\w+)/);
+    if (ixMatch) instructions.push(ixMatch[1]);
+    if (log.includes('SAGE') || log.includes('sage')) {
+      const sageIxMatch = log.match(/ix([A-Z][a-zA-Z]+)/);
+      if (sageIxMatch) instructions.push(sageIxMatch[1]);
+    }
+  });
+
+  const accountKeys: string[] = (tx.transaction.message.accountKeys || []).map((k: any) => k.pubkey ? k.pubkey.toString() : (typeof k === 'string' ? k : ''));
+
+  const craftingMaterial = (() => {
+    let material: string | undefined;
+    for (const instr of instructions) {
+      if (/fuel/i.test(instr)) material = 'Fuel';
+      else if (/ore/i.test(instr)) material = 'Ore';
+      else if (/tool/i.test(instr)) material = 'Tool';
+      else if (/component/i.test(instr)) material = 'Component';
+      else if (/food/i.test(instr)) material = 'Food';
+      else if (/claim/i.test(instr) && /ammo/i.test(instr)) material = 'Ammo';
+    }
+    if (!material && tx.meta && Array.isArray(tx.meta.innerInstructions)) {
+      for (const blk of tx.meta.innerInstructions) {
+        if (!blk || !Array.isArray(blk.instructions)) continue;
+        for (const iin of blk.instructions) {
+          const fields = [iin?.parsed?.destination, iin?.parsed?.mint, iin?.parsed?.token, iin?.parsed?.authority, iin?.parsed?.source];
+          for (const val of fields) {
+            if (typeof val === 'string') {
+              if (MATERIAL_MINTS[val]) {
+                material = MATERIAL_MINTS[val];
+              } else if (/^[A-Za-z0-9]{32,44}$/.test(val)) {
+                material = val;
+              }
+            }
+            if (material) break;
+          }
+          if (material) break;
+        }
+        if (material) break;
+      }
+    }
+    return material;
+  })();
+
+  return {
+    signature: sig.signature,
+    blockTime: sig.blockTime || 0,
+    slot: sig.slot,
+    err: sig.err,
+    memo: sig.memo || undefined,
+    timestamp: sig.blockTime ? new Date(sig.blockTime * 1000).toISOString() : 'Unknown',
+    status: sig.err ? 'failed' : 'success',
+    fee: tx.meta?.fee || 0,
+    programIds: [...new Set(programIds)],
+    instructions: [...new Set(instructions)],
+    logMessages,
+    accountKeys,
+    craftingMaterial,
+    meta: tx.meta,
+    ...extractComputeBudget(tx),
+  };
+}
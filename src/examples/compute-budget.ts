@@ -0,0 +1,108 @@
+// Compute budget of a transaction (ComputeBudget instructions and meta) and the base/priority fee split
+import bs58 from 'bs58';
+import { TransactionInfo } from './types.js';
+
+export const COMPUTE_BUDGET_PROGRAM_ID = 'ComputeBudget111111111111111111111111111111';
+export const LAMPORTS_PER_SIGNATURE = 5000;
+
+// Runtime default when no SetComputeUnitLimit is present: per instruction, capped per transaction
+const DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION = 200_000;
+const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+// Requested limit at least this many times the consumed units: the priority fee is paid on unused CUs
+const OVERPROVISION_RATIO = Number(process.env.CU_OVERPROVISION_RATIO || 2);
+// Fewer samples than this don't flag an operation
+const OVERPROVISION_MIN_SAMPLES = 3;
+
+export interface ComputeBudgetInfo {
+  // Requested with SetComputeUnitLimit, or the runtime default
+  computeUnitLimit: number;
+  // Micro-lamports per compute unit (0 without SetComputeUnitPrice)
+  computeUnitPrice: number;
+  computeUnitsConsumed?: number;
+  signatureCount: number;
+}
+
+/**
+ * Fee split and compute usage accumulated by the fee reports (per fleet, per operation)
+ */
+export interface FeeBreakdown {
+  baseFee: number;
+  priorityFee: number;
+  computeUnitsRequested: number;
+  computeUnitsConsumed: number;
+  // Transactions with both a limit and a consumed count
+  computeSamples: number;
+  // Priority fee paid for requested compute units that were not consumed
+  excessPriorityFee: number;
+  cuUtilization?: number;
+  overProvisioned?: boolean;
+}
+
+/**
+ * Compute budget of a parsed transaction (getParsedTransaction result)
+ */
+export function extractComputeBudget(tx: any): ComputeBudgetInfo {
+  const instructions: any[] = tx?.transaction?.message?.instructions || [];
+  let computeUnitLimit: number | undefined;
+  let computeUnitPrice = 0;
+  let otherInstructions = 0;
+  for (const ix of instructions) {
+    if (String(ix?.programId) !== COMPUTE_BUDGET_PROGRAM_ID) {
+      otherInstructions++;
+      continue;
+    }
+    let data: Buffer;
+    try {
+      data = Buffer.from(bs58.decode(ix.data || ''));
+    } catch {
+      continue;
+    }
+    // Borsh enum: 2 = SetComputeUnitLimit(u32), 3 = SetComputeUnitPrice(u64)
+    if (data[0] === 2 && data.length >= 5) computeUnitLimit = data.readUInt32LE(1);
+    else if (data[0] === 3 && data.length >= 9) computeUnitPrice = Number(data.readBigUInt64LE(1));
+  }
+  const consumed = tx?.meta?.computeUnitsConsumed;
+  return {
+    computeUnitLimit: computeUnitLimit ?? Math.min(MAX_COMPUTE_UNIT_LIMIT, otherInstructions * DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION),
+    computeUnitPrice,
+    computeUnitsConsumed: typeof consumed === 'number' ? consumed : undefined,
+    signatureCount: tx?.transaction?.signatures?.length || 1,
+  };
+}
+
+/**
+ * Base fee (per signature) and priority fee of a transaction. Transactions stored before the
+ * signature count was extracted are assumed to have one signature.
+ */
+export function splitFee(tx: TransactionInfo): { baseFee: number; priorityFee: number } {
+  const baseFee = Math.min(tx.fee, LAMPORTS_PER_SIGNATURE * (tx.signatureCount || 1));
+  return { baseFee, priorityFee: tx.fee - baseFee };
+}
+
+/**
+ * Add a transaction to a report entry; entries from results cached before the split get the fields on first use
+ */
+export function addFeeBreakdown(entry: Partial<FeeBreakdown>, tx: TransactionInfo): void {
+  const { baseFee, priorityFee } = splitFee(tx);
+  const consumed = tx.computeUnitsConsumed ?? (typeof tx.meta?.computeUnitsConsumed === 'number' ? tx.meta.computeUnitsConsumed : undefined);
+  entry.baseFee = (entry.baseFee || 0) + baseFee;
+  entry.priorityFee = (entry.priorityFee || 0) + priorityFee;
+  entry.computeUnitsRequested = entry.computeUnitsRequested || 0;
+  entry.computeUnitsConsumed = entry.computeUnitsConsumed || 0;
+  entry.computeSamples = entry.computeSamples || 0;
+  entry.excessPriorityFee = entry.excessPriorityFee || 0;
+  if (tx.computeUnitLimit === undefined || consumed === undefined) return;
+  entry.computeUnitsRequested += tx.computeUnitLimit;
+  entry.computeUnitsConsumed += consumed;
+  entry.computeSamples++;
+  entry.excessPriorityFee += Math.round(((tx.computeUnitPrice || 0) * Math.max(0, tx.computeUnitLimit - consumed)) / 1_000_000);
+}
+
+/**
+ * Compute utilization and over-provisioning flag of an entry, after its transactions were added
+ */
+export function finalizeFeeBreakdown(entry: Partial<FeeBreakdown>): void {
+  if (!entry.computeSamples || !entry.computeUnitsRequested) return;
+  entry.cuUtilization = (entry.computeUnitsConsumed || 0) / entry.computeUnitsRequested;
+  entry.overProvisioned = entry.computeSamples >= OVERPROVISION_MIN_SAMPLES && entry.cuUtilization * OVERPROVISION_RATIO <= 1;
+}
@@ -0,0 +1,155 @@
+// Failed SAGE transactions of an analysis: failure rate and fees wasted per operation, fleet, instruction and error
+
+import { TransactionInfo } from './types.js';
+import { decodeTransactionError } from '../decoders/sage-error-decoder.js';
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+// Signatures kept per group to look a failure up on an explorer
+const SAMPLE_SIGNATURES = 3;
+// Instruction of a failure whose logs don't name one
+const UNKNOWN_INSTRUCTION = 'Unknown';
+
+export interface FailureTotals {
+  transactions: number;
+  failed: number;
+  // Percentage of transactions that failed
+  failureRate: number;
+  // Lamports paid for the failed transactions
+  wastedFee: number;
+}
+
+export interface FailureCount {
+  count: number;
+  wastedFee: number;
+}
+
+export interface FailureError extends FailureCount {
+  programId?: string;
+  code?: number;
+  message?: string;
+}
+
+/**
+ * Failures sharing operation, failing instruction, error and fleet
+ */
+export interface FailureGroup extends FailureError {
+  operation: string;
+  instruction: string;
+  error: string;
+  fleet: string;
+  sampleSignatures: string[];
+}
+
+export interface FailureReport {
+  totals: FailureTotals & { wastedSol: number };
+  byOperation: { [operation: string]: FailureTotals };
+  byFleet: { [fleet: string]: FailureTotals };
+  byError: { [error: string]: FailureError };
+  byInstruction: { [instruction: string]: FailureCount };
+  // Most wasted fee first
+  groups: FailureGroup[];
+}
+
+function emptyTotals(): FailureTotals {
+  return { transactions: 0, failed: 0, failureRate: 0, wastedFee: 0 };
+}
+
+function withRate(totals: FailureTotals): FailureTotals {
+  return { ...totals, failureRate: totals.transactions > 0 ? (totals.failed / totals.transactions) * 100 : 0 };
+}
+
+/**
+ * Builds the failure report of an analysis from every SAGE transaction it processes
+ * (successful ones count toward the failure rates). Seeded with the report of a cached
+ * result when an analysis resumes from it.
+ */
+export class FailureReportBuilder {
+  private byOperation = new Map<string, FailureTotals>();
+  private byFleet = new Map<string, FailureTotals>();
+  private groups = new Map<string, FailureGroup>();
+
+  constructor(seed?: FailureReport) {
+    if (!seed?.totals) return;
+    for (const [operation, totals] of Object.entries(seed.byOperation || {})) this.byOperation.set(operation, { ...totals });
+    for (const [fleet, totals] of Object.entries(seed.byFleet || {})) this.byFleet.set(fleet, { ...totals });
+    for (const group of seed.groups || []) {
+      this.groups.set(groupKey(group.operation, group.instruction, group.error, group.fleet), { ...group, sampleSignatures: [...(group.sampleSignatures || [])] });
+    }
+  }
+
+  add(tx: TransactionInfo, fleet: string, operation: string): void {
+    const operationTotals = this.byOperation.get(operation) || emptyTotals();
+    const fleetTotals = this.byFleet.get(fleet) || emptyTotals();
+    this.byOperation.set(operation, operationTotals);
+    this.byFleet.set(fleet, fleetTotals);
+    operationTotals.transactions++;
+    fleetTotals.transactions++;
+
+    const decoded = decodeTransactionError(tx);
+    if (!decoded) return;
+    for (const totals of [operationTotals, fleetTotals]) {
+      totals.failed++;
+      totals.wastedFee += tx.fee;
+    }
+    const instruction = decoded.instruction || UNKNOWN_INSTRUCTION;
+    const key = groupKey(operation, instruction, decoded.name, fleet);
+    let group = this.groups.get(key);
+    if (!group) {
+      group = {
+        operation,
+        instruction,
+        error: decoded.name,
+        fleet,
+        programId: decoded.programId,
+        code: decoded.code,
+        message: decoded.message,
+        count: 0,
+        wastedFee: 0,
+        sampleSignatures: [],
+      };
+      this.groups.set(key, group);
+    }
+    group.count++;
+    group.wastedFee += tx.fee;
+    if (group.sampleSignatures.length < SAMPLE_SIGNATURES) group.sampleSignatures.push(tx.signature);
+  }
+
+  build(): FailureReport {
+    const totals = emptyTotals();
+    const byOperation: FailureReport['byOperation'] = {};
+    for (const [operation, operationTotals] of this.byOperation) {
+      byOperation[operation] = withRate(operationTotals);
+      totals.transactions += operationTotals.transactions;
+      totals.failed += operationTotals.failed;
+      totals.wastedFee += operationTotals.wastedFee;
+    }
+    const byFleet: FailureReport['byFleet'] = {};
+    for (const [fleet, fleetTotals] of this.byFleet) byFleet[fleet] = withRate(fleetTotals);
+
+    const groups = Array.from(this.groups.values(), group => ({ ...group, sampleSignatures: [...group.sampleSignatures] }))
+      .sort((a, b) => b.wastedFee - a.wastedFee || b.count - a.count);
+    const byError: FailureReport['byError'] = {};
+    const byInstruction: FailureReport['byInstruction'] = {};
+    for (const group of groups) {
+      const error = byError[group.error] || (byError[group.error] = { count: 0, wastedFee: 0, programId: group.programId, code: group.code, message: group.message });
+      error.count += group.count;
+      error.wastedFee += group.wastedFee;
+      const instruction = byInstruction[group.instruction] || (byInstruction[group.instruction] = { count: 0, wastedFee: 0 });
+      instruction.count += group.count;
+      instruction.wastedFee += group.wastedFee;
+    }
+
+    return {
+      totals: { ...withRate(totals), wastedSol: totals.wastedFee / LAMPORTS_PER_SOL },
+      byOperation,
+      byFleet,
+      byError,
+      byInstruction,
+      groups,
+    };
+  }
+}
+
+function groupKey(operation: string, instruction: string, error: string, fleet: string): string {
+  return JSON.stringify([operation, instruction, error, fleet]);
+}
@@ -0,0 +1,193 @@
+// Analysis window (hours back from now, or a from/to range) and the time-bucketed fee series of a result
+
+export type SeriesBucket = 'hour' | 'day' | 'week';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const BUCKET_MS: { [bucket in SeriesBucket]: number } = { hour: HOUR_MS, day: DAY_MS, week: 7 * DAY_MS };
+// More points than this make no readable chart and a bloated cached result
+const MAX_SERIES_POINTS = 2000;
+
+/**
+ * Window fields accepted by the fee endpoints, jobs and live watches.
+ * `from`/`to` are unix seconds, unix milliseconds or ISO 8601 strings.
+ */
+export interface AnalysisWindowInput {
+  hours?: number;
+  from?: string | number;
+  to?: string | number;
+  bucket?: string;
+}
+
+export interface AnalysisWindow {
+  fromMs: number;
+  // Open-ended when absent: up to now
+  toMs?: number;
+  bucket: SeriesBucket;
+  // Human readable period, e.g. "Last 24 hours"
+  label: string;
+}
+
+export interface FeeSeriesTotals {
+  count: number;
+  totalFee: number;
+}
+
+export interface FeeSeriesPoint extends FeeSeriesTotals {
+  // Bucket start (unix ms, UTC; weeks start on Monday)
+  start: number;
+  byFleet: { [fleet: string]: FeeSeriesTotals };
+  byOperation: { [operation: string]: FeeSeriesTotals };
+}
+
+export interface FeeSeries {
+  bucket: SeriesBucket;
+  from: number;
+  to: number;
+  points: FeeSeriesPoint[];
+}
+
+// Unix seconds, unix milliseconds or an ISO 8601 string; NaN when unparseable, undefined when empty
+export function parseTimestamp(value: string | number | undefined): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const numeric = typeof value === 'number' ? value : /^\d+(\.\d+)?$/.test(String(value).trim()) ? Number(value) : NaN;
+  if (!isNaN(numeric)) return numeric < 1e12 ? Math.round(numeric * 1000) : Math.round(numeric);
+  const parsed = Date.parse(String(value));
+  return isNaN(parsed) ? NaN : parsed;
+}
+
+function isSeriesBucket(value: any): value is SeriesBucket {
+  return value === 'hour' || value === 'day' || value === 'week';
+}
+
+function defaultBucket(spanMs: number): SeriesBucket {
+  if (spanMs <= 3 * DAY_MS) return 'hour';
+  if (spanMs <= 90 * DAY_MS) return 'day';
+  return 'week';
+}
+
+/**
+ * Returns an error message for unacceptable window fields, null otherwise
+ */
+export function analysisWindowError(input: AnalysisWindowInput, now: number = Date.now()): string | null {
+  const from = parseTimestamp(input?.from);
+  const to = parseTimestamp(input?.to);
+  if (from !== undefined && isNaN(from)) return `Invalid from: ${input.from}`;
+  if (to !== undefined && isNaN(to)) return `Invalid to: ${input.to}`;
+  if (input?.hours !== undefined && !(Number(input.hours) > 0)) return `Invalid hours: ${input.hours}`;
+  if (input?.bucket !== undefined && !isSeriesBucket(input.bucket)) return `Invalid bucket: ${input.bucket} (hour, day or week)`;
+  const window = resolveAnalysisWindow(input, now);
+  const end = window.toMs ?? now;
+  if (window.fromMs >= end) return 'from must be before to';
+  if ((end - window.fromMs) / BUCKET_MS[window.bucket] > MAX_SERIES_POINTS) {
+    return `Range too long for ${window.bucket} buckets (max ${MAX_SERIES_POINTS} points)`;
+  }
+  return null;
+}
+
+/**
+ * Window of an analysis: `from`/`to` when given, otherwise the last `hours` (before `to`, or now).
+ * Input is assumed to have passed analysisWindowError.
+ */
+export function resolveAnalysisWindow(input: AnalysisWindowInput = {}, now: number = Date.now()): AnalysisWindow {
+  const hours = Number(input.hours) > 0 ? Number(input.hours) : 24;
+  const to = parseTimestamp(input.to);
+  const toMs = to !== undefined && !isNaN(to) && to < now ? to : undefined;
+  const from = parseTimestamp(input.from);
+  const fromMs = from !== undefined && !isNaN(from) ? from : (toMs ?? now) - hours * HOUR_MS;
+  const bucket = isSeriesBucket(input.bucket) ? input.bucket : defaultBucket((toMs ?? now) - fromMs);
+  const label = from === undefined && toMs === undefined
+    ? `Last ${hours} hours`
+    : `${new Date(fromMs).toISOString()} - ${toMs !== undefined ? new Date(toMs).toISOString() : 'now'}`;
+  return { fromMs, toMs, bucket, label };
+}
+
+/**
+ * Cache key fields of the window. Empty for the default "last N hours" request, so existing
+ * keys (which already carry `hours`) are unchanged.
+ */
+export function analysisWindowKey(input: AnalysisWindowInput): { f?: number; t?: number; b?: SeriesBucket } {
+  const from = parseTimestamp(input?.from);
+  const to = parseTimestamp(input?.to);
+  return {
+    f: from !== undefined && !isNaN(from) ? from : undefined,
+    t: to !== undefined && !isNaN(to) ? to : undefined,
+    b: isSeriesBucket(input?.bucket) ? input.bucket : undefined,
+  };
+}
+
+/**
+ * Request fields a wallet's fee analysis is cached under
+ */
+export interface WalletFeesKeyInput extends AnalysisWindowInput {
+  walletPubkey: string;
+  fleetAccounts?: string[];
+  fleetNames?: { [account: string]: string };
+  fleetRentalStatus?: { [account: string]: boolean };
+}
+
+/**
+ * Key of a fee analysis in the wallet-fees-detailed cache. The stream, detailed, job, group and
+ * live paths all use it, so each finds the results the others saved.
+ */
+export function walletFeesCacheKey(input: WalletFeesKeyInput): string {
+  const keyPayload = JSON.stringify({ a: input.fleetAccounts || [], n: input.fleetNames || {}, r: input.fleetRentalStatus || {}, h: input.hours || 24, ...analysisWindowKey(input) });
+  return `${input.walletPubkey}__${keyPayload}`;
+}
+
+export function bucketStart(timeMs: number, bucket: SeriesBucket): number {
+  const day = Math.floor(timeMs / DAY_MS) * DAY_MS;
+  if (bucket === 'hour') return Math.floor(timeMs / HOUR_MS) * HOUR_MS;
+  if (bucket === 'day') return day;
+  // 1970-01-01 was a Thursday: shift so weeks start on Monday
+  return day - ((new Date(day).getUTCDay() + 6) % 7) * DAY_MS;
+}
+
+function addTotals(totals: FeeSeriesTotals, fee: number): void {
+  totals.count++;
+  totals.totalFee += fee;
+}
+
+/**
+ * Accumulates fees per bucket, fleet and operation. Can be seeded with the series of a
+ * cached result, so a resumed analysis only adds the new transactions.
+ */
+export class FeeSeriesBuilder {
+  private points = new Map<number, FeeSeriesPoint>();
+
+  constructor(private window: AnalysisWindow, seed?: FeeSeries) {
+    if (seed?.bucket === window.bucket && Array.isArray(seed.points)) {
+      for (const point of seed.points) {
+        if (point.count > 0) this.points.set(point.start, JSON.parse(JSON.stringify(point)));
+      }
+    }
+  }
+
+  add(blockTime: number | null | undefined, fee: number, fleet: string, operation: string): void {
+    if (!blockTime) return;
+    const start = bucketStart(blockTime * 1000, this.window.bucket);
+    let point = this.points.get(start);
+    if (!point) {
+      point = { start, count: 0, totalFee: 0, byFleet: {}, byOperation: {} };
+      this.points.set(start, point);
+    }
+    addTotals(point, fee);
+    addTotals(point.byFleet[fleet] || (point.byFleet[fleet] = { count: 0, totalFee: 0 }), fee);
+    addTotals(point.byOperation[operation] || (point.byOperation[operation] = { count: 0, totalFee: 0 }), fee);
+  }
+
+  /**
+   * Series over the whole window, oldest first, with empty buckets filled in
+   */
+  build(now: number = Date.now()): FeeSeries {
+    const { bucket, fromMs } = this.window;
+    const to = this.window.toMs ?? now;
+    const points: FeeSeriesPoint[] = [];
+    const first = Math.min(bucketStart(fromMs, bucket), ...this.points.keys());
+    const last = Math.max(bucketStart(to, bucket), ...this.points.keys());
+    for (let start = first; start <= last; start += BUCKET_MS[bucket]) {
+      points.push(this.points.get(start) || { start, count: 0, totalFee: 0, byFleet: {}, byOperation: {} });
+    }
+    return { bucket, from: fromMs, to, points };
+  }
+}
@@ -0,0 +1,143 @@
+// Fleet account map: fleet key and on-chain sub-accounts (fleetShips, fuelTank, ammoBank, cargoHold) -> fleet
+import { TransactionInfo } from './types.js';
+import { SageClassification } from './sage-classifier.js';
+
+export type FleetAccountRole = 'fleet' | 'fleetShips' | 'fuelTank' | 'ammoBank' | 'cargoHold' | 'unknown';
+
+export interface FleetMapEntry {
+  fleetKey: string;
+  name: string;
+  role: FleetAccountRole;
+  isRented: boolean;
+}
+
+export type FleetAccountMap = { [account: string]: FleetMapEntry };
+
+export const UNATTRIBUTED_FLEET = 'Unattributed';
+
+export type UnattributedReason =
+  | 'no-fleet-map'          // no fleets known for the wallet
+  | 'no-fleet-account'      // fleet operation, but none of the fleet accounts is in the transaction
+  | 'ambiguous-sub-accounts'; // only sub-accounts matched, and they belong to different fleets
+
+export interface FleetAttribution {
+  fleetKey?: string;
+  fleetName?: string;
+  account?: string;
+  role?: FleetAccountRole;
+  isRented: boolean;
+  reason?: UnattributedReason;
+}
+
+const SUB_ACCOUNT_ROLES: Exclude<FleetAccountRole, 'fleet' | 'unknown'>[] = ['fleetShips', 'fuelTank', 'ammoBank', 'cargoHold'];
+
+// Operations always performed by a fleet: these must never fall into a category bucket
+const FLEET_OPERATIONS = new Set([
+  'CreateFleet', 'DisbandFleet', 'Dock', 'Undock', 'StartMining', 'StopMining',
+  'StartSubwarp', 'StopSubwarp', 'EndSubwarp', 'WarpToCoord', 'WarpLane', 'LoadCargo', 'UnloadCargo',
+  'ScanSDU', 'Refuel', 'Rearm', 'AddShip', 'LoadCrew', 'UnloadCrew', 'Respawn', 'FleetStateHandler',
+  'ReloadAbility', 'RepairDocked', 'RepairIdle', 'AttackFleet', 'RetrieveLoot',
+  'ForceDropCargo', 'RemoveInvalidShip', 'Mining', 'Scan', 'Subwarp', 'StartScan', 'StopScan',
+  'TransferCargoFleet',
+]);
+
+/**
+ * Build the account map from the fleets returned by getFleets (fresh or cached).
+ */
+export function buildFleetAccountMap(fleets: any[]): FleetAccountMap {
+  const map: FleetAccountMap = {};
+  for (const f of fleets || []) {
+    const fleetKey = toBase58(f?.key);
+    if (!fleetKey) continue;
+    const name = f.callsign || fleetKey.substring(0, 8);
+    const isRented = !!f.isRented;
+    map[fleetKey] = { fleetKey, name, role: 'fleet', isRented };
+    for (const role of SUB_ACCOUNT_ROLES) {
+      const account = toBase58(f.data?.[role]);
+      if (account && !map[account]) map[account] = { fleetKey, name, role, isRented };
+    }
+  }
+  return map;
+}
+
+/**
+ * Fallback for callers that only send flat account/name/rental maps: accounts sharing
+ * a name are grouped under the first one seen, roles are unknown.
+ */
+export function fleetAccountMapFromLists(
+  fleetAccounts: string[],
+  fleetAccountNames: { [account: string]: string } = {},
+  fleetRentalStatus: { [account: string]: boolean } = {}
+): FleetAccountMap {
+  const map: FleetAccountMap = {};
+  const keyByName = new Map<string, string>();
+  for (const account of fleetAccounts || []) {
+    if (!account || map[account]) continue;
+    const name = fleetAccountNames[account] || account.substring(0, 8);
+    if (!keyByName.has(name)) keyByName.set(name, account);
+    map[account] = { fleetKey: keyByName.get(name)!, name, role: 'unknown', isRented: !!fleetRentalStatus[account] };
+  }
+  return map;
+}
+
+export function isFleetOperation(classification: Pick<SageClassification, 'operation' | 'groupedOperation'>): boolean {
+  return FLEET_OPERATIONS.has(classification.operation) || classification.groupedOperation === 'Dock/Undock/Load/Unload';
+}
+
+/**
+ * Attribute a transaction to a fleet through any of its accounts. The fleet account itself
+ * wins over sub-accounts; sub-accounts of different fleets are ambiguous.
+ * Returns a reason instead of a fleet when nothing matches.
+ */
+export function attributeFleet(tx: TransactionInfo, map: FleetAccountMap): FleetAttribution {
+  if (Object.keys(map).length === 0) return { isRented: false, reason: 'no-fleet-map' };
+
+  let fleetMatch: { account: string; entry: FleetMapEntry } | undefined;
+  const subMatches: { account: string; entry: FleetMapEntry }[] = [];
+  for (const account of tx.accountKeys || []) {
+    const entry = map[account];
+    if (!entry) continue;
+    if (entry.role === 'fleet' || (entry.role === 'unknown' && entry.fleetKey === account)) {
+      fleetMatch = { account, entry };
+      break;
+    }
+    subMatches.push({ account, entry });
+  }
+
+  const match = fleetMatch || (subMatches.length > 0 ? subMatches[0] : undefined);
+  if (!match) return { isRented: false, reason: 'no-fleet-account' };
+  if (!fleetMatch && subMatches.some(m => m.entry.fleetKey !== match.entry.fleetKey)) {
+    return { isRented: false, reason: 'ambiguous-sub-accounts' };
+  }
+
+  return {
+    fleetKey: match.entry.fleetKey,
+    fleetName: match.entry.name,
+    account: match.account,
+    role: match.entry.role,
+    isRented: match.entry.isRented,
+  };
+}
+
+/**
+ * The attribution rule of the fee analyses: only fleet operations are counted under a fleet,
+ * through attributeFleet, and those matching no fleet get UNATTRIBUTED_FLEET with the reason.
+ * Other operations get no fleet (callers put them in a category) even when they touch a fleet account.
+ */
+export function attributeFleetOperation(
+  tx: TransactionInfo,
+  classification: Pick<SageClassification, 'operation' | 'groupedOperation'>,
+  map: FleetAccountMap
+): FleetAttribution {
+  if (!isFleetOperation(classification)) return { isRented: false };
+  const attribution = attributeFleet(tx, map);
+  return attribution.fleetKey ? attribution : { ...attribution, fleetName: UNATTRIBUTED_FLEET };
+}
+
+function toBase58(value: any): string | undefined {
+  if (!value) return undefined;
+  if (typeof value === 'string') return value;
+  if (typeof value.toBase58 === 'function') return value.toBase58();
+  const str = value.toString?.();
+  return typeof str === 'string' && str !== '[object Object]' ? str : undefined;
+}
@@ -1,17 +1,11 @@
 #!/usr/bin/env ts-node
-import fs from 'fs';
-import path from 'path';
 import { newConnection } from '../utils/anchor-setup.js';
+import { RpcPoolLoader } from '../utils/rpc/pool-loader.js';
 import { PublicKey } from '@solana/web3.js';
 
 async function loadRpc() {
-  try {
-    const rpcPoolRaw = fs.readFileSync(path.join(process.cwd(), 'public', 'rpc-pool.json'), 'utf8');
-    const rpcPool = JSON.parse(rpcPoolRaw);
-    if (rpcPool && rpcPool.length > 0) return rpcPool[0].url;
-  } catch (e) {
-    // ignore
-  }
+  const first = new RpcPoolLoader().getEntry(0);
+  if (first) return first.url;
   return process.env.RPC_ENDPOINT || 'https://api.mainnet-beta.solana.com';
 }
 
@@ -0,0 +1,368 @@
+// Typed SAGE transaction classifier shared by the fee pipelines and /api/tx-details
+import { TransactionInfo } from './types.js';
+import { decodeSageInstruction } from '../decoders/sage-crafting-decoder.js';
+import OP_MAP from './op-map.js';
+
+export const SAGE_PROGRAM_ID = 'SAGE2HAwep459SNq61LHvjxPk4pLPEJLoMETef7f7EE';
+
+// Accounts present in most SAGE transactions, never a fleet
+export const GENERIC_ACCOUNTS = [
+  'SAGE2HAwep459SNq61LHvjxPk4pLPEJLoMETef7f7EE', // SAGE Program
+  'GAMEzqJehF8yAnKiTARUuhZMvLvkZVAsCVri5vSfemLr', // Game Program
+  '11111111111111111111111111111111', // System Program
+  'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA', // Token Program
+];
+
+// Crafting token mints used to tell material and claim transfers apart
+export const CRAFTING_MATERIAL_MINTS: Record<string, string> = {
+  'MASS9GqtJz6ABisAxcUn3FeR4phMqH1XfG6LPKJePog': 'Biomass',
+  'foodQJAztMzX1DKpLaiounNe2BDMds5RNuPC6jsNrDG': 'Food',
+  'fueL3hBZjLLLJHiFH9cqZoozTG3XQZ53diwFPwbzNim': 'Fuel',
+  'HYDR4EPHJcDPcaLYUcNCtrXUdt1PnaN4MvE655pevBYp': 'Hydrogen',
+};
+
+export type CraftingAction = 'crafting_start' | 'crafting_claim';
+
+export type ClassificationConfidence = 'high' | 'medium' | 'low' | 'none';
+
+export type ClassificationSource =
+  | 'decoder'          // crafting instruction recognized by the SAGE decoder
+  | 'instruction'      // OP_MAP hit on a parsed instruction name
+  | 'log_instruction'  // OP_MAP hit on a "Instruction: X" log line
+  | 'craft_pattern'    // /craft/ in instruction names or logs
+  | 'keyword_pattern'  // mining/subwarp/dock/... keywords in logs or instructions
+  | 'state_handler'    // FleetStateHandler rewritten from the fleet state in the logs
+  | 'fleet_account'
+  | 'material'
+  | 'crafting_action';
+
+export interface ClassificationEvidence {
+  source: ClassificationSource;
+  detail: string;
+}
+
+export interface SageClassification {
+  isSage: boolean;
+  operation: string;
+  groupedOperation: string;
+  fleetAccount?: string;
+  isCrafting: boolean;
+  craftingAction?: CraftingAction;
+  craftingType?: string;
+  material?: string;
+  confidence: ClassificationConfidence;
+  evidence: ClassificationEvidence[];
+}
+
+export interface ClassifyOptions {
+  // Known fleet accounts of the wallet, matched against the transaction account keys
+  fleetAccounts?: string[];
+}
+
+const CONFIDENCE_BY_SOURCE: Partial<Record<ClassificationSource, ClassificationConfidence>> = {
+  decoder: 'high',
+  instruction: 'high',
+  log_instruction: 'high',
+  craft_pattern: 'medium',
+  keyword_pattern: 'low',
+};
+
+/**
+ * Classify a SAGE transaction from its instruction names, logs and token movements.
+ * Pure: no RPC access, so the same TransactionInfo always yields the same result.
+ */
+export function classifySageTransaction(tx: TransactionInfo, opts: ClassifyOptions = {}): SageClassification {
+  const evidence: ClassificationEvidence[] = [];
+  const instructions = tx.instructions || [];
+  const logMessages = tx.logMessages || [];
+
+  let operation = 'Unknown';
+  let operationSource: ClassificationSource | undefined;
+  let craftingType: string | undefined;
+  let material: string | undefined;
+
+  // 1. Instruction names: crafting decoder first, then OP_MAP, then a /craft/ fallback
+  for (const instr of instructions) {
+    const decoded = decodeSageInstruction(instr);
+    if (decoded && (decoded.program === 'SAGE-Starbased' || decoded.program === 'Crafting') && decoded.craftType === 'crafting') {
+      craftingType = decoded.name || decoded.craftType || 'Crafting';
+      material = decoded.material;
+      operation = craftingType;
+      operationSource = 'decoder';
+      evidence.push({ source: 'decoder', detail: `${instr} -> ${craftingType}` });
+      break;
+    }
+    if (OP_MAP[instr]) {
+      operation = OP_MAP[instr];
+      operationSource = 'instruction';
+      evidence.push({ source: 'instruction', detail: `${instr} -> ${operation}` });
+      break;
+    }
+    if (/craft/i.test(instr)) {
+      operation = 'Crafting';
+      operationSource = 'craft_pattern';
+      evidence.push({ source: 'craft_pattern', detail: `instruction ${instr}` });
+      break;
+    }
+  }
+
+  // 2. "Instruction: X" log lines
+  if (operation === 'Unknown') {
+    for (const log of logMessages) {
+      const ixMatch = log.match(/Instruction:\s*(\w+)/);
+      if (ixMatch && OP_MAP[ixMatch[1]]) {
+        operation = OP_MAP[ixMatch[1]];
+        operationSource = 'log_instruction';
+        evidence.push({ source: 'log_instruction', detail: `${ixMatch[1]} -> ${operation}` });
+        break;
+      }
+    }
+  }
+
+  // 3. Any crafting mention in the logs
+  if (!isCraftingOperation(operation, operationSource)) {
+    const craftLog = logMessages.find(log => /craft/i.test(log));
+    if (craftLog) {
+      operation = 'Crafting';
+      operationSource = 'craft_pattern';
+      evidence.push({ source: 'craft_pattern', detail: craftLog });
+    }
+  }
+
+  // 4. Keyword patterns for whatever is still unknown
+  if (operation === 'Unknown') {
+    const keyword = classifyByKeywords(`${logMessages.join(' ')} ${instructions.join(' ')}`.toLowerCase());
+    if (keyword) {
+      operation = keyword.operation;
+      operationSource = 'keyword_pattern';
+      evidence.push({ source: 'keyword_pattern', detail: keyword.keyword });
+    }
+  }
+
+  // 5. FleetStateHandler closes whatever state the fleet was in
+  if (operation === 'FleetStateHandler') {
+    const logsJoined = logMessages.join(' ');
+    if (logsJoined.includes('MoveSubwarp')) {
+      operation = 'StopSubwarp';
+      evidence.push({ source: 'state_handler', detail: 'MoveSubwarp -> StopSubwarp' });
+    } else if (logsJoined.includes('MineAsteroid')) {
+      operation = 'StopMining';
+      evidence.push({ source: 'state_handler', detail: 'MineAsteroid -> StopMining' });
+    }
+  }
+
+  const isCrafting = isCraftingOperation(operation, operationSource);
+  let craftingAction: CraftingAction | undefined;
+  if (isCrafting) {
+    material = material || detectMaterial(tx, evidence);
+    craftingAction = detectCraftingAction(tx, evidence);
+  }
+
+  const fleetAccount = findFleetAccount(tx, opts.fleetAccounts || []);
+  if (fleetAccount) evidence.push({ source: 'fleet_account', detail: fleetAccount });
+
+  return {
+    isSage: tx.programIds.includes(SAGE_PROGRAM_ID),
+    operation,
+    groupedOperation: isCrafting ? 'Crafting' : groupOperation(operation),
+    fleetAccount,
+    isCrafting,
+    craftingAction,
+    craftingType,
+    material,
+    confidence: operationSource ? (CONFIDENCE_BY_SOURCE[operationSource] || 'none') : 'none',
+    evidence,
+  };
+}
+
+/**
+ * Group start/stop pairs and logistics under a single bucket (Subwarp, Mining, ...).
+ */
+export function groupOperation(operation: string): string {
+  switch (operation) {
+    case 'StartSubwarp':
+    case 'StopSubwarp':
+    case 'EndSubwarp':
+    case 'Subwarp':
+    case 'FleetStateHandler':
+      return 'Subwarp';
+    case 'StartMining':
+    case 'StopMining':
+      return 'Mining';
+    case 'StartScan':
+    case 'StopScan':
+    case 'ScanSDU':
+      return 'Scan';
+    case 'Dock':
+    case 'Undock':
+    case 'LoadCargo':
+    case 'UnloadCargo':
+      return 'Dock/Undock/Load/Unload';
+    case 'CraftStart':
+    case 'CraftClaim':
+    case 'Crafting':
+      return 'Crafting';
+    case 'DepositTokens':
+    case 'WithdrawTokens':
+      return 'Token Ops';
+    case 'CreateCargoPod':
+    case 'CloseCargoPod':
+    case 'DepositToPod':
+    case 'WithdrawFromPod':
+      return 'Cargo Pods';
+    default:
+      return operation;
+  }
+}
+
+function isCraftingOperation(operation: string, source?: ClassificationSource): boolean {
+  return source === 'decoder' || /craft/i.test(operation);
+}
+
+function classifyByKeywords(text: string): { operation: string; keyword: string } | null {
+  if (text.includes('mine') || text.includes('mining')) {
+    if (text.includes('start')) return { operation: 'StartMining', keyword: 'mining+start' };
+    if (text.includes('stop')) return { operation: 'StopMining', keyword: 'mining+stop' };
+    return { operation: 'Mining', keyword: 'mining' };
+  }
+  if (text.includes('subwarp') || text.includes('warp')) {
+    if (text.includes('start') || text.includes('enter')) return { operation: 'StartSubwarp', keyword: 'warp+start' };
+    if (text.includes('stop') || text.includes('exit') || text.includes('end')) return { operation: 'EndSubwarp', keyword: 'warp+stop' };
+    return { operation: 'Subwarp', keyword: 'warp' };
+  }
+  if (text.includes('scan')) {
+    if (text.includes('start')) return { operation: 'StartScan', keyword: 'scan+start' };
+    if (text.includes('stop')) return { operation: 'StopScan', keyword: 'scan+stop' };
+    return { operation: 'Scan', keyword: 'scan' };
+  }
+  if (text.includes('dock')) {
+    return text.includes('undock') ? { operation: 'Undock', keyword: 'undock' } : { operation: 'Dock', keyword: 'dock' };
+  }
+  if (text.includes('cargo')) {
+    return text.includes('unload') ? { operation: 'UnloadCargo', keyword: 'cargo+unload' } : { operation: 'LoadCargo', keyword: 'cargo' };
+  }
+  if (text.includes('fuel')) return { operation: 'Refuel', keyword: 'fuel' };
+  if (text.includes('ammo')) return { operation: 'Rearm', keyword: 'ammo' };
+  return null;
+}
+
+function detectMaterial(tx: TransactionInfo, evidence: ClassificationEvidence[]): string | undefined {
+  // Known crafting mints moved by the inner token instructions
+  for (const blk of tx.meta?.innerInstructions || []) {
+    for (const iin of blk?.instructions || []) {
+      const info = iin?.parsed?.info || iin?.parsed || {};
+      for (const val of [info.mint, info.destination, info.source]) {
+        if (typeof val === 'string' && CRAFTING_MATERIAL_MINTS[val]) {
+          const material = normalizeMaterial(CRAFTING_MATERIAL_MINTS[val]);
+          evidence.push({ source: 'material', detail: `mint ${val} -> ${material}` });
+          return material;
+        }
+      }
+    }
+  }
+  for (const bal of [...(tx.meta?.postTokenBalances || []), ...(tx.meta?.preTokenBalances || [])]) {
+    if (bal?.mint && CRAFTING_MATERIAL_MINTS[bal.mint]) {
+      const material = normalizeMaterial(CRAFTING_MATERIAL_MINTS[bal.mint]);
+      evidence.push({ source: 'material', detail: `token balance ${bal.mint} -> ${material}` });
+      return material;
+    }
+  }
+
+  // Fall back to material names in logs/instructions
+  const combinedLower = `${(tx.logMessages || []).join(' ')} ${(tx.instructions || []).join(' ')}`.toLowerCase();
+  if (combinedLower.includes('fuel') || combinedLower.includes('hydrogen')) {
+    evidence.push({ source: 'material', detail: 'keyword fuel' });
+    return 'Fuel';
+  }
+  if (combinedLower.includes('food') || combinedLower.includes('biomass')) {
+    evidence.push({ source: 'material', detail: 'keyword food' });
+    return 'Food';
+  }
+  return undefined;
+}
+
+// Hydrogen and Biomass are only ever crafted into Fuel and Food
+function normalizeMaterial(name: string): string {
+  if (name === 'Hydrogen') return 'Fuel';
+  if (name === 'Biomass') return 'Food';
+  return name;
+}
+
+function detectCraftingAction(tx: TransactionInfo, evidence: ClassificationEvidence[]): CraftingAction {
+  const logsLower = (tx.logMessages || []).map(l => (l || '').toLowerCase());
+  const namesLower = (tx.instructions || []).map(i => i.toLowerCase());
+  const mentions = (re: RegExp) => namesLower.some(n => re.test(n)) || logsLower.some(l => re.test(l));
+
+  // Explicit claim/burn instructions win
+  if (mentions(/claimcraftingoutputs|claimrecipeoutput/)) {
+    evidence.push({ source: 'crafting_action', detail: 'claim instruction' });
+    return 'crafting_claim';
+  }
+  if (mentions(/burncraftingconsumables|burnconsumableingredient|createcraftingprocess|startcraftingprocess/)) {
+    evidence.push({ source: 'crafting_action', detail: 'start instruction' });
+    return 'crafting_start';
+  }
+
+  // Token balance deltas: only gains means claim, only losses means start
+  try {
+    const preMap: Record<string, any> = {};
+    for (const p of tx.meta?.preTokenBalances || []) {
+      if (!p) continue;
+      preMap[`${p.owner || ''}:${p.mint || ''}`] = p;
+    }
+    let foundPos = false;
+    let foundNeg = false;
+    for (const p of tx.meta?.postTokenBalances || []) {
+      if (!p || !p.mint) continue;
+      const pre = preMap[`${p.owner || ''}:${p.mint}`];
+      const preAmt = pre?.uiTokenAmount?.amount ? BigInt(pre.uiTokenAmount.amount) : 0n;
+      const postAmt = p.uiTokenAmount?.amount ? BigInt(p.uiTokenAmount.amount) : 0n;
+      if (postAmt > preAmt) foundPos = true;
+      if (postAmt < preAmt) foundNeg = true;
+    }
+    if (foundPos) {
+      evidence.push({ source: 'crafting_action', detail: foundNeg ? 'token gains and losses' : 'token gains only' });
+      return 'crafting_claim';
+    }
+    if (foundNeg) {
+      evidence.push({ source: 'crafting_action', detail: 'token losses only' });
+      return 'crafting_start';
+    }
+  } catch {
+    // malformed balances: fall through to logs
+  }
+
+  if (logsLower.some(l => l.includes('claim') || l.includes('complete') || l.includes('withdraw'))) {
+    evidence.push({ source: 'crafting_action', detail: 'claim/complete/withdraw in logs' });
+    return 'crafting_claim';
+  }
+
+  // Any positive material transfer in the inner instructions implies a claim
+  try {
+    for (const inner of tx.meta?.innerInstructions || []) {
+      for (const inst of inner?.instructions || []) {
+        const parsed = inst?.parsed?.info || inst?.info || inst?.parsed;
+        if (!parsed) continue;
+        const amount = parsed.amount || parsed.tokenAmount?.amount || parsed.uiTokenAmount?.amount;
+        const mint = parsed.mint || parsed.mintAddress || parsed.tokenMint;
+        if (amount && mint && CRAFTING_MATERIAL_MINTS[mint] && BigInt(String(amount)) > 0n) {
+          evidence.push({ source: 'crafting_action', detail: `material transfer ${mint}` });
+          return 'crafting_claim';
+        }
+      }
+    }
+  } catch {
+    // non-numeric amounts
+  }
+
+  return 'crafting_start';
+}
+
+function findFleetAccount(tx: TransactionInfo, fleetAccounts: string[]): string | undefined {
+  if (!tx.accountKeys || fleetAccounts.length === 0) return undefined;
+  for (const fleet of fleetAccounts) {
+    if (!fleet || GENERIC_ACCOUNTS.includes(fleet) || fleet.length <= 40) continue;
+    if (tx.accountKeys.includes(fleet)) return fleet;
+  }
+  return undefined;
+}
@@ -0,0 +1,198 @@
+#!/usr/bin/env node
+
+/**
+ * Tests for the cache backends: TTL expiry, index queries and LRU eviction, run against the
+ * file backend and (when better-sqlite3 is installed) the SQLite backend, each in a temp directory
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  CacheNamespaceError,
+  createFileCacheBackend,
+  createSqliteCacheBackend,
+  ICacheBackend,
+  setNamespacePolicy,
+} from '../utils/cache-store/index.js';
+
+type Case = {
+  description: string;
+  run: (backend: ICacheBackend) => Promise<string | null>;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Entries written or read in the same millisecond would tie on access time
+async function setAll(backend: ICacheBackend, namespace: string, keys: string[], data: any = { v: 1 }) {
+  for (const key of keys) {
+    await backend.set(namespace, key, data);
+    await sleep(2);
+  }
+}
+
+const keysOf = async (backend: ICacheBackend, namespace: string) =>
+  (await backend.list({ namespace })).map(e => e.key).sort().join(',');
+
+setNamespacePolicy('test-lru-entries', { maxEntries: 3 });
+setNamespacePolicy('test-ttl', { ttlMs: 20 });
+
+const CASES: Case[] = [
+  {
+    description: 'entry past its TTL is not returned',
+    run: async (backend) => {
+      await backend.set('test-ttl', 'a', { v: 1 });
+      if (!(await backend.get('test-ttl', 'a'))) return 'fresh entry missing';
+      await sleep(30);
+      if (await backend.get('test-ttl', 'a')) return 'expired entry returned by get';
+      return null;
+    },
+  },
+  {
+    description: 'expired entries are listed only with includeExpired',
+    run: async (backend) => {
+      await backend.set('test-ttl-list', 'old', { v: 1 }, { ttlMs: 5 });
+      await backend.set('test-ttl-list', 'new', { v: 1 });
+      await sleep(15);
+      const live = await keysOf(backend, 'test-ttl-list');
+      const all = (await backend.list({ namespace: 'test-ttl-list', includeExpired: true })).map(e => e.key).sort().join(',');
+      if (live !== 'new') return `live entries: expected new, got ${live}`;
+      if (all !== 'new,old') return `all entries: expected new,old, got ${all}`;
+      return null;
+    },
+  },
+  {
+    description: 'wallet, profile and signature indexes select their entries',
+    run: async (backend) => {
+      await backend.set('test-index', 'w1', {}, { indexes: { walletPubkey: 'W1', profileId: 'P1' } });
+      await backend.set('test-index', 'w2', {}, { indexes: { walletPubkey: 'W2', signature: 'S2' } });
+      await backend.set('test-index-other', 'w1', {}, { indexes: { walletPubkey: 'W1' } });
+      const byWallet = (await backend.list({ walletPubkey: 'W1' })).map(e => `${e.namespace}/${e.key}`).sort().join(',');
+      const byProfile = (await backend.list({ profileId: 'P1' })).map(e => e.key).join(',');
+      const bySignature = (await backend.list({ signature: 'S2' })).map(e => e.key).join(',');
+      const scoped = (await backend.list({ namespace: 'test-index', walletPubkey: 'W1' })).length;
+      if (byWallet !== 'test-index-other/w1,test-index/w1') return `walletPubkey: got ${byWallet}`;
+      if (byProfile !== 'w1') return `profileId: got ${byProfile}`;
+      if (bySignature !== 'w2') return `signature: got ${bySignature}`;
+      if (scoped !== 1) return `namespace + walletPubkey: expected 1 entry, got ${scoped}`;
+      return null;
+    },
+  },
+  {
+    description: 'deleteWhere removes the indexed entries only',
+    run: async (backend) => {
+      await backend.set('test-delete', 'a', {}, { indexes: { walletPubkey: 'WA' } });
+      await backend.set('test-delete', 'b', {}, { indexes: { walletPubkey: 'WB' } });
+      const removed = await backend.deleteWhere({ namespace: 'test-delete', walletPubkey: 'WA' });
+      const left = await keysOf(backend, 'test-delete');
+      if (removed.length !== 1 || removed[0].key !== 'a') return `removed: ${removed.map(e => e.key).join(',')}`;
+      if (left !== 'b') return `left: ${left}`;
+      return null;
+    },
+  },
+  {
+    description: 'over maxEntries the least recently used entry goes',
+    run: async (backend) => {
+      await setAll(backend, 'test-lru-entries', ['a', 'b', 'c']);
+      await backend.get('test-lru-entries', 'a');
+      await sleep(2);
+      await backend.set('test-lru-entries', 'd', { v: 1 });
+      const left = await keysOf(backend, 'test-lru-entries');
+      return left === 'a,c,d' ? null : `expected a,c,d, got ${left}`;
+    },
+  },
+  {
+    description: 'over maxBytes the oldest entries go until the namespace fits',
+    run: async (backend) => {
+      const payload = { v: 'x'.repeat(30) };
+      // Room for two and a half entries as this backend counts them
+      const { sizeBytes } = await backend.set('test-lru-bytes-size', 'a', payload);
+      const maxBytes = Math.floor(sizeBytes * 2.5);
+      setNamespacePolicy('test-lru-bytes', { maxBytes });
+      await setAll(backend, 'test-lru-bytes', ['a', 'b', 'c', 'd'], payload);
+      const entries = await backend.list({ namespace: 'test-lru-bytes' });
+      const bytes = entries.reduce((sum, e) => sum + e.sizeBytes, 0);
+      const left = entries.map(e => e.key).sort().join(',');
+      if (bytes > maxBytes) return `namespace holds ${bytes} bytes`;
+      return left === 'c,d' ? null : `expected c,d, got ${left}`;
+    },
+  },
+  {
+    description: 'namespace within its policy keeps every entry',
+    run: async (backend) => {
+      await setAll(backend, 'test-lru-entries-fit', ['a', 'b', 'c']);
+      setNamespacePolicy('test-lru-entries-fit', { maxEntries: 3 });
+      await backend.set('test-lru-entries-fit', 'c', { v: 2 });
+      const left = await keysOf(backend, 'test-lru-entries-fit');
+      return left === 'a,b,c' ? null : `expected a,b,c, got ${left}`;
+    },
+  },
+  {
+    description: 'namespace outside [A-Za-z0-9_-] is refused',
+    run: async (backend) => {
+      for (const namespace of ['..', '../cache', 'a/b', '']) {
+        try {
+          await backend.list({ namespace: [namespace] });
+          return `list accepted ${JSON.stringify(namespace)}`;
+        } catch (err) {
+          if (!(err instanceof CacheNamespaceError)) throw err;
+        }
+      }
+      try {
+        await backend.set('../escape', 'a', {});
+        return 'set accepted "../escape"';
+      } catch (err) {
+        if (!(err instanceof CacheNamespaceError)) throw err;
+      }
+      return null;
+    },
+  },
+];
+
+async function openBackends(dir: string): Promise<ICacheBackend[]> {
+  const backends: ICacheBackend[] = [createFileCacheBackend(path.join(dir, 'file'))];
+  try {
+    backends.push(await createSqliteCacheBackend(path.join(dir, 'cache.sqlite')));
+  } catch (err: any) {
+    console.log(`(SQLite backend skipped: ${err?.message || err})\n`);
+  }
+  return backends;
+}
+
+async function run() {
+  console.log('=== Cache Store Tests ===\n');
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-store-'));
+  let passed = 0;
+  let failed = 0;
+
+  try {
+    for (const backend of await openBackends(dir)) {
+      for (const c of CASES) {
+        let error: string | null;
+        try {
+          error = await c.run(backend);
+        } catch (err) {
+          error = `threw ${err instanceof Error ? err.message : String(err)}`;
+        }
+        if (error === null) {
+          passed++;
+          console.log(`✓ [${backend.kind}] ${c.description}`);
+        } else {
+          failed++;
+          console.log(`✗ [${backend.kind}] ${c.description}: ${error}`);
+        }
+      }
+      (backend as { close?: () => void }).close?.();
+    }
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  const total = passed + failed;
+  console.log(`\n=== Results ===`);
+  console.log(`Passed: ${passed}/${total}`);
+  console.log(`Failed: ${failed}/${total}`);
+  process.exit(failed === 0 ? 0 : 1);
+}
+
+run().catch(err => { console.error('[test-cache-store] Fatal', err); process.exit(3); });
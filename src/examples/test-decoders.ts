@@ -17,6 +17,8 @@ import { pickNextRpcConnection, tryAcquireRpc, releaseRpc, getRpcUrls } from '..
 import { Connection, PublicKey } from '@solana/web3.js';
 import { decodeRecipe, decodeCraftingProcess, decodeCraftableItem } from '../decoders/crafting-decoder.js';
 import { decodeAccountWithRust } from '../decoders/rust-wrapper.js';
+import { decodeCustomError, decodeTransactionError, getSageIdlErrors } from '../decoders/sage-error-decoder.js';
+import { LangErrorCode } from '@project-serum/anchor';
 
 const readdir = promisify(fs.readdir);
 const readFile = promisify(fs.readFile);
@@ -191,6 +193,8 @@ function bufferFromFileContent(filePath: string): Buffer | null {
 }
 
 const SKIP_SEED = process.env.NO_SEED === '1' || process.argv.includes('--no-seed');
+// --errors-only: run the error decoder cases only (no RPC, no account cache)
+const ERRORS_ONLY = process.argv.includes('--errors-only');
 // CLI flags: --limit N to limit accounts tested, --all to test entire cache
 let LIMIT: number | null = null;
 const argv = process.argv.slice(2);
@@ -203,8 +207,59 @@ for (let i = 0; i < argv.length; i++) {
   if (a === '--all') LIMIT = null;
 }
 
+/**
+ * Error decoder cases: SAGE custom codes (taken from the IDL), Anchor framework codes and unknown
+ * codes. Returns the number of failed cases.
+ */
+function runErrorDecoderTests(): number {
+  const cases: Array<{ description: string; actual: any; expected: { name: string; code?: number } }> = [];
+  const sageErrors = getSageIdlErrors();
+  if (sageErrors.length === 0) console.error('[test-decoders] The SAGE IDL declares no errors');
+  for (const e of [sageErrors[0], sageErrors[sageErrors.length - 1]].filter(Boolean)) {
+    cases.push({ description: `SAGE ${e.code}`, actual: decodeCustomError(e.code, SAGE_PROGRAM_ID), expected: { name: e.name } });
+    cases.push({
+      description: `SAGE ${e.code} as InstructionError`,
+      actual: decodeTransactionError({ err: { InstructionError: [1, { Custom: e.code }] }, logMessages: [`Program ${SAGE_PROGRAM_ID} failed: custom program error: 0x${e.code.toString(16)}`] }),
+      expected: { name: e.name, code: e.code },
+    });
+  }
+  cases.push(
+    { description: 'Anchor ConstraintHasOne', actual: decodeCustomError(LangErrorCode.ConstraintHasOne), expected: { name: 'ConstraintHasOne' } },
+    { description: 'Anchor AccountNotInitialized', actual: decodeCustomError(LangErrorCode.AccountNotInitialized, SAGE_PROGRAM_ID), expected: { name: 'AccountNotInitialized' } },
+    {
+      description: 'AnchorError log line',
+      actual: decodeTransactionError({
+        err: { InstructionError: [0, { Custom: 2003 }] },
+        logMessages: ['Program log: AnchorError caused by account: fleet. Error Code: ConstraintRaw. Error Number: 2003. Error Message: A raw constraint was violated.'],
+      }),
+      expected: { name: 'ConstraintRaw', code: 2003 },
+    },
+    { description: 'unknown framework code', actual: decodeCustomError(5999), expected: { name: 'Custom:5999' } },
+    { description: 'unknown SAGE code', actual: decodeCustomError(6000 + 99999, SAGE_PROGRAM_ID), expected: { name: `Custom:${6000 + 99999}` } },
+    { description: 'custom code of another program', actual: decodeCustomError(sageErrors[0]?.code ?? 6000, 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'), expected: { name: `Custom:${sageErrors[0]?.code ?? 6000}` } },
+    { description: 'transaction-level error', actual: decodeTransactionError({ err: 'InsufficientFundsForFee' }), expected: { name: 'InsufficientFundsForFee' } },
+  );
+
+  let failed = 0;
+  console.log('=== Error decoder ===');
+  for (const c of cases) {
+    const mismatches = Object.entries(c.expected).filter(([field, value]) => c.actual?.[field] !== value);
+    if (mismatches.length === 0) {
+      console.log(`✓ ${c.description} -> ${c.actual.name}`);
+    } else {
+      failed++;
+      console.log(`✗ ${c.description}: expected ${JSON.stringify(c.expected)}, got ${JSON.stringify(c.actual)}`);
+    }
+  }
+  if (sageErrors.length === 0) failed++;
+  console.log(`Error decoder: ${cases.length - failed}/${cases.length} passed`);
+  return failed;
+}
+
 async function run() {
   console.log('[test-decoders] START');
+  const errorFailures = runErrorDecoderTests();
+  if (ERRORS_ONLY) process.exit(errorFailures === 0 ? 0 : 1);
   console.log('[test-decoders] BUILD_TAG=', BUILD_TAG);
   console.log('[test-decoders][debug] cwd=', process.cwd());
   console.log('[test-decoders][debug] nodeVersion=', process.version);
@@ -285,7 +340,7 @@ async function run() {
   console.log(`Recipe decodes: ${summary.recipe}`);
   console.log(`Process decodes: ${summary.process}`);
   console.log(`CraftableItem decodes: ${summary.item}`);
-  process.exit(0);
+  process.exit(errorFailures === 0 ? 0 : 1);
 }
 
 const isCli = path.resolve(process.argv[1] || '') === path.resolve(new URL(import.meta.url).pathname);
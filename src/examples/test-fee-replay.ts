@@ -0,0 +1,346 @@
+#!/usr/bin/env node
+
+/**
+ * Replay tests for the RPC-backed pipelines: the detailed fee analysis (getWalletSageFeesDetailed),
+ * its streaming variant (getWalletSageFeesDetailedStreaming), fleet discovery (getFleets) and the
+ * transaction details behind /api/tx-details (getTransactionDetails)
+ *
+ * Each case in fixtures/fee-replay/cases/ names its pipeline and inputs (wallet, fleets and a closed
+ * window; a profile; a signature) and holds the expected summary. The pipeline runs in
+ * RPC_RECORD_MODE=replay against the RPC fixtures in fixtures/fee-replay/rpc/ (shared by all cases)
+ * with an empty cache, so no network is used. USD values are not compared: they depend on the
+ * stored price history.
+ *
+ * Record a case (needs a working RPC pool; a fee window must be in the past):
+ *   npx tsx src/examples/test-fee-replay.ts --record <case-name> detailed|streaming <walletPubkey> <from> <to> [fleetAccount ...]
+ *   npx tsx src/examples/test-fee-replay.ts --record <case-name> fleets <profileId>
+ *   npx tsx src/examples/test-fee-replay.ts --record <case-name> tx-details <signature>
+ */
+
+import { fork } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { WalletSageFeesDetailed } from './wallet-sage-fees-detailed.js';
+import type { TransactionDetails } from '../decoders/sage-transaction-decoder.js';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'fee-replay');
+const CASES_DIR = path.join(FIXTURES_DIR, 'cases');
+
+const FEE_TOTAL_FIELDS = [
+  'transactionCount24h',
+  'totalSignaturesFetched',
+  'totalFees24h',
+  'sageFees24h',
+  'baseFees24h',
+  'priorityFees24h',
+  'unknownOperations',
+] as const satisfies readonly (keyof WalletSageFeesDetailed)[];
+
+const TX_DETAILS_FIELDS = [
+  'operation',
+  'groupedOperation',
+  'material',
+  'recipeName',
+  'instructionType',
+  'fleetAccount',
+  'fleetName',
+] as const satisfies readonly (keyof TransactionDetails)[];
+
+type FeeTotals = Pick<WalletSageFeesDetailed, typeof FEE_TOTAL_FIELDS[number]> & {
+  // Transactions per operation and per fleet
+  operations: { [operation: string]: number };
+  fleets: { [fleetAccount: string]: number };
+};
+
+type FleetsSummary = {
+  walletAuthority: string | null;
+  fleets: { key: string; callsign: string; isRented: boolean }[];
+};
+
+type TxDetailsSummary = Pick<TransactionDetails, typeof TX_DETAILS_FIELDS[number]> & {
+  actions: string[];
+};
+
+type FeeInput = { walletPubkey: string; fleetAccounts: string[]; from: string; to: string };
+
+type CaseInput =
+  | ({ pipeline: 'detailed' | 'streaming'; description: string } & FeeInput)
+  | { pipeline: 'fleets'; description: string; profileId: string }
+  | { pipeline: 'tx-details'; description: string; signature: string };
+
+type ReplayCase =
+  | (Extract<CaseInput, { pipeline: 'detailed' | 'streaming' }> & { expected: FeeTotals })
+  | (Extract<CaseInput, { pipeline: 'fleets' }> & { expected: FleetsSummary })
+  | (Extract<CaseInput, { pipeline: 'tx-details' }> & { expected: TxDetailsSummary });
+
+type Summary = ReplayCase['expected'];
+
+type CaseOutcome = { summary: Summary } | { error: string };
+
+// Runs in record or replay mode, with a throwaway cache so stored results don't hide the calls
+function setUpEnvironment(mode: 'record' | 'replay') {
+  process.env.RPC_RECORD_MODE = mode;
+  process.env.RPC_FIXTURES_DIR = path.join(FIXTURES_DIR, 'rpc');
+  process.env.CACHE_BACKEND = 'file';
+  process.env.CACHE_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'fee-replay-'));
+}
+
+async function rpcEndpointForMode(): Promise<string> {
+  const { REPLAY_RPC_URL } = await import('../utils/rpc/record-replay.js');
+  return process.env.RPC_RECORD_MODE === 'replay' ? REPLAY_RPC_URL : (process.env.RPC_ENDPOINT || 'https://api.mainnet-beta.solana.com');
+}
+
+function pick<T, K extends keyof T>(value: T, keys: readonly K[]): Pick<T, K> {
+  const picked = {} as Pick<T, K>;
+  for (const key of keys) picked[key] = value[key];
+  return picked;
+}
+
+function summarizeFees(result: WalletSageFeesDetailed): FeeTotals {
+  const operations: FeeTotals['operations'] = {};
+  for (const [operation, stats] of Object.entries(result.feesByOperation)) operations[operation] = stats.count;
+  const fleets: FeeTotals['fleets'] = {};
+  for (const [fleet, stats] of Object.entries(result.feesByFleet)) fleets[fleet] = stats.totalOperations;
+  return { ...pick(result, FEE_TOTAL_FIELDS), operations, fleets };
+}
+
+async function runFeePipeline(c: FeeInput, streaming: boolean): Promise<FeeTotals> {
+  const { resolveAnalysisWindow } = await import('./fee-series.js');
+  const rpcEndpoint = await rpcEndpointForMode();
+  const rpcWebsocket = '';
+  const fleetAccountNames = {};
+  const fleetRentalStatus = {};
+  // The window below sets the range; fleetMap is built from fleetAccounts
+  const hours = undefined;
+  const fleetMap = undefined;
+  const window = resolveAnalysisWindow({ from: c.from, to: c.to });
+
+  if (streaming) {
+    const { getWalletSageFeesDetailedStreaming } = await import('./wallet-sage-fees-streaming.js');
+    const sendUpdate = () => {};
+    const saveProgress = undefined;
+    const cachedData = undefined;
+    const lastProcessedSignature = undefined;
+    const signal = undefined;
+    const result: WalletSageFeesDetailed = await getWalletSageFeesDetailedStreaming(
+      rpcEndpoint,
+      rpcWebsocket,
+      c.walletPubkey,
+      c.fleetAccounts,
+      fleetAccountNames,
+      fleetRentalStatus,
+      hours,
+      sendUpdate,
+      saveProgress,
+      cachedData,
+      lastProcessedSignature,
+      fleetMap,
+      signal,
+      window
+    );
+    return summarizeFees(result);
+  }
+
+  const { getWalletSageFeesDetailed } = await import('./wallet-sage-fees-detailed.js');
+  const opts = { refresh: true };
+  const poolConnection = undefined;
+  const result = await getWalletSageFeesDetailed(
+    rpcEndpoint,
+    rpcWebsocket,
+    c.walletPubkey,
+    c.fleetAccounts,
+    fleetAccountNames,
+    fleetRentalStatus,
+    hours,
+    opts,
+    poolConnection,
+    fleetMap,
+    window
+  );
+  return summarizeFees(result);
+}
+
+async function runFleets(profileId: string): Promise<FleetsSummary> {
+  const { getFleets } = await import('./03-fleets.js');
+  const rpcEndpoint = await rpcEndpointForMode();
+  const rpcWebsocket = '';
+  // No wallet file: getFleets only reads, with an ephemeral keypair
+  const walletPath = path.join(process.env.CACHE_DIR!, 'no-wallet.json');
+  const result = await getFleets(rpcEndpoint, rpcWebsocket, walletPath, profileId);
+  return {
+    walletAuthority: result.walletAuthority,
+    fleets: result.fleets
+      .map(f => ({ key: f.key, callsign: f.callsign, isRented: f.isRented }))
+      .sort((a, b) => a.key.localeCompare(b.key)),
+  };
+}
+
+async function runTxDetails(signature: string): Promise<TxDetailsSummary> {
+  const { getTransactionDetails } = await import('./transaction-details.js');
+  const { RpcPoolConnection } = await import('../utils/rpc/pool-connection.js');
+  const { newConnection } = await import('../utils/anchor-setup.js');
+  const poolConnection = new RpcPoolConnection(newConnection(await rpcEndpointForMode()));
+  const details = await getTransactionDetails(signature, poolConnection);
+  if (!details) throw new Error(`transaction ${signature} not found`);
+  return { ...pick(details, TX_DETAILS_FIELDS), actions: details.actions.map(a => a.action) };
+}
+
+function runCase(c: CaseInput): Promise<Summary> {
+  switch (c.pipeline) {
+    case 'detailed':
+    case 'streaming':
+      return runFeePipeline(c, c.pipeline === 'streaming');
+    case 'fleets':
+      return runFleets(c.profileId);
+    case 'tx-details':
+      return runTxDetails(c.signature);
+  }
+}
+
+function compareFields<T extends object>(expected: T, actual: T): string[] {
+  const mismatches: string[] = [];
+  for (const field of Object.keys(expected) as (keyof T)[]) {
+    const want = JSON.stringify(expected[field]);
+    const got = JSON.stringify(actual[field]);
+    if (want !== got) mismatches.push(`${String(field)}: expected ${want}, got ${got}`);
+  }
+  return mismatches;
+}
+
+function describeExpected(c: ReplayCase): string {
+  switch (c.pipeline) {
+    case 'detailed':
+    case 'streaming':
+      return `${c.expected.transactionCount24h} txs, ${c.expected.sageFees24h} lamports SAGE fees`;
+    case 'fleets':
+      return `${c.expected.fleets.length} fleets, ${c.expected.fleets.filter(f => f.isRented).length} rented`;
+    case 'tx-details':
+      return `${c.expected.operation} (${c.expected.groupedOperation})`;
+  }
+}
+
+function loadCase(name: string): ReplayCase {
+  return JSON.parse(fs.readFileSync(path.join(CASES_DIR, `${name}.json`), 'utf8'));
+}
+
+function listCases(): string[] {
+  if (!fs.existsSync(CASES_DIR)) return [];
+  return fs.readdirSync(CASES_DIR)
+    .filter(f => f.endsWith('.json'))
+    .sort()
+    .map(f => f.replace(/\.json$/, ''));
+}
+
+// The pool's call cache, the transaction store and the cache backend live for the whole process:
+// each case runs in a process of its own so it doesn't see what earlier cases fetched
+function replayInChild(name: string): Promise<CaseOutcome> {
+  return new Promise(resolve => {
+    let outcome: CaseOutcome | null = null;
+    const child = fork(fileURLToPath(import.meta.url), ['--replay-case', name], {
+      execArgv: process.execArgv,
+      // The pipelines log every step: keep stdout quiet, errors still show
+      stdio: ['ignore', 'ignore', 'inherit', 'ipc'],
+    });
+    child.on('message', (message: CaseOutcome) => { outcome = message; });
+    child.on('exit', code => resolve(outcome || { error: `replay process exited with code ${code}` }));
+  });
+}
+
+async function replayCase(name: string) {
+  setUpEnvironment('replay');
+  const { expected: _expected, ...input } = loadCase(name);
+  let outcome: CaseOutcome;
+  try {
+    outcome = { summary: await runCase(input) };
+  } catch (err) {
+    outcome = { error: err instanceof Error ? err.message : String(err) };
+  }
+  process.send!(outcome, () => process.exit(0));
+}
+
+async function run() {
+  console.log('=== RPC Pipeline Replay Tests ===\n');
+  const names = listCases();
+  if (names.length === 0) {
+    console.error(`[test-fee-replay] No recorded cases in ${CASES_DIR} (record one with --record)`);
+    process.exit(2);
+  }
+  let passed = 0;
+  let failed = 0;
+
+  for (const name of names) {
+    const replayCase = loadCase(name);
+    const outcome = await replayInChild(name);
+    const mismatches = 'summary' in outcome
+      ? compareFields<Summary>(replayCase.expected, outcome.summary)
+      : [`pipeline failed: ${outcome.error}`];
+
+    if (mismatches.length === 0) {
+      passed++;
+      console.log(`✓ [${replayCase.pipeline}] ${name} - ${replayCase.description}`);
+      console.log(`  → ${describeExpected(replayCase)}\n`);
+    } else {
+      failed++;
+      console.log(`✗ [${replayCase.pipeline}] ${name} - ${replayCase.description}`);
+      for (const m of mismatches) console.log(`  → ${m}`);
+      console.log('');
+    }
+  }
+
+  console.log(`=== Results ===`);
+  console.log(`Passed: ${passed}/${names.length}`);
+  console.log(`Failed: ${failed}/${names.length}`);
+  process.exit(failed === 0 ? 0 : 1);
+}
+
+async function record(name: string, input: CaseInput) {
+  if ((input.pipeline === 'detailed' || input.pipeline === 'streaming') && !(Date.parse(input.to) < Date.now())) {
+    console.error('[test-fee-replay] <to> must be a past timestamp, so replays cover the same window');
+    process.exit(2);
+  }
+  setUpEnvironment('record');
+  const expected = await runCase(input);
+  fs.mkdirSync(CASES_DIR, { recursive: true });
+  const file = path.join(CASES_DIR, `${name}.json`);
+  fs.writeFileSync(file, JSON.stringify({ ...input, expected }, null, 2) + '\n', 'utf8');
+  console.log(`[test-fee-replay] Recorded ${file}`);
+  process.exit(0);
+}
+
+function parseRecordArgs(args: string[]): { name: string; input: CaseInput } | null {
+  const [name, pipeline, ...rest] = args;
+  if (!name) return null;
+  const description = name;
+  switch (pipeline) {
+    case 'detailed':
+    case 'streaming': {
+      const [walletPubkey, from, to, ...fleetAccounts] = rest;
+      if (!walletPubkey || !from || !to) return null;
+      return { name, input: { pipeline, description, walletPubkey, fleetAccounts, from, to } };
+    }
+    case 'fleets':
+      return rest[0] ? { name, input: { pipeline, description, profileId: rest[0] } } : null;
+    case 'tx-details':
+      return rest[0] ? { name, input: { pipeline, description, signature: rest[0] } } : null;
+    default:
+      return null;
+  }
+}
+
+const args = process.argv.slice(2);
+if (args[0] === '--record') {
+  const parsed = parseRecordArgs(args.slice(1));
+  if (!parsed) {
+    console.error('Usage: test-fee-replay.ts --record <case-name> detailed|streaming <walletPubkey> <from> <to> [fleetAccount ...]');
+    console.error('       test-fee-replay.ts --record <case-name> fleets <profileId>');
+    console.error('       test-fee-replay.ts --record <case-name> tx-details <signature>');
+    process.exit(2);
+  }
+  record(parsed.name, parsed.input).catch(err => { console.error('[test-fee-replay] Fatal', err); process.exit(3); });
+} else if (args[0] === '--replay-case' && args[1]) {
+  replayCase(args[1]).catch(err => { console.error('[test-fee-replay] Fatal', err); process.exit(3); });
+} else {
+  run().catch(err => { console.error('[test-fee-replay] Fatal', err); process.exit(3); });
+}
@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+
+/**
+ * Tests for classifyMethodError: which RPC errors take a single method of an endpoint out of
+ * rotation ('unsupported', 'history') and which concern only the request (null)
+ */
+
+import { classifyMethodError } from '../utils/rpc/capabilities.js';
+
+type Case = {
+  description: string;
+  message: string;
+  code?: number;
+  expected: 'unsupported' | 'history' | null;
+};
+
+const CASES: Case[] = [
+  { description: 'JSON-RPC method not found (code)', message: 'failed to get recent blockhash', code: -32601, expected: 'unsupported' },
+  { description: 'JSON-RPC method not found (message)', message: '-32601: Method not found', expected: 'unsupported' },
+  { description: 'provider without the method', message: 'Method is not available on this plan', expected: 'unsupported' },
+  { description: 'program without secondary indexes', message: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA excluded from account secondary indexes; this RPC method unavailable for key', expected: 'unsupported' },
+  { description: 'unsupported transaction version', message: 'Transaction version (0) is not supported by the requesting client. Please try the request again with the following configuration parameter: "maxSupportedTransactionVersion": 0', code: -32015, expected: null },
+  { description: 'disabled feature of the request', message: 'Transaction simulation is disabled for this request', expected: null },
+  { description: 'slot skipped or missing in long-term storage', message: 'Slot 1234 was skipped, or missing in long-term storage', code: -32007, expected: 'history' },
+  { description: 'history not kept (code)', message: 'failed to get transaction', code: -32011, expected: 'history' },
+  { description: 'code inside a longer number', message: 'account 3260112 not found', expected: null },
+  { description: 'rate limit', message: '429 Too Many Requests', expected: null },
+];
+
+function run() {
+  console.log('=== RPC Capability Classification Tests ===\n');
+  let passed = 0;
+  let failed = 0;
+
+  for (const c of CASES) {
+    const actual = classifyMethodError(c.message, c.code);
+    if (actual === c.expected) {
+      passed++;
+      console.log(`✓ ${c.description} → ${actual}`);
+    } else {
+      failed++;
+      console.log(`✗ ${c.description}: expected ${c.expected}, got ${actual}`);
+    }
+  }
+
+  console.log(`\n=== Results ===`);
+  console.log(`Passed: ${passed}/${CASES.length}`);
+  console.log(`Failed: ${failed}/${CASES.length}`);
+  process.exit(failed === 0 ? 0 : 1);
+}
+
+run();
@@ -0,0 +1,59 @@
+import { AccountInfo, PublicKey } from '@solana/web3.js';
+import { newConnection } from '../utils/anchor-setup.js';
+import { RpcPoolConnection } from '../utils/rpc/pool-connection.js';
+import { decodeTransactionDetails, TransactionDetails, transactionDetailsAccounts } from '../decoders/sage-transaction-decoder.js';
+
+/**
+ * Human-friendly details of one transaction (GET /api/tx-details): the transaction and the accounts
+ * the decoder needs are fetched through the pool. If the pool can't return the transaction,
+ * `fallbackEndpoint` is tried directly with a longer timeout. Null when the transaction isn't found.
+ */
+export async function getTransactionDetails(
+  txid: string,
+  poolConnection: RpcPoolConnection,
+  fallbackEndpoint?: string
+): Promise<TransactionDetails | null> {
+  // Use RPC pool with health checks and rate limiting; repeated lookups are served from the call cache
+  let tx: any = null;
+  try {
+    tx = await poolConnection.getParsedTransaction(txid, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+      timeoutMs: 8000,
+      maxRetries: 4,
+    });
+  } catch (err: any) {
+    console.warn('[tx-details] Pool fetch failed:', err?.message || err);
+  }
+
+  if (!tx && fallbackEndpoint) {
+    // Final fallback: try the default RPC endpoint directly with a longer timeout
+    try {
+      const defaultConn = newConnection(fallbackEndpoint);
+      const txPromise = defaultConn.getParsedTransaction(txid, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+      const timeoutPromise = new Promise<null>((resolve) => setTimeout(() => resolve(null), 12000));
+      tx = await Promise.race([txPromise, timeoutPromise]);
+    } catch {}
+  }
+  if (!tx) return null;
+
+  // Message and crafting accounts for the fleet lookup and the account decoders, in one pool call
+  const accountKeys = transactionDetailsAccounts(tx);
+  const accounts = new Map<string, AccountInfo<Buffer> | null>();
+  try {
+    const infos = await poolConnection.getMultipleAccountsInfo(accountKeys.map(k => new PublicKey(k)), { timeoutMs: 8000, maxRetries: 2, logErrors: false });
+    accountKeys.forEach((key, i) => accounts.set(key, infos[i]));
+  } catch (err: any) {
+    console.warn('[tx-details] Account fetch failed, decoding without accounts:', err?.message || err);
+  }
+
+  // Only print verbose transaction debug when explicitly enabled to avoid flooding logs
+  if (process.env.DEBUG_TX === '1') {
+    console.log('--- DEBUG TRANSACTION ---');
+    console.log('TXID:', txid);
+    console.log('Instructions:', JSON.stringify(tx.transaction.message.instructions, null, 2));
+    console.log('LogMessages:', JSON.stringify(tx.meta?.logMessages || [], null, 2));
+  }
+
+  return decodeTransactionDetails(txid, tx, accounts);
+}
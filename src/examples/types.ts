@@ -16,6 +16,14 @@ export interface TransactionInfo {
   craftingMaterial?: string;
   decodedRecipe?: any;
   meta?: any;
+  // Compute budget (see compute-budget.ts); absent on transactions stored before it was extracted
+  computeUnitLimit?: number;
+  computeUnitPrice?: number;
+  computeUnitsConsumed?: number;
+  signatureCount?: number;
+  // Fee valued at the rates nearest blockTime (see prices/fee-valuation.ts)
+  feeUsd?: number;
+  feeAtlas?: number;
 }
 
 export interface FleetOperation {
@@ -2,34 +2,72 @@ import { TransactionInfo } from './types.js';
 import { getAccountTransactions } from './account-transactions.js';
 import { newConnection } from '../utils/anchor-setup.js';
 import { RpcPoolConnection } from '../utils/rpc/pool-connection.js';
-import OP_MAP from './op-map.js';
+import { classifySageTransaction, GENERIC_ACCOUNTS, SAGE_PROGRAM_ID } from './sage-classifier.js';
+import { attributeFleetOperation, FleetAccountMap, fleetAccountMapFromLists, UNATTRIBUTED_FLEET } from './fleet-map.js';
+import { AnalysisWindow, FeeSeries, FeeSeriesBuilder, resolveAnalysisWindow } from './fee-series.js';
+import { addFeeBreakdown, FeeBreakdown, finalizeFeeBreakdown, splitFee } from './compute-budget.js';
+import { getGlobalPriceHistory } from '../prices/price-history.js';
+import { addFeeValue, FeeValuationBuilder, valueTransaction } from '../prices/fee-valuation.js';
+import { FeeValuation } from '../prices/types.js';
+import { FailureReport, FailureReportBuilder } from './failure-report.js';
 
-export async function getWalletSageFeesDetailed(
-  rpcEndpoint: string,
-  rpcWebsocket: string,
-  walletPubkey: string,
-  fleetAccounts: string[],
-  fleetAccountNames: { [account: string]: string } = {},
-  fleetRentalStatus: { [account: string]: boolean } = {},
-  hours: number = 24,
-  opts?: { refresh?: boolean },
-  poolConnection?: RpcPoolConnection  // Optional pre-configured pool connection
-): Promise<{
+// Base/priority/CU split (compute-budget) and USD/ATLAS value (fee-valuation) of a group of fees
+type FeeTotals = Partial<FeeBreakdown> & { totalFeeUsd?: number; totalFeeAtlas?: number };
+
+export type OperationFees = FeeTotals & {
+  count: number;
+  totalFee: number;
+  avgFee: number;
+  details?: string[];
+};
+
+export type FleetFees = FeeTotals & {
+  totalFee: number;
+  feePercentage: number;
+  totalOperations: number;
+  isRented?: boolean;
+  operations: { [operation: string]: OperationFees & { percentageOfFleet: number } };
+  fleetName?: string;
+  unattributedReasons?: { [reason: string]: { count: number; totalFee: number } };
+};
+
+export type FeesByFleet = { [fleetAccount: string]: FleetFees };
+export type FeesByOperation = { [operation: string]: OperationFees };
+
+export interface WalletSageFeesDetailed {
   walletAddress: string;
   period: string;
   totalFees24h: number;
   sageFees24h: number;
+  baseFees24h: number;
+  priorityFees24h: number;
   transactionCount24h: number;
   totalSignaturesFetched: number;
-  feesByFleet: { [fleetAccount: string]: { totalFee: number; feePercentage: number; totalOperations: number; isRented?: boolean; operations: { [operation: string]: { count: number; totalFee: number; avgFee: number; percentageOfFleet: number; details?: string[] } }; fleetName?: string } };
-  feesByOperation: { [operation: string]: { count: number; totalFee: number; avgFee: number; details?: string[] } };
+  feesByFleet: FeesByFleet;
+  feesByOperation: FeesByOperation;
+  feeSeries: FeeSeries;
+  feeValuation: FeeValuation;
+  failureReport: FailureReport;
   transactions: TransactionInfo[];
   unknownOperations: number;
   rentedFleetAccounts: string[];
   fleetAccountNamesEcho: { [account: string]: string };
   fleetRentalStatusFinal: { [account: string]: boolean };
-}> {
-  const SAGE_PROGRAM_ID = 'SAGE2HAwep459SNq61LHvjxPk4pLPEJLoMETef7f7EE';
+}
+
+export async function getWalletSageFeesDetailed(
+  rpcEndpoint: string,
+  rpcWebsocket: string,
+  walletPubkey: string,
+  fleetAccounts: string[],
+  fleetAccountNames: { [account: string]: string } = {},
+  fleetRentalStatus: { [account: string]: boolean } = {},
+  hours: number = 24,
+  opts?: { refresh?: boolean },
+  poolConnection?: RpcPoolConnection,  // Optional pre-configured pool connection
+  fleetMap: FleetAccountMap = fleetAccountMapFromLists(fleetAccounts, fleetAccountNames, fleetRentalStatus),
+  window: AnalysisWindow = resolveAnalysisWindow({ hours })  // from/to range and series bucket
+): Promise<WalletSageFeesDetailed> {
   const connection = newConnection(rpcEndpoint, rpcWebsocket);
 
   // Debug: Print all input parameters for troubleshooting
@@ -37,17 +75,12 @@ export async function getWalletSageFeesDetailed(
   console.log('Fleet accounts:', fleetAccounts);
   console.log('Fleet names:', fleetAccountNames);
   console.log('Fleet rental status:', fleetRentalStatus);
-  console.log('Hours:', hours);
+  console.log('Window:', window.label);
   console.log('Wallet pubkey:', walletPubkey);
   console.log('--------------------------------------');
 
   // Exclude common/generic accounts that appear in all transactions
-  const excludeAccounts = [
-    'SAGE2HAwep459SNq61LHvjxPk4pLPEJLoMETef7f7EE', // SAGE Program
-    'GAMEzqJehF8yAnKiTARUuhZMvLvkZVAsCVri5vSfemLr', // Game Program  
-    '11111111111111111111111111111111', // System Program
-    'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA', // Token Program
-  ];
+  const excludeAccounts = GENERIC_ACCOUNTS;
   
   // Filter out generic accounts from fleet accounts
   const specificFleetAccounts = fleetAccounts.filter(account => 
@@ -58,8 +91,8 @@ export async function getWalletSageFeesDetailed(
   specificFleetAccounts.forEach((fleet, i) => console.log(`  Specific Fleet ${i}: ${fleet.substring(0, 8)}...`));
   
   // Compute cutoff for the analysis window
-  const now = Date.now();
-  const cutoffTime = now - (hours * 60 * 60 * 1000);
+  const cutoffTime = window.fromMs;
+  const endTime = window.toMs ?? Date.now();
 
   // Get all transactions for wallet (paginate until cutoff - process in chunks)
   const result = await getAccountTransactions(
@@ -69,7 +102,7 @@ export async function getWalletSageFeesDetailed(
     5000,  // Allow up to 5000 to cover 24h
     cutoffTime,
     10000,  // Max signatures for 24h coverage
-    opts,
+    { ...opts, untilUnixMs: window.toMs },
     poolConnection  // Pass the pool connection if provided
   );
   const allTransactions = result.transactions;
@@ -77,34 +110,42 @@ export async function getWalletSageFeesDetailed(
   
   const recent24h = allTransactions.filter(tx => {
     const txTime = new Date(tx.timestamp).getTime();
-    return txTime >= cutoffTime && tx.programIds.includes(SAGE_PROGRAM_ID);
+    return txTime >= cutoffTime && txTime <= endTime && tx.programIds.includes(SAGE_PROGRAM_ID);
   });
 
   // Analyze by fleet and operation
-  const feesByFleet: { [fleetAccount: string]: { totalFee: number; feePercentage: number; totalOperations: number; isRented?: boolean; operations: { [operation: string]: { count: number; totalFee: number; avgFee: number; percentageOfFleet: number; details?: string[] } }; fleetName?: string } } = {};
-  const feesByOperation: { [operation: string]: { count: number; totalFee: number; avgFee: number; details?: string[] } } = {};
+  const feesByFleet: FeesByFleet = {};
+  const feesByOperation: FeesByOperation = {};
   let totalFees24h = 0;
   let sageFees24h = 0;
+  let baseFees24h = 0;
+  let priorityFees24h = 0;
   let unknownOperations = 0;
+  const feeSeries = new FeeSeriesBuilder(window);
+  const feeValuation = new FeeValuationBuilder();
+  const failureReport = new FailureReportBuilder();
+  const priceHistory = await getGlobalPriceHistory().ready();
   
   // Track which fleets have rental operations
   const rentedFleets = new Set<string>();
 
-  // Complete SAGE instruction mapping from official IDL (SAGE2HAwep459SNq61LHvjxPk4pLPEJLoMETef7f7EE)
-  // Source: https://github.com/staratlasmeta/star-atlas-decoders
- 
-
   for (const tx of recent24h) {
     totalFees24h += tx.fee;
     if (!tx.programIds.includes(SAGE_PROGRAM_ID)) continue;
     sageFees24h += tx.fee;
+    const { baseFee, priorityFee } = splitFee(tx);
+    baseFees24h += baseFee;
+    priorityFees24h += priorityFee;
+    valueTransaction(tx, priceHistory);
+    feeValuation.add(tx);
     
     // Don't skip transactions without parsed instructions - they may still have log messages
     // We'll try to decode from logs below
 
-    // Determine operation using MULTIPLE sources with enhanced patterns
-    let operation = 'Unknown';
-    let foundMethod = 'none';
+    // Determine operation, grouping and crafting material with the shared classifier
+    const classification = classifySageTransaction(tx);
+    const operation = classification.operation;
+    const groupedOperation = classification.groupedOperation;
 
     // Debug: Print transaction signature, accountKeys, and instructions for first 10 tx
     const isFirstFewTx = recent24h.indexOf(tx) < 10;
@@ -115,141 +156,24 @@ export async function getWalletSageFeesDetailed(
       console.log('Instructions:', tx.instructions);
       console.log('ProgramIds:', tx.programIds);
       console.log('LogMessages:', tx.logMessages);
+      console.log('Classification:', operation, classification.confidence, classification.evidence);
       console.log('----------------');
     }
 
-    // ...existing code for operation detection and fleet matching...
-        // Legacy operation and fleet detection logic
-        // Method 1: Check instruction names from transaction (most reliable)
-        if (tx.instructions && tx.instructions.length > 0) {
-          for (const instr of tx.instructions) {
-            if (OP_MAP[instr]) {
-              operation = OP_MAP[instr];
-              foundMethod = 'instruction_direct';
-              break;
-            }
-            for (const [key, value] of Object.entries(OP_MAP) as [string, string][]) {
-              if (instr.toLowerCase().includes(key.toLowerCase())) {
-                operation = value;
-                foundMethod = 'instruction';
-                break;
-              }
-            }
-            if (operation !== 'Unknown') break;
-          }
-        }
-        // Method 2: Check log messages for instruction patterns
-        if (operation === 'Unknown' && tx.logMessages) {
-          for (const log of tx.logMessages) {
-            const ixMatch = log.match(/Instruction:\s*(\w+)/i);
-            if (ixMatch) {
-              const ixName = ixMatch[1];
-              if (OP_MAP[ixName]) {
-                operation = OP_MAP[ixName];
-                foundMethod = 'log_instruction';
-                break;
-              }
-            }
-            for (const [key, value] of Object.entries(OP_MAP) as [string, string][]) {
-              if (log.includes(key)) {
-                operation = value;
-                foundMethod = 'log_direct';
-                break;
-              }
-            }
-            if (operation !== 'Unknown') break;
-          }
-        }
-        // Method 3: Pattern-based detection for common operations
-        if (operation === 'Unknown') {
-          const logsLower = (tx.logMessages || []).join(' ').toLowerCase();
-          const innerText = (tx.instructions || []).join(' ').toLowerCase();
-          const combinedLower = (logsLower + ' ' + innerText).trim();
-          if (combinedLower.includes('craft')) {
-                operation = 'Crafting';
-            foundMethod = 'pattern_craft';
-          } else if (combinedLower.includes('mine') || combinedLower.includes('mining')) {
-            if (combinedLower.includes('start')) {
-              operation = 'StartMining';
-            } else if (combinedLower.includes('stop')) {
-              operation = 'StopMining';
-            } else {
-              operation = 'Mining';
-            }
-            foundMethod = 'pattern_mining';
-          } else if (combinedLower.includes('subwarp') || combinedLower.includes('warp')) {
-            if (combinedLower.includes('start') || combinedLower.includes('enter')) {
-              operation = 'StartSubwarp';
-            } else if (combinedLower.includes('stop') || combinedLower.includes('exit') || combinedLower.includes('end')) {
-              operation = 'EndSubwarp';
-            } else {
-              operation = 'Subwarp';
-            }
-            foundMethod = 'pattern_warp';
-          } else if (combinedLower.includes('scan')) {
-            if (combinedLower.includes('start')) {
-              operation = 'StartScan';
-            } else if (combinedLower.includes('stop')) {
-              operation = 'StopScan';
-            } else {
-              operation = 'Scan';
-            }
-            foundMethod = 'pattern_scan';
-          } else if (combinedLower.includes('dock')) {
-            operation = combinedLower.includes('undock') ? 'Undock' : 'Dock';
-            foundMethod = 'pattern_dock';
-          } else if (combinedLower.includes('cargo')) {
-            operation = combinedLower.includes('unload') ? 'UnloadCargo' : 'LoadCargo';
-            foundMethod = 'pattern_cargo';
-          } else if (combinedLower.includes('fuel')) {
-            operation = 'Refuel';
-            foundMethod = 'pattern_fuel';
-          } else if (combinedLower.includes('ammo')) {
-            operation = 'Rearm';
-            foundMethod = 'pattern_ammo';
-          }
-        }
+    // Fleet matching
         if (operation === 'Unknown') unknownOperations++;
-        // ENHANCED: Find which fleet is involved using multiple strategies
-        let involvedFleet: string | undefined = undefined;
-        let involvedFleetName: string | undefined = undefined;
+        // Find which fleet is involved through the fleet account map (fleet key or any sub-account)
+        // Fleet operations that can't be attributed are reported as such, not guessed
+        const attribution = attributeFleetOperation(tx, classification, fleetMap);
+        const involvedFleet = attribution.fleetKey;
+        let involvedFleetName = attribution.fleetName;
         let matchStrategy = 'none';
-        const isFleetOperation = [
-          'CreateFleet', 'DisbandFleet', 'Dock', 'Undock', 'StartMining', 'StopMining',
-          'StartSubwarp', 'StopSubwarp', 'WarpToCoord', 'WarpLane', 'LoadCargo', 'UnloadCargo',
-          'ScanSDU', 'Refuel', 'Rearm', 'AddShip', 'LoadCrew', 'UnloadCrew', 'Respawn', 'FleetStateHandler',
-          'ReloadAbility', 'RepairDocked', 'RepairIdle', 'AttackFleet', 'RetrieveLoot',
-          'ForceDropCargo', 'RemoveInvalidShip', 'Mining', 'Scan', 'Subwarp'
-        ].includes(operation);
-        if (tx.accountKeys && tx.accountKeys.length > 0 && isFleetOperation) {
-          for (const fleet of specificFleetAccounts) {
-            if (tx.accountKeys.includes(fleet)) {
-              involvedFleet = fleet;
-              involvedFleetName = (fleetAccountNames && fleetAccountNames[fleet]) ? fleetAccountNames[fleet] : fleet.substring(0, 8);
-              matchStrategy = 'direct';
-              break;
-            }
-          }
+        if (involvedFleet) {
+          matchStrategy = attribution.role === 'fleet' ? 'direct' : `sub_account_${attribution.role}`;
+        } else if (attribution.reason) {
+          matchStrategy = `unattributed_${attribution.reason}`;
         }
-        // Enhanced cargo/dock operation matching
-        if (!involvedFleet && tx.accountKeys && (operation === 'LoadCargo' || operation === 'UnloadCargo' || operation === 'Dock' || operation === 'Undock' || operation.includes('Cargo'))) {
-          // Try to match cargo hold or any known fleet account
-          for (const acc of tx.accountKeys) {
-            if (fleetAccountNames && fleetAccountNames[acc]) {
-              involvedFleet = acc;
-              involvedFleetName = fleetAccountNames[acc];
-              matchStrategy = 'cargo_account';
-              break;
-            }
-          }
-          // If still not found, assign to first available fleet
-          if (!involvedFleet && specificFleetAccounts.length > 0) {
-            involvedFleet = specificFleetAccounts[0];
-            involvedFleetName = (fleetAccountNames && fleetAccountNames[involvedFleet]) ? fleetAccountNames[involvedFleet] : involvedFleet.substring(0, 8);
-            matchStrategy = 'cargo_fallback';
-          }
-        }
-        if (!involvedFleet) {
+        if (!involvedFleetName) {
           if (operation.includes('Craft') || operation.includes('craft')) {
             involvedFleetName = 'Crafting Operations';
             matchStrategy = 'category_craft';
@@ -282,47 +206,15 @@ export async function getWalletSageFeesDetailed(
             matchStrategy = 'category_other';
           }
         }
-        // Enhanced FleetStateHandler detection: check if it's actually a Subwarp completion
-        if (operation === 'FleetStateHandler') {
-          const logsJoined = (tx.logMessages || []).join(' ');
-          if (logsJoined.includes('MoveSubwarp')) {
-            operation = 'StopSubwarp';  // It's completing a subwarp movement
-          } else if (logsJoined.includes('MineAsteroid')) {
-            operation = 'StopMining';  // It's completing mining
-          }
-          // Otherwise keep as FleetStateHandler for other state transitions
-        }
-        
-        // Group related operations (start/stop pairs and logistics)
-        let groupedOperation = operation;
-        if (operation === 'StartSubwarp' || operation === 'StopSubwarp' || operation === 'EndSubwarp' || operation === 'Subwarp' || operation === 'FleetStateHandler') {
-          groupedOperation = 'Subwarp';
-        } else if (operation === 'StartMining' || operation === 'StopMining') {
-          groupedOperation = 'Mining';
-        } else if (operation === 'StartScan' || operation === 'StopScan' || operation === 'ScanSDU') {
-          groupedOperation = 'Scan';
-        } else if (operation === 'Dock' || operation === 'Undock' || operation === 'LoadCargo' || operation === 'UnloadCargo') {
-          groupedOperation = 'Dock/Undock/Load/Unload';
-        } else if (operation === 'CraftStart' || operation === 'CraftClaim' || operation === 'Crafting') {
-          groupedOperation = 'Crafting';
-        } else if (operation === 'DepositTokens' || operation === 'WithdrawTokens') {
-          groupedOperation = 'Token Ops';
-        } else if (operation === 'CreateCargoPod' || operation === 'CloseCargoPod' || operation === 'DepositToPod' || operation === 'WithdrawFromPod') {
-          groupedOperation = 'Cargo Pods';
-        }
     
-    // If crafting detected but material missing, infer Fuel/Food from logs/instructions
+    // Crafting material (Fuel/Food) as inferred by the classifier
     let craftingMaterial: string | undefined = undefined;
     let craftingDetail: string = '';
-    if (operation === 'Crafting' || groupedOperation === 'Crafting') {
+    if (groupedOperation === 'Crafting') {
+      craftingMaterial = classification.material;
       const logsLower2 = (tx.logMessages || []).join(' ').toLowerCase();
       const instrLower2 = (tx.instructions || []).join(' ').toLowerCase();
       const combinedLower2 = `${logsLower2} ${instrLower2}`;
-      if (combinedLower2.includes('fuel') || combinedLower2.includes('hydrogen')) {
-        craftingMaterial = 'Fuel';
-      } else if (combinedLower2.includes('food') || combinedLower2.includes('biomass')) {
-        craftingMaterial = 'Food';
-      }
       // Estrai i materiali bruciati dal log
       const burnMatch = combinedLower2.match(/burn[:\s]+([a-z\s0-9]+?)(?:\s|;|$)/);
       if (burnMatch) {
@@ -347,9 +239,13 @@ export async function getWalletSageFeesDetailed(
     opEntry.count++;
     opEntry.totalFee += tx.fee;
     opEntry.avgFee = opEntry.totalFee / opEntry.count;
+    addFeeBreakdown(opEntry, tx);
+    addFeeValue(opEntry, tx);
     if (craftingDetail) {
       opEntry.details!.push(craftingDetail);
     }
+    feeSeries.add(tx.blockTime, tx.fee, involvedFleetName || 'NONE', finalOperationForStats);
+    failureReport.add(tx, involvedFleetName || 'NONE', finalOperationForStats);
     
     // Track rental operations - mark fleets with rental ops as rented
     if (operation.includes('Rental') || operation.toLowerCase().includes('rental') || 
@@ -383,9 +279,17 @@ export async function getWalletSageFeesDetailed(
     }
     const fleetEntry = feesByFleet[fleetKey];
     fleetEntry.totalFee += tx.fee;
+    addFeeBreakdown(fleetEntry, tx);
+    addFeeValue(fleetEntry, tx);
+    if (fleetKey === UNATTRIBUTED_FLEET && attribution.reason) {
+      const reasons = fleetEntry.unattributedReasons || (fleetEntry.unattributedReasons = {});
+      if (!reasons[attribution.reason]) reasons[attribution.reason] = { count: 0, totalFee: 0 };
+      reasons[attribution.reason].count++;
+      reasons[attribution.reason].totalFee += tx.fee;
+    }
     let txRented = false;
     if (involvedFleet) {
-      if (fleetRentalStatus[involvedFleet]) txRented = true;
+      if (attribution.isRented || fleetRentalStatus[involvedFleet]) txRented = true;
       if (rentedFleets.has(involvedFleet)) txRented = true;
     }
     fleetEntry.isRented = !!(fleetEntry.isRented || txRented);
@@ -401,6 +305,8 @@ export async function getWalletSageFeesDetailed(
     fleetOp.count++;
     fleetOp.totalFee += tx.fee;
     fleetOp.avgFee = fleetOp.totalFee / fleetOp.count;
+    addFeeBreakdown(fleetOp, tx);
+    addFeeValue(fleetOp, tx);
     if (operationDetail) {
       fleetOp.details!.push(operationDetail);
     }
@@ -413,17 +319,21 @@ export async function getWalletSageFeesDetailed(
     fleetEntry.totalOperations = Object.values(fleetEntry.operations).reduce((sum: number, op: any) => sum + op.count, 0);
     Object.values(fleetEntry.operations).forEach(op => {
       op.percentageOfFleet = op.totalFee / (fleetEntry.totalFee || 1);
+      finalizeFeeBreakdown(op);
     });
+    finalizeFeeBreakdown(fleetEntry);
   });
 
   Object.values(feesByOperation).forEach(op => {
     op.avgFee = op.totalFee / (op.count || 1);
+    finalizeFeeBreakdown(op);
   });
 
   console.log('\n📈 Enhanced Analysis Results:');
   console.log(`Total SAGE transactions processed: ${recent24h.length}`);
   console.log(`Total fees: ${totalFees24h / 1000000000} SOL`);
   console.log(`SAGE fees: ${sageFees24h / 1000000000} SOL`);
+  console.log(`Priority fees: ${priorityFees24h / 1000000000} SOL (base ${baseFees24h / 1000000000} SOL)`);
   console.log(`Unknown operations: ${unknownOperations} (${(unknownOperations/recent24h.length*100).toFixed(1)}%)`);
   console.log('\n🔍 Operations breakdown:');
   Object.entries(feesByOperation).forEach(([op, data]) => {
@@ -446,13 +356,18 @@ export async function getWalletSageFeesDetailed(
 
   return {
     walletAddress: walletPubkey,
-    period: `Last ${hours} hours`,
+    period: window.label,
     totalFees24h,
     sageFees24h,
+    baseFees24h,
+    priorityFees24h,
     transactionCount24h: recent24h.length,
     totalSignaturesFetched: totalSigs,
     feesByFleet,
     feesByOperation,
+    feeSeries: feeSeries.build(),
+    feeValuation: feeValuation.build(),
+    failureReport: failureReport.build(),
     transactions: recent24h,
     unknownOperations,
     rentedFleetAccounts,
@@ -1,12 +1,23 @@
 import { TransactionInfo } from './types.js';
 import { getAccountTransactions } from './account-transactions.js';
-import { decodeSageInstruction } from '../decoders/sage-crafting-decoder.js';
-import { Connection, PublicKey } from '@solana/web3.js';
+import { AccountInfo, PublicKey } from '@solana/web3.js';
 import { decodeRecipe, isRecipeAccount, decodeCraftingProcess, decodeCraftableItem } from '../decoders/crafting-decoder.js';
 import { decodeAccountWithRust } from '../decoders/rust-wrapper.js';
 import { resolveMints } from '../utils/metaplex-metadata.js';
 import { RpcPoolConnection } from '../utils/rpc/pool-connection.js';
-import OP_MAP from './op-map.js';
+import { newConnection } from '../utils/anchor-setup.js';
+import { abortableSleep, isAbortError, throwIfAborted } from '../utils/rpc/abort.js';
+import { classifySageTransaction, CraftingAction, GENERIC_ACCOUNTS, SAGE_PROGRAM_ID } from './sage-classifier.js';
+import { attributeFleetOperation, FleetAccountMap, fleetAccountMapFromLists, UNATTRIBUTED_FLEET } from './fleet-map.js';
+import { AnalysisWindow, FeeSeriesBuilder, resolveAnalysisWindow } from './fee-series.js';
+import { addFeeBreakdown, finalizeFeeBreakdown, splitFee } from './compute-budget.js';
+import { getGlobalPriceHistory, PriceHistory } from '../prices/price-history.js';
+import { addFeeValue, FeeValuationBuilder, valueTransaction } from '../prices/fee-valuation.js';
+import { FailureReportBuilder } from './failure-report.js';
+
+// Recipe/process accounts are looked up again for every crafting tx that references them;
+// their decoded kind and material don't change during an analysis
+const CRAFTING_ACCOUNT_MEMO_TTL_MS = 10 * 60 * 1000;
 
 export async function getWalletSageFeesDetailedStreaming(
   rpcEndpoint: string,
@@ -19,30 +30,17 @@ export async function getWalletSageFeesDetailedStreaming(
   sendUpdate: (data: any) => void,
   saveProgress?: (partialResult: any) => Promise<void>,
   cachedData?: any,
-  lastProcessedSignature?: string
+  lastProcessedSignature?: string,
+  fleetMap: FleetAccountMap = fleetAccountMapFromLists(fleetAccounts, fleetAccountNames, fleetRentalStatus),
+  signal?: AbortSignal,  // fires when the client goes away: pending RPC work is dropped
+  window: AnalysisWindow = resolveAnalysisWindow({ hours })  // from/to range and series bucket
 ): Promise<any> {
   // --- LOGICA LEGACY ADATTATA ALLA MODULARIZZAZIONE ---
   // Costanti e mapping
-  const SAGE_PROGRAM_ID = 'SAGE2HAwep459SNq61LHvjxPk4pLPEJLoMETef7f7EE';
-  const excludeAccounts = [
-    'SAGE2HAwep459SNq61LHvjxPk4pLPEJLoMETef7f7EE',
-    'GAMEzqJehF8yAnKiTARUuhZMvLvkZVAsCVri5vSfemLr',
-    '11111111111111111111111111111111',
-    'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
-  ];
-  // Minimal materials map to detect crafting token movements
-  const MATERIALS: Record<string, string> = {
-    'MASS9GqtJz6ABisAxcUn3FeR4phMqH1XfG6LPKJePog': 'Biomass',
-    'foodQJAztMzX1DKpLaiounNe2BDMds5RNuPC6jsNrDG': 'Food',
-    'fueL3hBZjLLLJHiFH9cqZoozTG3XQZ53diwFPwbzNim': 'Fuel',
-    'HYDR4EPHJcDPcaLYUcNCtrXUdt1PnaN4MvE655pevBYp': 'Hydrogen',
-  };
-  const specificFleetAccounts = fleetAccounts.filter(account => account && !excludeAccounts.includes(account) && account.length > 40);
-  const now = Date.now();
-  const cutoffTime = now - (hours * 60 * 60 * 1000);
-  // OP_MAP is now imported from op-map.js
+  const excludeAccounts = GENERIC_ACCOUNTS;
+  const cutoffTime = window.fromMs;
   const CRAFT_PROGRAM_ID = 'CRAFT2RPXPJWCEix4WpJST3E7NLf79GTqZUL75wngXo5';
-  const connection = new Connection(rpcEndpoint, 'confirmed');
+  const connection = newConnection(rpcEndpoint);
 
   // Parametri batch e rate limiting
   const BATCH_SIZE = 150;
@@ -58,12 +56,13 @@ export async function getWalletSageFeesDetailedStreaming(
   let successStreak = 0;
   let consecutiveErrors = 0;
 
-  // Gestione incrementale/cache
-  const isIncrementalUpdate = !!(cachedData && lastProcessedSignature);
-  let feesByFleet: any = isIncrementalUpdate && cachedData ? { ...cachedData.feesByFleet } : {};
-  let feesByOperation: any = isIncrementalUpdate && cachedData ? { ...cachedData.feesByOperation } : {};
-  let totalFees24h = isIncrementalUpdate && cachedData ? (cachedData.totalFees24h || 0) : 0;
-  let sageFees24h = isIncrementalUpdate && cachedData ? (cachedData.sageFees24h || 0) : 0;
+  // Gestione incrementale/cache: totals are seeded only once the resume range is found in the fetched signatures
+  let feesByFleet: any = {};
+  let feesByOperation: any = {};
+  let totalFees24h = 0;
+  let sageFees24h = 0;
+  let baseFees24h = 0;
+  let priorityFees24h = 0;
   let unknownOperations = 0;
   let processedTransactions: TransactionInfo[] = [];
   const rentedFleets = new Set<string>();
@@ -72,6 +71,36 @@ export async function getWalletSageFeesDetailedStreaming(
   // Create a single reusable RPC pool connection for crafting details
   const sharedPoolConnection = new RpcPoolConnection(connection);
 
+  const craftingCandidates = (tx: TransactionInfo): string[] =>
+    (tx.accountKeys || []).filter(k => k && !excludeAccounts.includes(k) && k.length > 40).slice(0, 6);
+
+  // Fetch the recipe/process candidates of every crafting tx in the batch with one getMultipleAccounts
+  // call; a key missing from the map (bulk fetch failed) is looked up on its own
+  const prefetchCraftingAccounts = async (batch: TransactionInfo[]): Promise<Map<string, AccountInfo<Buffer> | null>> => {
+    const keys = new Set<string>();
+    for (const tx of batch) {
+      if (tx.programIds.includes(SAGE_PROGRAM_ID) && classifySageTransaction(tx).isCrafting) {
+        craftingCandidates(tx).forEach(k => keys.add(k));
+      }
+    }
+    const accounts = new Map<string, AccountInfo<Buffer> | null>();
+    if (keys.size === 0) return accounts;
+    const list = Array.from(keys);
+    try {
+      const infos = await sharedPoolConnection.getMultipleAccountsInfo(list.map(k => new PublicKey(k)), {
+        timeoutMs: 8000,
+        maxRetries: 1,
+        logErrors: false,
+        signal,
+        memoTtlMs: CRAFTING_ACCOUNT_MEMO_TTL_MS,
+      });
+      list.forEach((k, j) => accounts.set(k, infos[j]));
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+    }
+    return accounts;
+  };
+
   // Fase 1: Fetch firme (con batch, delay, rate limiting)
   sendUpdate({ type: 'progress', stage: 'signatures', message: 'Fetching signatures...', processed: 0, total: 0 });
   const result = await getAccountTransactions(
@@ -81,206 +110,74 @@ export async function getWalletSageFeesDetailedStreaming(
     MAX_TRANSACTIONS,
     cutoffTime,
     MAX_TRANSACTIONS,
-    undefined
+    { signal, untilUnixMs: window.toMs }
   );
   const allTransactions = result.transactions;
   const totalSigs = result.totalSignaturesFetched;
   sendUpdate({ type: 'progress', stage: 'signatures', message: `Found ${totalSigs} signatures`, processed: totalSigs, total: totalSigs });
 
+  // Resume: skip the signatures already aggregated into cachedData
+  const plan = planResume(allTransactions, cachedData?.processedRange ?? (lastProcessedSignature ? { newest: lastProcessedSignature } : undefined));
+  const workQueue = plan.workQueue;
+  const processedRange = plan.range;
+  const feeSeries = new FeeSeriesBuilder(window, plan.resumed ? cachedData.feeSeries : undefined);
+  const feeValuation = new FeeValuationBuilder(plan.resumed ? cachedData.feeValuation : undefined);
+  const failureReport = new FailureReportBuilder(plan.resumed ? cachedData.failureReport : undefined);
+  const priceHistory = await getGlobalPriceHistory().ready();
+  if (plan.resumed) {
+    feesByFleet = { ...cachedData.feesByFleet };
+    feesByOperation = { ...cachedData.feesByOperation };
+    totalFees24h = cachedData.totalFees24h || 0;
+    sageFees24h = cachedData.sageFees24h || 0;
+    baseFees24h = cachedData.baseFees24h || 0;
+    priorityFees24h = cachedData.priorityFees24h || 0;
+    unknownOperations = cachedData.unknownOperations || 0;
+    // Checkpoints don't carry the transactions: take the processed range from the fetched ones
+    processedTransactions = restoreProcessedTransactions(plan.processed, cachedData.feesByOperation, priceHistory);
+    console.log(`[stream] Resuming: ${plan.skipped} signatures already processed, ${workQueue.length} to go`);
+  }
+
   // Fase 2: Batch processing e parsing avanzato
-  for (let i = 0; i < allTransactions.length; i += BATCH_SIZE) {
-    const batch = allTransactions.slice(i, i + BATCH_SIZE);
+  for (let i = 0; i < workQueue.length; i += BATCH_SIZE) {
+    throwIfAborted(signal);
+    const batch = workQueue.slice(i, i + BATCH_SIZE);
     const batchStart = Date.now();
+    const craftingAccounts = await prefetchCraftingAccounts(batch);
     for (const tx of batch) {
       // Don't skip transactions with empty instructions - they might still be valid SAGE transactions
-      // The programIds check below will filter out non-SAGE transactions
-      
-      // Parsing avanzato: riconoscimento e distinzione crafting tramite decoder locale
-      let operation = 'Unknown';
-      let isCrafting = false;
-      let craftingMaterial = undefined;
-      let craftingType = undefined;
-      let hasSageInstruction = false;
-      
-      if (tx.instructions && tx.instructions.length > 0) {
-        for (const instr of tx.instructions) {
-          const decoded = decodeSageInstruction(instr);
-          if (decoded && (decoded.program === 'SAGE-Starbased' || decoded.program === 'Crafting') && decoded.craftType === 'crafting') {
-            isCrafting = true;
-            hasSageInstruction = true;
-            craftingType = decoded.name || decoded.craftType || 'Crafting';
-            craftingMaterial = decoded.material || craftingMaterial;
-            operation = craftingType;
-            break;
-          }
-          // fallback legacy
-          if (OP_MAP[instr]) {
-            operation = OP_MAP[instr];
-            hasSageInstruction = true;
-            if (operation === 'Crafting') isCrafting = true;
-            break;
-          }
-          if (/craft/i.test(instr)) {
-            operation = 'Crafting';
-            isCrafting = true;
-            hasSageInstruction = true;
-            break;
-          }
-        }
-      }
-      
       // Skip ONLY pure non-SAGE transactions (no SAGE program ID at all)
       if (!tx.programIds.includes(SAGE_PROGRAM_ID)) {
         continue;
       }
-      
-      // If operation is still Unknown but has SAGE program, count it as SAGE operation
-      // Don't skip it - it's a valid SAGE transaction we just haven't decoded yet
-      // 2. Pattern matching su logMessages (fallback for Unknown operations)
-      if (operation === 'Unknown' && tx.logMessages) {
-        for (const log of tx.logMessages) {
-          const ixMatch = log.match(/Instruction:\s*(\w+)/);
-          if (ixMatch) {
-            const ixName = ixMatch[1];
-            if (OP_MAP[ixName]) {
-              operation = OP_MAP[ixName];
-              hasSageInstruction = true;
-              if (operation.includes('Craft')) isCrafting = true;
-              break;
-            }
-          }
-        }
-      }
-      // 2b. Additional crafting detection
-      if (!isCrafting && tx.logMessages) {
-        for (const log of tx.logMessages) {
-          if (/craft/i.test(log)) {
-            operation = 'Crafting';
-            isCrafting = true;
-            hasSageInstruction = true;
-            break;
-          }
-        }
-      }
-      // 2c. Enhanced FleetStateHandler detection for Subwarp/Mining completion
-      if (operation === 'FleetStateHandler' && tx.logMessages) {
-        const logsJoined = tx.logMessages.join(' ');
-        if (logsJoined.includes('MoveSubwarp')) {
-          operation = 'StopSubwarp';
-        } else if (logsJoined.includes('MineAsteroid')) {
-          operation = 'StopMining';
-        }
-      }
-      
-      // 3. Parsing innerInstructions per materiali (migliorato)
-      if (isCrafting && tx.meta && Array.isArray((tx.meta as any).innerInstructions)) {
-        for (const blk of (tx.meta as any).innerInstructions) {
-          if (!blk || !Array.isArray(blk.instructions)) continue;
-          for (const iin of blk.instructions) {
-            // Prova a estrarre materiale da parsed, program, e dati
-            const candidates = [iin?.parsed?.destination, iin?.parsed?.mint, iin?.parsed?.token, iin?.parsed?.authority, iin?.parsed?.source, iin?.program, iin?.data];
-            for (const val of candidates) {
-              if (typeof val === 'string') {
-                if (/fuel/i.test(val)) craftingMaterial = 'Fuel';
-                else if (/ore/i.test(val)) craftingMaterial = 'Ore';
-                else if (/tool/i.test(val)) craftingMaterial = 'Tool';
-                else if (/component/i.test(val)) craftingMaterial = 'Component';
-                else if (/food/i.test(val)) craftingMaterial = 'Food';
-                else if (/ammo/i.test(val)) craftingMaterial = 'Ammo';
-                // Estendi con altri materiali noti
-                else if (/metal/i.test(val)) craftingMaterial = 'Metal';
-                else if (/fiber/i.test(val)) craftingMaterial = 'Fiber';
-                else if (/chemical/i.test(val)) craftingMaterial = 'Chemical';
-                else if (/circuit/i.test(val)) craftingMaterial = 'Circuit';
-              }
-              if (craftingMaterial) break;
-            }
-            if (craftingMaterial) break;
-          }
-          if (craftingMaterial) break;
-        }
-      }
-      // 3b. Fallback: deduci Fuel/Food dai log/instructions se non trovato
-      if (isCrafting && !craftingMaterial) {
-        const logsLower = (tx.logMessages || []).join(' ').toLowerCase();
-        const instrLower = (tx.instructions || []).join(' ').toLowerCase();
-        const combinedLower = `${logsLower} ${instrLower}`;
-        if (combinedLower.includes('fuel')) craftingMaterial = 'Fuel';
-        else if (combinedLower.includes('food')) craftingMaterial = 'Food';
-      }
-      // 4. If still crafting, try to fetch on-chain recipe account(s) owned by the Crafting program
+
+      // Operation, crafting action and material come from the shared classifier
+      const classification = classifySageTransaction(tx);
+      const operation = classification.operation;
+      const isCrafting = classification.isCrafting;
+      const craftingAction: CraftingAction = classification.craftingAction || 'crafting_start';
+      let craftingMaterial = classification.material;
+      let craftingType = classification.craftingType;
+
+      // For crafting, try to fetch on-chain recipe account(s) owned by the Crafting program
       let decodedRecipe: any = null;
-      let craftingAction: string = 'crafting_start'; // default
       if (isCrafting && tx.accountKeys && Array.isArray(tx.accountKeys)) {
-        // Determine start/claim using token balance deltas first
         try {
-          const preBalances = tx.meta?.preTokenBalances || [];
-          const postBalances = tx.meta?.postTokenBalances || [];
-          const preMap: Record<string, any> = {};
-          for (const p of preBalances) {
-            if (!p) continue;
-            const key = `${p.owner || ''}:${p.mint || ''}`;
-            preMap[key] = p;
-          }
-          let foundPos = false;
-          let foundNeg = false;
-          for (const p of postBalances) {
-            if (!p || !p.mint) continue;
-            const key = `${p.owner || ''}:${p.mint}`;
-            const pre = preMap[key];
-            const preAmt = pre?.uiTokenAmount?.amount ? BigInt(pre.uiTokenAmount.amount) : 0n;
-            const postAmt = p.uiTokenAmount?.amount ? BigInt(p.uiTokenAmount.amount) : 0n;
-            const delta = postAmt - preAmt;
-            if (delta > 0n) foundPos = true;
-            if (delta < 0n) foundNeg = true;
-          }
-          if (foundPos && !foundNeg) craftingAction = 'crafting_claim';
-          else if (foundNeg && !foundPos) craftingAction = 'crafting_start';
-          else if (foundPos) craftingAction = 'crafting_claim';
-        } catch (e) {
-          // fallback to logs
-        }
-        // Fallback to logs if deltas inconclusive
-        if (craftingAction === 'crafting_start') {
-          const logsStr = (tx.meta?.logMessages || []).join(' ').toLowerCase();
-          if (logsStr.includes('claim') || logsStr.includes('complete') || logsStr.includes('withdraw')) {
-            craftingAction = 'crafting_claim';
-          }
-        }
-        // Fallback to inner instructions token transfers: any positive MATERIAL transfer implies claim
-        if (craftingAction === 'crafting_start') {
-          try {
-            const inners = tx.meta?.innerInstructions || [];
-            let posFound = false;
-            for (const inner of inners || []) {
-              for (const inst of inner.instructions || []) {
-                const parsed = (inst as any).parsed?.info || (inst as any).info || (inst as any).parsed;
-                if (!parsed) continue;
-                const amount = parsed.amount || parsed.tokenAmount?.amount || parsed.uiTokenAmount?.amount;
-                const mint = parsed.mint || parsed.mintAddress || parsed.tokenMint;
-                if (!amount || !mint) continue;
-                const a = BigInt(String(amount));
-                if (a > 0n && MATERIALS[mint]) { posFound = true; break; }
-              }
-              if (posFound) break;
-            }
-            if (posFound) craftingAction = 'crafting_claim';
-          } catch (e) {}
-        }
-        
-        try {
-          const candidates = tx.accountKeys.filter(k => k && !excludeAccounts.includes(k) && k.length > 40).slice(0, 6);
+          const candidates = craftingCandidates(tx);
           if (candidates.length > 0) {
             // Use shared pool connection instead of creating new one
             
             // Fetch account info with pool
             for (let ci = 0; ci < candidates.length && !decodedRecipe; ci++) {
               try {
-                const accInfo = await sharedPoolConnection.getAccountInfo(new PublicKey(candidates[ci]), {
-                  timeoutMs: 5000,
-                  maxRetries: 0,
-                  logErrors: false,
-                });
+                const accInfo = craftingAccounts.has(candidates[ci])
+                  ? craftingAccounts.get(candidates[ci])
+                  : await sharedPoolConnection.getAccountInfo(new PublicKey(candidates[ci]), {
+                    timeoutMs: 5000,
+                    maxRetries: 0,
+                    logErrors: false,
+                    signal,
+                    memoTtlMs: CRAFTING_ACCOUNT_MEMO_TTL_MS,
+                  });
                 if (!accInfo || !accInfo.data) continue;
                 if (accInfo.owner && accInfo.owner.toBase58() !== CRAFT_PROGRAM_ID) continue;
                 
@@ -316,11 +213,13 @@ export async function getWalletSageFeesDetailedStreaming(
                   if (di) { decodedRecipe = { kind: 'item', data: di }; break; }
                 }
               } catch (err) {
+                if (isAbortError(err)) throw err;
                 // tolerate individual fetch errors
               }
             }
           }
           
+          throwIfAborted(signal);
           if (decodedRecipe) {
             if (decodedRecipe.kind === 'recipe') {
               const mints = (decodedRecipe.data.recipe_items || []).map((ri: any) => ri.mint).filter(Boolean);
@@ -356,54 +255,21 @@ export async function getWalletSageFeesDetailedStreaming(
             }
           }
         } catch (e) {
-          // ignore
+          if (isAbortError(e)) throw e;
         }
       }
       if (operation === 'Unknown') {
         unknownOperations++;
       }
       
-      // Group related operations: Dock/Undock/Cargo operations, Subwarp
-      let groupedOperation = operation;
-      if (operation === 'Dock' || operation === 'Undock' || operation === 'LoadCargo' || operation === 'UnloadCargo') {
-        groupedOperation = 'Dock/Undock/Load/Unload';
-      } else if (operation === 'StartSubwarp' || operation === 'StopSubwarp' || operation === 'FleetStateHandler') {
-        groupedOperation = 'Subwarp';
-      } else if (operation === 'StartMining' || operation === 'StopMining') {
-        groupedOperation = 'Mining';
-      }
-      
-      // Aggregazione per fleet - cerca fleet account o cargo hold
-      let involvedFleetName = undefined;
-      
-      // First try: direct fleet account match
-      for (const fleet of specificFleetAccounts) {
-        if (tx.accountKeys && tx.accountKeys.includes(fleet)) {
-          involvedFleetName = fleetAccountNames[fleet] || fleet.substring(0, 8);
-          break;
-        }
-      }
+      const groupedOperation = classification.groupedOperation;
       
-      // Second try: if cargo/dock operation and no fleet found, assign to first fleet in the list
-      // (cargo operations often use cargo hold account instead of fleet account)
-      if (!involvedFleetName && (groupedOperation === 'Dock/Undock/Load/Unload' || operation.includes('Cargo') || operation.includes('cargo'))) {
-        // Try to match any account key with fleet names
-        if (tx.accountKeys) {
-          for (const acc of tx.accountKeys) {
-            if (fleetAccountNames[acc]) {
-              involvedFleetName = fleetAccountNames[acc];
-              break;
-            }
-          }
-        }
-        // If still not found, use wallet owner's primary fleet if available
-        if (!involvedFleetName && specificFleetAccounts.length > 0) {
-          const primaryFleet = specificFleetAccounts[0];
-          involvedFleetName = fleetAccountNames[primaryFleet] || primaryFleet.substring(0, 8);
-        }
-      }
+      // Aggregazione per fleet - fleet account o uno dei suoi sub-account (fleetShips, fuelTank, ammoBank, cargoHold)
+      // Fleet operations without a matching fleet go to an explicit bucket instead of a guessed fleet
+      const attribution = attributeFleetOperation(tx, classification, fleetMap);
+      let involvedFleetName = attribution.fleetName;
       
-      // Third try: categorize non-fleet operations (crafting, starbase, system ops)
+      // Otherwise categorize non-fleet operations (crafting, starbase, system ops)
       if (!involvedFleetName) {
         if (isCrafting || groupedOperation === 'Crafting' || operation.includes('Craft')) {
           involvedFleetName = 'Crafting Operations';
@@ -423,6 +289,8 @@ export async function getWalletSageFeesDetailedStreaming(
         }
       }
       
+      valueTransaction(tx, priceHistory);
+
       // Raggruppa tutte le crafting sotto 'Crafting' per feesByFleet/feesByOperation
       const opKey = isCrafting ? 'Crafting' : groupedOperation;
       if (!feesByFleet[involvedFleetName]) {
@@ -431,11 +299,19 @@ export async function getWalletSageFeesDetailedStreaming(
           feePercentage: 0,
           totalOperations: 0,
           operations: {},
-          isRented: fleetRentalStatus[involvedFleetName] || false
+          isRented: attribution.isRented || (!!attribution.account && !!fleetRentalStatus[attribution.account])
         };
       }
       feesByFleet[involvedFleetName].totalFee += tx.fee;
       feesByFleet[involvedFleetName].totalOperations++;
+      addFeeBreakdown(feesByFleet[involvedFleetName], tx);
+      addFeeValue(feesByFleet[involvedFleetName], tx);
+      if (involvedFleetName === UNATTRIBUTED_FLEET && attribution.reason) {
+        const reasons = feesByFleet[involvedFleetName].unattributedReasons || (feesByFleet[involvedFleetName].unattributedReasons = {});
+        if (!reasons[attribution.reason]) reasons[attribution.reason] = { count: 0, totalFee: 0 };
+        reasons[attribution.reason].count++;
+        reasons[attribution.reason].totalFee += tx.fee;
+      }
       if (!feesByFleet[involvedFleetName].operations[opKey]) {
         feesByFleet[involvedFleetName].operations[opKey] = {
           count: 0,
@@ -447,6 +323,8 @@ export async function getWalletSageFeesDetailedStreaming(
       }
       feesByFleet[involvedFleetName].operations[opKey].count++;
       feesByFleet[involvedFleetName].operations[opKey].totalFee += tx.fee;
+      addFeeBreakdown(feesByFleet[involvedFleetName].operations[opKey], tx);
+      addFeeValue(feesByFleet[involvedFleetName].operations[opKey], tx);
       // Salva dettaglio solo per crafting
       if (isCrafting) {
         feesByFleet[involvedFleetName].operations[opKey].details.push({
@@ -464,12 +342,16 @@ export async function getWalletSageFeesDetailedStreaming(
         });
         // Debug: log when a normalized decode was attached to a detail
       }
+      feeSeries.add(tx.blockTime, tx.fee, involvedFleetName, opKey);
+      failureReport.add(tx, involvedFleetName, opKey);
       // Aggregazione per operazione
       if (!feesByOperation[opKey]) {
         feesByOperation[opKey] = { count: 0, totalFee: 0, avgFee: 0, details: [] };
       }
       feesByOperation[opKey].count++;
       feesByOperation[opKey].totalFee += tx.fee;
+      addFeeBreakdown(feesByOperation[opKey], tx);
+      addFeeValue(feesByOperation[opKey], tx);
       if (isCrafting) {
         feesByOperation[opKey].details.push({
           action: craftingAction,
@@ -493,24 +375,35 @@ export async function getWalletSageFeesDetailedStreaming(
       totalFees24h += tx.fee;
       if (!tx.programIds.includes(SAGE_PROGRAM_ID)) continue;
       sageFees24h += tx.fee;
+      const { baseFee, priorityFee } = splitFee(tx);
+      baseFees24h += baseFee;
+      priorityFees24h += priorityFee;
+      feeValuation.add(tx);
+    }
+    for (let k = i; k < i + batch.length; k++) {
+      if (k >= plan.headStart) processedRange.newest = workQueue[k].signature;
+      else processedRange.oldest = workQueue[k].signature;
     }
     // Aggiornamento percentuali
     Object.keys(feesByOperation).forEach(op => {
       feesByOperation[op].avgFee = feesByOperation[op].totalFee / feesByOperation[op].count;
+      finalizeFeeBreakdown(feesByOperation[op]);
     });
     Object.keys(feesByFleet).forEach(fleet => {
       feesByFleet[fleet].feePercentage = sageFees24h > 0 ? (feesByFleet[fleet].totalFee / sageFees24h) * 100 : 0;
+      finalizeFeeBreakdown(feesByFleet[fleet]);
       Object.keys(feesByFleet[fleet].operations).forEach(op => {
         const opData = feesByFleet[fleet].operations[op];
         opData.avgFee = opData.totalFee / opData.count;
         opData.percentageOfFleet = feesByFleet[fleet].totalFee > 0 ? (opData.totalFee / feesByFleet[fleet].totalFee) * 100 : 0;
+        finalizeFeeBreakdown(opData);
       });
     });
     
     // Log sintetici per crafting details phase
     const batchNum = Math.floor(i / BATCH_SIZE) + 1;
-    const processedInBatch = Math.min(BATCH_SIZE, allTransactions.length - i);
-    const totalProcessedSoFar = Math.min(i + BATCH_SIZE, allTransactions.length);
+    const processedInBatch = batch.length;
+    const totalProcessedSoFar = plan.skipped + i + batch.length;
     const remainingTxs = allTransactions.length - totalProcessedSoFar;
     const batchTimeElapsed = ((Date.now() - batchStart) / 1000).toFixed(1);
     const txPerSec = processedInBatch > 0 ? (processedInBatch / (Number(batchTimeElapsed) || 1)).toFixed(1) : '0.0';
@@ -530,13 +423,18 @@ export async function getWalletSageFeesDetailedStreaming(
       batchTime: batchTimeElapsed,
       currentDelay,
       walletAddress: walletPubkey,
-      period: `Last ${hours} hours`,
+      period: window.label,
       totalFees24h,
       sageFees24h,
+      baseFees24h,
+      priorityFees24h,
       transactionCount24h: sageOpCount,
       totalSignaturesFetched: totalSigs,
       feesByFleet: { ...feesByFleet },
       feesByOperation: { ...feesByOperation },
+      feeSeries: feeSeries.build(),
+      feeValuation: feeValuation.build(),
+      failureReport: failureReport.build(),
       unknownOperations,
       rentedFleetAccounts: Object.keys(fleetRentalStatus).filter(k => fleetRentalStatus[k]),
       fleetAccountNamesEcho: fleetAccountNames,
@@ -544,12 +442,14 @@ export async function getWalletSageFeesDetailedStreaming(
     };
     sendUpdate(partialResult);
     if (saveProgress) {
-      const cachePromise = saveProgress(partialResult).catch(err => {
+      // The saved snapshot also carries the cursor needed to resume after an interruption
+      const checkpoint = { ...partialResult, processedRange: { ...processedRange } };
+      const cachePromise = saveProgress(checkpoint).catch(err => {
         console.error('[stream] Incremental cache save failed:', err);
       });
       cacheSavePromises.push(cachePromise);
     }
-    await new Promise(resolve => setTimeout(resolve, currentDelay));
+    await abortableSleep(currentDelay, signal);
   }
   // Attendi salvataggio cache
   if (cacheSavePromises.length > 0) {
@@ -595,6 +495,8 @@ export async function getWalletSageFeesDetailedStreaming(
         ...pair.start,
         signature: `${pair.start.signature}+${pair.complete.signature}`,
         fee: pair.start.fee + pair.complete.fee,
+        feeUsd: pair.start.feeUsd !== undefined && pair.complete.feeUsd !== undefined ? pair.start.feeUsd + pair.complete.feeUsd : undefined,
+        feeAtlas: pair.start.feeAtlas !== undefined && pair.complete.feeAtlas !== undefined ? pair.start.feeAtlas + pair.complete.feeAtlas : undefined,
         instructions: [...(pair.start.instructions || []), ...(pair.complete.instructions || [])],
         pairedTxs: [pair.start.signature, pair.complete.signature],
         isPaired: true
@@ -615,14 +517,21 @@ export async function getWalletSageFeesDetailedStreaming(
   const finalResult = {
     type: 'complete',
     walletAddress: walletPubkey,
-    period: `Last ${hours} hours`,
+    period: window.label,
     totalFees24h,
     sageFees24h,
+    baseFees24h,
+    priorityFees24h,
     transactionCount24h: processedTransactions.filter(t => t.programIds.includes(SAGE_PROGRAM_ID)).length,
     totalSignaturesFetched: totalSigs,
     feesByFleet,
     feesByOperation,
+    feeSeries: feeSeries.build(),
+    feeValuation: feeValuation.build(),
+    failureReport: failureReport.build(),
     transactions: processedTransactions,
+    // Lets a later update (update=true, live monitoring) process only the newer signatures
+    processedRange: { ...processedRange },
     unknownOperations,
     rentedFleetAccounts: Object.keys(fleetRentalStatus).filter(k => fleetRentalStatus[k]),
     fleetAccountNamesEcho: fleetAccountNames,
@@ -631,3 +540,58 @@ export async function getWalletSageFeesDetailedStreaming(
   sendUpdate(finalResult);
   return finalResult;
 }
+
+type ProcessedRange = { newest?: string; oldest?: string };
+
+/**
+ * Work out which of the fetched transactions (newest first) still need processing.
+ * The already-processed range [newest, oldest] is skipped; older transactions are processed
+ * first, then the newer ones from oldest to newest, so the range stays contiguous and a
+ * checkpoint taken after any batch can be resumed again.
+ */
+function planResume(allTransactions: TransactionInfo[], range?: ProcessedRange) {
+  const indexOf = (sig?: string) => (sig ? allTransactions.findIndex(t => t.signature === sig) : -1);
+  const newestIdx = indexOf(range?.newest);
+  let oldestIdx = indexOf(range?.oldest);
+  // Without the newest edge there is no telling which of the newer signatures were processed:
+  // start again from the head
+  if (newestIdx < 0) {
+    return { resumed: false, skipped: 0, processed: [] as TransactionInfo[], workQueue: allTransactions, headStart: allTransactions.length, range: { newest: allTransactions[0]?.signature } as ProcessedRange };
+  }
+  // An oldest edge that is no longer among the fetched signatures has moved out of the window
+  if (oldestIdx < 0) oldestIdx = allTransactions.length - 1;
+
+  const tail = allTransactions.slice(oldestIdx + 1);
+  const head = allTransactions.slice(0, newestIdx).reverse();
+  return {
+    resumed: true,
+    skipped: oldestIdx - newestIdx + 1,
+    processed: allTransactions.slice(newestIdx, oldestIdx + 1),
+    workQueue: [...tail, ...head],
+    headStart: tail.length,
+    range: { newest: allTransactions[newestIdx].signature, oldest: allTransactions[oldestIdx].signature } as ProcessedRange,
+  };
+}
+
+/**
+ * The SAGE transactions of an already-processed range, valued again and with the crafting
+ * material/recipe recorded in the checkpoint's crafting details
+ */
+function restoreProcessedTransactions(processed: TransactionInfo[], feesByOperation: any, priceHistory: PriceHistory): TransactionInfo[] {
+  const crafting = new Map<string, any>();
+  for (const detail of feesByOperation?.Crafting?.details || []) {
+    if (detail?.txid) crafting.set(detail.txid, detail);
+  }
+  const restored: TransactionInfo[] = [];
+  for (const tx of processed) {
+    if (!tx.programIds.includes(SAGE_PROGRAM_ID)) continue;
+    valueTransaction(tx, priceHistory);
+    const detail = crafting.get(tx.signature);
+    if (detail) {
+      tx.craftingMaterial = detail.material;
+      if (detail.decodedKind) tx.decodedRecipe = { kind: detail.decodedKind, data: detail.decodedData };
+    }
+    restored.push(tx);
+  }
+  return restored;
+}
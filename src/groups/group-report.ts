@@ -0,0 +1,118 @@
+import { FeeSeries, FeeSeriesTotals } from '../examples/fee-series.js';
+import { GroupFeeTotals, GroupFleetReport, GroupMember, GroupMemberReport, GroupOperationReport, GroupReport, GroupSeriesPoint, WalletGroup } from './types.js';
+
+/**
+ * Outcome of one member's analysis: its complete wallet-fees result, or why it failed
+ */
+export interface GroupMemberOutcome {
+  member: GroupMember;
+  walletPubkey?: string;
+  result?: any;
+  error?: string;
+}
+
+function emptyTotals(): GroupFeeTotals {
+  return { transactions: 0, sageFees: 0, baseFees: 0, priorityFees: 0, feesUsd: 0, failed: 0, wastedFee: 0 };
+}
+
+function addTotals(target: FeeSeriesTotals, count: number, totalFee: number): void {
+  target.count += count;
+  target.totalFee += totalFee;
+}
+
+// Totals of a member's result; USD only when every fee was valued at block-time prices
+function resultTotals(result: any): GroupFeeTotals {
+  const valuation = result.feeValuation;
+  const valued = valuation && valuation.pricedTransactions > 0 && valuation.unpricedTransactions === 0;
+  return {
+    transactions: result.transactionCount24h || 0,
+    sageFees: result.sageFees24h || 0,
+    baseFees: result.baseFees24h || 0,
+    priorityFees: result.priorityFees24h || 0,
+    feesUsd: valued ? valuation.sage.usd : (result.sageFees24h ? null : 0),
+    failed: result.failureReport?.totals?.failed || 0,
+    wastedFee: result.failureReport?.totals?.wastedFee || 0,
+  };
+}
+
+/**
+ * Combine the members' results into per-member, per-fleet and per-operation rollups.
+ * Members whose analysis failed are listed with their error and left out of the rollups.
+ */
+export function buildGroupReport(group: WalletGroup, period: string, outcomes: GroupMemberOutcome[], now: number = Date.now()): GroupReport {
+  const totals = { ...emptyTotals(), members: outcomes.length, failedMembers: 0 };
+  const members: GroupMemberReport[] = [];
+  const fleets: GroupFleetReport[] = [];
+  const byOperation: { [operation: string]: GroupOperationReport } = {};
+  const seriesPoints = new Map<number, GroupSeriesPoint>();
+  let series: FeeSeries | undefined;
+
+  for (const { member, walletPubkey, result, error } of outcomes) {
+    const base = { label: member.label, profileId: member.profileId, walletPubkey: walletPubkey ?? member.walletPubkey };
+    if (!result) {
+      totals.failedMembers++;
+      members.push({ ...base, ...emptyTotals(), feesUsd: null, feeShare: 0, failureRate: 0, fleets: 0, error: error || 'Analysis failed' });
+      continue;
+    }
+
+    const memberTotals = resultTotals(result);
+    totals.transactions += memberTotals.transactions;
+    totals.sageFees += memberTotals.sageFees;
+    totals.baseFees += memberTotals.baseFees;
+    totals.priorityFees += memberTotals.priorityFees;
+    totals.feesUsd = totals.feesUsd !== null && memberTotals.feesUsd !== null ? totals.feesUsd + memberTotals.feesUsd : null;
+    totals.failed += memberTotals.failed;
+    totals.wastedFee += memberTotals.wastedFee;
+
+    const feesByFleet = result.feesByFleet || {};
+    for (const [key, fleet] of Object.entries<any>(feesByFleet)) {
+      fleets.push({ member: member.label, fleet: fleet.fleetName || key, operations: fleet.totalOperations || 0, totalFee: fleet.totalFee || 0, feeShare: 0, isRented: fleet.isRented || undefined });
+    }
+
+    let topOperation: string | undefined;
+    for (const [operation, stats] of Object.entries<any>(result.feesByOperation || {})) {
+      const entry = byOperation[operation] || (byOperation[operation] = { count: 0, totalFee: 0, avgFee: 0, byMember: {} });
+      addTotals(entry, stats.count || 0, stats.totalFee || 0);
+      addTotals(entry.byMember[member.label] || (entry.byMember[member.label] = { count: 0, totalFee: 0 }), stats.count || 0, stats.totalFee || 0);
+      if (!topOperation || stats.totalFee > result.feesByOperation[topOperation].totalFee) topOperation = operation;
+    }
+
+    // Members share the window, so their series have the same buckets
+    if (result.feeSeries?.points) {
+      series = series || result.feeSeries;
+      for (const point of result.feeSeries.points as FeeSeries['points']) {
+        const target = seriesPoints.get(point.start) || { start: point.start, count: 0, totalFee: 0, byMember: {} };
+        seriesPoints.set(point.start, target);
+        addTotals(target, point.count, point.totalFee);
+        if (point.count > 0) target.byMember[member.label] = { count: point.count, totalFee: point.totalFee };
+      }
+    }
+
+    members.push({
+      ...base,
+      ...memberTotals,
+      feeShare: 0,
+      failureRate: memberTotals.transactions > 0 ? (memberTotals.failed / memberTotals.transactions) * 100 : 0,
+      fleets: Object.keys(feesByFleet).length,
+      topOperation,
+    });
+  }
+
+  const share = (fee: number) => (totals.sageFees > 0 ? (fee / totals.sageFees) * 100 : 0);
+  members.forEach(m => { m.feeShare = share(m.sageFees); });
+  fleets.forEach(f => { f.feeShare = share(f.totalFee); });
+  Object.values(byOperation).forEach(op => { op.avgFee = op.count > 0 ? op.totalFee / op.count : 0; });
+  fleets.sort((a, b) => b.totalFee - a.totalFee);
+
+  return {
+    groupId: group.id,
+    name: group.name,
+    period,
+    generatedAt: now,
+    totals,
+    members,
+    fleets,
+    byOperation,
+    feeSeries: series ? { bucket: series.bucket, from: series.from, to: series.to, points: Array.from(seriesPoints.values()).sort((a, b) => a.start - b.start) } : undefined,
+  };
+}
@@ -0,0 +1,94 @@
+import { getCacheDataOnly, setCache } from '../utils/persist-cache.js';
+import { setNamespacePolicy } from '../utils/cache-store/policies.js';
+import { isAbortError } from '../utils/rpc/abort.js';
+import { resolveAnalysisWindow } from '../examples/fee-series.js';
+import { JobRunner } from '../jobs/types.js';
+import { GroupStore, getGlobalGroupStore } from './group-store.js';
+import { buildGroupReport, GroupMemberOutcome } from './group-report.js';
+import { GroupAnalysisParams, GroupMemberAnalyzer, GroupReport } from './types.js';
+
+// Latest report of each group
+const GROUP_REPORTS_NAMESPACE = 'group-reports';
+// Member analyses of a group running at once; they all draw on the global RPC pool
+export const GROUP_MEMBER_CONCURRENCY = Math.max(1, Number(process.env.GROUP_MEMBER_CONCURRENCY || 1));
+// A member's cached result younger than this is brought up to date instead of re-analysed
+export const GROUP_CACHE_MAX_AGE_MS = Number(process.env.GROUP_CACHE_MAX_AGE_MS || 6 * 60 * 60 * 1000);
+
+setNamespacePolicy(GROUP_REPORTS_NAMESPACE, { ttlMs: 30 * 24 * 60 * 60 * 1000, maxEntries: 200 });
+
+export async function getLatestGroupReport(groupId: string): Promise<GroupReport | null> {
+  return getCacheDataOnly<GroupReport>(GROUP_REPORTS_NAMESPACE, groupId);
+}
+
+/**
+ * Runner of `group-sage-fees` jobs: analyses the members of a group (GROUP_MEMBER_CONCURRENCY at a
+ * time, so a group takes one job slot and one analysis' share of the RPC pool by default) and
+ * combines their results. A member whose analysis fails is reported with its error.
+ */
+export function createGroupRunner(analyze: GroupMemberAnalyzer, store: GroupStore = getGlobalGroupStore()): JobRunner {
+  return async (ctx) => {
+    const params: GroupAnalysisParams = ctx.params;
+    const group = await store.get(params.groupId);
+    if (!group) throw new Error(`Group ${params.groupId} not found`);
+    const window = resolveAnalysisWindow(params);
+    const total = group.members.length;
+    // Members started by an earlier attempt continue from their cached progress, even on refresh
+    const started = new Set<string>(ctx.checkpoint?.started || []);
+    const outcomes: GroupMemberOutcome[] = [];
+    let finished = 0;
+    let next = 0;
+
+    const progress = async (message: string) => {
+      const snapshot = {
+        type: 'progress',
+        stage: 'members',
+        message,
+        processed: finished,
+        total,
+        percentage: ((finished / total) * 100).toFixed(1),
+        started: Array.from(started),
+      };
+      ctx.emit(snapshot);
+      await ctx.saveCheckpoint(snapshot);
+    };
+
+    const work = async () => {
+      while (next < total) {
+        const index = next++;
+        const member = group.members[index];
+        const reuseCache = !params.refresh || started.has(member.label);
+        started.add(member.label);
+        await progress(`Analysing ${member.label} (${index + 1}/${total})`);
+        try {
+          const { walletPubkey, result } = await analyze({
+            member,
+            params,
+            reuseCache,
+            signal: ctx.signal,
+            // Progress of the member's own analysis; its partial and complete results stay out of the group stream
+            emit: (data: any) => {
+              if (data?.type !== 'progress') return;
+              ctx.emit({ type: 'member-progress', member: member.label, stage: data.stage, message: data.message, processed: data.processed, total: data.total, percentage: data.percentage });
+            },
+          });
+          outcomes[index] = { member, walletPubkey, result };
+          ctx.emit({ type: 'member-complete', member: member.label, walletPubkey, transactions: result?.transactionCount24h || 0, sageFees: result?.sageFees24h || 0 });
+        } catch (err: any) {
+          if (isAbortError(err) || ctx.signal.aborted) throw err;
+          console.error(`[groups] ${group.name}: analysis of ${member.label} failed:`, err?.message || err);
+          outcomes[index] = { member, error: err?.message || String(err) };
+          ctx.emit({ type: 'member-error', member: member.label, error: outcomes[index].error });
+        }
+        finished++;
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(GROUP_MEMBER_CONCURRENCY, total) }, work));
+    await progress(`Analysed ${total} member(s)`);
+
+    const report = buildGroupReport(group, window.label, outcomes);
+    await setCache(GROUP_REPORTS_NAMESPACE, group.id, report);
+    ctx.emit({ type: 'complete', ...report });
+    return report;
+  };
+}
@@ -0,0 +1,113 @@
+import crypto from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import { deleteCache, getCacheDataOnly, listCache, setCache } from '../utils/persist-cache.js';
+import { GroupMember, WalletGroup } from './types.js';
+
+// One entry per group (no TTL policy: groups are kept until deleted)
+const GROUPS_NAMESPACE = 'wallet-groups';
+export const MAX_GROUP_MEMBERS = Number(process.env.GROUP_MAX_MEMBERS || 20);
+
+function isAddress(value: any): boolean {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns an error message for an unacceptable group body ({ name, members }), null otherwise
+ */
+export function groupInputError(body: any): string | null {
+  if (typeof body?.name !== 'string' || !body.name.trim()) return 'name required';
+  if (!Array.isArray(body.members) || body.members.length === 0) return 'members (non-empty array) required';
+  if (body.members.length > MAX_GROUP_MEMBERS) return `At most ${MAX_GROUP_MEMBERS} members per group`;
+  const labels = new Set<string>();
+  for (const member of body.members) {
+    if (!member?.profileId && !member?.walletPubkey) return 'Every member needs a profileId or walletPubkey';
+    for (const address of [member.profileId, member.walletPubkey, ...(member.fleetAccounts || [])]) {
+      if (address !== undefined && !isAddress(address)) return `Invalid address: ${address}`;
+    }
+    const label = memberLabel(member);
+    if (labels.has(label)) return `Duplicate member: ${label}`;
+    labels.add(label);
+  }
+  return null;
+}
+
+function memberLabel(member: any): string {
+  return typeof member.label === 'string' && member.label.trim() ? member.label.trim() : member.profileId || member.walletPubkey;
+}
+
+// Keeps the known member fields only
+function toMember(member: any): GroupMember {
+  return {
+    label: memberLabel(member),
+    profileId: member.profileId || undefined,
+    walletPubkey: member.walletPubkey || undefined,
+    fleetAccounts: Array.isArray(member.fleetAccounts) ? member.fleetAccounts : undefined,
+    fleetNames: member.fleetNames || undefined,
+    fleetRentalStatus: member.fleetRentalStatus || undefined,
+  };
+}
+
+/**
+ * Named groups of profiles/wallets, persisted in the `wallet-groups` cache namespace.
+ * Bodies must pass groupInputError() first.
+ */
+export class GroupStore {
+  async list(): Promise<WalletGroup[]> {
+    const entries = await listCache({ namespace: GROUPS_NAMESPACE });
+    const groups: WalletGroup[] = [];
+    for (const entry of entries) {
+      const group = await getCacheDataOnly<WalletGroup>(GROUPS_NAMESPACE, entry.key);
+      if (group) groups.push(group);
+    }
+    return groups.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(id: string): Promise<WalletGroup | null> {
+    return getCacheDataOnly<WalletGroup>(GROUPS_NAMESPACE, id);
+  }
+
+  async create(body: { name: string; members: any[] }): Promise<WalletGroup> {
+    const now = Date.now();
+    const group: WalletGroup = {
+      id: crypto.randomUUID(),
+      name: body.name.trim(),
+      members: body.members.map(toMember),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.save(group);
+    return group;
+  }
+
+  async update(id: string, body: { name: string; members: any[] }): Promise<WalletGroup | null> {
+    const current = await this.get(id);
+    if (!current) return null;
+    const group: WalletGroup = { ...current, name: body.name.trim(), members: body.members.map(toMember), updatedAt: Date.now() };
+    await this.save(group);
+    return group;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return (await deleteCache(GROUPS_NAMESPACE, id)) !== null;
+  }
+
+  private async save(group: WalletGroup): Promise<void> {
+    // Indexed by the first profile so cache listings show an owner
+    await setCache(GROUPS_NAMESPACE, group.id, group, { indexes: { profileId: group.members.find(m => m.profileId)?.profileId } });
+  }
+}
+
+// Singleton instance for global use
+let globalGroupStore: GroupStore | null = null;
+
+export function getGlobalGroupStore(): GroupStore {
+  if (!globalGroupStore) {
+    globalGroupStore = new GroupStore();
+  }
+  return globalGroupStore;
+}
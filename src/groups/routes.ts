@@ -0,0 +1,108 @@
+import express, { Response } from 'express';
+import { JobManager, getGlobalJobManager } from '../jobs/job-manager.js';
+import { GroupStore, getGlobalGroupStore, groupInputError } from './group-store.js';
+import { getLatestGroupReport } from './group-runner.js';
+import { GroupAnalysisParams, GroupAnalysisResponse, GroupErrorResponse, GroupListResponse, GroupReport, WalletGroup } from './types.js';
+
+export const GROUP_JOB_TYPE = 'group-sage-fees';
+// Where the jobs router is mounted (status and event URLs of group analyses)
+const JOBS_BASE_URL = '/api/jobs';
+
+export function createGroupsRouter(store: GroupStore = getGlobalGroupStore(), jobManager: JobManager = getGlobalJobManager()) {
+  const router = express.Router();
+
+  // GET /api/groups - All groups
+  router.get('/', async (_req, res: Response<GroupListResponse | GroupErrorResponse>) => {
+    try {
+      res.json({ groups: await store.list() });
+    } catch (error: any) {
+      console.error('Groups GET / error:', error?.message || error);
+      res.status(500).json({ error: 'Failed to list groups', message: error?.message });
+    }
+  });
+
+  // POST /api/groups - Create a group ({ name, members: [{ label?, profileId?, walletPubkey?, ... }] })
+  router.post('/', async (req, res: Response<WalletGroup | GroupErrorResponse>) => {
+    const invalid = groupInputError(req.body);
+    if (invalid) return res.status(400).json({ error: invalid });
+    try {
+      res.status(201).json(await store.create(req.body));
+    } catch (error: any) {
+      console.error('Groups POST / error:', error?.message || error);
+      res.status(500).json({ error: 'Failed to create group', message: error?.message });
+    }
+  });
+
+  // GET /api/groups/:id - A group
+  router.get('/:id', async (req, res: Response<WalletGroup | GroupErrorResponse>) => {
+    try {
+      const group = await store.get(req.params.id);
+      if (!group) return res.status(404).json({ error: 'Group not found' });
+      res.json(group);
+    } catch (error: any) {
+      console.error('Groups GET /:id error:', error?.message || error);
+      res.status(500).json({ error: 'Failed to load group', message: error?.message });
+    }
+  });
+
+  // PUT /api/groups/:id - Replace name and members
+  router.put('/:id', async (req, res: Response<WalletGroup | GroupErrorResponse>) => {
+    const invalid = groupInputError(req.body);
+    if (invalid) return res.status(400).json({ error: invalid });
+    try {
+      const group = await store.update(req.params.id, req.body);
+      if (!group) return res.status(404).json({ error: 'Group not found' });
+      res.json(group);
+    } catch (error: any) {
+      console.error('Groups PUT /:id error:', error?.message || error);
+      res.status(500).json({ error: 'Failed to update group', message: error?.message });
+    }
+  });
+
+  // DELETE /api/groups/:id - Delete a group (members' cached analyses are kept)
+  router.delete('/:id', async (req, res: Response<GroupErrorResponse>) => {
+    try {
+      if (!(await store.delete(req.params.id))) return res.status(404).json({ error: 'Group not found' });
+      res.status(204).end();
+    } catch (error: any) {
+      console.error('Groups DELETE /:id error:', error?.message || error);
+      res.status(500).json({ error: 'Failed to delete group', message: error?.message });
+    }
+  });
+
+  // POST /api/groups/:id/analyze - Analyse all members as one background job ({ hours?, from?, to?, bucket?, refresh? })
+  router.post('/:id/analyze', async (req, res: Response<GroupAnalysisResponse | GroupErrorResponse>) => {
+    try {
+      const group = await store.get(req.params.id);
+      if (!group) return res.status(404).json({ error: 'Group not found' });
+      const { hours, from, to, bucket, refresh } = req.body || {};
+      const params: GroupAnalysisParams = { groupId: group.id, hours, from, to, bucket, refresh: refresh === true || undefined };
+      const invalid = jobManager.validateParams(GROUP_JOB_TYPE, params);
+      if (invalid) return res.status(400).json({ error: invalid });
+      const { record, existing } = await jobManager.createJob(GROUP_JOB_TYPE, params);
+      res.status(existing ? 200 : 202).json({
+        jobId: record.id,
+        existing,
+        statusUrl: `${JOBS_BASE_URL}/${record.id}`,
+        eventsUrl: `${JOBS_BASE_URL}/${record.id}/events`,
+      });
+    } catch (error: any) {
+      console.error('Groups POST /:id/analyze error:', error?.message || error);
+      res.status(500).json({ error: 'Failed to start group analysis', message: error?.message });
+    }
+  });
+
+  // GET /api/groups/:id/report - Combined report of the group's latest analysis
+  router.get('/:id/report', async (req, res: Response<GroupReport | GroupErrorResponse>) => {
+    try {
+      const report = await getLatestGroupReport(req.params.id);
+      if (!report) return res.status(404).json({ error: 'No report for this group yet' });
+      res.json(report);
+    } catch (error: any) {
+      console.error('Groups GET /:id/report error:', error?.message || error);
+      res.status(500).json({ error: 'Failed to load group report', message: error?.message });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,124 @@
+import { FeeSeriesTotals, SeriesBucket } from '../examples/fee-series.js';
+
+// Named groups of profiles/wallets analysed together, exposed under /api/groups
+
+/**
+ * A profile (wallet and fleets resolved from it) or a wallet with its fleet lists
+ */
+export interface GroupMember {
+  // Unique within the group; defaults to the profile id or wallet
+  label: string;
+  profileId?: string;
+  walletPubkey?: string;
+  fleetAccounts?: string[];
+  fleetNames?: { [account: string]: string };
+  fleetRentalStatus?: { [account: string]: boolean };
+}
+
+export interface WalletGroup {
+  id: string;
+  name: string;
+  members: GroupMember[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Params of a `group-sage-fees` job: the group and the analysis window shared by its members
+ */
+export interface GroupAnalysisParams {
+  groupId: string;
+  hours?: number;
+  from?: string | number;
+  to?: string | number;
+  bucket?: string;
+  // Ignore the members' cached results
+  refresh?: boolean;
+}
+
+export interface GroupMemberContext {
+  member: GroupMember;
+  params: GroupAnalysisParams;
+  // False when the member has to be analysed from scratch (refresh)
+  reuseCache: boolean;
+  signal: AbortSignal;
+  emit: (data: any) => void;
+}
+
+// Runs the fee analysis of one member and returns its wallet and complete result
+export type GroupMemberAnalyzer = (ctx: GroupMemberContext) => Promise<{ walletPubkey: string; result: any }>;
+
+export interface GroupFeeTotals {
+  transactions: number;
+  sageFees: number;
+  baseFees: number;
+  priorityFees: number;
+  // null when the fees could not all be valued at block-time prices
+  feesUsd: number | null;
+  failed: number;
+  wastedFee: number;
+}
+
+export interface GroupMemberReport extends GroupFeeTotals {
+  label: string;
+  profileId?: string;
+  walletPubkey?: string;
+  // Percentage of the group's SAGE fees
+  feeShare: number;
+  failureRate: number;
+  fleets: number;
+  topOperation?: string;
+  // Set when the member's analysis failed; the member is left out of the rollups
+  error?: string;
+}
+
+export interface GroupFleetReport {
+  member: string;
+  fleet: string;
+  operations: number;
+  totalFee: number;
+  // Percentage of the group's SAGE fees
+  feeShare: number;
+  isRented?: boolean;
+}
+
+export interface GroupOperationReport {
+  count: number;
+  totalFee: number;
+  avgFee: number;
+  byMember: { [member: string]: FeeSeriesTotals };
+}
+
+export interface GroupSeriesPoint extends FeeSeriesTotals {
+  start: number;
+  byMember: { [member: string]: FeeSeriesTotals };
+}
+
+export interface GroupReport {
+  groupId: string;
+  name: string;
+  period: string;
+  generatedAt: number;
+  totals: GroupFeeTotals & { members: number; failedMembers: number };
+  members: GroupMemberReport[];
+  // Most expensive first
+  fleets: GroupFleetReport[];
+  byOperation: { [operation: string]: GroupOperationReport };
+  feeSeries?: { bucket: SeriesBucket; from: number; to: number; points: GroupSeriesPoint[] };
+}
+
+export interface GroupListResponse {
+  groups: WalletGroup[];
+}
+
+export interface GroupAnalysisResponse {
+  jobId: string;
+  existing: boolean;
+  statusUrl: string;
+  eventsUrl: string;
+}
+
+export interface GroupErrorResponse {
+  error: string;
+  message?: string;
+}
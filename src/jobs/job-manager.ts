@@ -0,0 +1,320 @@
+import crypto from 'crypto';
+import { getCacheDataOnly, listCache, setCache } from '../utils/persist-cache.js';
+import { setNamespacePolicy } from '../utils/cache-store/policies.js';
+import { getGlobalPipelineMetrics } from '../metrics/pipeline-metrics.js';
+import { JobContext, JobEvent, JobParamsValidator, JobRecord, JobRunner, JobStatus, JobStatusResponse } from './types.js';
+
+const JOBS_NAMESPACE = 'jobs';
+const EVENT_BUFFER_SIZE = 500;
+const MAX_CONCURRENT_JOBS = Number(process.env.MAX_CONCURRENT_JOBS || 2);
+// Finished jobs are dropped from memory after this long; the persisted record stays
+const FINISHED_JOB_RETENTION_MS = 10 * 60 * 1000;
+
+setNamespacePolicy(JOBS_NAMESPACE, { ttlMs: 7 * 24 * 60 * 60 * 1000, maxEntries: 200 });
+
+const TERMINAL_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+export function isTerminalStatus(status: JobStatus): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+export type JobListener = (event: JobEvent) => void;
+
+interface ActiveJob {
+  record: JobRecord;
+  events: JobEvent[];
+  listeners: Set<JobListener>;
+  controller: AbortController;
+  // A persist of the record is scheduled for the current burst of events
+  persistScheduled?: boolean;
+}
+
+/**
+ * JobManager - runs long analyses in the background, detached from any HTTP response.
+ *
+ * Job records (status, last checkpoint, result) are persisted in the `jobs` cache namespace so
+ * jobs interrupted by a restart are picked up again by resumeInterrupted(). Events are kept in a
+ * bounded in-memory buffer for Last-Event-ID replay; older positions get a snapshot instead.
+ */
+export class JobManager {
+  private runners = new Map<string, JobRunner>();
+  private validators = new Map<string, JobParamsValidator>();
+  private jobs = new Map<string, ActiveJob>();
+  private queue: string[] = [];
+  private runningCount = 0;
+
+  registerRunner(type: string, runner: JobRunner, validate?: JobParamsValidator): void {
+    this.runners.set(type, runner);
+    if (validate) this.validators.set(type, validate);
+  }
+
+  /**
+   * Returns an error message when the params are not acceptable for the job type.
+   */
+  validateParams(type: string, params: any): string | null {
+    if (!this.runners.has(type)) return `Unknown job type: ${type}`;
+    const validate = this.validators.get(type);
+    return validate ? validate(params ?? {}) : null;
+  }
+
+  hasRunner(type: string): boolean {
+    return this.runners.has(type);
+  }
+
+  /**
+   * Start a job, or return the active one with the same type and params.
+   */
+  async createJob(type: string, params: any): Promise<{ record: JobRecord; existing: boolean }> {
+    if (!this.runners.has(type)) {
+      throw new Error(`Unknown job type: ${type}`);
+    }
+    const fingerprint = crypto.createHash('sha256').update(`${type}:${JSON.stringify(params ?? {})}`).digest('hex');
+    for (const job of this.jobs.values()) {
+      if (job.record.fingerprint === fingerprint && !isTerminalStatus(job.record.status)) {
+        return { record: job.record, existing: true };
+      }
+    }
+
+    const now = Date.now();
+    const record: JobRecord = {
+      id: crypto.randomUUID(),
+      type,
+      params,
+      fingerprint,
+      status: 'queued',
+      createdAt: now,
+      updatedAt: now,
+      attempts: 0,
+      lastEventId: 0,
+    };
+    this.track(record);
+    await this.persist(record);
+    this.enqueue(record.id);
+    return { record, existing: false };
+  }
+
+  async getJob(id: string): Promise<JobRecord | null> {
+    const active = this.jobs.get(id);
+    if (active) return active.record;
+    return getCacheDataOnly<JobRecord>(JOBS_NAMESPACE, id);
+  }
+
+  /**
+   * Events after `afterId`, or null when the buffer no longer reaches back that far
+   * (or the client is ahead of us after a restart) and a snapshot has to be sent instead.
+   */
+  getEventsSince(id: string, afterId: number): JobEvent[] | null {
+    const active = this.jobs.get(id);
+    if (!active) return null;
+    if (afterId > active.record.lastEventId) return null;
+    const events = active.events;
+    if (afterId > 0 && events.length > 0 && events[0].id > afterId + 1) return null;
+    if (afterId > 0 && events.length === 0 && active.record.lastEventId > afterId) return null;
+    return events.filter(e => e.id > afterId);
+  }
+
+  subscribe(id: string, listener: JobListener): () => void {
+    const active = this.jobs.get(id);
+    if (!active) return () => {};
+    active.listeners.add(listener);
+    return () => { active.listeners.delete(listener); };
+  }
+
+  async cancel(id: string): Promise<JobRecord | null> {
+    const active = this.jobs.get(id);
+    if (!active) {
+      const stored = await getCacheDataOnly<JobRecord>(JOBS_NAMESPACE, id);
+      if (stored && !isTerminalStatus(stored.status)) {
+        // Interrupted job that was never resumed in this process
+        stored.status = 'cancelled';
+        stored.updatedAt = stored.finishedAt = Date.now();
+        await this.persist(stored);
+      }
+      return stored;
+    }
+    if (isTerminalStatus(active.record.status)) return active.record;
+
+    this.queue = this.queue.filter(q => q !== id);
+    active.controller.abort();
+    await this.finish(active, 'cancelled');
+    return active.record;
+  }
+
+  /**
+   * Re-queue jobs persisted as queued/running, i.e. interrupted by a restart.
+   */
+  async resumeInterrupted(): Promise<number> {
+    let resumed = 0;
+    const entries = await listCache({ namespace: JOBS_NAMESPACE });
+    for (const entry of entries) {
+      if (this.jobs.has(entry.key)) continue;
+      const record = await getCacheDataOnly<JobRecord>(JOBS_NAMESPACE, entry.key);
+      if (!record || isTerminalStatus(record.status)) continue;
+      if (!this.runners.has(record.type)) continue;
+      record.status = 'queued';
+      record.updatedAt = Date.now();
+      this.track(record);
+      await this.persist(record);
+      this.enqueue(record.id);
+      resumed++;
+    }
+    if (resumed > 0) console.log(`[jobs] Resuming ${resumed} interrupted job(s)`);
+    return resumed;
+  }
+
+  /**
+   * Jobs running and waiting for a slot in this process
+   */
+  getStats(): { running: number; queued: number } {
+    return { running: this.runningCount, queued: this.queue.length };
+  }
+
+  toStatusResponse(record: JobRecord, includeResult = true): JobStatusResponse {
+    const cp = record.checkpoint;
+    return {
+      id: record.id,
+      type: record.type,
+      status: record.status,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+      startedAt: record.startedAt,
+      finishedAt: record.finishedAt,
+      attempts: record.attempts,
+      lastEventId: record.lastEventId,
+      progress: cp ? { processed: cp.processed, total: cp.total, percentage: cp.percentage, message: cp.message } : undefined,
+      result: includeResult ? record.result : undefined,
+      error: record.error,
+    };
+  }
+
+  private track(record: JobRecord): ActiveJob {
+    const active: ActiveJob = { record, events: [], listeners: new Set(), controller: new AbortController() };
+    this.jobs.set(record.id, active);
+    return active;
+  }
+
+  private enqueue(id: string): void {
+    this.queue.push(id);
+    this.pump();
+  }
+
+  private pump(): void {
+    while (this.runningCount < MAX_CONCURRENT_JOBS && this.queue.length > 0) {
+      const id = this.queue.shift()!;
+      const active = this.jobs.get(id);
+      if (!active || active.record.status !== 'queued') continue;
+      this.runningCount++;
+      this.run(active).finally(() => {
+        this.runningCount--;
+        this.pump();
+      });
+    }
+  }
+
+  private async run(active: ActiveJob): Promise<void> {
+    const record = active.record;
+    const runner = this.runners.get(record.type)!;
+    record.status = 'running';
+    record.attempts++;
+    record.startedAt = record.startedAt || Date.now();
+    record.updatedAt = Date.now();
+    await this.persist(record);
+    this.pushEvent(active, { type: 'job', status: 'running', attempt: record.attempts, resumed: !!record.checkpoint });
+
+    const ctx: JobContext = {
+      jobId: record.id,
+      params: record.params,
+      checkpoint: record.checkpoint,
+      signal: active.controller.signal,
+      emit: (data: any) => {
+        if (active.controller.signal.aborted) throw new JobCancelledError(record.id);
+        this.pushEvent(active, data);
+      },
+      saveCheckpoint: async (snapshot: any) => {
+        if (active.controller.signal.aborted) return;
+        record.checkpoint = snapshot;
+        record.updatedAt = Date.now();
+        await this.persist(record);
+      },
+    };
+
+    try {
+      const result = await runner(ctx);
+      if (isTerminalStatus(record.status)) return;
+      record.result = result;
+      await this.finish(active, 'completed');
+    } catch (err: any) {
+      if (isTerminalStatus(record.status)) return;
+      if (err instanceof JobCancelledError || active.controller.signal.aborted) {
+        await this.finish(active, 'cancelled');
+        return;
+      }
+      console.error(`[jobs] Job ${record.id} failed:`, err?.message || err);
+      record.error = err?.message || String(err);
+      await this.finish(active, 'failed');
+    }
+  }
+
+  private async finish(active: ActiveJob, status: JobStatus): Promise<void> {
+    const record = active.record;
+    record.status = status;
+    record.updatedAt = record.finishedAt = Date.now();
+    if (record.startedAt) getGlobalPipelineMetrics().recordJob(record.type, status, record.finishedAt - record.startedAt);
+    this.pushEvent(active, { type: 'job', status, error: record.error });
+    await this.persist(record);
+    setTimeout(() => {
+      if (this.jobs.get(record.id) === active && active.listeners.size === 0) this.jobs.delete(record.id);
+    }, FINISHED_JOB_RETENTION_MS).unref();
+  }
+
+  private pushEvent(active: ActiveJob, data: any): void {
+    const event: JobEvent = { id: ++active.record.lastEventId, data };
+    active.events.push(event);
+    if (active.events.length > EVENT_BUFFER_SIZE) active.events.shift();
+    for (const listener of active.listeners) {
+      try {
+        listener(event);
+      } catch (err) {
+        console.error('[jobs] Listener failed:', err);
+      }
+    }
+    this.schedulePersist(active);
+  }
+
+  // Keeps the persisted lastEventId current; events emitted in the same tick share one write
+  private schedulePersist(active: ActiveJob): void {
+    if (active.persistScheduled) return;
+    active.persistScheduled = true;
+    setImmediate(() => {
+      active.persistScheduled = false;
+      void this.persist(active.record);
+    });
+  }
+
+  private async persist(record: JobRecord): Promise<void> {
+    try {
+      await setCache(JOBS_NAMESPACE, record.id, record, {
+        indexes: { walletPubkey: record.params?.walletPubkey, profileId: record.params?.profileId },
+      });
+    } catch (err) {
+      console.error(`[jobs] Failed to persist job ${record.id}:`, err);
+    }
+  }
+}
+
+// Singleton instance for global use
+let globalJobManager: JobManager | null = null;
+
+export function getGlobalJobManager(): JobManager {
+  if (!globalJobManager) {
+    globalJobManager = new JobManager();
+  }
+  return globalJobManager;
+}
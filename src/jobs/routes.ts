@@ -0,0 +1,139 @@
+import express, { Request, Response } from 'express';
+import { JobManager, getGlobalJobManager, isTerminalStatus } from './job-manager.js';
+import { JobCreatedResponse, JobErrorResponse, JobEvent, JobRecord, JobStatusResponse } from './types.js';
+
+const SSE_HEARTBEAT_MS = 15000;
+
+function writeEvent(res: Response, event: JobEvent) {
+  res.write(`id: ${event.id}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  if (typeof (res as any).flush === 'function') {
+    (res as any).flush();
+  }
+}
+
+// Replaces the events a reconnecting client can no longer get from the buffer
+function snapshotEvent(jobManager: JobManager, record: JobRecord): JobEvent {
+  const status = jobManager.toStatusResponse(record, false);
+  if (record.status === 'completed') {
+    return { id: record.lastEventId, data: { type: 'complete', ...record.result, jobStatus: status } };
+  }
+  return { id: record.lastEventId, data: { type: 'snapshot', jobStatus: status, partial: record.checkpoint ?? null } };
+}
+
+function parseLastEventId(req: Request): number {
+  const raw = req.header('Last-Event-ID') ?? (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
+  const n = Number(raw);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : 0;
+}
+
+export function createJobsRouter(jobManager: JobManager = getGlobalJobManager()) {
+  const router = express.Router();
+
+  // POST /api/jobs - Start a background job ({ type, params }); an identical active job is reused
+  router.post('/', async (req, res: Response<JobCreatedResponse | JobErrorResponse>) => {
+    const { type, params } = req.body || {};
+    if (!type || typeof type !== 'string') {
+      return res.status(400).json({ error: 'type required' });
+    }
+    const invalid = jobManager.validateParams(type, params);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    try {
+      const { record, existing } = await jobManager.createJob(type, params ?? {});
+      res.status(existing ? 200 : 202).json({
+        jobId: record.id,
+        status: record.status,
+        existing,
+        statusUrl: `${req.baseUrl}/${record.id}`,
+        eventsUrl: `${req.baseUrl}/${record.id}/events`,
+      });
+    } catch (error: any) {
+      console.error('Jobs POST / error:', error?.message || error);
+      res.status(500).json({ error: 'Failed to start job', message: error?.message });
+    }
+  });
+
+  // GET /api/jobs/:id - Status, last progress and (when finished) the result
+  router.get('/:id', async (req, res: Response<JobStatusResponse | JobErrorResponse>) => {
+    try {
+      const record = await jobManager.getJob(req.params.id);
+      if (!record) return res.status(404).json({ error: 'Job not found' });
+      const includeResult = req.query.result !== 'false';
+      res.json(jobManager.toStatusResponse(record, includeResult));
+    } catch (error: any) {
+      console.error('Jobs GET /:id error:', error?.message || error);
+      res.status(500).json({ error: 'Failed to read job', message: error?.message });
+    }
+  });
+
+  // GET /api/jobs/:id/events - SSE stream; reconnects resume after Last-Event-ID
+  router.get('/:id/events', async (req, res: Response) => {
+    let record: JobRecord | null;
+    try {
+      record = await jobManager.getJob(req.params.id);
+    } catch (error: any) {
+      console.error('Jobs GET /:id/events error:', error?.message || error);
+      return res.status(500).json({ error: 'Failed to read job', message: error?.message });
+    }
+    if (!record) return res.status(404).json({ error: 'Job not found' });
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    const lastEventId = parseLastEventId(req);
+    let closed = false;
+    let unsubscribe = () => {};
+    let heartbeat: NodeJS.Timeout | undefined;
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      unsubscribe();
+      if (heartbeat) clearInterval(heartbeat);
+      res.end();
+    };
+
+    const replay = jobManager.getEventsSince(record.id, lastEventId);
+    if (replay === null) {
+      // Buffer no longer covers the client's position (or the job is not in memory)
+      if (lastEventId < record.lastEventId || isTerminalStatus(record.status)) {
+        writeEvent(res, snapshotEvent(jobManager, record));
+      }
+    } else {
+      for (const event of replay) writeEvent(res, event);
+    }
+
+    if (isTerminalStatus(record.status)) {
+      // Always finish with the terminal event so EventSource clients stop reconnecting
+      const last = replay?.[replay.length - 1];
+      if (!(last?.data?.type === 'job' && isTerminalStatus(last.data.status))) {
+        writeEvent(res, { id: record.lastEventId, data: { type: 'job', status: record.status, error: record.error } });
+      }
+      return close();
+    }
+
+    unsubscribe = jobManager.subscribe(record.id, (event) => {
+      if (closed) return;
+      writeEvent(res, event);
+      if (event.data?.type === 'job' && isTerminalStatus(event.data.status)) close();
+    });
+    heartbeat = setInterval(() => res.write(': keep-alive\n\n'), SSE_HEARTBEAT_MS);
+    req.on('close', close);
+  });
+
+  // DELETE /api/jobs/:id - Cancel a queued or running job
+  router.delete('/:id', async (req, res: Response<JobStatusResponse | JobErrorResponse>) => {
+    try {
+      const record = await jobManager.cancel(req.params.id);
+      if (!record) return res.status(404).json({ error: 'Job not found' });
+      res.json(jobManager.toStatusResponse(record, false));
+    } catch (error: any) {
+      console.error('Jobs DELETE /:id error:', error?.message || error);
+      res.status(500).json({ error: 'Failed to cancel job', message: error?.message });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,68 @@
+// Background job records and events exposed under /api/jobs
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobEvent {
+  id: number;
+  data: any;
+}
+
+export interface JobRecord {
+  id: string;
+  type: string;
+  params: any;
+  fingerprint: string;
+  status: JobStatus;
+  createdAt: number;
+  updatedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  attempts: number;
+  lastEventId: number;
+  // Last progress snapshot saved by the runner; handed back to it when the job resumes
+  checkpoint?: any;
+  result?: any;
+  error?: string;
+}
+
+export interface JobContext {
+  jobId: string;
+  params: any;
+  checkpoint?: any;
+  signal: AbortSignal;
+  emit: (data: any) => void;
+  saveCheckpoint: (snapshot: any) => Promise<void>;
+}
+
+export type JobRunner = (ctx: JobContext) => Promise<any>;
+
+// Returns an error message for unacceptable params, null otherwise
+export type JobParamsValidator = (params: any) => string | null;
+
+export interface JobStatusResponse {
+  id: string;
+  type: string;
+  status: JobStatus;
+  createdAt: number;
+  updatedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  attempts: number;
+  lastEventId: number;
+  progress?: { processed?: number; total?: number; percentage?: string; message?: string };
+  result?: any;
+  error?: string;
+}
+
+export interface JobCreatedResponse {
+  jobId: string;
+  status: JobStatus;
+  existing: boolean;
+  statusUrl: string;
+  eventsUrl: string;
+}
+
+export interface JobErrorResponse {
+  error: string;
+  message?: string;
+}
@@ -0,0 +1,321 @@
+import crypto from 'crypto';
+import { getCacheWithTimestamp, setCache } from '../utils/persist-cache.js';
+import { getGlobalRpcPoolManager } from '../utils/rpc/rpc-pool-manager.js';
+import { RpcLogNotification, RpcLogSubscriber, RpcLogSubscriberStatus } from '../utils/rpc/log-subscriber.js';
+import { isAbortError } from '../utils/rpc/abort.js';
+import { classifySageTransaction, SAGE_PROGRAM_ID } from '../examples/sage-classifier.js';
+import { TransactionInfo } from '../examples/types.js';
+import { walletFeesCacheKey } from '../examples/fee-series.js';
+import { LiveTransaction, LiveUpdater, LiveWatchParams, LiveWatchStatus } from './types.js';
+
+// Notifications arriving within this window are folded into one update
+const UPDATE_DEBOUNCE_MS = Number(process.env.LIVE_UPDATE_DEBOUNCE_MS || 2000);
+// A watch without connected clients is stopped after this long
+const IDLE_TIMEOUT_MS = Number(process.env.LIVE_IDLE_TIMEOUT_MS || 5 * 60 * 1000);
+// Caps on watches and subscribed addresses, pool-wide and per client
+const MAX_WATCHES = Number(process.env.LIVE_MAX_WATCHES || 20);
+const MAX_ADDRESSES = Number(process.env.LIVE_MAX_ADDRESSES || 500);
+const MAX_WATCHES_PER_CLIENT = Number(process.env.LIVE_MAX_WATCHES_PER_CLIENT || 3);
+const MAX_ADDRESSES_PER_CLIENT = Number(process.env.LIVE_MAX_ADDRESSES_PER_CLIENT || 100);
+
+type LiveListener = (data: any) => void;
+
+interface LiveWatch {
+  id: string;
+  params: LiveWatchParams;
+  cacheKey: string;
+  addresses: string[];
+  // Clients that started (or joined) the watch, counted against the per-client caps
+  owners: Set<string>;
+  clients: Set<LiveListener>;
+  createdAt: number;
+  abort: AbortController;
+  timer?: NodeJS.Timeout;
+  idleTimer?: NodeJS.Timeout;
+  updating: boolean;
+  rerun: boolean;
+  updates: number;
+  lastNotificationAt?: number;
+  lastUpdateAt?: number;
+  lastError?: string;
+}
+
+/**
+ * A watch refused because it would exceed one of the live caps
+ */
+export class LiveLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LiveLimitError';
+  }
+}
+
+// Signatures covered by a result transaction (crafting pairs are merged as "start+complete")
+function signaturesOf(tx: any): string[] {
+  return Array.isArray(tx?.pairedTxs) ? tx.pairedTxs : String(tx?.signature || '').split('+');
+}
+
+/**
+ * Live monitoring of wallets: subscribes to the logs of the wallet and its fleet accounts,
+ * and on every SAGE transaction brings the cached wallet-fees-detailed result up to date
+ * (incremental analysis from the cached result) and pushes the new transactions to clients.
+ */
+export class LiveMonitor {
+  private watches = new Map<string, LiveWatch>();
+  private updater: LiveUpdater | null = null;
+  private detach: (() => void)[] = [];
+
+  constructor(private subscriber: RpcLogSubscriber = getGlobalRpcPoolManager().getLogSubscriber()) {}
+
+  setUpdater(updater: LiveUpdater): void {
+    this.updater = updater;
+  }
+
+  /**
+   * Start watching a wallet for a client; identical params share one watch.
+   * Throws LiveLimitError when the watch would exceed a cap.
+   */
+  startWatch(params: LiveWatchParams, client: string): { watch: LiveWatchStatus; existing: boolean } {
+    const cacheKey = walletFeesCacheKey(params);
+    const id = crypto.createHash('sha256').update(cacheKey).digest('hex').slice(0, 16);
+    const current = this.watches.get(id);
+    const addresses = current?.addresses ?? Array.from(new Set([params.walletPubkey, ...(params.fleetAccounts || [])]));
+    this.checkLimits(client, addresses, current);
+    if (current) {
+      current.owners.add(client);
+      return { watch: this.toStatus(current), existing: true };
+    }
+
+    if (this.watches.size === 0) this.attach();
+    const watch: LiveWatch = {
+      id,
+      params,
+      cacheKey,
+      addresses,
+      owners: new Set([client]),
+      clients: new Set(),
+      createdAt: Date.now(),
+      abort: new AbortController(),
+      updating: false,
+      rerun: false,
+      updates: 0,
+    };
+    this.watches.set(id, watch);
+    addresses.forEach(address => this.subscriber.subscribe(address));
+    this.armIdleTimer(watch);
+    console.log(`[live] Watching ${params.walletPubkey.substring(0, 8)}... (${addresses.length} addresses)`);
+    return { watch: this.toStatus(watch), existing: false };
+  }
+
+  stopWatch(id: string): boolean {
+    const watch = this.watches.get(id);
+    if (!watch) return false;
+    this.watches.delete(id);
+    if (watch.timer) clearTimeout(watch.timer);
+    if (watch.idleTimer) clearTimeout(watch.idleTimer);
+    watch.abort.abort();
+    watch.addresses.forEach(address => this.subscriber.unsubscribe(address));
+    this.broadcast(watch, { type: 'live-stopped', watchId: id });
+    watch.clients.clear();
+    if (this.watches.size === 0) this.detachListeners();
+    console.log(`[live] Stopped watching ${watch.params.walletPubkey.substring(0, 8)}...`);
+    return true;
+  }
+
+  getWatch(id: string): LiveWatchStatus | null {
+    const watch = this.watches.get(id);
+    return watch ? this.toStatus(watch) : null;
+  }
+
+  listWatches(): LiveWatchStatus[] {
+    return Array.from(this.watches.values()).map(w => this.toStatus(w));
+  }
+
+  getSubscriberStatus(): RpcLogSubscriberStatus {
+    return this.subscriber.getStatus();
+  }
+
+  /**
+   * Register a client of a watch; returns the function that removes it (null for an unknown watch)
+   */
+  addClient(id: string, listener: LiveListener): (() => void) | null {
+    const watch = this.watches.get(id);
+    if (!watch) return null;
+    watch.clients.add(listener);
+    if (watch.idleTimer) clearTimeout(watch.idleTimer);
+    watch.idleTimer = undefined;
+    return () => {
+      watch.clients.delete(listener);
+      if (watch.clients.size === 0 && this.watches.get(id) === watch) this.armIdleTimer(watch);
+    };
+  }
+
+  // A client joining a watch it already holds is always accepted; a shared watch adds no subscriptions
+  private checkLimits(client: string, addresses: string[], current?: LiveWatch): void {
+    if (current?.owners.has(client)) return;
+    const owned = Array.from(this.watches.values()).filter(w => w.owners.has(client));
+    if (owned.length >= MAX_WATCHES_PER_CLIENT) {
+      throw new LiveLimitError(`At most ${MAX_WATCHES_PER_CLIENT} live watches per client`);
+    }
+    const ownedAddresses = new Set(owned.flatMap(w => w.addresses));
+    addresses.forEach(address => ownedAddresses.add(address));
+    if (ownedAddresses.size > MAX_ADDRESSES_PER_CLIENT) {
+      throw new LiveLimitError(`At most ${MAX_ADDRESSES_PER_CLIENT} watched addresses per client`);
+    }
+    if (current) return;
+    if (this.watches.size >= MAX_WATCHES) {
+      throw new LiveLimitError(`At most ${MAX_WATCHES} live watches`);
+    }
+    const subscribed = new Set(Array.from(this.watches.values()).flatMap(w => w.addresses));
+    addresses.forEach(address => subscribed.add(address));
+    if (subscribed.size > MAX_ADDRESSES) {
+      throw new LiveLimitError(`At most ${MAX_ADDRESSES} watched addresses`);
+    }
+  }
+
+  private attach(): void {
+    this.detach.push(
+      this.subscriber.onLogs(n => this.handleLogs(n)),
+      this.subscriber.onResync(endpoint => {
+        // Logs may have been missed meanwhile: catch up from the signatures
+        for (const watch of this.watches.values()) {
+          this.broadcast(watch, { type: 'live-status', watchId: watch.id, endpoint, resync: true });
+          this.schedule(watch);
+        }
+      })
+    );
+  }
+
+  private detachListeners(): void {
+    this.detach.forEach(fn => fn());
+    this.detach = [];
+  }
+
+  private armIdleTimer(watch: LiveWatch): void {
+    if (watch.idleTimer) clearTimeout(watch.idleTimer);
+    watch.idleTimer = setTimeout(() => this.stopWatch(watch.id), IDLE_TIMEOUT_MS);
+    watch.idleTimer.unref();
+  }
+
+  private handleLogs(notification: RpcLogNotification): void {
+    // The fee analysis only counts SAGE transactions
+    if (!notification.logs.some(line => line.includes(SAGE_PROGRAM_ID))) return;
+    for (const watch of this.watches.values()) {
+      if (!watch.addresses.includes(notification.address)) continue;
+      watch.lastNotificationAt = Date.now();
+      this.schedule(watch);
+    }
+  }
+
+  private schedule(watch: LiveWatch, delayMs = UPDATE_DEBOUNCE_MS): void {
+    if (watch.timer || watch.abort.signal.aborted) return;
+    watch.timer = setTimeout(() => {
+      watch.timer = undefined;
+      this.runUpdate(watch);
+    }, delayMs);
+  }
+
+  private async runUpdate(watch: LiveWatch): Promise<void> {
+    if (watch.updating) {
+      watch.rerun = true;
+      return;
+    }
+    if (!this.updater) {
+      console.warn('[live] No updater registered, notification ignored');
+      return;
+    }
+    watch.updating = true;
+    watch.rerun = false;
+    try {
+      const cached = await getCacheWithTimestamp<any>('wallet-fees-detailed', watch.cacheKey);
+      const cachedData = cached?.data ?? null;
+      const known = new Set<string>();
+      (cachedData?.transactions || []).forEach((tx: any) => signaturesOf(tx).forEach(sig => known.add(sig)));
+      const newest = cachedData?.transactions?.[0];
+
+      const result = await this.updater({
+        watchId: watch.id,
+        params: watch.params,
+        cachedData,
+        lastProcessedSignature: newest ? signaturesOf(newest).slice(-1)[0] : undefined,
+        signal: watch.abort.signal,
+      });
+      if (watch.abort.signal.aborted) return;
+      await setCache('wallet-fees-detailed', watch.cacheKey, result, { indexes: { walletPubkey: watch.params.walletPubkey } });
+
+      const arrived = (result.transactions || []).filter((tx: any) => signaturesOf(tx).some(sig => !known.has(sig)));
+      watch.updates++;
+      watch.lastUpdateAt = Date.now();
+      watch.lastError = undefined;
+      if (arrived.length > 0) {
+        this.broadcast(watch, {
+          type: 'live-transactions',
+          watchId: watch.id,
+          transactions: arrived.map((tx: TransactionInfo) => this.toLiveTransaction(watch, tx)),
+          totalFees24h: result.totalFees24h,
+          sageFees24h: result.sageFees24h,
+          transactionCount24h: result.transactionCount24h,
+        });
+      }
+      this.broadcast(watch, { ...result, type: 'complete', live: true });
+    } catch (err: any) {
+      if (isAbortError(err) || watch.abort.signal.aborted) return;
+      watch.lastError = err?.message || String(err);
+      console.error(`[live] Update failed for ${watch.params.walletPubkey.substring(0, 8)}...:`, watch.lastError);
+      this.broadcast(watch, { type: 'live-error', watchId: watch.id, message: watch.lastError });
+    } finally {
+      watch.updating = false;
+      if (watch.rerun) this.schedule(watch);
+    }
+  }
+
+  private toLiveTransaction(watch: LiveWatch, tx: TransactionInfo): LiveTransaction {
+    const classification = classifySageTransaction(tx, { fleetAccounts: watch.params.fleetAccounts });
+    return {
+      signature: tx.signature,
+      blockTime: tx.blockTime,
+      fee: tx.fee,
+      status: tx.status,
+      operation: classification.operation,
+      groupedOperation: classification.groupedOperation,
+      isCrafting: classification.isCrafting,
+      fleetAccount: classification.fleetAccount,
+      fleetName: classification.fleetAccount ? watch.params.fleetNames?.[classification.fleetAccount] : undefined,
+    };
+  }
+
+  private broadcast(watch: LiveWatch, data: any): void {
+    for (const client of watch.clients) {
+      try {
+        client(data);
+      } catch (err: any) {
+        console.error('[live] Failed to push update:', err?.message || err);
+      }
+    }
+  }
+
+  private toStatus(watch: LiveWatch): LiveWatchStatus {
+    return {
+      id: watch.id,
+      walletPubkey: watch.params.walletPubkey,
+      addresses: watch.addresses.length,
+      clients: watch.clients.size,
+      createdAt: watch.createdAt,
+      lastNotificationAt: watch.lastNotificationAt,
+      lastUpdateAt: watch.lastUpdateAt,
+      updates: watch.updates,
+      updating: watch.updating,
+      lastError: watch.lastError,
+    };
+  }
+}
+
+// Singleton instance for global use
+let globalLiveMonitor: LiveMonitor | null = null;
+
+export function getGlobalLiveMonitor(): LiveMonitor {
+  if (!globalLiveMonitor) {
+    globalLiveMonitor = new LiveMonitor();
+  }
+  return globalLiveMonitor;
+}
@@ -0,0 +1,108 @@
+import express, { Response } from 'express';
+import { PublicKey } from '@solana/web3.js';
+import { requireAdminToken } from '../admin/routes.js';
+import { LiveLimitError, LiveMonitor, getGlobalLiveMonitor } from './live-monitor.js';
+import { LiveErrorResponse, LiveOverviewResponse, LiveWatchCreatedResponse, LiveWatchParams, LiveWatchStatus } from './types.js';
+
+const SSE_HEARTBEAT_MS = 15000;
+
+function writeEvent(res: Response, data: any) {
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+  if (typeof (res as any).flush === 'function') {
+    (res as any).flush();
+  }
+}
+
+// Returns an error message for unacceptable params, null otherwise
+function validateParams(body: any): string | null {
+  if (!body?.walletPubkey || typeof body.walletPubkey !== 'string') return 'walletPubkey required';
+  if (body.fleetAccounts !== undefined && !Array.isArray(body.fleetAccounts)) return 'fleetAccounts must be an array';
+  for (const address of [body.walletPubkey, ...(body.fleetAccounts || [])]) {
+    try {
+      new PublicKey(address);
+    } catch {
+      return `Invalid address: ${address}`;
+    }
+  }
+  return null;
+}
+
+export function createLiveRouter(monitor: LiveMonitor = getGlobalLiveMonitor()) {
+  const router = express.Router();
+
+  // POST /api/live - Watch a wallet (same body as /api/wallet-sage-fees-stream); identical params share a watch
+  router.post('/', requireAdminToken, (req, res: Response<LiveWatchCreatedResponse | LiveErrorResponse>) => {
+    const invalid = validateParams(req.body);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    const { walletPubkey, fleetAccounts, fleetNames, fleetRentalStatus, hours, profileId } = req.body;
+    const params: LiveWatchParams = { walletPubkey, fleetAccounts, fleetNames, fleetRentalStatus, hours, profileId };
+    try {
+      const { watch, existing } = monitor.startWatch(params, req.ip || 'unknown');
+      res.status(existing ? 200 : 201).json({
+        watchId: watch.id,
+        existing,
+        statusUrl: `${req.baseUrl}/${watch.id}`,
+        eventsUrl: `${req.baseUrl}/${watch.id}/events`,
+      });
+    } catch (error: any) {
+      if (error instanceof LiveLimitError) {
+        return res.status(429).json({ error: error.message });
+      }
+      console.error('Live POST / error:', error?.message || error);
+      res.status(500).json({ error: 'Failed to start watch', message: error?.message });
+    }
+  });
+
+  // GET /api/live - Active watches and the state of the log subscriptions
+  router.get('/', (_req, res: Response<LiveOverviewResponse>) => {
+    res.json({ subscriptions: monitor.getSubscriberStatus(), watches: monitor.listWatches() });
+  });
+
+  // GET /api/live/:id - Watch status
+  router.get('/:id', (req, res: Response<LiveWatchStatus | LiveErrorResponse>) => {
+    const watch = monitor.getWatch(req.params.id);
+    if (!watch) return res.status(404).json({ error: 'Watch not found' });
+    res.json(watch);
+  });
+
+  // GET /api/live/:id/events - SSE stream of live-transactions and updated complete results
+  router.get('/:id/events', (req, res: Response) => {
+    const watch = monitor.getWatch(req.params.id);
+    if (!watch) return res.status(404).json({ error: 'Watch not found' });
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    let closed = false;
+    let heartbeat: NodeJS.Timeout | undefined;
+    let removeClient: (() => void) | null = null;
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      removeClient?.();
+      if (heartbeat) clearInterval(heartbeat);
+      res.end();
+    };
+
+    writeEvent(res, { type: 'live-status', watchId: watch.id, ...monitor.getSubscriberStatus() });
+    removeClient = monitor.addClient(watch.id, (data) => {
+      if (closed) return;
+      writeEvent(res, data);
+      if (data?.type === 'live-stopped') close();
+    });
+    heartbeat = setInterval(() => res.write(': keep-alive\n\n'), SSE_HEARTBEAT_MS);
+    req.on('close', close);
+  });
+
+  // DELETE /api/live/:id - Stop watching
+  router.delete('/:id', requireAdminToken, (req, res: Response<{ stopped: boolean } | LiveErrorResponse>) => {
+    if (!monitor.stopWatch(req.params.id)) return res.status(404).json({ error: 'Watch not found' });
+    res.json({ stopped: true });
+  });
+
+  return router;
+}
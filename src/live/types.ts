@@ -0,0 +1,70 @@
+import { RpcLogSubscriberStatus } from '../utils/rpc/log-subscriber.js';
+
+// Live wallet monitoring exposed under /api/live
+
+export interface LiveWatchParams {
+  walletPubkey: string;
+  fleetAccounts?: string[];
+  fleetNames?: { [account: string]: string };
+  fleetRentalStatus?: { [account: string]: boolean };
+  hours?: number;
+  profileId?: string;
+}
+
+export interface LiveUpdateContext {
+  watchId: string;
+  params: LiveWatchParams;
+  // Cached wallet-fees-detailed result the update starts from (null: full analysis)
+  cachedData: any | null;
+  // Newest signature already in cachedData, for results saved without a processedRange
+  lastProcessedSignature?: string;
+  signal: AbortSignal;
+}
+
+// Runs the fee analysis from the cached result and returns the new complete result
+export type LiveUpdater = (ctx: LiveUpdateContext) => Promise<any>;
+
+/**
+ * A transaction that arrived while watching, with its classification
+ */
+export interface LiveTransaction {
+  signature: string;
+  blockTime: number;
+  fee: number;
+  status: 'success' | 'failed';
+  operation: string;
+  groupedOperation: string;
+  isCrafting: boolean;
+  fleetAccount?: string;
+  fleetName?: string;
+}
+
+export interface LiveWatchStatus {
+  id: string;
+  walletPubkey: string;
+  addresses: number;
+  clients: number;
+  createdAt: number;
+  lastNotificationAt?: number;
+  lastUpdateAt?: number;
+  updates: number;
+  updating: boolean;
+  lastError?: string;
+}
+
+export interface LiveOverviewResponse {
+  subscriptions: RpcLogSubscriberStatus;
+  watches: LiveWatchStatus[];
+}
+
+export interface LiveWatchCreatedResponse {
+  watchId: string;
+  existing: boolean;
+  statusUrl: string;
+  eventsUrl: string;
+}
+
+export interface LiveErrorResponse {
+  error: string;
+  message?: string;
+}
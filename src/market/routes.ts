@@ -1,30 +1,140 @@
-import express from 'express';
+import express, { Response } from 'express';
 import NodeCache from 'node-cache';
 import { Connection, PublicKey } from '@solana/web3.js';
 import { GmClientService, GmOrderbookService } from '@staratlas/factory';
+import { RpcPoolConnection } from '../utils/rpc/pool-connection.js';
+import { setNamespacePolicy } from '../utils/cache-store/policies.js';
+import { getCacheWithTimestamp, setCache } from '../utils/persist-cache.js';
+import {
+  CurrenciesResponse,
+  ItemMarketData,
+  ItemsResponse,
+  ItemsWithPricesResponse,
+  MarketCurrency,
+  MarketErrorResponse,
+  MarketItem,
+  MarketOrder,
+  MarketSummaryResponse,
+  OrderbookResponse,
+  OrdersResponse,
+  PriceResponse,
+} from './types.js';
 
 // Program IDs
 const GALACTIC_MARKETPLACE_PROGRAM_ID = 'traderDnaR5w6Tcoi3NFm53i48FTDNbGjBSZwWXDRrg';
 const ATLAS_MINT = 'ATLASXmbPQxBUYbxPsV97usA3fPQYEqzQBUHgiFCUsXx';
+const GALAXY_NFTS_URL = 'https://galaxy.staratlas.com/nfts';
+
+// Orderbook snapshots are persisted through persist-cache and reused while fresh
+const ORDERBOOK_CACHE_NAMESPACE = 'market-orderbook';
+const ORDERBOOK_TTL_MS = Number(process.env.MARKET_ORDERBOOK_TTL_MS || 60000);
+// Snapshots outlive ORDERBOOK_TTL_MS so a stale one can be served while GmOrderbookService is down
+setNamespacePolicy(ORDERBOOK_CACHE_NAMESPACE, { ttlMs: 6 * 60 * 60 * 1000, maxEntries: 1000 });
+
+// Marketplace reads are getProgramAccounts scans over the whole program, slower than single-account calls
+const MARKET_RPC_OPTIONS = { timeoutMs: 30000, maxRetries: 2 };
+const GALAXY_TIMEOUT_MS = 15000;
+
+function isPublicKey(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toMarketOrder(o: any): MarketOrder {
+  return {
+    id: String(o.id),
+    orderType: o.orderType === 'buy' ? 'buy' : 'sell',
+    orderMint: o.orderMint?.toString?.() ?? String(o.orderMint),
+    currencyMint: o.currencyMint?.toString?.() ?? String(o.currencyMint),
+    owner: o.owner?.toString?.() ?? String(o.owner),
+    uiPrice: Number(o.uiPrice) || 0,
+    orderQtyRemaining: Number(o.orderQtyRemaining) || 0,
+    orderOriginationQty: Number(o.orderOriginationQty) || 0,
+    createdAt: o.createdAt != null ? Number(o.createdAt) : undefined,
+  };
+}
+
+function toMarketCurrency(c: any): MarketCurrency {
+  return {
+    mint: c.mint?.toString?.() ?? String(c.mint),
+    decimals: c.decimals != null ? Number(c.decimals) : undefined,
+    saBuyerFee: c.saBuyerFee != null ? Number(c.saBuyerFee) : undefined,
+    saSellerFee: c.saSellerFee != null ? Number(c.saSellerFee) : undefined,
+    royalty: c.royalty != null ? Number(c.royalty) : undefined,
+  };
+}
+
+function summarizeOrders(orders: MarketOrder[]): ItemMarketData & { totalBuyVolume: number; totalSellVolume: number } {
+  const buyOrders = orders
+    .filter(o => o.orderType === 'buy')
+    .sort((a, b) => b.uiPrice - a.uiPrice);
+  const sellOrders = orders
+    .filter(o => o.orderType === 'sell')
+    .sort((a, b) => a.uiPrice - b.uiPrice);
+
+  const bestBid = buyOrders[0]?.uiPrice ?? null;
+  const bestAsk = sellOrders[0]?.uiPrice ?? null;
+
+  return {
+    bestBid,
+    bestAsk,
+    midPrice: bestBid && bestAsk ? (bestBid + bestAsk) / 2 : null,
+    buyOrderCount: buyOrders.length,
+    sellOrderCount: sellOrders.length,
+    totalBuyVolume: buyOrders.reduce((sum, o) => sum + o.orderQtyRemaining, 0),
+    totalSellVolume: sellOrders.reduce((sum, o) => sum + o.orderQtyRemaining, 0),
+  };
+}
 
-export function createMarketRouter(rpcEndpoint: string) {
+export function createMarketRouter(poolConnection: RpcPoolConnection) {
   const router = express.Router();
+  const poolManager = poolConnection.getPoolManager();
   const cache = new NodeCache({ stdTTL: 60 });
 
-  const connection = new Connection(rpcEndpoint, 'confirmed');
   const programId = new PublicKey(GALACTIC_MARKETPLACE_PROGRAM_ID);
   const gmClientService = new GmClientService();
 
+  /**
+   * Run a marketplace read through the shared pool connection.
+   * Marketplace reads are getProgramAccounts scans, so only endpoints allowing it are used.
+   */
+  function withPoolConnection<T>(operation: (conn: Connection) => Promise<T>): Promise<T> {
+    return poolConnection.runWithPool('getProgramAccounts', operation, MARKET_RPC_OPTIONS);
+  }
+
+  async function fetchGalaxyItems(): Promise<MarketItem[]> {
+    const response = await fetch(GALAXY_NFTS_URL, { signal: AbortSignal.timeout(GALAXY_TIMEOUT_MS) });
+    if (!response.ok) throw new Error(`Galaxy API responded ${response.status}`);
+    return (await response.json()) as MarketItem[];
+  }
+
+  async function fetchAllOrders(): Promise<MarketOrder[]> {
+    const orders = await withPoolConnection<any[]>(conn => gmClientService.getAllOpenOrders(conn, programId));
+    return orders.map(toMarketOrder);
+  }
+
   let gmOrderbookService: GmOrderbookService | null = null;
 
   function initializeOrderbookService() {
     try {
-      gmOrderbookService = new GmOrderbookService(connection, programId, 60);
+      // The orderbook service keeps a websocket subscription open, so it is pinned
+      // to the first healthy pool endpoint rather than rotated per request
+      const picked = poolManager.pickNextRpc({ method: 'getProgramAccounts' });
+      if (!picked.connection) {
+        console.error('❌ Market: No healthy RPC endpoint for GmOrderbookService');
+        return;
+      }
+      gmOrderbookService = new GmOrderbookService(picked.connection, programId, 60);
       gmOrderbookService.initialize()
         .then(() => {
           console.log('✅ Market: GmOrderbookService initialized');
         })
-        .catch((error) => {
+        .catch((error: any) => {
           console.error('❌ Market: Error initializing GmOrderbookService:', error);
         });
     } catch (error) {
@@ -36,13 +146,12 @@ export function createMarketRouter(rpcEndpoint: string) {
   initializeOrderbookService();
 
   // GET /api/market/items - Galaxy NFTs
-  router.get('/items', async (_req, res) => {
+  router.get('/items', async (_req, res: Response<ItemsResponse | MarketErrorResponse>) => {
     try {
-      const cached = cache.get('items');
+      const cached = cache.get<ItemsResponse>('items');
       if (cached) return res.json(cached);
 
-      const response = await fetch('https://galaxy.staratlas.com/nfts');
-      const items = await response.json();
+      const items = await fetchGalaxyItems();
       cache.set('items', items);
       res.json(items);
     } catch (error: any) {
@@ -52,18 +161,17 @@ export function createMarketRouter(rpcEndpoint: string) {
   });
 
   // GET /api/market/currencies - Registered currencies
-  router.get('/currencies', async (_req, res) => {
+  router.get('/currencies', async (_req, res: Response<CurrenciesResponse | MarketErrorResponse>) => {
     try {
-      const cached = cache.get('currencies');
+      const cached = cache.get<CurrenciesResponse>('currencies');
       if (cached) return res.json(cached);
 
-      const currencies = await gmClientService.getRegisteredCurrencies(
-        connection,
-        programId,
-        false
+      const currencies = await withPoolConnection<any[]>(conn =>
+        gmClientService.getRegisteredCurrencies(conn, programId, false)
       );
-      cache.set('currencies', currencies);
-      res.json(currencies);
+      const payload = currencies.map(toMarketCurrency);
+      cache.set('currencies', payload);
+      res.json(payload);
     } catch (error: any) {
       console.error('Market /currencies error:', error?.message || error);
       res.status(500).json({ error: 'Errore nel recupero currencies' });
@@ -71,12 +179,12 @@ export function createMarketRouter(rpcEndpoint: string) {
   });
 
   // GET /api/market/orders - All open orders
-  router.get('/orders', async (_req, res) => {
+  router.get('/orders', async (_req, res: Response<OrdersResponse | MarketErrorResponse>) => {
     try {
-      const cached = cache.get('all_orders');
+      const cached = cache.get<OrdersResponse>('all_orders');
       if (cached) return res.json(cached);
 
-      const orders = await gmClientService.getAllOpenOrders(connection, programId);
+      const orders = await fetchAllOrders();
       cache.set('all_orders', orders);
       res.json(orders);
     } catch (error: any) {
@@ -86,45 +194,59 @@ export function createMarketRouter(rpcEndpoint: string) {
   });
 
   // GET /api/market/orders/:mint - Orders for specific mint
-  router.get('/orders/:mint', async (req, res) => {
+  router.get('/orders/:mint', async (req, res: Response<OrdersResponse | MarketErrorResponse>) => {
+    const { mint } = req.params;
+    if (!isPublicKey(mint)) return res.status(400).json({ error: 'mint must be a valid public key' });
     try {
-      const { mint } = req.params;
       const cacheKey = `orders_${mint}`;
-      const cached = cache.get(cacheKey);
+      const cached = cache.get<OrdersResponse>(cacheKey);
       if (cached) return res.json(cached);
 
-      const orders = await gmClientService.getOpenOrdersForAsset(
-        connection,
-        new PublicKey(mint),
-        programId
+      const orders = await withPoolConnection<any[]>(conn =>
+        gmClientService.getOpenOrdersForAsset(conn, new PublicKey(mint), programId)
       );
-      cache.set(cacheKey, orders);
-      res.json(orders);
+      const payload = orders.map(toMarketOrder);
+      cache.set(cacheKey, payload);
+      res.json(payload);
     } catch (error: any) {
       console.error('Market /orders/:mint error:', error?.message || error);
       res.status(500).json({ error: 'Errore nel recupero ordini per item' });
     }
   });
 
-  // GET /api/market/orderbook/:mint - Orderbook for mint
-  router.get('/orderbook/:mint', async (req, res) => {
+  // GET /api/market/orderbook/:mint - Orderbook for mint (optional ?currency=, defaults to ATLAS)
+  router.get('/orderbook/:mint', async (req, res: Response<OrderbookResponse | MarketErrorResponse>) => {
+    const { mint } = req.params;
+    const currencyMint = req.query.currency === undefined ? ATLAS_MINT : req.query.currency;
+    if (!isPublicKey(mint)) return res.status(400).json({ error: 'mint must be a valid public key' });
+    if (!isPublicKey(currencyMint)) return res.status(400).json({ error: 'currency must be a valid public key' });
     try {
-      const { mint } = req.params;
-      const cacheKey = `orderbook_${mint}`;
-      const cached = cache.get(cacheKey);
-      if (cached) return res.json(cached);
+      const cacheKey = `${mint}__${currencyMint}`;
+
+      const cached = await getCacheWithTimestamp<OrderbookResponse>(ORDERBOOK_CACHE_NAMESPACE, cacheKey);
+      if (cached && Date.now() - cached.savedAt < ORDERBOOK_TTL_MS) {
+        res.setHeader('X-Cache-Hit', 'disk');
+        res.setHeader('X-Cache-Timestamp', String(cached.savedAt));
+        return res.json({ ...cached.data, fromCache: true });
+      }
 
       if (!gmOrderbookService) {
+        // Serve a stale snapshot rather than nothing when the live service is down
+        if (cached) {
+          res.setHeader('X-Cache-Hit', 'disk-stale');
+          res.setHeader('X-Cache-Timestamp', String(cached.savedAt));
+          return res.json({ ...cached.data, fromCache: true });
+        }
         return res.status(503).json({
           error: 'GmOrderbookService non disponibile',
           message: 'Usa /api/market/orders/:mint come alternativa'
         });
       }
 
-      const buy = gmOrderbookService.getBuyOrdersByCurrencyAndItem(ATLAS_MINT, mint);
-      const sell = gmOrderbookService.getSellOrdersByCurrencyAndItem(ATLAS_MINT, mint);
-      const payload = { buy, sell };
-      cache.set(cacheKey, payload);
+      const buy = gmOrderbookService.getBuyOrdersByCurrencyAndItem(currencyMint, mint).map(toMarketOrder);
+      const sell = gmOrderbookService.getSellOrdersByCurrencyAndItem(currencyMint, mint).map(toMarketOrder);
+      const payload: OrderbookResponse = { mint, currencyMint, buy, sell, savedAt: Date.now(), fromCache: false };
+      await setCache(ORDERBOOK_CACHE_NAMESPACE, cacheKey, payload);
       res.json(payload);
     } catch (error: any) {
       console.error('Market /orderbook/:mint error:', error?.message || error);
@@ -133,40 +255,29 @@ export function createMarketRouter(rpcEndpoint: string) {
   });
 
   // GET /api/market/price/:mint - Best bid/ask + mid
-  router.get('/price/:mint', async (req, res) => {
+  router.get('/price/:mint', async (req, res: Response<PriceResponse | MarketErrorResponse>) => {
+    const { mint } = req.params;
+    if (!isPublicKey(mint)) return res.status(400).json({ error: 'mint must be a valid public key' });
     try {
-      const { mint } = req.params;
       const cacheKey = `price_${mint}`;
-      const cached = cache.get(cacheKey);
+      const cached = cache.get<PriceResponse>(cacheKey);
       if (cached) return res.json(cached);
 
-      const orders = await gmClientService.getOpenOrdersForAsset(
-        connection,
-        new PublicKey(mint),
-        programId
+      const orders = await withPoolConnection<any[]>(conn =>
+        gmClientService.getOpenOrdersForAsset(conn, new PublicKey(mint), programId)
       );
+      const summary = summarizeOrders(orders.map(toMarketOrder));
 
-      const buyOrders = orders
-        .filter((o: any) => o.orderType === 'buy')
-        .sort((a: any, b: any) => b.uiPrice - a.uiPrice);
-
-      const sellOrders = orders
-        .filter((o: any) => o.orderType === 'sell')
-        .sort((a: any, b: any) => a.uiPrice - b.uiPrice);
-
-      const bestBid = buyOrders[0]?.uiPrice ?? null;
-      const bestAsk = sellOrders[0]?.uiPrice ?? null;
-
-      const priceData = {
+      const priceData: PriceResponse = {
         mint,
-        bestBid,
-        bestAsk,
-        spread: bestBid && bestAsk ? bestAsk - bestBid : null,
-        midPrice: bestBid && bestAsk ? (bestBid + bestAsk) / 2 : null,
-        buyOrderCount: buyOrders.length,
-        sellOrderCount: sellOrders.length,
-        totalBuyVolume: buyOrders.reduce((sum: number, o: any) => sum + o.orderQtyRemaining, 0),
-        totalSellVolume: sellOrders.reduce((sum: number, o: any) => sum + o.orderQtyRemaining, 0)
+        bestBid: summary.bestBid,
+        bestAsk: summary.bestAsk,
+        spread: summary.bestBid && summary.bestAsk ? summary.bestAsk - summary.bestBid : null,
+        midPrice: summary.midPrice,
+        buyOrderCount: summary.buyOrderCount,
+        sellOrderCount: summary.sellOrderCount,
+        totalBuyVolume: summary.totalBuyVolume,
+        totalSellVolume: summary.totalSellVolume
       };
 
       cache.set(cacheKey, priceData);
@@ -178,30 +289,30 @@ export function createMarketRouter(rpcEndpoint: string) {
   });
 
   // GET /api/market/market-summary - Aggregated stats
-  router.get('/market-summary', async (_req, res) => {
+  router.get('/market-summary', async (_req, res: Response<MarketSummaryResponse | MarketErrorResponse>) => {
     try {
-      const cached = cache.get('market_summary');
+      const cached = cache.get<MarketSummaryResponse>('market_summary');
       if (cached) return res.json(cached);
 
       const [orders, currencies] = await Promise.all([
-        gmClientService.getAllOpenOrders(connection, programId),
-        gmClientService.getRegisteredCurrencies(connection, programId, false)
+        fetchAllOrders(),
+        withPoolConnection<any[]>(conn => gmClientService.getRegisteredCurrencies(conn, programId, false))
       ]);
 
-      const buyOrders = orders.filter((o: any) => o.orderType === 'buy');
-      const sellOrders = orders.filter((o: any) => o.orderType === 'sell');
+      const buyOrders = orders.filter(o => o.orderType === 'buy');
+      const sellOrders = orders.filter(o => o.orderType === 'sell');
 
-      const totalBuyVolume = buyOrders.reduce((sum: number, o: any) => sum + (o.uiPrice * o.orderQtyRemaining), 0);
-      const totalSellVolume = sellOrders.reduce((sum: number, o: any) => sum + (o.uiPrice * o.orderQtyRemaining), 0);
+      const totalBuyVolume = buyOrders.reduce((sum, o) => sum + (o.uiPrice * o.orderQtyRemaining), 0);
+      const totalSellVolume = sellOrders.reduce((sum, o) => sum + (o.uiPrice * o.orderQtyRemaining), 0);
 
-      const summary = {
+      const summary: MarketSummaryResponse = {
         timestamp: Date.now(),
         totalOrders: orders.length,
         buyOrders: buyOrders.length,
         sellOrders: sellOrders.length,
         totalBuyVolume,
         totalSellVolume,
-        uniqueAssets: [...new Set(orders.map((o: any) => o.orderMint))].length,
+        uniqueAssets: new Set(orders.map(o => o.orderMint)).size,
         currencies: currencies.length
       };
 
@@ -214,43 +325,30 @@ export function createMarketRouter(rpcEndpoint: string) {
   });
 
   // GET /api/market/items-with-prices - Items enriched with market data
-  router.get('/items-with-prices', async (_req, res) => {
+  router.get('/items-with-prices', async (_req, res: Response<ItemsWithPricesResponse | MarketErrorResponse>) => {
     try {
-      const cached = cache.get('items_with_prices');
+      const cached = cache.get<ItemsWithPricesResponse>('items_with_prices');
       if (cached) return res.json(cached);
 
-      const [itemsResponse, orders] = await Promise.all([
-        fetch('https://galaxy.staratlas.com/nfts'),
-        gmClientService.getAllOpenOrders(connection, programId)
+      const [items, orders] = await Promise.all([
+        cache.get<ItemsResponse>('items') || fetchGalaxyItems(),
+        fetchAllOrders()
       ]);
 
-      const items = (await itemsResponse.json()) as any[];
-
-      const priceMap: Record<string, { buyOrders: any[]; sellOrders: any[]; }> = {};
-      orders.forEach((order: any) => {
-        if (!priceMap[order.orderMint]) {
-          priceMap[order.orderMint] = { buyOrders: [], sellOrders: [] };
-        }
-        if (order.orderType === 'buy') priceMap[order.orderMint].buyOrders.push(order);
-        else priceMap[order.orderMint].sellOrders.push(order);
+      const ordersByMint: Record<string, MarketOrder[]> = {};
+      orders.forEach(order => {
+        if (!ordersByMint[order.orderMint]) ordersByMint[order.orderMint] = [];
+        ordersByMint[order.orderMint].push(order);
       });
 
-      const enrichedItems = items.map((item: any) => {
-        const prices = priceMap[item.mint];
-        if (!prices) return { ...item, marketData: null };
-
-        const buyOrders = prices.buyOrders.sort((a: any, b: any) => b.uiPrice - a.uiPrice);
-        const sellOrders = prices.sellOrders.sort((a: any, b: any) => a.uiPrice - b.uiPrice);
+      const enrichedItems: ItemsWithPricesResponse = items.map(item => {
+        const itemOrders = ordersByMint[item.mint];
+        if (!itemOrders) return { ...item, marketData: null };
 
+        const { bestBid, bestAsk, midPrice, buyOrderCount, sellOrderCount } = summarizeOrders(itemOrders);
         return {
           ...item,
-          marketData: {
-            bestBid: buyOrders[0]?.uiPrice ?? null,
-            bestAsk: sellOrders[0]?.uiPrice ?? null,
-            midPrice: buyOrders[0] && sellOrders[0] ? (buyOrders[0].uiPrice + sellOrders[0].uiPrice) / 2 : null,
-            buyOrderCount: buyOrders.length,
-            sellOrderCount: sellOrders.length
-          }
+          marketData: { bestBid, bestAsk, midPrice, buyOrderCount, sellOrderCount }
         };
       });
 
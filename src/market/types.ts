@@ -0,0 +1,84 @@
+// Response schemas for the Galactic Marketplace API mounted under /api/market
+
+export interface MarketErrorResponse {
+  error: string;
+  message?: string;
+}
+
+export interface MarketItem {
+  _id?: string;
+  mint: string;
+  name: string;
+  symbol?: string;
+  description?: string;
+  image?: string;
+  attributes?: Record<string, any>;
+  [key: string]: any;
+}
+
+export interface MarketCurrency {
+  mint: string;
+  decimals?: number;
+  saBuyerFee?: number;
+  saSellerFee?: number;
+  royalty?: number;
+}
+
+export interface MarketOrder {
+  id: string;
+  orderType: 'buy' | 'sell';
+  orderMint: string;
+  currencyMint: string;
+  owner: string;
+  uiPrice: number;
+  orderQtyRemaining: number;
+  orderOriginationQty: number;
+  createdAt?: number;
+}
+
+export interface OrderbookResponse {
+  mint: string;
+  currencyMint: string;
+  buy: MarketOrder[];
+  sell: MarketOrder[];
+  savedAt: number;
+  fromCache: boolean;
+}
+
+export interface PriceResponse {
+  mint: string;
+  bestBid: number | null;
+  bestAsk: number | null;
+  spread: number | null;
+  midPrice: number | null;
+  buyOrderCount: number;
+  sellOrderCount: number;
+  totalBuyVolume: number;
+  totalSellVolume: number;
+}
+
+export interface MarketSummaryResponse {
+  timestamp: number;
+  totalOrders: number;
+  buyOrders: number;
+  sellOrders: number;
+  totalBuyVolume: number;
+  totalSellVolume: number;
+  uniqueAssets: number;
+  currencies: number;
+}
+
+export interface ItemMarketData {
+  bestBid: number | null;
+  bestAsk: number | null;
+  midPrice: number | null;
+  buyOrderCount: number;
+  sellOrderCount: number;
+}
+
+export type ItemWithPrices = MarketItem & { marketData: ItemMarketData | null };
+
+export type ItemsResponse = MarketItem[];
+export type CurrenciesResponse = MarketCurrency[];
+export type OrdersResponse = MarketOrder[];
+export type ItemsWithPricesResponse = ItemWithPrices[];
@@ -0,0 +1,54 @@
+import { JobDurationStats, PipelineMetricsSnapshot } from './types.js';
+
+// Upper bounds (seconds) of the job duration histogram
+const JOB_DURATION_BOUNDS_SECONDS = [1, 5, 15, 30, 60, 120, 300, 600, 1800, 3600];
+
+export type TransactionSource = 'rpc' | 'store' | 'missing';
+
+/**
+ * Counters of the analysis pipeline (transactions processed, job durations) exported on /metrics
+ * next to the RPC pool metrics. In memory only: Prometheus handles restarts of counters.
+ */
+export class PipelineMetrics {
+  private transactions: { [source: string]: number } = { rpc: 0, store: 0, missing: 0 };
+  private jobDurations = new Map<string, JobDurationStats>();
+
+  /**
+   * Transactions of one wallet scan: fetched from RPC, served by the transaction store,
+   * or missing (every fetch attempt failed)
+   */
+  recordTransactions(source: TransactionSource, count: number): void {
+    if (count > 0) this.transactions[source] = (this.transactions[source] || 0) + count;
+  }
+
+  recordJob(type: string, status: string, durationMs: number): void {
+    const key = `${type}\u0000${status}`;
+    let stats = this.jobDurations.get(key);
+    if (!stats) {
+      stats = { type, status, counts: JOB_DURATION_BOUNDS_SECONDS.map(() => 0).concat(0), sumSeconds: 0 };
+      this.jobDurations.set(key, stats);
+    }
+    const seconds = Math.max(0, durationMs) / 1000;
+    const bucket = JOB_DURATION_BOUNDS_SECONDS.findIndex(bound => seconds <= bound);
+    stats.counts[bucket < 0 ? JOB_DURATION_BOUNDS_SECONDS.length : bucket]++;
+    stats.sumSeconds += seconds;
+  }
+
+  getSnapshot(): PipelineMetricsSnapshot {
+    return {
+      transactions: { ...this.transactions },
+      jobDurationBoundsSeconds: JOB_DURATION_BOUNDS_SECONDS,
+      jobDurations: Array.from(this.jobDurations.values()).map(s => ({ ...s, counts: [...s.counts] })),
+    };
+  }
+}
+
+// Singleton instance for global use
+let globalPipelineMetrics: PipelineMetrics | null = null;
+
+export function getGlobalPipelineMetrics(): PipelineMetrics {
+  if (!globalPipelineMetrics) {
+    globalPipelineMetrics = new PipelineMetrics();
+  }
+  return globalPipelineMetrics;
+}
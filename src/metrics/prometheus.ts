@@ -0,0 +1,181 @@
+import { RpcPoolManager } from '../utils/rpc/rpc-pool-manager.js';
+import { JobManager } from '../jobs/job-manager.js';
+import { PipelineMetrics } from './pipeline-metrics.js';
+import { HistogramSeries, MetricFamily, MetricLabels, MetricSample } from './types.js';
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const CIRCUIT_STATES = ['closed', 'half-open', 'open'];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels?: MetricLabels, extra?: MetricLabels): string {
+  const pairs = Object.entries({ ...labels, ...extra })
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `${k}="${escapeLabelValue(String(v))}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function renderHistogram(name: string, series: HistogramSeries): string[] {
+  const lines: string[] = [];
+  let cumulative = 0;
+  series.bounds.forEach((bound, i) => {
+    cumulative += series.counts[i] || 0;
+    lines.push(`${name}_bucket${formatLabels(series.labels, { le: bound })} ${cumulative}`);
+  });
+  cumulative += series.counts[series.bounds.length] || 0;
+  lines.push(`${name}_bucket${formatLabels(series.labels, { le: '+Inf' })} ${cumulative}`);
+  lines.push(`${name}_sum${formatLabels(series.labels)} ${formatValue(series.sum)}`);
+  lines.push(`${name}_count${formatLabels(series.labels)} ${cumulative}`);
+  return lines;
+}
+
+/**
+ * Render metric families in the Prometheus text exposition format (version 0.0.4)
+ */
+export function renderPrometheus(families: MetricFamily[]): string {
+  const lines: string[] = [];
+  for (const family of families) {
+    lines.push(`# HELP ${family.name} ${family.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+    if (family.type === 'histogram') {
+      for (const series of family.series || []) lines.push(...renderHistogram(family.name, series));
+    } else {
+      for (const sample of family.samples || []) {
+        lines.push(`${family.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+      }
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * RPC pool metrics, from RpcMetricsTracker plus the call cache and hedge counters.
+ * Endpoints are labelled by name, never by URL (URLs carry API keys).
+ */
+export function collectRpcMetricFamilies(poolManager: RpcPoolManager): MetricFamily[] {
+  const metrics = poolManager.getRpcMetrics();
+  const endpointOf = (m: { index: number; name?: string }) => m.name || `#${m.index}`;
+
+  const requests: MetricSample[] = [];
+  const errors: MetricSample[] = [];
+  const latency: HistogramSeries[] = [];
+  const inFlight: MetricSample[] = [];
+  const maxConcurrent: MetricSample[] = [];
+  const circuit: MetricSample[] = [];
+  const stale: MetricSample[] = [];
+  const slotLag: MetricSample[] = [];
+  const selected: MetricSample[] = [];
+  const rateLimited: MetricSample[] = [];
+  const rateLimitWait: MetricSample[] = [];
+
+  for (const m of metrics) {
+    const endpoint = endpointOf(m);
+    for (const [method, counts] of Object.entries(m.requests)) {
+      for (const [outcome, value] of Object.entries(counts)) {
+        requests.push({ labels: { endpoint, method, outcome }, value });
+      }
+    }
+    errors.push(
+      { labels: { endpoint, type: '429' }, value: m.errorCounts.rateLimit429 },
+      { labels: { endpoint, type: '402' }, value: m.errorCounts.payment402 },
+      { labels: { endpoint, type: 'timeout' }, value: m.errorCounts.timeout },
+      { labels: { endpoint, type: 'other' }, value: m.errorCounts.other }
+    );
+    latency.push({
+      labels: { endpoint },
+      bounds: m.latencyHistogram.bucketsMs.map(ms => ms / 1000),
+      counts: m.latencyHistogram.counts,
+      sum: m.latencyHistogram.sumMs / 1000,
+    });
+    inFlight.push({ labels: { endpoint }, value: m.currentConcurrent });
+    maxConcurrent.push({ labels: { endpoint }, value: poolManager.getRpcMaxConcurrent(m.index) });
+    for (const state of CIRCUIT_STATES) {
+      circuit.push({ labels: { endpoint, state }, value: m.circuit === state ? 1 : 0 });
+    }
+    stale.push({ labels: { endpoint }, value: m.stale ? 1 : 0 });
+    if (m.slotLag !== undefined) slotLag.push({ labels: { endpoint }, value: m.slotLag });
+    selected.push({ labels: { endpoint }, value: m.selectedCount });
+    rateLimited.push({ labels: { endpoint }, value: m.rateLimitedCalls });
+    rateLimitWait.push({ labels: { endpoint }, value: m.rateLimitWaitMs / 1000 });
+  }
+
+  const cache = poolManager.getCallCacheStats();
+  const cacheLookups: MetricSample[] = [];
+  for (const [method, c] of Object.entries(cache.byMethod)) {
+    cacheLookups.push(
+      { labels: { method, result: 'hit' }, value: c.hits },
+      { labels: { method, result: 'miss' }, value: c.misses },
+      { labels: { method, result: 'coalesced' }, value: c.coalesced }
+    );
+  }
+  const hedging = poolManager.getHedgeStats();
+
+  return [
+    { name: 'sa_rpc_requests_total', help: 'RPC requests sent, by endpoint, method and outcome', type: 'counter', samples: requests },
+    { name: 'sa_rpc_request_duration_seconds', help: 'RPC request latency by endpoint', type: 'histogram', series: latency },
+    { name: 'sa_rpc_errors_total', help: 'RPC errors by endpoint and type (429, 402, timeout, other)', type: 'counter', samples: errors },
+    { name: 'sa_rpc_in_flight_requests', help: 'RPC requests currently in flight per endpoint', type: 'gauge', samples: inFlight },
+    { name: 'sa_rpc_max_concurrent_requests', help: 'Concurrency limit per endpoint', type: 'gauge', samples: maxConcurrent },
+    { name: 'sa_rpc_circuit_state', help: 'Circuit breaker state per endpoint (1 for the current state)', type: 'gauge', samples: circuit },
+    { name: 'sa_rpc_stale', help: 'Endpoint flagged as trailing the pool median slot', type: 'gauge', samples: stale },
+    { name: 'sa_rpc_slot_lag', help: 'Slots behind the pool median at the last probe', type: 'gauge', samples: slotLag },
+    { name: 'sa_rpc_selected_total', help: 'Times the selector picked the endpoint', type: 'counter', samples: selected },
+    { name: 'sa_rpc_rate_limited_calls_total', help: 'Calls that waited for rate-limit tokens', type: 'counter', samples: rateLimited },
+    { name: 'sa_rpc_rate_limit_wait_seconds_total', help: 'Time spent waiting for rate-limit tokens', type: 'counter', samples: rateLimitWait },
+    { name: 'sa_rpc_call_cache_lookups_total', help: 'Shared call cache lookups by method and result', type: 'counter', samples: cacheLookups },
+    { name: 'sa_rpc_call_cache_hit_ratio', help: 'Share of calls answered without a new upstream request', type: 'gauge', samples: [{ value: cache.hitRate }] },
+    { name: 'sa_rpc_call_cache_entries', help: 'Memoized results in the shared call cache', type: 'gauge', samples: [{ value: cache.entries }] },
+    { name: 'sa_rpc_hedgeable_calls_total', help: 'Calls made with hedging enabled', type: 'counter', samples: [{ value: hedging.calls }] },
+    { name: 'sa_rpc_hedged_requests_total', help: 'Hedge requests sent to a second endpoint', type: 'counter', samples: [{ value: hedging.hedged }] },
+    { name: 'sa_rpc_hedge_wins_total', help: 'Hedge requests that answered first', type: 'counter', samples: [{ value: hedging.won }] },
+    { name: 'sa_rpc_hedges_skipped_total', help: 'Hedges not sent because the hedge budget was used up', type: 'counter', samples: [{ value: hedging.skippedByBudget }] },
+  ];
+}
+
+/**
+ * Analysis pipeline metrics: transactions processed by source, job durations and queue gauges
+ */
+export function collectPipelineMetricFamilies(pipeline: PipelineMetrics, jobManager: JobManager): MetricFamily[] {
+  const snapshot = pipeline.getSnapshot();
+  const jobs = jobManager.getStats();
+  const fromStore = snapshot.transactions.store || 0;
+  const fromRpc = snapshot.transactions.rpc || 0;
+
+  return [
+    {
+      name: 'sa_pipeline_transactions_total',
+      help: 'Transactions handed to the fee pipelines, by source (rpc, store, missing)',
+      type: 'counter',
+      samples: Object.entries(snapshot.transactions).map(([source, value]) => ({ labels: { source }, value })),
+    },
+    {
+      name: 'sa_tx_store_hit_ratio',
+      help: 'Share of pipeline transactions served by the transaction store',
+      type: 'gauge',
+      samples: [{ value: fromStore + fromRpc > 0 ? fromStore / (fromStore + fromRpc) : 0 }],
+    },
+    {
+      name: 'sa_job_duration_seconds',
+      help: 'Background job run time, by type and final status',
+      type: 'histogram',
+      series: snapshot.jobDurations.map(d => ({
+        labels: { type: d.type, status: d.status },
+        bounds: snapshot.jobDurationBoundsSeconds,
+        counts: d.counts,
+        sum: d.sumSeconds,
+      })),
+    },
+    { name: 'sa_jobs_running', help: 'Background jobs running', type: 'gauge', samples: [{ value: jobs.running }] },
+    { name: 'sa_jobs_queued', help: 'Background jobs waiting for a slot', type: 'gauge', samples: [{ value: jobs.queued }] },
+  ];
+}
@@ -0,0 +1,29 @@
+import express, { Response } from 'express';
+import { RpcPoolManager, getGlobalRpcPoolManager } from '../utils/rpc/rpc-pool-manager.js';
+import { JobManager, getGlobalJobManager } from '../jobs/job-manager.js';
+import { PipelineMetrics, getGlobalPipelineMetrics } from './pipeline-metrics.js';
+import { collectPipelineMetricFamilies, collectRpcMetricFamilies, PROMETHEUS_CONTENT_TYPE, renderPrometheus } from './prometheus.js';
+
+export function createMetricsRouter(
+  poolManager: RpcPoolManager = getGlobalRpcPoolManager(),
+  jobManager: JobManager = getGlobalJobManager(),
+  pipeline: PipelineMetrics = getGlobalPipelineMetrics()
+) {
+  const router = express.Router();
+
+  // GET /metrics - RPC pool and analysis pipeline metrics in Prometheus text format
+  router.get('/', (_req, res: Response) => {
+    try {
+      const body = renderPrometheus([
+        ...collectRpcMetricFamilies(poolManager),
+        ...collectPipelineMetricFamilies(pipeline, jobManager),
+      ]);
+      res.setHeader('Content-Type', PROMETHEUS_CONTENT_TYPE);
+      res.send(body);
+    } catch (err: any) {
+      res.status(500).type('text/plain').send(`# metrics collection failed: ${err?.message || err}\n`);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,43 @@
+// Metric families rendered by /metrics in the Prometheus text exposition format
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export type MetricLabels = { [name: string]: string | number | undefined };
+
+export interface MetricSample {
+  labels?: MetricLabels;
+  value: number;
+}
+
+/**
+ * One histogram series: non-cumulative counts per upper bound (seconds),
+ * with the last count holding the observations above every bound
+ */
+export interface HistogramSeries {
+  labels?: MetricLabels;
+  bounds: number[];
+  counts: number[];
+  sum: number;
+}
+
+export interface MetricFamily {
+  name: string;
+  help: string;
+  type: MetricType;
+  samples?: MetricSample[];
+  series?: HistogramSeries[];
+}
+
+export interface JobDurationStats {
+  type: string;
+  status: string;
+  counts: number[];
+  sumSeconds: number;
+}
+
+export interface PipelineMetricsSnapshot {
+  // Transactions handed to the fee pipelines, by where they came from (rpc, store, missing)
+  transactions: { [source: string]: number };
+  jobDurationBoundsSeconds: number[];
+  jobDurations: JobDurationStats[];
+}
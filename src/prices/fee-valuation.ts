@@ -0,0 +1,89 @@
+import { TransactionInfo } from '../examples/types.js';
+import { splitFee } from '../examples/compute-budget.js';
+import { PriceHistory } from './price-history.js';
+import { FeeAmounts, FeeValuation } from './types.js';
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+function amounts(lamports: number, usd: number | null, atlas: number | null): FeeAmounts {
+  return { lamports, sol: lamports / LAMPORTS_PER_SOL, usd, atlas };
+}
+
+/**
+ * Value a transaction's fee at the rates nearest its block time (sets feeUsd/feeAtlas, left
+ * undefined without a SOL/USD rate). `history` must be ready().
+ */
+export function valueTransaction(tx: TransactionInfo, history: PriceHistory): void {
+  const rate = tx.blockTime ? history.rateAt(tx.blockTime * 1000) : null;
+  const sol = tx.fee / LAMPORTS_PER_SOL;
+  tx.feeUsd = rate?.solUsd != null ? sol * rate.solUsd : undefined;
+  tx.feeAtlas = rate?.solAtlas != null ? sol * rate.solAtlas : undefined;
+}
+
+/**
+ * Add a valued transaction to a report entry (fleet or operation)
+ */
+export function addFeeValue(entry: { totalFeeUsd?: number; totalFeeAtlas?: number }, tx: TransactionInfo): void {
+  entry.totalFeeUsd = (entry.totalFeeUsd || 0) + (tx.feeUsd || 0);
+  entry.totalFeeAtlas = (entry.totalFeeAtlas || 0) + (tx.feeAtlas || 0);
+}
+
+/**
+ * Totals in lamports, SOL, USD and ATLAS of the valued transactions of an analysis.
+ * Seeded with the valuation of a cached result when an analysis resumes from it.
+ */
+export class FeeValuationBuilder {
+  private lamports = { sage: 0, base: 0, priority: 0 };
+  private usd = { sage: 0, base: 0, priority: 0 };
+  private atlas = { sage: 0, base: 0, priority: 0 };
+  private priced = 0;
+  private unpriced = 0;
+  private atlasPriced = 0;
+
+  constructor(seed?: FeeValuation) {
+    if (!seed?.sage) return;
+    for (const part of ['sage', 'base', 'priority'] as const) {
+      this.lamports[part] = seed[part]?.lamports || 0;
+      this.usd[part] = seed[part]?.usd || 0;
+      this.atlas[part] = seed[part]?.atlas || 0;
+    }
+    this.priced = seed.pricedTransactions || 0;
+    this.unpriced = seed.unpricedTransactions || 0;
+    this.atlasPriced = seed.sage.atlas != null ? this.priced : 0;
+  }
+
+  add(tx: TransactionInfo): void {
+    const { baseFee, priorityFee } = splitFee(tx);
+    this.lamports.sage += tx.fee;
+    this.lamports.base += baseFee;
+    this.lamports.priority += priorityFee;
+    if (tx.feeUsd === undefined) {
+      this.unpriced++;
+      return;
+    }
+    this.priced++;
+    // Base and priority share the transaction's rate
+    const baseShare = tx.fee > 0 ? baseFee / tx.fee : 0;
+    this.usd.sage += tx.feeUsd;
+    this.usd.base += tx.feeUsd * baseShare;
+    this.usd.priority += tx.feeUsd * (1 - baseShare);
+    if (tx.feeAtlas !== undefined) {
+      this.atlasPriced++;
+      this.atlas.sage += tx.feeAtlas;
+      this.atlas.base += tx.feeAtlas * baseShare;
+      this.atlas.priority += tx.feeAtlas * (1 - baseShare);
+    }
+  }
+
+  build(): FeeValuation {
+    const usd = (part: 'sage' | 'base' | 'priority') => (this.priced > 0 ? this.usd[part] : null);
+    const atlas = (part: 'sage' | 'base' | 'priority') => (this.atlasPriced > 0 ? this.atlas[part] : null);
+    return {
+      sage: amounts(this.lamports.sage, usd('sage'), atlas('sage')),
+      base: amounts(this.lamports.base, usd('base'), atlas('base')),
+      priority: amounts(this.lamports.priority, usd('priority'), atlas('priority')),
+      pricedTransactions: this.priced,
+      unpricedTransactions: this.unpriced,
+    };
+  }
+}
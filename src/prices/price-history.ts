@@ -0,0 +1,210 @@
+import fetch from 'node-fetch';
+import { getCacheDataOnly, setCache } from '../utils/persist-cache.js';
+import { parseTimestamp } from '../examples/fee-series.js';
+import { FeeRate, PriceAsset, PriceHistorySummary, PricePoint } from './types.js';
+
+// One entry per asset (no TTL policy: history never expires)
+const PRICE_NAMESPACE = 'price-history';
+export const PRICE_ASSETS: PriceAsset[] = ['solana', 'star-atlas'];
+// Same quote as /api/prices
+const COINGECKO_PRICE_URL = 'https://api.coingecko.com/api/v3/simple/price?ids=solana,star-atlas&vs_currencies=usd';
+
+// A price further than this from a transaction's block time is not used to value it
+export const PRICE_MAX_GAP_MS = Number(process.env.PRICE_MAX_GAP_MS || 2 * 24 * 60 * 60 * 1000);
+// Snapshot of the live quote taken this often (0 disables)
+export const PRICE_SNAPSHOT_INTERVAL_MS = Number(process.env.PRICE_SNAPSHOT_INTERVAL_MS ?? 15 * 60 * 1000);
+// A snapshot this close to the previous point is skipped
+const MIN_SNAPSHOT_SPACING_MS = 60 * 1000;
+
+// CSV column names accepted for each asset
+const COLUMN_ASSETS: { [column: string]: PriceAsset } = {
+  'solana': 'solana', 'sol': 'solana', 'sol_usd': 'solana', 'solusd': 'solana',
+  'star-atlas': 'star-atlas', 'atlas': 'star-atlas', 'atlas_usd': 'star-atlas', 'atlasusd': 'star-atlas',
+};
+
+export function isPriceAsset(value: any): value is PriceAsset {
+  return PRICE_ASSETS.includes(value);
+}
+
+/**
+ * Raised for a CSV that can't be imported
+ */
+export class PriceImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PriceImportError';
+  }
+}
+
+/**
+ * USD price history of SOL and ATLAS, kept sorted in memory and persisted per asset.
+ * Filled from imported CSVs and from snapshots of the live CoinGecko quote.
+ */
+export class PriceHistory {
+  private points = new Map<PriceAsset, PricePoint[]>();
+  private loading: Promise<void> | null = null;
+  private snapshotTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Resolves once the persisted history is loaded
+   */
+  async ready(): Promise<this> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        for (const asset of PRICE_ASSETS) {
+          const stored = await getCacheDataOnly<{ points: [number, number][] }>(PRICE_NAMESPACE, asset);
+          const loaded = (stored?.points || []).map(([time, usd]) => ({ time, usd }));
+          // Points added before the load completed are kept
+          this.points.set(asset, mergePoints(loaded, this.points.get(asset) || []));
+        }
+      })();
+    }
+    await this.loading;
+    return this;
+  }
+
+  /**
+   * Add points (replacing those at the same time) and persist the asset; returns how many were new
+   */
+  async addPoints(asset: PriceAsset, points: PricePoint[]): Promise<number> {
+    await this.ready();
+    const current = this.points.get(asset) || [];
+    const merged = mergePoints(current, points.filter(p => p.time > 0 && p.usd > 0 && isFinite(p.usd)));
+    const added = merged.length - current.length;
+    this.points.set(asset, merged);
+    await setCache(PRICE_NAMESPACE, asset, { asset, points: merged.map(p => [p.time, p.usd]) });
+    return added;
+  }
+
+  /**
+   * Import a CSV: a time column (unix seconds/ms or a date) followed by price columns named after
+   * the asset (`solana`/`sol`, `star-atlas`/`atlas`), or a single `price` column for `asset`
+   * (e.g. a CoinGecko export: snapped_at,price,market_cap,total_volume).
+   */
+  async importCsv(text: string, asset?: PriceAsset): Promise<{ [asset: string]: number }> {
+    const rows = text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#')).map(line => line.split(/[,;\t]/).map(c => c.trim().replace(/^"|"$/g, '')));
+    if (rows.length === 0) throw new PriceImportError('Empty CSV');
+
+    const hasHeader = isNaN(parseTimestamp(rows[0][0]) ?? NaN);
+    const header = hasHeader ? rows[0].map(c => c.toLowerCase()) : ['time', 'price'];
+    const columns: { index: number; asset: PriceAsset }[] = [];
+    header.forEach((name, index) => {
+      if (index === 0) return;
+      const columnAsset = COLUMN_ASSETS[name] ?? (name === 'price' || name === 'usd' ? asset : undefined);
+      if (columnAsset) columns.push({ index, asset: columnAsset });
+    });
+    if (columns.length === 0) {
+      throw new PriceImportError(asset ? 'No price column found' : 'No asset column found: name the columns solana/star-atlas or pass ?asset=');
+    }
+
+    const parsed = new Map<PriceAsset, PricePoint[]>();
+    for (const row of hasHeader ? rows.slice(1) : rows) {
+      const time = parseTimestamp(row[0]);
+      if (time === undefined || isNaN(time)) continue;
+      for (const column of columns) {
+        const usd = Number(row[column.index]);
+        if (!(usd > 0)) continue;
+        if (!parsed.has(column.asset)) parsed.set(column.asset, []);
+        parsed.get(column.asset)!.push({ time, usd });
+      }
+    }
+    const imported: { [asset: string]: number } = {};
+    for (const [columnAsset, points] of parsed) {
+      imported[columnAsset] = await this.addPoints(columnAsset, points);
+    }
+    console.log(`[prices] Imported ${JSON.stringify(imported)} price points`);
+    return imported;
+  }
+
+  /**
+   * Store a CoinGecko simple/price response (`{ solana: { usd }, 'star-atlas': { usd } }`) as taken at `time`
+   */
+  async recordQuote(quote: any, time: number = Date.now()): Promise<void> {
+    await this.ready();
+    for (const asset of PRICE_ASSETS) {
+      const usd = Number(quote?.[asset]?.usd);
+      if (!(usd > 0)) continue;
+      const last = this.points.get(asset)?.slice(-1)[0];
+      if (last && Math.abs(time - last.time) < MIN_SNAPSHOT_SPACING_MS) continue;
+      await this.addPoints(asset, [{ time, usd }]);
+    }
+  }
+
+  async snapshot(): Promise<void> {
+    const res = await fetch(COINGECKO_PRICE_URL);
+    if (!res.ok) throw new Error(`CoinGecko returned ${res.status}`);
+    await this.recordQuote(await res.json());
+  }
+
+  startSnapshots(intervalMs: number = PRICE_SNAPSHOT_INTERVAL_MS): void {
+    if (this.snapshotTimer || !(intervalMs > 0)) return;
+    const take = () => this.snapshot().catch(err => console.warn('[prices] Snapshot failed:', err?.message || err));
+    take();
+    this.snapshotTimer = setInterval(take, intervalMs);
+    this.snapshotTimer.unref();
+  }
+
+  stopSnapshots(): void {
+    if (this.snapshotTimer) clearInterval(this.snapshotTimer);
+    this.snapshotTimer = null;
+  }
+
+  /**
+   * Point nearest `time` within PRICE_MAX_GAP_MS (call ready() first)
+   */
+  nearest(asset: PriceAsset, time: number, maxGapMs: number = PRICE_MAX_GAP_MS): PricePoint | null {
+    const points = this.points.get(asset) || [];
+    if (points.length === 0) return null;
+    let lo = 0;
+    let hi = points.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (points[mid].time < time) lo = mid + 1;
+      else hi = mid;
+    }
+    const before = lo > 0 ? points[lo - 1] : null;
+    const best = before && Math.abs(before.time - time) <= Math.abs(points[lo].time - time) ? before : points[lo];
+    return Math.abs(best.time - time) <= maxGapMs ? best : null;
+  }
+
+  rateAt(time: number): FeeRate {
+    const sol = this.nearest('solana', time);
+    const atlas = this.nearest('star-atlas', time);
+    return {
+      solUsd: sol?.usd ?? null,
+      atlasUsd: atlas?.usd ?? null,
+      solAtlas: sol && atlas ? sol.usd / atlas.usd : null,
+      solTime: sol?.time,
+      atlasTime: atlas?.time,
+    };
+  }
+
+  getPoints(asset: PriceAsset, from?: number, to?: number): PricePoint[] {
+    return (this.points.get(asset) || []).filter(p => (from === undefined || p.time >= from) && (to === undefined || p.time <= to));
+  }
+
+  summary(): PriceHistorySummary[] {
+    return PRICE_ASSETS.map(asset => {
+      const points = this.points.get(asset) || [];
+      return { asset, points: points.length, from: points[0]?.time, to: points[points.length - 1]?.time };
+    });
+  }
+}
+
+// Sorted by time; `incoming` wins over `current` at equal times
+function mergePoints(current: PricePoint[], incoming: PricePoint[]): PricePoint[] {
+  const byTime = new Map<number, PricePoint>();
+  for (const p of current) byTime.set(p.time, p);
+  for (const p of incoming) byTime.set(p.time, { time: p.time, usd: p.usd });
+  return Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+}
+
+// Singleton instance for global use
+let globalPriceHistory: PriceHistory | null = null;
+
+export function getGlobalPriceHistory(): PriceHistory {
+  if (!globalPriceHistory) {
+    globalPriceHistory = new PriceHistory();
+  }
+  return globalPriceHistory;
+}
@@ -0,0 +1,87 @@
+import express, { Response } from 'express';
+import { parseTimestamp } from '../examples/fee-series.js';
+import { requireAdminToken } from '../admin/routes.js';
+import { getGlobalPriceHistory, isPriceAsset, PRICE_MAX_GAP_MS, PRICE_SNAPSHOT_INTERVAL_MS, PriceHistory, PriceImportError } from './price-history.js';
+import { FeeRate, PriceErrorResponse, PriceHistoryOverviewResponse, PriceHistoryResponse, PriceImportResponse } from './types.js';
+
+// Optional unix seconds/ms or ISO date query parameter; NaN when unparseable
+function timeParam(value: unknown): number | undefined {
+  return typeof value === 'string' && value ? parseTimestamp(value) : undefined;
+}
+
+export function createPriceHistoryRouter(history: PriceHistory = getGlobalPriceHistory()) {
+  const router = express.Router();
+
+  // GET /api/prices/history - Points stored per asset
+  router.get('/', async (_req, res: Response<PriceHistoryOverviewResponse | PriceErrorResponse>) => {
+    try {
+      await history.ready();
+      res.json({ assets: history.summary(), maxGapMs: PRICE_MAX_GAP_MS, snapshotIntervalMs: PRICE_SNAPSHOT_INTERVAL_MS });
+    } catch (err: any) {
+      console.error('Price history GET / error:', err?.message || err);
+      res.status(500).json({ error: 'Failed to read price history', message: err?.message });
+    }
+  });
+
+  // GET /api/prices/history/rate?time= - Rates used for a transaction at that time
+  router.get('/rate', async (req, res: Response<FeeRate | PriceErrorResponse>) => {
+    const time = timeParam(req.query.time) ?? Date.now();
+    if (isNaN(time)) return res.status(400).json({ error: `Invalid time: ${req.query.time}` });
+    try {
+      await history.ready();
+      res.json(history.rateAt(time));
+    } catch (err: any) {
+      console.error('Price history GET /rate error:', err?.message || err);
+      res.status(500).json({ error: 'Failed to read price history', message: err?.message });
+    }
+  });
+
+  // POST /api/prices/history/import?asset= - Import a CSV (text/csv body); admin only, it rewrites stored prices
+  router.post('/import', requireAdminToken, express.text({ type: ['text/csv', 'text/plain'], limit: '20mb' }), async (req, res: Response<PriceImportResponse | PriceErrorResponse>) => {
+    const asset = req.query.asset;
+    if (asset !== undefined && !isPriceAsset(asset)) {
+      return res.status(400).json({ error: `Unknown asset: ${asset}` });
+    }
+    if (typeof req.body !== 'string' || !req.body.trim()) {
+      return res.status(400).json({ error: 'CSV body required (Content-Type: text/csv)' });
+    }
+    try {
+      const imported = await history.importCsv(req.body, asset);
+      res.json({ imported, assets: history.summary() });
+    } catch (err: any) {
+      if (err instanceof PriceImportError) return res.status(400).json({ error: err.message });
+      console.error('Price import error:', err?.message || err);
+      res.status(500).json({ error: 'Failed to import prices', message: err?.message });
+    }
+  });
+
+  // POST /api/prices/history/snapshot - Store the live quote now
+  router.post('/snapshot', async (_req, res: Response<PriceHistoryOverviewResponse | PriceErrorResponse>) => {
+    try {
+      await history.snapshot();
+      res.json({ assets: history.summary(), maxGapMs: PRICE_MAX_GAP_MS, snapshotIntervalMs: PRICE_SNAPSHOT_INTERVAL_MS });
+    } catch (err: any) {
+      res.status(502).json({ error: 'Failed to fetch prices', message: err?.message });
+    }
+  });
+
+  // GET /api/prices/history/:asset?from=&to= - Stored points of an asset
+  router.get('/:asset', async (req, res: Response<PriceHistoryResponse | PriceErrorResponse>) => {
+    const { asset } = req.params;
+    if (!isPriceAsset(asset)) return res.status(404).json({ error: `Unknown asset: ${asset}` });
+    const from = timeParam(req.query.from);
+    const to = timeParam(req.query.to);
+    if ((from !== undefined && isNaN(from)) || (to !== undefined && isNaN(to))) {
+      return res.status(400).json({ error: 'Invalid from/to' });
+    }
+    try {
+      await history.ready();
+      res.json({ asset, points: history.getPoints(asset, from, to) });
+    } catch (err: any) {
+      console.error('Price history GET /:asset error:', err?.message || err);
+      res.status(500).json({ error: 'Failed to read price history', message: err?.message });
+    }
+  });
+
+  return router;
+}
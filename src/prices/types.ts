@@ -0,0 +1,70 @@
+// Price history used to value fees, exposed under /api/prices/history
+
+// CoinGecko ids, as returned by /api/prices
+export type PriceAsset = 'solana' | 'star-atlas';
+
+export interface PricePoint {
+  // unix ms
+  time: number;
+  usd: number;
+}
+
+/**
+ * Rates nearest a point in time; null when no price is known close enough (PRICE_MAX_GAP_MS)
+ */
+export interface FeeRate {
+  solUsd: number | null;
+  atlasUsd: number | null;
+  // ATLAS per SOL
+  solAtlas: number | null;
+  solTime?: number;
+  atlasTime?: number;
+}
+
+export interface FeeAmounts {
+  lamports: number;
+  sol: number;
+  // null when none of the transactions had a price
+  usd: number | null;
+  atlas: number | null;
+}
+
+/**
+ * Fees of an analysis valued at the rates of their block times
+ */
+export interface FeeValuation {
+  sage: FeeAmounts;
+  base: FeeAmounts;
+  priority: FeeAmounts;
+  pricedTransactions: number;
+  // Transactions without a SOL/USD rate close enough: left out of usd/atlas
+  unpricedTransactions: number;
+}
+
+export interface PriceHistorySummary {
+  asset: PriceAsset;
+  points: number;
+  from?: number;
+  to?: number;
+}
+
+export interface PriceHistoryOverviewResponse {
+  assets: PriceHistorySummary[];
+  maxGapMs: number;
+  snapshotIntervalMs: number;
+}
+
+export interface PriceHistoryResponse {
+  asset: PriceAsset;
+  points: PricePoint[];
+}
+
+export interface PriceImportResponse {
+  imported: { [asset: string]: number };
+  assets: PriceHistorySummary[];
+}
+
+export interface PriceErrorResponse {
+  error: string;
+  message?: string;
+}
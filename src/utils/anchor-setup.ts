@@ -1,5 +1,6 @@
 import { AnchorProvider, Wallet } from "@project-serum/anchor";
 import { Commitment, Connection, Keypair } from "@solana/web3.js";
+import { getConnectionFetch } from './rpc/record-replay.js';
 
 const confirmTransactionInitialTimeout = 60000;
 
@@ -47,6 +48,8 @@ export function newConnection(rpcEndpoint: string, rpcWebsocket?: string): Conne
     wsEndpoint: rpcWebsocket || undefined,
         // Disable built-in retry by setting disableRetryOnRateLimit
         disableRetryOnRateLimit: true,
+        // Records or replays RPC responses when RPC_RECORD_MODE is set
+        fetch: getConnectionFetch(),
     });
 
     return connection;
@@ -0,0 +1,36 @@
+import path from 'path';
+import { createFileCacheBackend } from './file-backend.js';
+import { createSqliteCacheBackend } from './sqlite-backend.js';
+import { CacheBackendKind, ICacheBackend } from './types.js';
+
+// Singleton backend, selected once via CACHE_BACKEND=file|sqlite
+let backendPromise: Promise<ICacheBackend> | null = null;
+
+async function createBackend(kind: CacheBackendKind): Promise<ICacheBackend> {
+  if (kind === 'sqlite') {
+    try {
+      const dbPath = process.env.CACHE_SQLITE_PATH || path.join(process.cwd(), 'cache', 'cache.sqlite');
+      const backend = await createSqliteCacheBackend(dbPath);
+      console.log(`[cache] Using SQLite backend at ${dbPath}`);
+      return backend;
+    } catch (e: any) {
+      console.warn('[cache] SQLite backend unavailable, falling back to file backend:', e?.message || e);
+    }
+  }
+  return createFileCacheBackend(process.env.CACHE_DIR || path.join(process.cwd(), 'cache'));
+}
+
+export function getCacheBackend(): Promise<ICacheBackend> {
+  if (!backendPromise) {
+    const kind = (process.env.CACHE_BACKEND || 'file').toLowerCase() === 'sqlite' ? 'sqlite' : 'file';
+    backendPromise = createBackend(kind);
+  }
+  return backendPromise;
+}
+
+/**
+ * Replace the global backend (e.g. for tools that operate on another cache root)
+ */
+export function setCacheBackend(backend: ICacheBackend): void {
+  backendPromise = Promise.resolve(backend);
+}
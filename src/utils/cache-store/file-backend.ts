@@ -0,0 +1,338 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { assertValidNamespace, computeExpiresAt, getNamespacePolicy, isExpired, isValidNamespace, matchesQuery } from './policies.js';
+import { CacheEntryMeta, CacheNamespacePolicy, CacheQuery, CacheRecord, CacheSetOptions, ICacheBackend } from './types.js';
+
+// Never a valid safeKey (dots are hashed), so it can't collide with an entry file
+const MANIFEST_FILE = '.index.json';
+// Writes to a namespace within this window share one manifest flush
+const MANIFEST_FLUSH_DELAY_MS = 250;
+
+type FilePayload = {
+  savedAt: number;
+  key?: string;
+  expiresAt?: number;
+  indexes?: { walletPubkey?: string; profileId?: string; signature?: string };
+  data: any;
+};
+
+export function safeKey(key: string): string {
+  // Keep short keys readable; hash long/complex keys
+  if (/^[a-zA-Z0-9_-]{1,64}$/.test(key)) return key;
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * FileCacheBackend - one JSON file per entry under cache/<namespace>/
+ *
+ * Entry metadata (key, indexes, size, access time) is kept in a per-namespace
+ * manifest so entries can be listed and queried without reading every payload.
+ * The manifest is rebuilt from the payload files when missing.
+ *
+ * In memory the manifest is kept in access order (least recently used first) together with
+ * the namespace's total size, so a write only evicts when the namespace is over its policy.
+ */
+export class FileCacheBackend implements ICacheBackend {
+  readonly kind = 'file' as const;
+  private manifests = new Map<string, Map<string, CacheEntryMeta>>();
+  // Total sizeBytes of the entries in each loaded manifest
+  private namespaceBytes = new Map<string, number>();
+  private locks = new Map<string, Promise<any>>();
+  private flushTimers = new Map<string, NodeJS.Timeout>();
+
+  constructor(private root: string = path.join(process.cwd(), 'cache')) {}
+
+  async get<T = any>(namespace: string, key: string): Promise<CacheRecord<T> | null> {
+    const manifest = await this.loadManifest(namespace);
+    const fileKey = safeKey(key);
+    let payload: FilePayload;
+    try {
+      const raw = JSON.parse(await fs.readFile(this.fileFor(namespace, fileKey), 'utf8'));
+      payload = this.normalizePayload(raw);
+    } catch {
+      return null;
+    }
+
+    const meta = await this.withLock(namespace, async () => {
+      let entry = manifest.get(fileKey);
+      if (!entry) {
+        // Removed since it was read, or written before the manifest existed (or by an older build)
+        if (!(await this.exists(namespace, fileKey))) return null;
+        entry = this.metaFromPayload(namespace, fileKey, payload, Buffer.byteLength(JSON.stringify(payload)));
+      }
+      if (isExpired(entry)) return entry;
+      // Access time is persisted lazily with the next manifest write
+      entry.lastAccessAt = Date.now();
+      this.putMeta(namespace, manifest, fileKey, entry);
+      return { ...entry };
+    });
+    if (!meta) return null;
+    if (isExpired(meta)) {
+      await this.delete(namespace, key);
+      return null;
+    }
+    return { data: payload.data as T, savedAt: payload.savedAt, meta };
+  }
+
+  async set(namespace: string, key: string, data: any, opts: CacheSetOptions = {}): Promise<CacheEntryMeta> {
+    const meta = await this.withLock(namespace, async () => {
+      const manifest = await this.loadManifest(namespace);
+      const fileKey = safeKey(key);
+      const savedAt = Date.now();
+      const payload: FilePayload = {
+        savedAt,
+        key,
+        expiresAt: computeExpiresAt(namespace, savedAt, opts.ttlMs),
+        indexes: opts.indexes,
+        data,
+      };
+      const json = JSON.stringify(payload);
+      await fs.mkdir(path.join(this.root, namespace), { recursive: true });
+      await fs.writeFile(this.fileFor(namespace, fileKey), json, 'utf8');
+
+      const entry = this.metaFromPayload(namespace, fileKey, payload, Buffer.byteLength(json));
+      this.putMeta(namespace, manifest, fileKey, entry);
+      this.scheduleManifestSave(namespace);
+      return entry;
+    });
+
+    if (this.isOverLimit(namespace, getNamespacePolicy(namespace))) {
+      await this.evict(namespace);
+    }
+    return meta;
+  }
+
+  async delete(namespace: string, key: string): Promise<CacheEntryMeta | null> {
+    return this.withLock(namespace, async () => {
+      const removed = await this.removeFile(namespace, safeKey(key));
+      await this.saveManifest(namespace);
+      return removed;
+    });
+  }
+
+  async list(query: CacheQuery = {}): Promise<CacheEntryMeta[]> {
+    const namespaces = query.namespace
+      ? (Array.isArray(query.namespace) ? query.namespace : [query.namespace])
+      : await this.listNamespaces();
+    const now = Date.now();
+    const out: CacheEntryMeta[] = [];
+    for (const ns of namespaces) {
+      const manifest = await this.loadManifest(ns);
+      for (const meta of manifest.values()) {
+        if (matchesQuery(meta, query, now)) out.push({ ...meta });
+      }
+    }
+    return out;
+  }
+
+  async deleteWhere(query: CacheQuery): Promise<CacheEntryMeta[]> {
+    const matches = await this.list({ ...query, includeExpired: true });
+    const byNamespace = new Map<string, CacheEntryMeta[]>();
+    for (const m of matches) {
+      if (!byNamespace.has(m.namespace)) byNamespace.set(m.namespace, []);
+      byNamespace.get(m.namespace)!.push(m);
+    }
+
+    const removed: CacheEntryMeta[] = [];
+    for (const [ns, entries] of byNamespace) {
+      await this.withLock(ns, async () => {
+        for (const e of entries) {
+          const r = await this.removeFile(ns, safeKey(e.key));
+          if (r) removed.push(r);
+        }
+        await this.saveManifest(ns);
+      });
+    }
+    return removed;
+  }
+
+  /**
+   * Drop expired entries, then the least recently used ones until the namespace fits its policy
+   */
+  async evict(namespace: string): Promise<CacheEntryMeta[]> {
+    return this.withLock(namespace, async () => {
+      const manifest = await this.loadManifest(namespace);
+      const policy = getNamespacePolicy(namespace);
+      const now = Date.now();
+      const removed: CacheEntryMeta[] = [];
+      for (const [fileKey, meta] of Array.from(manifest)) {
+        if (!isExpired(meta, now)) continue;
+        const r = await this.removeFile(namespace, fileKey);
+        if (r) removed.push(r);
+      }
+      // Map order is access order: the first key is the least recently used
+      for (const fileKey of Array.from(manifest.keys())) {
+        if (!this.isOverLimit(namespace, policy)) break;
+        const r = await this.removeFile(namespace, fileKey);
+        if (r) removed.push(r);
+      }
+      if (removed.length > 0) {
+        await this.saveManifest(namespace);
+        console.log(`[cache] Evicted ${removed.length} entries from ${namespace}`);
+      }
+      return removed;
+    });
+  }
+
+  // ============ Internals ============
+
+  private fileFor(namespace: string, fileKey: string): string {
+    return path.join(this.root, namespace, `${fileKey}.json`);
+  }
+
+  private async listNamespaces(): Promise<string[]> {
+    try {
+      const dirents = await fs.readdir(this.root, { withFileTypes: true });
+      return dirents.filter(d => d.isDirectory() && isValidNamespace(d.name)).map(d => d.name);
+    } catch {
+      return [];
+    }
+  }
+
+  private async removeFile(namespace: string, fileKey: string): Promise<CacheEntryMeta | null> {
+    const manifest = await this.loadManifest(namespace);
+    const meta = manifest.get(fileKey) || null;
+    if (meta) {
+      manifest.delete(fileKey);
+      this.namespaceBytes.set(namespace, (this.namespaceBytes.get(namespace) || 0) - meta.sizeBytes);
+    }
+    try {
+      await fs.unlink(this.fileFor(namespace, fileKey));
+    } catch {
+      // already gone
+    }
+    return meta;
+  }
+
+  private async exists(namespace: string, fileKey: string): Promise<boolean> {
+    try {
+      await fs.access(this.fileFor(namespace, fileKey));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Insert or replace an entry as the most recently used, keeping the size total current
+  private putMeta(namespace: string, manifest: Map<string, CacheEntryMeta>, fileKey: string, meta: CacheEntryMeta): void {
+    const previous = manifest.get(fileKey);
+    manifest.delete(fileKey);
+    manifest.set(fileKey, meta);
+    const bytes = (this.namespaceBytes.get(namespace) || 0) - (previous?.sizeBytes || 0) + meta.sizeBytes;
+    this.namespaceBytes.set(namespace, bytes);
+  }
+
+  private isOverLimit(namespace: string, policy: CacheNamespacePolicy): boolean {
+    const manifest = this.manifests.get(namespace);
+    if (!manifest) return false;
+    return (policy.maxEntries !== undefined && manifest.size > policy.maxEntries) ||
+      (policy.maxBytes !== undefined && (this.namespaceBytes.get(namespace) || 0) > policy.maxBytes);
+  }
+
+  private normalizePayload(raw: any): FilePayload {
+    // Accept both wrapped {savedAt,data} and legacy plain-data files
+    if (raw && typeof raw === 'object' && 'data' in raw && 'savedAt' in raw) return raw as FilePayload;
+    return { savedAt: 0, data: raw };
+  }
+
+  private metaFromPayload(namespace: string, fileKey: string, payload: FilePayload, sizeBytes: number): CacheEntryMeta {
+    return {
+      namespace,
+      // Legacy files only know their (possibly hashed) file name
+      key: payload.key ?? fileKey,
+      savedAt: payload.savedAt,
+      lastAccessAt: payload.savedAt,
+      expiresAt: payload.expiresAt,
+      sizeBytes,
+      walletPubkey: payload.indexes?.walletPubkey,
+      profileId: payload.indexes?.profileId,
+      signature: payload.indexes?.signature,
+    };
+  }
+
+  // Every read and write of a namespace starts here, so this is where its name is checked
+  private async loadManifest(namespace: string): Promise<Map<string, CacheEntryMeta>> {
+    assertValidNamespace(namespace);
+    const existing = this.manifests.get(namespace);
+    if (existing) return existing;
+
+    const loaded = new Map<string, CacheEntryMeta>();
+    const dir = path.join(this.root, namespace);
+    try {
+      const raw = JSON.parse(await fs.readFile(path.join(dir, MANIFEST_FILE), 'utf8')) as Record<string, CacheEntryMeta>;
+      for (const [fileKey, meta] of Object.entries(raw)) loaded.set(fileKey, meta);
+    } catch {
+      // No manifest yet: rebuild it from the payload files
+      let files: string[] = [];
+      try {
+        files = (await fs.readdir(dir)).filter(f => f.endsWith('.json') && f !== MANIFEST_FILE);
+      } catch {
+        files = [];
+      }
+      for (const f of files) {
+        const fileKey = f.slice(0, -'.json'.length);
+        try {
+          const buf = await fs.readFile(path.join(dir, f), 'utf8');
+          const payload = this.normalizePayload(JSON.parse(buf));
+          loaded.set(fileKey, this.metaFromPayload(namespace, fileKey, payload, Buffer.byteLength(buf)));
+        } catch {
+          // skip unreadable files
+        }
+      }
+      if (files.length > 0) {
+        console.log(`[cache] Rebuilt manifest for ${namespace} (${loaded.size} entries)`);
+      }
+    }
+    // Another caller may have loaded it meanwhile
+    const current = this.manifests.get(namespace);
+    if (current) return current;
+    // Sorted once on load; afterwards every access moves its entry to the end
+    const manifest = new Map(Array.from(loaded).sort(([, a], [, b]) => a.lastAccessAt - b.lastAccessAt));
+    this.manifests.set(namespace, manifest);
+    this.namespaceBytes.set(namespace, Array.from(manifest.values()).reduce((sum, m) => sum + m.sizeBytes, 0));
+    return manifest;
+  }
+
+  /**
+   * Coalesce manifest writes for bursts of set() calls (e.g. transaction batches).
+   * Entries missing from a stale manifest are still found by get().
+   */
+  private scheduleManifestSave(namespace: string): void {
+    if (this.flushTimers.has(namespace)) return;
+    const timer = setTimeout(() => {
+      this.flushTimers.delete(namespace);
+      this.withLock(namespace, () => this.saveManifest(namespace)).catch(err => {
+        console.error(`[cache] Failed to save manifest for ${namespace}:`, err);
+      });
+    }, MANIFEST_FLUSH_DELAY_MS);
+    this.flushTimers.set(namespace, timer);
+  }
+
+  private async saveManifest(namespace: string): Promise<void> {
+    const pending = this.flushTimers.get(namespace);
+    if (pending) {
+      clearTimeout(pending);
+      this.flushTimers.delete(namespace);
+    }
+    const manifest = this.manifests.get(namespace);
+    if (!manifest) return;
+    const dir = path.join(this.root, namespace);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, MANIFEST_FILE), JSON.stringify(Object.fromEntries(manifest)), 'utf8');
+  }
+
+  /**
+   * Serialize manifest mutations per namespace
+   */
+  private withLock<T>(namespace: string, fn: () => Promise<T>): Promise<T> {
+    const prev = this.locks.get(namespace) || Promise.resolve();
+    const next = prev.then(fn, fn);
+    this.locks.set(namespace, next.catch(() => undefined));
+    return next;
+  }
+}
+
+export function createFileCacheBackend(root?: string): FileCacheBackend {
+  return new FileCacheBackend(root);
+}
@@ -0,0 +1,5 @@
+export * from './types.js';
+export * from './policies.js';
+export * from './file-backend.js';
+export * from './sqlite-backend.js';
+export * from './cache-backend.js';
@@ -0,0 +1,69 @@
+import { CacheEntryMeta, CacheNamespacePolicy, CacheQuery } from './types.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MB = 1024 * 1024;
+
+const DEFAULT_POLICIES: Record<string, CacheNamespacePolicy> = {
+  'profile': { ttlMs: 7 * DAY_MS, maxEntries: 500 },
+  'fleets': { ttlMs: 7 * DAY_MS, maxEntries: 500 },
+  'wallet-fees-detailed': { ttlMs: 14 * DAY_MS, maxBytes: Number(process.env.CACHE_WALLET_FEES_MAX_MB || 512) * MB },
+};
+
+const policies: Record<string, CacheNamespacePolicy> = { ...DEFAULT_POLICIES };
+
+// Namespaces are directory names of the file backend
+const NAMESPACE_PATTERN = /^[\w-]+$/;
+
+export class CacheNamespaceError extends Error {
+  constructor(namespace: string) {
+    super(`Invalid cache namespace: ${JSON.stringify(namespace)}`);
+    this.name = 'CacheNamespaceError';
+  }
+}
+
+export function isValidNamespace(namespace: string): boolean {
+  return NAMESPACE_PATTERN.test(namespace);
+}
+
+/**
+ * Throw CacheNamespaceError for a namespace other than letters, digits, '_' and '-'
+ * (e.g. '..' would point the file backend outside its root)
+ */
+export function assertValidNamespace(namespace: string): void {
+  if (!isValidNamespace(namespace)) throw new CacheNamespaceError(namespace);
+}
+
+export function getNamespacePolicy(namespace: string): CacheNamespacePolicy {
+  return policies[namespace] || {};
+}
+
+export function setNamespacePolicy(namespace: string, policy: CacheNamespacePolicy): void {
+  policies[namespace] = { ...policy };
+}
+
+export function getNamespacePolicies(): Record<string, CacheNamespacePolicy> {
+  return { ...policies };
+}
+
+export function computeExpiresAt(namespace: string, savedAt: number, ttlOverrideMs?: number): number | undefined {
+  const ttlMs = ttlOverrideMs ?? getNamespacePolicy(namespace).ttlMs;
+  return ttlMs && ttlMs > 0 ? savedAt + ttlMs : undefined;
+}
+
+export function isExpired(meta: CacheEntryMeta, now = Date.now()): boolean {
+  return !!meta.expiresAt && meta.expiresAt <= now;
+}
+
+export function matchesQuery(meta: CacheEntryMeta, query: CacheQuery, now = Date.now()): boolean {
+  if (query.namespace) {
+    const namespaces = Array.isArray(query.namespace) ? query.namespace : [query.namespace];
+    if (!namespaces.includes(meta.namespace)) return false;
+  }
+  if (query.keyPrefix && !meta.key.startsWith(query.keyPrefix)) return false;
+  if (query.walletPubkey && meta.walletPubkey !== query.walletPubkey) return false;
+  if (query.profileId && meta.profileId !== query.profileId) return false;
+  if (query.signature && meta.signature !== query.signature) return false;
+  if (!query.includeExpired && isExpired(meta, now)) return false;
+  return true;
+}
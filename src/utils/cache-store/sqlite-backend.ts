@@ -0,0 +1,243 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import { assertValidNamespace, computeExpiresAt, getNamespacePolicy } from './policies.js';
+import { CacheEntryMeta, CacheNamespacePolicy, CacheQuery, CacheRecord, CacheSetOptions, ICacheBackend } from './types.js';
+
+type EntryRow = {
+  namespace: string;
+  key: string;
+  saved_at: number;
+  last_access_at: number;
+  expires_at: number | null;
+  size_bytes: number;
+  wallet_pubkey: string | null;
+  profile_id: string | null;
+  signature: string | null;
+};
+
+const META_COLUMNS = 'namespace, key, saved_at, last_access_at, expires_at, size_bytes, wallet_pubkey, profile_id, signature';
+
+function rowToMeta(row: EntryRow): CacheEntryMeta {
+  return {
+    namespace: row.namespace,
+    key: row.key,
+    savedAt: row.saved_at,
+    lastAccessAt: row.last_access_at,
+    expiresAt: row.expires_at ?? undefined,
+    sizeBytes: row.size_bytes,
+    walletPubkey: row.wallet_pubkey ?? undefined,
+    profileId: row.profile_id ?? undefined,
+    signature: row.signature ?? undefined,
+  };
+}
+
+/**
+ * SqliteCacheBackend - all namespaces in one embedded SQLite database
+ *
+ * Secondary indexes are real SQL indexes, so wallet/profile/signature lookups
+ * and size accounting don't touch the payloads.
+ */
+export class SqliteCacheBackend implements ICacheBackend {
+  readonly kind = 'sqlite' as const;
+
+  constructor(private db: BetterSqlite3.Database) {
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS cache_entries (
+        namespace TEXT NOT NULL,
+        key TEXT NOT NULL,
+        saved_at INTEGER NOT NULL,
+        last_access_at INTEGER NOT NULL,
+        expires_at INTEGER,
+        size_bytes INTEGER NOT NULL,
+        wallet_pubkey TEXT,
+        profile_id TEXT,
+        signature TEXT,
+        data TEXT NOT NULL,
+        PRIMARY KEY (namespace, key)
+      );
+      CREATE INDEX IF NOT EXISTS idx_cache_wallet ON cache_entries(wallet_pubkey);
+      CREATE INDEX IF NOT EXISTS idx_cache_profile ON cache_entries(profile_id);
+      CREATE INDEX IF NOT EXISTS idx_cache_signature ON cache_entries(signature);
+      CREATE INDEX IF NOT EXISTS idx_cache_access ON cache_entries(namespace, last_access_at);
+    `);
+  }
+
+  async get<T = any>(namespace: string, key: string): Promise<CacheRecord<T> | null> {
+    assertValidNamespace(namespace);
+    const row = this.db
+      .prepare(`SELECT ${META_COLUMNS}, data FROM cache_entries WHERE namespace = ? AND key = ?`)
+      .get(namespace, key) as (EntryRow & { data: string }) | undefined;
+    if (!row) return null;
+
+    const now = Date.now();
+    if (row.expires_at !== null && row.expires_at <= now) {
+      await this.delete(namespace, key);
+      return null;
+    }
+    this.db
+      .prepare('UPDATE cache_entries SET last_access_at = ? WHERE namespace = ? AND key = ?')
+      .run(now, namespace, key);
+
+    const meta = rowToMeta({ ...row, last_access_at: now });
+    return { data: JSON.parse(row.data) as T, savedAt: row.saved_at, meta };
+  }
+
+  async set(namespace: string, key: string, data: any, opts: CacheSetOptions = {}): Promise<CacheEntryMeta> {
+    assertValidNamespace(namespace);
+    const savedAt = Date.now();
+    const json = JSON.stringify(data);
+    const meta: CacheEntryMeta = {
+      namespace,
+      key,
+      savedAt,
+      lastAccessAt: savedAt,
+      expiresAt: computeExpiresAt(namespace, savedAt, opts.ttlMs),
+      sizeBytes: Buffer.byteLength(json),
+      walletPubkey: opts.indexes?.walletPubkey,
+      profileId: opts.indexes?.profileId,
+      signature: opts.indexes?.signature,
+    };
+    this.db.prepare(`
+      INSERT OR REPLACE INTO cache_entries (${META_COLUMNS}, data)
+      VALUES (@namespace, @key, @savedAt, @lastAccessAt, @expiresAt, @sizeBytes, @walletPubkey, @profileId, @signature, @data)
+    `).run({
+      ...meta,
+      expiresAt: meta.expiresAt ?? null,
+      walletPubkey: meta.walletPubkey ?? null,
+      profileId: meta.profileId ?? null,
+      signature: meta.signature ?? null,
+      data: json,
+    });
+
+    if (this.isOverLimit(this.totals(namespace), getNamespacePolicy(namespace))) {
+      await this.evict(namespace);
+    }
+    return meta;
+  }
+
+  async delete(namespace: string, key: string): Promise<CacheEntryMeta | null> {
+    assertValidNamespace(namespace);
+    const row = this.db
+      .prepare(`SELECT ${META_COLUMNS} FROM cache_entries WHERE namespace = ? AND key = ?`)
+      .get(namespace, key) as EntryRow | undefined;
+    if (!row) return null;
+    this.db.prepare('DELETE FROM cache_entries WHERE namespace = ? AND key = ?').run(namespace, key);
+    return rowToMeta(row);
+  }
+
+  async list(query: CacheQuery = {}): Promise<CacheEntryMeta[]> {
+    const { sql, params } = this.buildWhere(query);
+    const rows = this.db
+      .prepare(`SELECT ${META_COLUMNS} FROM cache_entries ${sql} ORDER BY namespace, saved_at DESC`)
+      .all(...params) as EntryRow[];
+    return rows.map(rowToMeta);
+  }
+
+  async deleteWhere(query: CacheQuery): Promise<CacheEntryMeta[]> {
+    const matches = await this.list({ ...query, includeExpired: true });
+    const del = this.db.prepare('DELETE FROM cache_entries WHERE namespace = ? AND key = ?');
+    const tx = this.db.transaction((entries: CacheEntryMeta[]) => {
+      for (const e of entries) del.run(e.namespace, e.key);
+    });
+    tx(matches);
+    return matches;
+  }
+
+  /**
+   * Drop expired entries, then the least recently used ones until the namespace fits its policy.
+   * Only the victims are read, oldest access first through the (namespace, last_access_at) index.
+   */
+  async evict(namespace: string): Promise<CacheEntryMeta[]> {
+    assertValidNamespace(namespace);
+    const policy = getNamespacePolicy(namespace);
+    const now = Date.now();
+    const victims = (this.db
+      .prepare(`SELECT ${META_COLUMNS} FROM cache_entries WHERE namespace = ? AND expires_at IS NOT NULL AND expires_at <= ?`)
+      .all(namespace, now) as EntryRow[]).map(rowToMeta);
+    const totals = this.totals(namespace, now);
+    if (this.isOverLimit(totals, policy)) {
+      const oldest = this.db
+        .prepare(`SELECT ${META_COLUMNS} FROM cache_entries WHERE namespace = ? AND (expires_at IS NULL OR expires_at > ?) ORDER BY last_access_at`)
+        .iterate(namespace, now) as IterableIterator<EntryRow>;
+      for (const row of oldest) {
+        if (!this.isOverLimit(totals, policy)) break;
+        victims.push(rowToMeta(row));
+        totals.count--;
+        totals.bytes -= row.size_bytes;
+      }
+    }
+    if (victims.length === 0) return [];
+
+    const del = this.db.prepare('DELETE FROM cache_entries WHERE namespace = ? AND key = ?');
+    const tx = this.db.transaction((rows: CacheEntryMeta[]) => {
+      for (const v of rows) del.run(v.namespace, v.key);
+    });
+    tx(victims);
+    console.log(`[cache] Evicted ${victims.length} entries from ${namespace}`);
+    return victims;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  // Entry count and size of a namespace; with `now`, of its entries not yet expired
+  private totals(namespace: string, now?: number): { count: number; bytes: number } {
+    const row = this.db
+      .prepare(`SELECT COUNT(*) AS count, COALESCE(SUM(size_bytes), 0) AS bytes FROM cache_entries
+        WHERE namespace = ? AND (? IS NULL OR expires_at IS NULL OR expires_at > ?)`)
+      .get(namespace, now ?? null, now ?? null) as { count: number; bytes: number };
+    return { count: row.count, bytes: row.bytes };
+  }
+
+  private isOverLimit(totals: { count: number; bytes: number }, policy: CacheNamespacePolicy): boolean {
+    return (policy.maxEntries !== undefined && totals.count > policy.maxEntries) ||
+      (policy.maxBytes !== undefined && totals.bytes > policy.maxBytes);
+  }
+
+  private buildWhere(query: CacheQuery): { sql: string; params: any[] } {
+    const clauses: string[] = [];
+    const params: any[] = [];
+    if (query.namespace) {
+      const namespaces = Array.isArray(query.namespace) ? query.namespace : [query.namespace];
+      namespaces.forEach(assertValidNamespace);
+      clauses.push(`namespace IN (${namespaces.map(() => '?').join(', ')})`);
+      params.push(...namespaces);
+    }
+    if (query.keyPrefix) {
+      clauses.push('substr(key, 1, ?) = ?');
+      params.push(query.keyPrefix.length, query.keyPrefix);
+    }
+    if (query.walletPubkey) {
+      clauses.push('wallet_pubkey = ?');
+      params.push(query.walletPubkey);
+    }
+    if (query.profileId) {
+      clauses.push('profile_id = ?');
+      params.push(query.profileId);
+    }
+    if (query.signature) {
+      clauses.push('signature = ?');
+      params.push(query.signature);
+    }
+    if (!query.includeExpired) {
+      clauses.push('(expires_at IS NULL OR expires_at > ?)');
+      params.push(Date.now());
+    }
+    return { sql: clauses.length ? `WHERE ${clauses.join(' AND ')}` : '', params };
+  }
+}
+
+/**
+ * Open (or create) the SQLite cache database. better-sqlite3 is loaded lazily
+ * so the file backend keeps working where the native module isn't installed.
+ */
+export async function createSqliteCacheBackend(
+  dbPath: string = path.join(process.cwd(), 'cache', 'cache.sqlite')
+): Promise<SqliteCacheBackend> {
+  const { default: Database } = await import('better-sqlite3');
+  await fs.mkdir(path.dirname(dbPath), { recursive: true });
+  return new SqliteCacheBackend(new Database(dbPath));
+}
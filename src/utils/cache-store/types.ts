@@ -0,0 +1,56 @@
+export type CacheBackendKind = 'file' | 'sqlite';
+
+/**
+ * Secondary index values an entry can be looked up by
+ */
+export type CacheIndexes = {
+  walletPubkey?: string;
+  profileId?: string;
+  signature?: string;
+};
+
+export type CacheEntryMeta = CacheIndexes & {
+  namespace: string;
+  key: string;
+  savedAt: number;
+  lastAccessAt: number;
+  expiresAt?: number;
+  sizeBytes: number;
+};
+
+export type CacheRecord<T = any> = {
+  data: T;
+  savedAt: number;
+  meta: CacheEntryMeta;
+};
+
+export type CacheSetOptions = {
+  indexes?: CacheIndexes;
+  /** Overrides the namespace TTL for this entry */
+  ttlMs?: number;
+};
+
+export type CacheQuery = CacheIndexes & {
+  namespace?: string | string[];
+  keyPrefix?: string;
+  includeExpired?: boolean;
+};
+
+/**
+ * Per-namespace retention policy. Unset fields mean "unbounded".
+ */
+export type CacheNamespacePolicy = {
+  ttlMs?: number;
+  maxEntries?: number;
+  maxBytes?: number;
+};
+
+export interface ICacheBackend {
+  readonly kind: CacheBackendKind;
+  get<T = any>(namespace: string, key: string): Promise<CacheRecord<T> | null>;
+  set(namespace: string, key: string, data: any, opts?: CacheSetOptions): Promise<CacheEntryMeta>;
+  delete(namespace: string, key: string): Promise<CacheEntryMeta | null>;
+  list(query?: CacheQuery): Promise<CacheEntryMeta[]>;
+  deleteWhere(query: CacheQuery): Promise<CacheEntryMeta[]>;
+  evict(namespace: string): Promise<CacheEntryMeta[]>;
+}
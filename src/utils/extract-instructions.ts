@@ -33,7 +33,8 @@ export async function extractSageMaterialActions(
       const conn = picked && picked.connection ? picked.connection : null;
       const rpcIndex = picked && typeof picked.index === 'number' ? picked.index : -1;
       if (!conn) continue;
-      if (rpcIndex >= 0 && !tryAcquireRpc(rpcIndex)) {
+      const lease = rpcIndex >= 0 ? tryAcquireRpc(rpcIndex) : null;
+      if (rpcIndex >= 0 && !lease) {
         continue;
       }
       try {
@@ -41,12 +42,12 @@ export async function extractSageMaterialActions(
           maxSupportedTransactionVersion: 0,
           commitment: 'confirmed',
         });
-        if (rpcIndex >= 0) {
-          releaseRpc(rpcIndex, { success: true });
+        if (lease) {
+          releaseRpc(lease, { success: true });
         }
       } catch (e) {
-        if (rpcIndex >= 0) {
-          releaseRpc(rpcIndex, { success: false });
+        if (lease) {
+          releaseRpc(lease, { success: false });
         }
         if (attempts === maxAttempts) {
           console.warn(`[extractSageMaterialActions] Failed to fetch tx for signature: ${sig}`, e);
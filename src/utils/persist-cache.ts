@@ -1,39 +1,23 @@
-import { promises as fs } from 'fs';
-import path from 'path';
-import crypto from 'crypto';
+import { getCacheBackend } from './cache-store/cache-backend.js';
+import { CacheEntryMeta, CacheQuery, CacheSetOptions } from './cache-store/types.js';
 
-const ROOT = path.join(process.cwd(), 'cache');
-
-function safeKey(key: string): string {
-  // Keep short keys readable; hash long/complex keys
-  if (/^[a-zA-Z0-9_-]{1,64}$/.test(key)) return key;
-  return crypto.createHash('sha256').update(key).digest('hex');
-}
-
-async function ensureDir(dir: string) {
-  await fs.mkdir(dir, { recursive: true });
-}
+// Thin facade over the configured cache backend (see utils/cache-store). Signatures
+// predate the backend split and are kept for existing callers.
 
 export async function getCache<T = any>(namespace: string, key: string): Promise<T | null> {
-  const nsDir = path.join(ROOT, namespace);
-  const file = path.join(nsDir, `${safeKey(key)}.json`);
+  const backend = await getCacheBackend();
   try {
-    const buf = await fs.readFile(file, 'utf8');
-    return JSON.parse(buf) as T;
+    const record = await backend.get(namespace, key);
+    if (!record) return null;
+    return { savedAt: record.savedAt, data: record.data } as unknown as T;
   } catch {
     return null;
   }
 }
 
-export async function setCache(namespace: string, key: string, data: any): Promise<void> {
-  const nsDir = path.join(ROOT, namespace);
-  await ensureDir(nsDir);
-  const file = path.join(nsDir, `${safeKey(key)}.json`);
-  const payload = {
-    savedAt: Date.now(),
-    data
-  };
-  await fs.writeFile(file, JSON.stringify(payload, null, 2), 'utf8');
+export async function setCache(namespace: string, key: string, data: any, opts?: CacheSetOptions): Promise<void> {
+  const backend = await getCacheBackend();
+  await backend.set(namespace, key, data, opts);
 }
 
 export async function getCacheDataOnly<T = any>(namespace: string, key: string): Promise<T | null> {
@@ -54,3 +38,18 @@ export async function getCacheWithTimestamp<T = any>(namespace: string, key: str
   // Legacy: no timestamp
   return { data: raw as T, savedAt: 0 };
 }
+
+export async function deleteCache(namespace: string, key: string): Promise<CacheEntryMeta | null> {
+  const backend = await getCacheBackend();
+  return backend.delete(namespace, key);
+}
+
+export async function listCache(query: CacheQuery = {}): Promise<CacheEntryMeta[]> {
+  const backend = await getCacheBackend();
+  return backend.list(query);
+}
+
+export async function deleteCacheWhere(query: CacheQuery): Promise<CacheEntryMeta[]> {
+  const backend = await getCacheBackend();
+  return backend.deleteWhere(query);
+}
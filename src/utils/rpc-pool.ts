@@ -1,4 +1,22 @@
+import { clusterApiUrl } from '@solana/web3.js';
+import { newConnection } from './anchor-setup.js';
 import { getGlobalRpcPoolManager } from './rpc/rpc-pool-manager.js';
+import { RpcPoolConnection } from './rpc/pool-connection.js';
+import { RpcCallRequirements, RpcLease } from './rpc/types.js';
+
+let sharedPoolConnection: RpcPoolConnection | null = null;
+
+/**
+ * RpcPoolConnection over the global pool, for modules that aren't handed one
+ */
+export function getSharedPoolConnection(): RpcPoolConnection {
+  if (!sharedPoolConnection) {
+    const manager = getGlobalRpcPoolManager();
+    const defaultConnection = manager.getConnectionForIndex(0) || newConnection(process.env.RPC_ENDPOINT || clusterApiUrl('mainnet-beta'));
+    sharedPoolConnection = new RpcPoolConnection(defaultConnection, manager);
+  }
+  return sharedPoolConnection;
+}
 
 export function getRpcPoolSize() {
   return getGlobalRpcPoolManager().getPoolSize();
@@ -8,8 +26,8 @@ export function getRpcConnectionForIndex(i: number) {
   return getGlobalRpcPoolManager().getConnectionForIndex(i);
 }
 
-export function pickNextRpcConnection() {
-  return getGlobalRpcPoolManager().pickNextRpc();
+export function pickNextRpcConnection(call?: RpcCallRequirements) {
+  return getGlobalRpcPoolManager().pickNextRpc(call);
 }
 
 export function getRpcUrls() {
@@ -20,7 +38,11 @@ export function tryAcquireRpc(index: number) {
   return getGlobalRpcPoolManager().tryAcquireRpc(index);
 }
 
-export function releaseRpc(index: number, opts?: { success?: boolean; latencyMs?: number; errorType?: string }) {
+export async function acquireRpc(index: number, method?: string, signal?: AbortSignal) {
+  return getGlobalRpcPoolManager().acquireRpc(index, method, signal);
+}
+
+export function releaseRpc(index: number | RpcLease, opts?: { success?: boolean; latencyMs?: number; errorType?: string; method?: string }) {
   return getGlobalRpcPoolManager().releaseRpc(index, opts);
 }
 
@@ -43,3 +65,15 @@ export function recordRpcProcessed(index: number, count: number = 1) {
 export function getRpcMetrics() {
   return getGlobalRpcPoolManager().getRpcMetrics();
 }
+
+export function getRpcCallCacheStats() {
+  return getGlobalRpcPoolManager().getCallCacheStats();
+}
+
+export function getRpcHedgeStats() {
+  return getGlobalRpcPoolManager().getHedgeStats();
+}
+
+export function getRpcSelectionStrategy() {
+  return getGlobalRpcPoolManager().getSelectionStrategy();
+}
@@ -0,0 +1,37 @@
+/**
+ * Raised when an RPC operation is abandoned because its AbortSignal fired
+ * (e.g. the HTTP client that requested the analysis disconnected).
+ */
+export class RpcAbortedError extends Error {
+  constructor(message = 'RPC operation aborted') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+export function isAbortError(err: any): boolean {
+  return err instanceof RpcAbortedError || err?.name === 'AbortError';
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new RpcAbortedError();
+}
+
+/**
+ * Sleep that rejects with RpcAbortedError as soon as the signal fires
+ */
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (!signal) return new Promise(resolve => setTimeout(resolve, ms));
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(new RpcAbortedError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RpcAbortedError());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
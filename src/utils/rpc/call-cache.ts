@@ -0,0 +1,216 @@
+import { PublicKey } from '@solana/web3.js';
+import { RpcAbortedError } from './abort.js';
+import { RpcCallCacheStats } from './types.js';
+
+// Results that can change (account info, signature lists) are reused for this long
+const DEFAULT_MUTABLE_TTL_MS = Number(process.env.RPC_MEMO_TTL_MS || 2000);
+// Results that cannot change (finalized transactions) are kept this long
+const DEFAULT_IMMUTABLE_TTL_MS = Number(process.env.RPC_MEMO_IMMUTABLE_TTL_MS || 60 * 60 * 1000);
+const MAX_ENTRIES = Number(process.env.RPC_MEMO_MAX_ENTRIES || 2000);
+
+type MemoEntry = { value: any; expiresAt: number };
+
+type InFlight = {
+  promise: Promise<any>;
+  controller: AbortController;
+  // Callers still waiting; the upstream call is aborted once all of them went away
+  waiters: number;
+};
+
+type MethodCounters = { hits: number; misses: number; coalesced: number };
+
+export type RpcCallCacheOptions = {
+  // How long to reuse the result; 0 = only share the in-flight request
+  ttlMs?: number;
+  // Decides whether a result may be memoized (e.g. not null / not-found answers)
+  cacheable?: (value: any) => boolean;
+  // Fired when the caller stops waiting; the shared request keeps going for the other callers
+  signal?: AbortSignal;
+};
+
+/**
+ * Stable key of a call: method plus params (PublicKeys as base58, object keys sorted)
+ */
+export function rpcCallKey(method: string, params: any[]): string {
+  return `${method}:${JSON.stringify(params, (_k, v) => {
+    if (v instanceof PublicKey) return v.toBase58();
+    if (v && typeof v === 'object' && !Array.isArray(v)) {
+      return Object.keys(v).sort().reduce((acc: any, k) => {
+        if (v[k] !== undefined) acc[k] = v[k];
+        return acc;
+      }, {});
+    }
+    return v;
+  })}`;
+}
+
+/**
+ * Shares identical concurrent RPC calls (one upstream request) and memoizes their results.
+ * One instance lives on the pool manager so every RpcPoolConnection shares it.
+ */
+export class RpcCallCache {
+  private memo = new Map<string, MemoEntry>();
+  private inFlight = new Map<string, InFlight>();
+  private counters = new Map<string, MethodCounters>();
+  // Highest finalized slot seen (getSlot with finalized commitment)
+  private finalizedSlot = 0;
+
+  readonly mutableTtlMs = DEFAULT_MUTABLE_TTL_MS;
+  readonly immutableTtlMs = DEFAULT_IMMUTABLE_TTL_MS;
+
+  noteFinalizedSlot(slot: number): void {
+    if (slot > this.finalizedSlot) this.finalizedSlot = slot;
+  }
+
+  /**
+   * Whether a transaction of that slot can no longer change: fetched with finalized commitment,
+   * or at or below a slot known to be finalized
+   */
+  isFinalized(slot: number | undefined, commitment?: string): boolean {
+    if (commitment === 'finalized') return true;
+    return slot !== undefined && slot > 0 && slot <= this.finalizedSlot;
+  }
+
+  /**
+   * Return a memoized or in-flight result for (method, params), or run `fetch` once for all callers.
+   * `fetch` receives a signal that fires only when every caller has aborted.
+   */
+  async run<T>(method: string, params: any[], fetch: (signal: AbortSignal) => Promise<T>, opts: RpcCallCacheOptions = {}): Promise<T> {
+    const key = rpcCallKey(method, params);
+    const counters = this.countersFor(method);
+    const now = Date.now();
+
+    const memoized = this.memo.get(key);
+    if (memoized) {
+      if (memoized.expiresAt > now) {
+        counters.hits++;
+        // Refresh LRU position
+        this.memo.delete(key);
+        this.memo.set(key, memoized);
+        return memoized.value;
+      }
+      this.memo.delete(key);
+    }
+
+    let flight = this.inFlight.get(key);
+    if (flight) {
+      counters.coalesced++;
+    } else {
+      counters.misses++;
+      const controller = new AbortController();
+      const ttlMs = opts.ttlMs ?? 0;
+      const promise = fetch(controller.signal).then(value => {
+        if (ttlMs > 0 && (!opts.cacheable || opts.cacheable(value))) this.remember(key, value, ttlMs);
+        return value;
+      });
+      flight = { promise, controller, waiters: 0 };
+      this.inFlight.set(key, flight);
+      const current = flight;
+      promise.then(
+        () => this.inFlight.get(key) === current && this.inFlight.delete(key),
+        () => this.inFlight.get(key) === current && this.inFlight.delete(key)
+      );
+    }
+    return this.wait(key, flight, opts.signal);
+  }
+
+  /**
+   * Memoized result for (method, params) without starting a request; counts as a hit when found
+   */
+  peek<T>(method: string, params: any[]): { value: T } | undefined {
+    const key = rpcCallKey(method, params);
+    const memoized = this.memo.get(key);
+    if (!memoized || memoized.expiresAt <= Date.now()) return undefined;
+    this.countersFor(method).hits++;
+    this.memo.delete(key);
+    this.memo.set(key, memoized);
+    return { value: memoized.value };
+  }
+
+  /**
+   * Memoize a result obtained another way (e.g. one account out of a getMultipleAccounts call)
+   */
+  store(method: string, params: any[], value: any, ttlMs: number): void {
+    if (ttlMs > 0) this.remember(rpcCallKey(method, params), value, ttlMs);
+  }
+
+  getStats(): RpcCallCacheStats {
+    const byMethod: RpcCallCacheStats['byMethod'] = {};
+    let hits = 0;
+    let misses = 0;
+    let coalesced = 0;
+    for (const [method, c] of this.counters) {
+      byMethod[method] = { ...c };
+      hits += c.hits;
+      misses += c.misses;
+      coalesced += c.coalesced;
+    }
+    const lookups = hits + misses + coalesced;
+    return {
+      hits,
+      misses,
+      coalesced,
+      hitRate: lookups > 0 ? (hits + coalesced) / lookups : 0,
+      entries: this.memo.size,
+      inFlight: this.inFlight.size,
+      byMethod,
+    };
+  }
+
+  clear(): void {
+    this.memo.clear();
+  }
+
+  private wait<T>(key: string, flight: InFlight, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) return Promise.reject(new RpcAbortedError());
+    flight.waiters++;
+    if (!signal) return flight.promise;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        flight.waiters--;
+        if (flight.waiters <= 0 && this.inFlight.get(key) === flight) {
+          // Nobody is waiting anymore: let the upstream call free its slot
+          this.inFlight.delete(key);
+          flight.controller.abort();
+        }
+        reject(new RpcAbortedError());
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      flight.promise.then(
+        value => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        err => {
+          signal.removeEventListener('abort', onAbort);
+          reject(err);
+        }
+      );
+    });
+  }
+
+  private remember(key: string, value: any, ttlMs: number): void {
+    this.memo.delete(key);
+    this.memo.set(key, { value, expiresAt: Date.now() + ttlMs });
+    // Maps iterate in insertion order: the first keys are the least recently used
+    while (this.memo.size > MAX_ENTRIES) {
+      const oldest = this.memo.keys().next().value;
+      if (oldest === undefined) break;
+      this.memo.delete(oldest);
+    }
+  }
+
+  private countersFor(method: string): MethodCounters {
+    let c = this.counters.get(method);
+    if (!c) {
+      c = { hits: 0, misses: 0, coalesced: 0 };
+      this.counters.set(method, c);
+    }
+    return c;
+  }
+}
+
+export function createRpcCallCache(): RpcCallCache {
+  return new RpcCallCache();
+}
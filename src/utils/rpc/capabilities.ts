@@ -0,0 +1,69 @@
+import { RpcCallRequirements, RpcEntry, RpcMeta, RpcMethodHealth } from './types.js';
+
+// Methods whose answer depends on how much history the endpoint keeps
+const HISTORY_METHODS = new Set(['getTransaction', 'getSignaturesForAddress', 'getBlock', 'getBlockTime']);
+
+// Error types that concern a single method, not the endpoint as a whole
+export const METHOD_SPECIFIC_ERROR_TYPES = ['unsupported', 'history'];
+
+/**
+ * Whether the endpoint's declared capabilities and per-method health allow this call
+ */
+export function canServeCall(entry: RpcEntry, meta: RpcMeta | undefined, call: RpcCallRequirements | undefined, now = Date.now()): boolean {
+  if (!call) return true;
+  const caps = entry.capabilities;
+  const method = call.method;
+
+  if (method && caps) {
+    if (caps.methods && !caps.methods.includes(method)) return false;
+    if (caps.excludedMethods?.includes(method)) return false;
+    if (method === 'getProgramAccounts' && caps.getProgramAccounts === false) return false;
+  }
+  if (call.batchSize && caps?.maxBatchSize !== undefined && call.batchSize > caps.maxBatchSize) return false;
+  if (call.minBlockTime && caps?.historyDays !== undefined && (!method || HISTORY_METHODS.has(method))) {
+    const oldestKept = now / 1000 - caps.historyDays * 86400;
+    if (call.minBlockTime < oldestKept) return false;
+  }
+  if (method) {
+    const health = meta?.methodHealth?.[method];
+    if (health?.backoffUntil && health.backoffUntil > now) return false;
+  }
+  return true;
+}
+
+export function getMethodHealth(meta: RpcMeta, method: string): RpcMethodHealth {
+  if (!meta.methodHealth[method]) {
+    meta.methodHealth[method] = { successes: 0, failures: 0, unsupported: 0, historyMisses: 0 };
+  }
+  return meta.methodHealth[method];
+}
+
+// JSON-RPC error codes of a method the endpoint does not serve, and of history it does not keep
+const UNSUPPORTED_CODES = [-32601];
+const HISTORY_CODES = [-32007, -32009, -32011];
+// Provider messages of a method disabled or filtered out on the endpoint. Kept narrow: other
+// "not supported" errors (e.g. "Transaction version (0) is not supported") concern the request.
+const UNSUPPORTED_MESSAGES = [
+  'method not found',
+  'method not supported',
+  'unsupported method',
+  'method is not available',
+  'excluded from account secondary indexes',
+];
+const HISTORY_MESSAGES = ['history is not available', 'missing in long-term storage'];
+
+function hasCode(message: string, code: number | undefined, codes: number[]): boolean {
+  if (code !== undefined && codes.includes(code)) return true;
+  return codes.some(c => new RegExp(`(^|[^\\d])${c}([^\\d]|$)`).test(message));
+}
+
+/**
+ * Recognize errors that only concern the called method (see METHOD_SPECIFIC_ERROR_TYPES), from the
+ * JSON-RPC error code (the error's `code`, or the code quoted in its message) or a known provider message
+ */
+export function classifyMethodError(message: string, code?: number): 'unsupported' | 'history' | null {
+  const m = message.toLowerCase();
+  if (hasCode(m, code, UNSUPPORTED_CODES) || UNSUPPORTED_MESSAGES.some(s => m.includes(s))) return 'unsupported';
+  if (hasCode(m, code, HISTORY_CODES) || HISTORY_MESSAGES.some(s => m.includes(s))) return 'history';
+  return null;
+}
@@ -0,0 +1,50 @@
+import { RpcCircuitState, RpcMeta } from './types.js';
+
+// Trial requests let through at once while half-open
+export const HALF_OPEN_MAX_TRIALS = Number(process.env.RPC_HALF_OPEN_TRIALS || 2);
+// Successful trials needed to close the circuit again
+export const HALF_OPEN_SUCCESS_THRESHOLD = Number(process.env.RPC_HALF_OPEN_SUCCESSES || 2);
+// Upper bound of the open period when trials keep failing
+export const CIRCUIT_MAX_OPEN_MS = Number(process.env.RPC_CIRCUIT_MAX_OPEN_MS || 120000);
+
+/**
+ * Current circuit state; an open circuit whose open period is over becomes half-open
+ */
+export function circuitStateOf(meta: RpcMeta, now = Date.now()): RpcCircuitState {
+  if (meta.circuit === 'open' && (!meta.backoffUntil || meta.backoffUntil <= now)) {
+    meta.circuit = 'half-open';
+    meta.halfOpenInFlight = 0;
+    meta.halfOpenSuccesses = 0;
+  }
+  return meta.circuit;
+}
+
+/**
+ * Whether a new request may be sent: always when closed, never when open,
+ * and up to HALF_OPEN_MAX_TRIALS concurrent trials when half-open
+ */
+export function admitsTraffic(meta: RpcMeta, now = Date.now()): boolean {
+  const state = circuitStateOf(meta, now);
+  if (state === 'closed') return true;
+  if (state === 'open') return false;
+  return meta.halfOpenInFlight < HALF_OPEN_MAX_TRIALS;
+}
+
+export function openCircuit(meta: RpcMeta, durationMs: number, now = Date.now()): void {
+  meta.circuit = 'open';
+  meta.healthy = false;
+  meta.backoffUntil = now + durationMs;
+  meta.lastOpenMs = durationMs;
+  meta.halfOpenInFlight = 0;
+  meta.halfOpenSuccesses = 0;
+}
+
+export function closeCircuit(meta: RpcMeta): void {
+  meta.circuit = 'closed';
+  meta.healthy = true;
+  meta.backoffUntil = undefined;
+  meta.lastOpenMs = undefined;
+  meta.failures = 0;
+  meta.halfOpenInFlight = 0;
+  meta.halfOpenSuccesses = 0;
+}
@@ -1,4 +1,5 @@
 import { RpcPoolLoader } from './pool-loader.js';
+import { admitsTraffic } from './circuit-breaker.js';
 import { IRpcConcurrencyManager } from './types.js';
 
 export class RpcConcurrencyManager implements IRpcConcurrencyManager {
@@ -13,15 +14,9 @@ export class RpcConcurrencyManager implements IRpcConcurrencyManager {
     if (!entry || !meta) return false;
 
     const maxConcurrent = entry.maxConcurrent || Number(process.env.RPC_MAX_CONCURRENT_PER_ENDPOINT || 12);
-    const now = Date.now();
 
-    // Check if in backoff period
-    if (meta.backoffUntil && meta.backoffUntil > now) {
-      return false;
-    }
-
-    // Check if unhealthy
-    if (!meta.healthy) {
+    // Check the circuit (open, or half-open with all trials in flight)
+    if (!admitsTraffic(meta)) {
       return false;
     }
 
@@ -1,10 +1,19 @@
 import { RpcPoolLoader } from './pool-loader.js';
 import { IRpcHealthManager } from './types.js';
-
+import { getMethodHealth, METHOD_SPECIFIC_ERROR_TYPES } from './capabilities.js';
+import { circuitStateOf, closeCircuit, CIRCUIT_MAX_OPEN_MS, HALF_OPEN_SUCCESS_THRESHOLD, openCircuit } from './circuit-breaker.js';
+
+/**
+ * Endpoint health as a circuit breaker (see circuit-breaker.ts):
+ * closed -> open after UNHEALTHY_THRESHOLD consecutive failures or a 429,
+ * open -> half-open when the open period ends or a probe succeeds,
+ * half-open -> closed after enough successful trials, or back to open (for twice as long) on a failure.
+ */
 export class RpcHealthManager implements IRpcHealthManager {
   private readonly UNHEALTHY_THRESHOLD = Number(process.env.RPC_UNHEALTHY_THRESHOLD || 100);
   private readonly BACKOFF_BASE_MS = Number(process.env.RPC_BACKOFF_BASE_MS || 500); // Reduced from 2000
   private readonly COOLDOWN_MS = Number(process.env.RPC_COOLDOWN_MS || 15000); // Reduced from 60000
+  private readonly METHOD_UNSUPPORTED_COOLDOWN_MS = Number(process.env.RPC_METHOD_UNSUPPORTED_COOLDOWN_MS || 600000);
 
   constructor(private poolLoader: RpcPoolLoader) {}
 
@@ -22,27 +31,52 @@ export class RpcHealthManager implements IRpcHealthManager {
   setBackoff(index: number, durationMs: number): void {
     const meta = this.poolLoader.getMetaAt(index);
     if (!meta) return;
-    meta.backoffUntil = Date.now() + durationMs;
-    meta.healthy = false;
+    openCircuit(meta, durationMs);
   }
 
   clearBackoff(index: number): void {
     const meta = this.poolLoader.getMetaAt(index);
     if (!meta) return;
-    meta.backoffUntil = undefined;
-    meta.failures = 0;
-    meta.healthy = true;
+    closeCircuit(meta);
+  }
+
+  /**
+   * A request is about to be sent; while half-open it counts as one of the limited trials
+   */
+  beginRequest(index: number): void {
+    const meta = this.poolLoader.getMetaAt(index);
+    if (meta && circuitStateOf(meta) === 'half-open') meta.halfOpenInFlight++;
+  }
+
+  endRequest(index: number): void {
+    const meta = this.poolLoader.getMetaAt(index);
+    if (meta && meta.halfOpenInFlight > 0) meta.halfOpenInFlight--;
   }
 
   /**
    * Record a failure and update health status
-   * Handles error classification for different failure types
+   * Handles error classification for different failure types; method-specific failures
+   * (unsupported method, missing history) only affect that method on this endpoint
    */
-  recordFailure(index: number, errorType?: string): void {
+  recordFailure(index: number, errorType?: string, method?: string): void {
     const meta = this.poolLoader.getMetaAt(index);
     const entry = this.poolLoader.getEntry(index);
     if (!meta || !entry) return;
 
+    if (method) {
+      const health = getMethodHealth(meta, method);
+      health.failures++;
+      health.lastError = errorType || 'other';
+      if (errorType === 'unsupported') {
+        health.unsupported++;
+        health.backoffUntil = Date.now() + this.METHOD_UNSUPPORTED_COOLDOWN_MS;
+        console.warn(`[rpc-health] RPC index ${index} (${entry.name}) does not serve ${method}, skipping it for that method`);
+      } else if (errorType === 'history') {
+        health.historyMisses++;
+      }
+    }
+    if (errorType && METHOD_SPECIFIC_ERROR_TYPES.includes(errorType)) return;
+
     // Increment failures (capped to avoid overflow)
     meta.failures = Math.min((meta.failures || 0) + 1, 100000);
     meta.lastFailureAt = Date.now();
@@ -54,11 +88,17 @@ export class RpcHealthManager implements IRpcHealthManager {
     else if (classification === 'timeout') meta.errorCounts.timeout++;
     else meta.errorCounts.other++;
 
+    // A failed trial reopens the circuit for twice as long
+    if (circuitStateOf(meta) === 'half-open') {
+      const openMs = Math.min(CIRCUIT_MAX_OPEN_MS, (meta.lastOpenMs || this.BACKOFF_BASE_MS + this.COOLDOWN_MS) * 2);
+      openCircuit(meta, openMs);
+      console.warn(`[rpc-health] Trial request to RPC index ${index} (${entry.name}) failed, circuit open for ${openMs}ms`);
+      return;
+    }
+
     // Handle 429 rate limit with shorter backoff
     if (classification === '429') {
-      meta.healthy = false;
-      const backoffDuration = this.BACKOFF_BASE_MS * 4 + Math.floor(this.COOLDOWN_MS * 0.25);
-      meta.backoffUntil = Date.now() + backoffDuration;
+      openCircuit(meta, this.BACKOFF_BASE_MS * 4 + Math.floor(this.COOLDOWN_MS * 0.25));
       return;
     }
 
@@ -71,55 +111,81 @@ export class RpcHealthManager implements IRpcHealthManager {
   /**
    * Record a success, improving health status
    */
-  recordSuccess(index: number): void {
+  recordSuccess(index: number, method?: string): void {
     const meta = this.poolLoader.getMetaAt(index);
     if (!meta) return;
 
+    if (method) {
+      const health = getMethodHealth(meta, method);
+      health.successes++;
+      health.backoffUntil = undefined;
+    }
+
     meta.successes++;
     meta.failures = 0; // Reset all failures on success
-    meta.healthy = true;
-    meta.backoffUntil = undefined;
+
+    const state = circuitStateOf(meta);
+    if (state === 'half-open') {
+      meta.halfOpenSuccesses++;
+      if (meta.halfOpenSuccesses >= HALF_OPEN_SUCCESS_THRESHOLD) {
+        closeCircuit(meta);
+        console.log(`[rpc-health] RPC index ${index} (${this.poolLoader.getEntry(index)?.name}) recovered, circuit closed`);
+      }
+    }
+    // A request sent before the circuit opened doesn't close it: recovery goes through half-open
   }
 
   /**
-   * Probe an RPC endpoint to check if it's responsive
-   * On success, clears failures and marks as healthy
+   * Probe an RPC endpoint with getSlot and record the slot it reports.
+   * A successful probe moves an open circuit to half-open (trial requests decide the rest);
+   * a failed one keeps it open for longer.
    */
   async probe(index: number, timeoutMs = 5000): Promise<boolean> {
     const entry = this.poolLoader.getEntry(index);
-    if (!entry || !entry.connection) return false;
+    const meta = this.poolLoader.getMetaAt(index);
+    if (!entry || !entry.connection || !meta) return false;
 
-    const conn = entry.connection;
+    let timer: NodeJS.Timeout | undefined;
     try {
-      const p = conn.getEpochInfo();
-      await Promise.race([p, new Promise((_, rej) => setTimeout(() => rej(new Error('probe-timeout')), timeoutMs))]);
-
-      // Success - clear failures and backoff
-      this.clearBackoff(index);
+      const slot = await Promise.race([
+        entry.connection.getSlot(),
+        new Promise<never>((_, rej) => { timer = setTimeout(() => rej(new Error('probe-timeout')), timeoutMs); }),
+      ]);
+      meta.lastProbeAt = Date.now();
+      meta.lastSlot = slot;
+      if (circuitStateOf(meta) === 'open') {
+        meta.backoffUntil = Date.now();
+        circuitStateOf(meta);
+        console.log(`[rpc-health] Probe of RPC index ${index} (${entry.name}) succeeded, circuit half-open`);
+      }
       return true;
     } catch (e) {
+      meta.lastProbeAt = Date.now();
+      if (circuitStateOf(meta) === 'open') {
+        openCircuit(meta, Math.min(CIRCUIT_MAX_OPEN_MS, (meta.lastOpenMs || this.COOLDOWN_MS) * 2));
+      }
       return false;
+    } finally {
+      if (timer) clearTimeout(timer);
     }
   }
 
   /**
-   * Transition RPC to unhealthy state with exponential backoff
+   * Open the circuit with exponential backoff
    */
   private transitionToUnhealthy(index: number): void {
     const meta = this.poolLoader.getMetaAt(index);
     const entry = this.poolLoader.getEntry(index);
     if (!meta || !entry) return;
 
-    meta.healthy = false;
-
     // Exponential backoff: base * 2^(failures-threshold), capped at 10 seconds max
     const exponent = Math.min(10, meta.failures - this.UNHEALTHY_THRESHOLD);
     const backoff = Math.min(10000, this.BACKOFF_BASE_MS * Math.pow(2, exponent));
-    meta.backoffUntil = Date.now() + backoff + this.COOLDOWN_MS;
+    openCircuit(meta, backoff + this.COOLDOWN_MS);
 
     console.warn(
-      `[rpc-health] Marking RPC index ${index} (${entry.name}) as unhealthy ` +
-        `(failures=${meta.failures}) backoffUntil=${new Date(meta.backoffUntil).toISOString()}`
+      `[rpc-health] Marking RPC index ${index} (${entry.name}) as unhealthy, circuit open ` +
+        `(failures=${meta.failures}) backoffUntil=${new Date(meta.backoffUntil!).toISOString()}`
     );
   }
 }
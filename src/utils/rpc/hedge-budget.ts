@@ -0,0 +1,79 @@
+import { RpcHedgeStats } from './types.js';
+
+// Hedges allowed per hedgeable call, over all endpoints
+const HEDGE_MAX_RATIO = Number(process.env.RPC_HEDGE_MAX_RATIO || 0.1);
+// Hedges that may be sent back to back after a quiet period
+const HEDGE_BURST = Number(process.env.RPC_HEDGE_BURST || 10);
+// Delay before hedging while an endpoint has too few samples for a p90
+const HEDGE_DEFAULT_DELAY_MS = Number(process.env.RPC_HEDGE_DEFAULT_DELAY_MS || 1000);
+// Never hedge sooner than this, even on very fast endpoints
+const HEDGE_MIN_DELAY_MS = Number(process.env.RPC_HEDGE_MIN_DELAY_MS || 50);
+
+/**
+ * How long to wait for the primary endpoint before sending the hedge
+ */
+export function hedgeDelayMs(p90LatencyMs: number | undefined): number {
+  return Math.max(HEDGE_MIN_DELAY_MS, p90LatencyMs ?? HEDGE_DEFAULT_DELAY_MS);
+}
+
+/**
+ * Global cap on hedged requests. Every hedgeable call earns `maxRatio` credits (up to the burst)
+ * and every hedge spends one, so hedges never exceed maxRatio of the calls and quota isn't doubled.
+ */
+export class RpcHedgeBudget {
+  private credits = 0;
+  private calls = 0;
+  private hedged = 0;
+  private won = 0;
+  private skippedByBudget = 0;
+
+  constructor(readonly maxRatio = HEDGE_MAX_RATIO, private burst = HEDGE_BURST) {}
+
+  recordCall(): void {
+    this.calls++;
+    this.credits = Math.min(this.burst, this.credits + this.maxRatio);
+  }
+
+  /**
+   * Spend a credit for a hedge; false when the budget is used up
+   */
+  tryTake(): boolean {
+    if (this.credits < 1) {
+      this.skippedByBudget++;
+      return false;
+    }
+    this.credits -= 1;
+    this.hedged++;
+    return true;
+  }
+
+  /**
+   * Give back the credit of a hedge that could not be sent (no other endpoint free)
+   */
+  refund(): void {
+    this.credits = Math.min(this.burst, this.credits + 1);
+    this.hedged--;
+  }
+
+  /**
+   * The hedge answered before the primary request
+   */
+  recordWin(): void {
+    this.won++;
+  }
+
+  getStats(): RpcHedgeStats {
+    return {
+      calls: this.calls,
+      hedged: this.hedged,
+      won: this.won,
+      skippedByBudget: this.skippedByBudget,
+      ratio: this.calls > 0 ? this.hedged / this.calls : 0,
+      maxRatio: this.maxRatio,
+    };
+  }
+}
+
+export function createRpcHedgeBudget(maxRatio?: number, burst?: number): RpcHedgeBudget {
+  return new RpcHedgeBudget(maxRatio, burst);
+}
@@ -1,8 +1,20 @@
 export * from './types.js';
 export * from './pool-loader.js';
 export * from './selector.js';
+export * from './selection-strategies.js';
+export * from './capabilities.js';
+export * from './rate-limiter.js';
+export * from './call-cache.js';
+export * from './hedge-budget.js';
+export * from './circuit-breaker.js';
 export * from './health-manager.js';
+export * from './prober.js';
+export * from './log-subscriber.js';
 export * from './concurrency-manager.js';
 export * from './metrics.js';
 export * from './rpc-pool-manager.js';
 export * from './pool-connection.js';
+export * from './abort.js';
+export * from './redact.js';
+export * from './pool-audit.js';
+export * from './record-replay.js';
@@ -0,0 +1,219 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { newConnection } from '../anchor-setup.js';
+import { admitsTraffic } from './circuit-breaker.js';
+import { RpcPoolLoader } from './pool-loader.js';
+import { getRpcRecordMode } from './record-replay.js';
+
+// No slot notification for this long: the socket is considered dead and subscriptions move to another endpoint
+const WS_STALL_MS = Number(process.env.RPC_WS_STALL_MS || 30000);
+// A pause in slot notifications longer than this means the socket reconnected: logs may have been missed
+const WS_GAP_MS = Number(process.env.RPC_WS_GAP_MS || 5000);
+
+export interface RpcLogNotification {
+  address: string;
+  signature: string;
+  err: any;
+  logs: string[];
+  slot: number;
+}
+
+export interface RpcLogSubscriberStatus {
+  endpoint: string | null;
+  connected: boolean;
+  addresses: number;
+  failovers: number;
+  lastSlotAt?: number;
+  lastNotificationAt?: number;
+}
+
+type LogListener = (notification: RpcLogNotification) => void;
+// Called when notifications may have been missed (reconnect or failover); `endpoint` is the one now in use
+type ResyncListener = (endpoint: string | null) => void;
+
+/**
+ * logsSubscribe (`mentions`) for a set of addresses over the pool's WebSocket endpoints.
+ * One endpoint is used at a time; web3.js reconnects the socket and renews the subscriptions,
+ * and a slot subscription serves as heartbeat: when it stalls for RPC_WS_STALL_MS every
+ * subscription moves to the next enabled endpoint. Listeners are told to resync after
+ * each gap, since logs sent meanwhile are lost.
+ */
+export class RpcLogSubscriber {
+  private addresses = new Map<string, { refs: number; subscriptionId?: number }>();
+  private logListeners = new Set<LogListener>();
+  private resyncListeners = new Set<ResyncListener>();
+  private connection: Connection | null = null;
+  private endpointIndex = -1;
+  private endpointName: string | null = null;
+  private slotSubscriptionId?: number;
+  private connectedAt = 0;
+  private lastSlotAt = 0;
+  private lastNotificationAt?: number;
+  private failovers = 0;
+  private watchdog: NodeJS.Timeout | null = null;
+
+  constructor(private poolLoader: RpcPoolLoader) {}
+
+  /**
+   * Subscribe to the logs mentioning `address` (reference counted)
+   */
+  subscribe(address: string): void {
+    const existing = this.addresses.get(address);
+    if (existing) {
+      existing.refs++;
+      return;
+    }
+    const entry: { refs: number; subscriptionId?: number } = { refs: 1 };
+    this.addresses.set(address, entry);
+    if (this.connection) this.subscribeOn(this.connection, address, entry);
+    else this.connect();
+  }
+
+  unsubscribe(address: string): void {
+    const entry = this.addresses.get(address);
+    if (!entry || --entry.refs > 0) return;
+    this.addresses.delete(address);
+    if (this.connection && entry.subscriptionId !== undefined) {
+      this.connection.removeOnLogsListener(entry.subscriptionId).catch(() => {});
+    }
+    if (this.addresses.size === 0) this.disconnect();
+  }
+
+  onLogs(listener: LogListener): () => void {
+    this.logListeners.add(listener);
+    return () => this.logListeners.delete(listener);
+  }
+
+  onResync(listener: ResyncListener): () => void {
+    this.resyncListeners.add(listener);
+    return () => this.resyncListeners.delete(listener);
+  }
+
+  getStatus(): RpcLogSubscriberStatus {
+    return {
+      endpoint: this.endpointName,
+      connected: !!this.connection && this.lastSlotAt > 0 && Date.now() - this.lastSlotAt < WS_STALL_MS,
+      addresses: this.addresses.size,
+      failovers: this.failovers,
+      lastSlotAt: this.lastSlotAt || undefined,
+      lastNotificationAt: this.lastNotificationAt,
+    };
+  }
+
+  stop(): void {
+    this.addresses.clear();
+    this.disconnect();
+  }
+
+  /**
+   * Next enabled endpoint after the current one whose circuit admits traffic,
+   * preferring those with a `ws` URL (web3.js derives one from `url` otherwise)
+   */
+  private pickEndpoint(): number {
+    const pool = this.poolLoader.getPool();
+    const meta = this.poolLoader.getMeta();
+    const now = Date.now();
+    const order = pool.map((_, k) => (this.endpointIndex + 1 + k) % pool.length);
+    const usable = order.filter(i => !pool[i].disabled && (!meta[i] || admitsTraffic(meta[i], now)));
+    return usable.find(i => !!pool[i].ws) ?? usable[0] ?? -1;
+  }
+
+  private connect(): void {
+    // Replay serves recorded HTTP calls only: there is no socket to subscribe on
+    if (getRpcRecordMode() === 'replay' || this.addresses.size === 0) return;
+    const index = this.pickEndpoint();
+    const entry = index >= 0 ? this.poolLoader.getEntry(index) : null;
+    if (!entry) {
+      console.warn('[rpc-ws] No endpoint available for log subscriptions');
+      this.startWatchdog();
+      return;
+    }
+    this.endpointIndex = index;
+    this.endpointName = entry.name;
+    const connection = newConnection(entry.url, entry.ws || undefined);
+    this.connection = connection;
+    this.connectedAt = Date.now();
+    this.lastSlotAt = 0;
+    this.slotSubscriptionId = connection.onSlotChange(() => {
+      const now = Date.now();
+      if (this.lastSlotAt > 0 && now - this.lastSlotAt > WS_GAP_MS) this.emitResync();
+      this.lastSlotAt = now;
+    });
+    for (const [address, subscription] of this.addresses) this.subscribeOn(connection, address, subscription);
+    console.log(`[rpc-ws] Subscribed to logs of ${this.addresses.size} addresses on ${entry.name}`);
+    this.startWatchdog();
+  }
+
+  private subscribeOn(connection: Connection, address: string, subscription: { subscriptionId?: number }): void {
+    subscription.subscriptionId = connection.onLogs(
+      new PublicKey(address),
+      (logs, ctx) => {
+        if (connection !== this.connection) return;
+        this.lastNotificationAt = Date.now();
+        const notification = { address, signature: logs.signature, err: logs.err, logs: logs.logs || [], slot: ctx.slot };
+        for (const listener of this.logListeners) {
+          try {
+            listener(notification);
+          } catch (err: any) {
+            console.error('[rpc-ws] Log listener failed:', err?.message || err);
+          }
+        }
+      },
+      'confirmed'
+    );
+  }
+
+  private disconnect(): void {
+    if (this.watchdog) clearInterval(this.watchdog);
+    this.watchdog = null;
+    const connection = this.connection;
+    this.connection = null;
+    this.endpointName = null;
+    if (!connection) return;
+    if (this.slotSubscriptionId !== undefined) connection.removeSlotChangeListener(this.slotSubscriptionId).catch(() => {});
+    for (const subscription of this.addresses.values()) {
+      if (subscription.subscriptionId !== undefined) connection.removeOnLogsListener(subscription.subscriptionId).catch(() => {});
+      subscription.subscriptionId = undefined;
+    }
+    // web3.js only closes a socket that is open; one that never connected would keep retrying
+    const socket = (connection as any)._rpcWebSocket;
+    try {
+      socket?.setAutoReconnect?.(false);
+      socket?.close?.();
+    } catch {
+      // already closed
+    }
+  }
+
+  private startWatchdog(): void {
+    if (this.watchdog) return;
+    this.watchdog = setInterval(() => {
+      const since = this.lastSlotAt || this.connectedAt;
+      if (this.connection && Date.now() - since < WS_STALL_MS) return;
+      this.failover();
+    }, Math.max(1000, Math.floor(WS_STALL_MS / 3)));
+    this.watchdog.unref();
+  }
+
+  private failover(): void {
+    const from = this.endpointName;
+    this.disconnect();
+    this.failovers++;
+    this.connect();
+    if (from) console.warn(`[rpc-ws] No slot updates from ${from} for ${WS_STALL_MS}ms, moved subscriptions to ${this.endpointName ?? 'none'}`);
+    if (this.connection) this.emitResync();
+  }
+
+  private emitResync(): void {
+    for (const listener of this.resyncListeners) {
+      try {
+        listener(this.endpointName);
+      } catch (err: any) {
+        console.error('[rpc-ws] Resync listener failed:', err?.message || err);
+      }
+    }
+  }
+}
+
+export function createRpcLogSubscriber(poolLoader: RpcPoolLoader): RpcLogSubscriber {
+  return new RpcLogSubscriber(poolLoader);
+}
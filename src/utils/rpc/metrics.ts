@@ -1,17 +1,36 @@
 import { RpcPoolLoader } from './pool-loader.js';
-import { RpcMetrics, IRpcMetricsTracker } from './types.js';
+import { RpcEntry, RpcMeta, RpcMetrics, IRpcMetricsTracker, RpcLatencyHistogram, RpcRequestOutcome } from './types.js';
+import { refillRateTokens } from './rate-limiter.js';
+import { circuitStateOf } from './circuit-breaker.js';
+import { redactRpcUrl } from './redact.js';
+
+// Successful call latencies kept per endpoint for percentiles
+const LATENCY_WINDOW = 200;
+// Fewer samples than this don't give a meaningful percentile
+const MIN_PERCENTILE_SAMPLES = 20;
+// Upper bounds of the latency histogram buckets
+export const LATENCY_BUCKETS_MS = [50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000];
 
 export class RpcMetricsTracker implements IRpcMetricsTracker {
   constructor(private poolLoader: RpcPoolLoader) {}
 
   /**
    * Record latency for an RPC using exponential moving average
-   * alpha = 0.2 for recent values weighted more
+   * alpha = 0.2 for recent values weighted more.
+   * Successful calls also go into the window used for percentiles (failures would skew it with timeouts)
    */
-  recordLatency(index: number, latencyMs: number): void {
+  recordLatency(index: number, latencyMs: number, success = true): void {
     const meta = this.poolLoader.getMetaAt(index);
     if (!meta) return;
 
+    if (success) {
+      meta.latencySamples.push(latencyMs);
+      if (meta.latencySamples.length > LATENCY_WINDOW) meta.latencySamples.shift();
+    }
+    const bucket = LATENCY_BUCKETS_MS.findIndex(bound => latencyMs <= bound);
+    meta.latencyBuckets[bucket < 0 ? LATENCY_BUCKETS_MS.length : bucket]++;
+    meta.latencySumMs += latencyMs;
+
     const alpha = 0.2;
     if (!meta.avgLatencyMs) {
       meta.avgLatencyMs = latencyMs;
@@ -20,6 +39,17 @@ export class RpcMetricsTracker implements IRpcMetricsTracker {
     }
   }
 
+  /**
+   * Count a request sent to an RPC by method and outcome
+   */
+  recordRequest(index: number, method: string | undefined, outcome: RpcRequestOutcome): void {
+    const meta = this.poolLoader.getMetaAt(index);
+    if (!meta) return;
+    const key = method || 'unknown';
+    const counts = meta.requests[key] || (meta.requests[key] = { success: 0, error: 0, aborted: 0 });
+    counts[outcome]++;
+  }
+
   /**
    * Get average latency for an RPC (or undefined if not recorded)
    */
@@ -28,6 +58,14 @@ export class RpcMetricsTracker implements IRpcMetricsTracker {
     return meta?.avgLatencyMs;
   }
 
+  /**
+   * Latency percentile (0..1) of the recent successful calls, or undefined while there are too few
+   */
+  getLatencyPercentile(index: number, percentile: number): number | undefined {
+    const meta = this.poolLoader.getMetaAt(index);
+    return meta ? latencyPercentile(meta.latencySamples, percentile) : undefined;
+  }
+
   /**
    * Record number of transactions processed by an RPC
    */
@@ -49,23 +87,9 @@ export class RpcMetricsTracker implements IRpcMetricsTracker {
    * Get comprehensive metrics for all RPC endpoints
    */
   getMetrics(): RpcMetrics[] {
-    const pool = this.poolLoader.getPool();
-    const meta = this.poolLoader.getMeta();
-
-    return meta.map((m, i) => ({
-      index: i,
-      healthy: m.healthy,
-      failures: m.failures,
-      successes: m.successes,
-      processedTxs: m.processedTxs,
-      currentConcurrent: m.currentConcurrent,
-      avgLatencyMs: m.avgLatencyMs,
-      backoffUntil: m.backoffUntil,
-      errorCounts: { ...m.errorCounts },
-      url: pool[i]?.url,
-      maxConcurrent: pool[i]?.maxConcurrent,
-      cooldownMs: pool[i]?.cooldownMs,
-    }));
+    return this.poolLoader.getMeta()
+      .map((_m, i) => this.getMetricsAt(i))
+      .filter((m): m is RpcMetrics => m !== null);
   }
 
   /**
@@ -76,21 +100,8 @@ export class RpcMetricsTracker implements IRpcMetricsTracker {
     const meta = this.poolLoader.getMetaAt(index);
 
     if (!entry || !meta) return null;
-
-    return {
-      index,
-      healthy: meta.healthy,
-      failures: meta.failures,
-      successes: meta.successes,
-      processedTxs: meta.processedTxs,
-      currentConcurrent: meta.currentConcurrent,
-      avgLatencyMs: meta.avgLatencyMs,
-      backoffUntil: meta.backoffUntil,
-      errorCounts: { ...meta.errorCounts },
-      url: entry.url,
-      maxConcurrent: entry.maxConcurrent,
-      cooldownMs: entry.cooldownMs,
-    };
+    const totalSelected = this.poolLoader.getMeta().reduce((sum, m) => sum + m.selectedCount, 0);
+    return toRpcMetrics(index, entry, meta, totalSelected);
   }
 
   /**
@@ -104,10 +115,72 @@ export class RpcMetricsTracker implements IRpcMetricsTracker {
     meta.successes = 0;
     meta.processedTxs = 0;
     meta.avgLatencyMs = undefined;
+    meta.latencySamples = [];
+    meta.latencyBuckets = LATENCY_BUCKETS_MS.map(() => 0).concat(0);
+    meta.latencySumMs = 0;
+    meta.requests = {};
     meta.errorCounts = { rateLimit429: 0, payment402: 0, timeout: 0, other: 0 };
+    meta.selectedCount = 0;
+    meta.methodHealth = {};
+    meta.rateLimitedCalls = 0;
+    meta.rateLimitWaitMs = 0;
   }
 }
 
+function latencyPercentile(samples: number[], percentile: number): number | undefined {
+  if (samples.length < MIN_PERCENTILE_SAMPLES) return undefined;
+  const sorted = [...samples].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(percentile * sorted.length))];
+}
+
+function latencyHistogram(meta: RpcMeta): RpcLatencyHistogram {
+  return { bucketsMs: LATENCY_BUCKETS_MS, counts: [...meta.latencyBuckets], sumMs: meta.latencySumMs };
+}
+
+// Settings and health of one endpoint as exposed by the metrics and admin APIs
+function toRpcMetrics(index: number, entry: RpcEntry, meta: RpcMeta, totalSelected: number): RpcMetrics {
+  return {
+    index,
+    name: entry.name,
+    weight: entry.weight ?? 1,
+    disabled: !!entry.disabled,
+    healthy: meta.healthy,
+    circuit: circuitStateOf(meta),
+    lastProbeAt: meta.lastProbeAt,
+    lastSlot: meta.lastSlot,
+    slotLag: meta.slotLag,
+    stale: meta.stale,
+    failures: meta.failures,
+    successes: meta.successes,
+    processedTxs: meta.processedTxs,
+    currentConcurrent: meta.currentConcurrent,
+    avgLatencyMs: meta.avgLatencyMs,
+    p90LatencyMs: latencyPercentile(meta.latencySamples, 0.9),
+    latencyHistogram: latencyHistogram(meta),
+    requests: copyRequests(meta),
+    backoffUntil: meta.backoffUntil,
+    errorCounts: { ...meta.errorCounts },
+    // Metrics end up in API responses: never expose the key
+    url: redactRpcUrl(entry.url),
+    maxConcurrent: entry.maxConcurrent,
+    cooldownMs: entry.cooldownMs,
+    selectedCount: meta.selectedCount,
+    trafficShare: totalSelected > 0 ? meta.selectedCount / totalSelected : 0,
+    capabilities: entry.capabilities,
+    methodHealth: { ...meta.methodHealth },
+    rateLimit: entry.rateLimit,
+    rateTokens: entry.rateLimit ? refillRateTokens(entry, meta) : undefined,
+    rateLimitedCalls: meta.rateLimitedCalls,
+    rateLimitWaitMs: meta.rateLimitWaitMs,
+  };
+}
+
+function copyRequests(meta: RpcMeta): RpcMeta['requests'] {
+  const out: RpcMeta['requests'] = {};
+  for (const [method, counts] of Object.entries(meta.requests)) out[method] = { ...counts };
+  return out;
+}
+
 export function createRpcMetricsTracker(poolLoader: RpcPoolLoader): RpcMetricsTracker {
   return new RpcMetricsTracker(poolLoader);
 }
@@ -0,0 +1,49 @@
+import crypto from 'crypto';
+import { getCacheDataOnly, listCache, setCache } from '../persist-cache.js';
+import { setNamespacePolicy } from '../cache-store/policies.js';
+import { RpcEntryConfig, RpcPoolAuditEntry } from './types.js';
+import { redactRpcUrl } from './redact.js';
+
+const AUDIT_NAMESPACE = 'rpc-pool-audit';
+
+setNamespacePolicy(AUDIT_NAMESPACE, { ttlMs: 90 * 24 * 60 * 60 * 1000, maxEntries: 2000 });
+
+/**
+ * Endpoint config as it may appear in the audit (no credentials)
+ */
+export function auditableEndpoint(entry: Partial<RpcEntryConfig> | undefined): Partial<RpcEntryConfig> | undefined {
+  if (!entry) return undefined;
+  const copy: Partial<RpcEntryConfig> = { ...entry };
+  if (copy.url) copy.url = redactRpcUrl(copy.url);
+  if (copy.ws) copy.ws = redactRpcUrl(copy.ws);
+  return copy;
+}
+
+export async function recordPoolAudit(entry: Omit<RpcPoolAuditEntry, 'at'>): Promise<void> {
+  const record: RpcPoolAuditEntry = {
+    at: Date.now(),
+    ...entry,
+    before: auditableEndpoint(entry.before),
+    after: auditableEndpoint(entry.after),
+  };
+  const key = `${record.at}-${crypto.randomBytes(4).toString('hex')}`;
+  try {
+    await setCache(AUDIT_NAMESPACE, key, record);
+  } catch (err) {
+    console.error('[rpc-pool] Failed to persist audit entry:', err);
+  }
+}
+
+/**
+ * Most recent audit entries first
+ */
+export async function listPoolAudit(limit = 100): Promise<RpcPoolAuditEntry[]> {
+  const metas = await listCache({ namespace: AUDIT_NAMESPACE });
+  metas.sort((a, b) => b.savedAt - a.savedAt);
+  const entries: RpcPoolAuditEntry[] = [];
+  for (const meta of metas.slice(0, limit)) {
+    const entry = await getCacheDataOnly<RpcPoolAuditEntry>(AUDIT_NAMESPACE, meta.key);
+    if (entry) entries.push(entry);
+  }
+  return entries;
+}
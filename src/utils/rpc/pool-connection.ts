@@ -1,11 +1,60 @@
 import { Connection, PublicKey, ParsedTransactionWithMeta, ConfirmedSignatureInfo, AccountInfo, ParsedAccountData } from '@solana/web3.js';
+import fetch from 'node-fetch';
 import { RpcPoolManager, getGlobalRpcPoolManager } from './rpc-pool-manager.js';
+import { abortableSleep, isAbortError, RpcAbortedError, throwIfAborted } from './abort.js';
+import { classifyMethodError } from './capabilities.js';
+import { hedgeDelayMs } from './hedge-budget.js';
+import { redactError } from './redact.js';
+import { getRpcFetch, isFixtureMissingError } from './record-replay.js';
+import { RpcCallRequirements, RpcLease } from './types.js';
 
 export interface RpcOperationOptions {
   timeoutMs?: number;
   maxRetries?: number;
   fallbackToDefault?: boolean;
   logErrors?: boolean;
+  // Stops retries and waiting as soon as it fires; the concurrency slot is released
+  signal?: AbortSignal;
+  // Unix time (seconds) of the oldest data read; endpoints with a shorter history are skipped
+  minBlockTime?: number;
+  // How long an identical recent result may be reused; 0 disables memoization
+  // (identical calls in flight are still shared). Defaults depend on the method.
+  memoTtlMs?: number;
+  // If the endpoint hasn't answered within its p90 latency, send the same request to a second
+  // endpoint and keep the first answer (within the pool's global hedge budget)
+  hedge?: boolean;
+}
+
+export interface RpcBatchRequest {
+  method: string;
+  params?: any[];
+}
+
+/**
+ * Outcome of one request of a batch: `result` or the JSON-RPC `error` it kept failing with
+ */
+export interface RpcBatchResult<T = any> {
+  result?: T;
+  error?: { code?: number; message: string };
+}
+
+// Default JSON-RPC batch size for endpoints that don't declare capabilities.maxBatchSize
+const DEFAULT_MAX_BATCH_SIZE = Number(process.env.RPC_MAX_BATCH_SIZE || 50);
+// getMultipleAccounts accepts at most 100 keys per call
+const MAX_MULTIPLE_ACCOUNTS = 100;
+// Errors of a batched request that would fail again anywhere (invalid request/params)
+const PERMANENT_BATCH_ERROR_CODES = [-32600, -32602];
+// Chunks of one getMultipleAccountsInfo / rpcBatch call in flight at once
+const CHUNK_CONCURRENCY = Number(process.env.RPC_BATCH_CONCURRENCY || 4);
+
+async function forEachConcurrently<T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await fn(items[next++]);
+    }
+  });
+  await Promise.all(workers);
 }
 
 /**
@@ -15,10 +64,14 @@ export interface RpcOperationOptions {
  * Transparently handles:
  * - Selection of healthy RPC endpoints via round-robin
  * - Concurrency limiting per endpoint
+ * - Per-endpoint request rate (waits for token-bucket tokens instead of provoking 429s)
  * - Timeout and retry on failures
+ * - Optional hedging of slow calls on a second endpoint (`hedge` option)
  * - Error classification (429, 402, timeout, etc)
  * - Latency tracking
  * - Fallback to primary connection
+ * - Sharing identical in-flight calls and memoizing results (finalized transactions for long,
+ *   account info and older signature pages for RPC_MEMO_TTL_MS)
  */
 export class RpcPoolConnection {
   private poolManager: RpcPoolManager;
@@ -73,23 +126,36 @@ export class RpcPoolConnection {
   }
 
   /**
-   * Execute an RPC operation with automatic pool selection, timeout, and retry
+   * Execute an RPC operation with automatic pool selection, timeout, and retry.
+   * `method` routes the call to endpoints declaring that capability; retries avoid the
+   * endpoints that already failed it. `batchSize` marks a JSON-RPC batch of that many requests.
    */
   private async executeWithPool<T>(
     operation: (conn: Connection, rpcIndex: number) => Promise<T>,
-    opts: RpcOperationOptions = {}
+    opts: RpcOperationOptions = {},
+    method?: string,
+    batch: { batchSize?: number; avoidIndexes?: number[] } = {}
   ): Promise<T> {
     const timeoutMs = opts.timeoutMs ?? this.defaultTimeoutMs;
     const maxRetries = opts.maxRetries ?? this.defaultMaxRetries;
     const fallbackToDefault = false; // Never fallback - RPC pool only
     const logErrors = opts.logErrors !== false && this.defaultLogErrors;
+    const signal = opts.signal;
 
     let lastError: any;
+    const failedIndexes = [...(batch.avoidIndexes || [])];
 
     // Try RPC pool endpoints first
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      throwIfAborted(signal);
       try {
-        const picked = this.poolManager.pickNextRpc();
+        const call: RpcCallRequirements = {
+          method,
+          minBlockTime: opts.minBlockTime,
+          batchSize: batch.batchSize,
+          avoidIndexes: failedIndexes,
+        };
+        const picked = this.poolManager.pickNextRpc(call);
 
         if (picked.index < 0 || !picked.connection) {
           // No healthy RPC in pool, try default
@@ -107,11 +173,12 @@ export class RpcPoolConnection {
               throw err;
             }
           }
-          throw new Error('No healthy RPC endpoints available in pool');
+          throw new Error(method ? `No healthy RPC endpoints available in pool for ${method}` : 'No healthy RPC endpoints available in pool');
         }
 
-        // Acquire concurrency slot
-        if (!this.poolManager.tryAcquireRpc(picked.index)) {
+        // Acquire concurrency slot, then wait for the endpoint's rate-limit tokens
+        const lease = await this.poolManager.acquireRpc(picked.index, method, signal, batch.batchSize || 1);
+        if (!lease) {
           // Pool slot unavailable, try default connection
           if (fallbackToDefault) {
             const startTime = Date.now();
@@ -130,39 +197,26 @@ export class RpcPoolConnection {
           throw new Error(`RPC endpoint ${picked.index} concurrency limit reached`);
         }
 
-        const startTime = Date.now();
         try {
-          const result = await this.executeWithTimeout(operation(picked.connection, picked.index), timeoutMs);
-          const latencyMs = Date.now() - startTime;
-
-          // Record success and release
-          this.poolManager.releaseRpc(picked.index, {
-            success: true,
-            latencyMs,
-          });
-          // Record processed transaction
-          this.poolManager.recordRpcProcessed(picked.index, 1);
+          const result = opts.hedge
+            ? await this.runHedged(operation, lease, picked.connection, timeoutMs, signal, call, failedIndexes, batch.batchSize || 1)
+            : await this.runOn(operation, lease, picked.connection, timeoutMs, signal, method);
           this.txCounter++;
           this.logAggregatedStats();
 
           return result;
         } catch (err: any) {
-          const latencyMs = Date.now() - startTime;
+          // A replayed call without fixture would fail the same way on every endpoint
+          if (isAbortError(err) || isFixtureMissingError(err)) throw err;
           const errorType = this.classifyError(err);
-
-          // Record failure and release
-          this.poolManager.releaseRpc(picked.index, {
-            success: false,
-            latencyMs,
-            errorType,
-          });
+          failedIndexes.push(picked.index);
 
           lastError = err;
 
           // On rate limit, wait longer before retry
           if (errorType === '429' && attempt < maxRetries) {
             const backoffMs = Math.min(5000, (attempt + 1) * 1000);
-            await new Promise(resolve => setTimeout(resolve, backoffMs));
+            await abortableSleep(backoffMs, signal);
           }
 
           if (attempt === maxRetries && fallbackToDefault) {
@@ -179,6 +233,7 @@ export class RpcPoolConnection {
           }
         }
       } catch (err: any) {
+        if (isAbortError(err) || isFixtureMissingError(err)) throw err;
         lastError = err;
 
         if (attempt === maxRetries) {
@@ -190,7 +245,7 @@ export class RpcPoolConnection {
 
         // Wait before retry
         const delayMs = Math.min(1000, (attempt + 1) * 200);
-        await new Promise(resolve => setTimeout(resolve, delayMs));
+        await abortableSleep(delayMs, signal);
       }
     }
 
@@ -198,15 +253,174 @@ export class RpcPoolConnection {
   }
 
   /**
-   * Execute operation with timeout
+   * Run the operation on an endpoint whose slot is held, record the outcome and release the slot
    */
-  private executeWithTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
-    return Promise.race([
-      promise,
-      new Promise<T>((_, reject) =>
-        setTimeout(() => reject(new Error('RPC timeout')), timeoutMs)
-      ),
-    ]);
+  private async runOn<T>(
+    operation: (conn: Connection, rpcIndex: number) => Promise<T>,
+    lease: RpcLease,
+    conn: Connection,
+    timeoutMs: number,
+    signal: AbortSignal | undefined,
+    method?: string
+  ): Promise<T> {
+    const startTime = Date.now();
+    try {
+      const result = await this.executeWithTimeout(operation(conn, lease.index), timeoutMs, signal);
+      this.poolManager.releaseRpc(lease, { success: true, latencyMs: Date.now() - startTime, method });
+      // Record processed transaction
+      this.poolManager.recordRpcProcessed(lease, 1);
+      return result;
+    } catch (err: any) {
+      if (isAbortError(err) || isFixtureMissingError(err)) {
+        // Caller went away (or the other request of a hedge won, or replay has no fixture for the call):
+        // free the slot without counting it against the endpoint
+        this.poolManager.releaseRpc(lease, { aborted: true, method });
+      } else {
+        this.poolManager.releaseRpc(lease, {
+          success: false,
+          latencyMs: Date.now() - startTime,
+          errorType: this.classifyError(err),
+          method,
+        });
+      }
+      // Provider errors may quote the endpoint URL, key included
+      throw redactError(err);
+    }
+  }
+
+  /**
+   * Run on the primary endpoint; if it hasn't answered within its p90 latency, send the same
+   * request to a second endpoint (when the hedge budget allows and one is free right now).
+   * The first success wins and the other request is abandoned; the primary's error is
+   * thrown only once both have failed. A hedge that fails is added to `failedIndexes`.
+   */
+  private runHedged<T>(
+    operation: (conn: Connection, rpcIndex: number) => Promise<T>,
+    primary: RpcLease,
+    primaryConn: Connection,
+    timeoutMs: number,
+    signal: AbortSignal | undefined,
+    call: RpcCallRequirements,
+    failedIndexes: number[],
+    units: number
+  ): Promise<T> {
+    const budget = this.poolManager.getHedgeBudget();
+    budget.recordCall();
+    const primaryIndex = primary.index;
+    const delayMs = hedgeDelayMs(this.poolManager.getRpcLatencyPercentile(primaryIndex, 0.9));
+    const legs: AbortController[] = [];
+
+    return new Promise<T>((resolve, reject) => {
+      let settled = false;
+      let running = 0;
+      // A hedge is being picked/acquired
+      let hedging = false;
+      let primaryError: any;
+      let hedgeTimer: NodeJS.Timeout | undefined;
+
+      const onAbort = () => legs.forEach(c => c.abort());
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const settle = (fn: () => void) => {
+        settled = true;
+        if (hedgeTimer) clearTimeout(hedgeTimer);
+        signal?.removeEventListener('abort', onAbort);
+        fn();
+      };
+
+      const start = (lease: RpcLease, conn: Connection, legTimeoutMs: number, isHedge: boolean) => {
+        const leg = new AbortController();
+        legs.push(leg);
+        running++;
+        this.runOn(operation, lease, conn, legTimeoutMs, leg.signal, call.method).then(
+          result => {
+            running--;
+            if (settled) return;
+            if (isHedge) budget.recordWin();
+            // Drop the slower request
+            legs.forEach(c => c !== leg && c.abort());
+            settle(() => resolve(result));
+          },
+          err => {
+            running--;
+            if (settled) return;
+            if (signal?.aborted) return settle(() => reject(new RpcAbortedError()));
+            if (isHedge) failedIndexes.push(lease.index);
+            else primaryError = err;
+            // Keep waiting while the other request is pending or being sent
+            if (running === 0 && !hedging) settle(() => reject(primaryError ?? err));
+          }
+        );
+      };
+
+      const sendHedge = async (): Promise<boolean> => {
+        if (!budget.tryTake()) return false;
+        const picked = this.poolManager.pickNextRpc({ ...call, avoidIndexes: [...failedIndexes, primaryIndex] });
+        // A hedge is only worth it on another endpoint that can take the call right away
+        const lease = picked.index < 0 || !picked.connection || picked.index === primaryIndex || failedIndexes.includes(picked.index) ||
+          !this.poolManager.hasRpcTokens(picked.index, call.method)
+          ? null
+          : await this.poolManager.acquireRpc(picked.index, call.method, undefined, units);
+        if (!lease || !picked.connection) {
+          budget.refund();
+          return false;
+        }
+        if (settled) {
+          this.poolManager.releaseRpc(lease, { aborted: true });
+          budget.refund();
+          return false;
+        }
+        start(lease, picked.connection, timeoutMs - delayMs, true);
+        return true;
+      };
+
+      start(primary, primaryConn, timeoutMs, false);
+      if (delayMs < timeoutMs) {
+        hedgeTimer = setTimeout(() => {
+          hedgeTimer = undefined;
+          if (settled) return;
+          hedging = true;
+          sendHedge()
+            .catch(() => false)
+            .then(sent => {
+              hedging = false;
+              // The primary failed while the hedge was being set up and none went out
+              if (!sent && !settled && running === 0) settle(() => reject(primaryError));
+            });
+        }, delayMs);
+      }
+    });
+  }
+
+  /**
+   * Execute operation with timeout, giving up early if the signal fires
+   * (the underlying HTTP request cannot be cancelled, its result is dropped)
+   */
+  private executeWithTimeout<T>(promise: Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) return reject(new RpcAbortedError());
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new RpcAbortedError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(new Error('RPC timeout'));
+      }, timeoutMs);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      promise.then(
+        result => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        err => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+          reject(err);
+        }
+      );
+    });
   }
 
   /**
@@ -215,6 +429,9 @@ export class RpcPoolConnection {
   private classifyError(err: any): string {
     const message = (err?.message || String(err)).toLowerCase();
 
+    const methodError = classifyMethodError(message, err?.code);
+    if (methodError) return methodError;
+
     if (message.includes('429') || message.includes('rate limit')) return '429';
     if (message.includes('402') || message.includes('insufficient') || message.includes('payment')) return '402';
     if (message.includes('timeout') || message.includes('timed out')) return 'timeout';
@@ -222,6 +439,26 @@ export class RpcPoolConnection {
     return 'other';
   }
 
+  /**
+   * Run a call through the pool manager's call cache: identical concurrent calls share one
+   * upstream request and results are reused for `memoTtlMs` (or the method's default)
+   */
+  private cached<T>(
+    key: string,
+    params: any[],
+    opts: RpcOperationOptions | undefined,
+    defaultTtlMs: number,
+    run: (opts: RpcOperationOptions) => Promise<T>,
+    cacheable?: (value: T) => boolean
+  ): Promise<T> {
+    return this.poolManager.getCallCache().run(
+      key,
+      params,
+      signal => run({ ...opts, signal }),
+      { ttlMs: opts?.memoTtlMs ?? defaultTtlMs, cacheable, signal: opts?.signal }
+    );
+  }
+
   // ============ Connection API Wrappers ============
 
   /**
@@ -229,14 +466,25 @@ export class RpcPoolConnection {
    */
   async getTransaction(
     signature: string,
-    opts?: RpcOperationOptions & { maxSupportedTransactionVersion?: number }
+    opts?: RpcOperationOptions & { maxSupportedTransactionVersion?: number; commitment?: 'confirmed' | 'finalized' }
   ): Promise<any | null> {
-    return this.executeWithPool(
-      async (conn, _index) =>
-        conn.getTransaction(signature, {
-          maxSupportedTransactionVersion: opts?.maxSupportedTransactionVersion,
-        }),
-      opts
+    const cache = this.poolManager.getCallCache();
+    return this.cached(
+      'getTransaction',
+      [signature, opts?.maxSupportedTransactionVersion, opts?.commitment],
+      opts,
+      cache.immutableTtlMs,
+      o => this.executeWithPool(
+        async (conn, _index) =>
+          conn.getTransaction(signature, {
+            maxSupportedTransactionVersion: opts?.maxSupportedTransactionVersion,
+            commitment: opts?.commitment,
+          }),
+        o,
+        'getTransaction'
+      ),
+      // A transaction not found yet may still land, and a confirmed one may still be dropped
+      tx => tx !== null && cache.isFinalized(tx.slot, opts?.commitment)
     );
   }
 
@@ -247,14 +495,24 @@ export class RpcPoolConnection {
     address: PublicKey,
     opts?: RpcOperationOptions & { limit?: number; before?: string; until?: string }
   ): Promise<ConfirmedSignatureInfo[]> {
-    return this.executeWithPool(
-      async (conn, _index) =>
-        conn.getSignaturesForAddress(address, {
-          limit: opts?.limit,
-          before: opts?.before,
-          until: opts?.until,
-        }),
-      opts
+    // Pages reaching the head of the chain (first page, or down to `until`) change with every
+    // new transaction: only share them while in flight
+    const atHead = !opts?.before || !!opts?.until;
+    return this.cached(
+      'getSignaturesForAddress',
+      [address, { limit: opts?.limit, before: opts?.before, until: opts?.until }],
+      opts,
+      atHead ? 0 : this.poolManager.getCallCache().mutableTtlMs,
+      o => this.executeWithPool(
+        async (conn, _index) =>
+          conn.getSignaturesForAddress(address, {
+            limit: opts?.limit,
+            before: opts?.before,
+            until: opts?.until,
+          }),
+        o,
+        'getSignaturesForAddress'
+      )
     );
   }
 
@@ -263,14 +521,24 @@ export class RpcPoolConnection {
    */
   async getParsedTransaction(
     signature: string,
-    opts?: RpcOperationOptions & { maxSupportedTransactionVersion?: number }
+    opts?: RpcOperationOptions & { maxSupportedTransactionVersion?: number; commitment?: 'confirmed' | 'finalized' }
   ): Promise<ParsedTransactionWithMeta | null> {
-    return this.executeWithPool(
-      async (conn, _index) =>
-        conn.getParsedTransaction(signature, {
-          maxSupportedTransactionVersion: opts?.maxSupportedTransactionVersion,
-        }),
-      opts
+    const cache = this.poolManager.getCallCache();
+    return this.cached(
+      'getParsedTransaction',
+      [signature, opts?.maxSupportedTransactionVersion, opts?.commitment],
+      opts,
+      cache.immutableTtlMs,
+      o => this.executeWithPool(
+        async (conn, _index) =>
+          conn.getParsedTransaction(signature, {
+            maxSupportedTransactionVersion: opts?.maxSupportedTransactionVersion,
+            commitment: opts?.commitment,
+          }),
+        o,
+        'getTransaction'
+      ),
+      tx => tx !== null && cache.isFinalized(tx.slot, opts?.commitment)
     );
   }
 
@@ -281,12 +549,19 @@ export class RpcPoolConnection {
     address: PublicKey,
     opts?: RpcOperationOptions & { commitment?: 'processed' | 'confirmed' | 'finalized' }
   ): Promise<AccountInfo<Buffer> | null> {
-    return this.executeWithPool(
-      async (conn, _index) =>
-        conn.getAccountInfo(address, {
-          commitment: opts?.commitment,
-        }),
-      opts
+    return this.cached(
+      'getAccountInfo',
+      [address, opts?.commitment],
+      opts,
+      this.poolManager.getCallCache().mutableTtlMs,
+      o => this.executeWithPool(
+        async (conn, _index) =>
+          conn.getAccountInfo(address, {
+            commitment: opts?.commitment,
+          }),
+        o,
+        'getAccountInfo'
+      )
     );
   }
 
@@ -297,23 +572,168 @@ export class RpcPoolConnection {
     address: PublicKey,
     opts?: RpcOperationOptions & { commitment?: 'processed' | 'confirmed' | 'finalized' }
   ): Promise<any | null> {
-    return this.executeWithPool(
-      async (conn, _index) =>
-        conn.getParsedAccountInfo(address, {
-          commitment: opts?.commitment,
-        }),
-      opts
+    return this.cached(
+      'getParsedAccountInfo',
+      [address, opts?.commitment],
+      opts,
+      this.poolManager.getCallCache().mutableTtlMs,
+      o => this.executeWithPool(
+        async (conn, _index) =>
+          conn.getParsedAccountInfo(address, {
+            commitment: opts?.commitment,
+          }),
+        o,
+        'getAccountInfo'
+      )
     );
   }
 
+  /**
+   * Fetch many accounts with getMultipleAccounts (chunks of 100 keys, a few in parallel).
+   * Accounts memoized by getAccountInfo are reused and the fetched ones are memoized for it.
+   * A chunk that fails is retried on another endpoint; if it keeps failing the call throws.
+   */
+  async getMultipleAccountsInfo(
+    addresses: PublicKey[],
+    opts?: RpcOperationOptions & { commitment?: 'processed' | 'confirmed' | 'finalized' }
+  ): Promise<(AccountInfo<Buffer> | null)[]> {
+    const cache = this.poolManager.getCallCache();
+    const ttlMs = opts?.memoTtlMs ?? cache.mutableTtlMs;
+    const results: (AccountInfo<Buffer> | null)[] = new Array(addresses.length).fill(null);
+    const missing: number[] = [];
+    addresses.forEach((address, i) => {
+      const memoized = ttlMs > 0 ? cache.peek<AccountInfo<Buffer> | null>('getAccountInfo', [address, opts?.commitment]) : undefined;
+      if (memoized) results[i] = memoized.value;
+      else missing.push(i);
+    });
+
+    const chunks: number[][] = [];
+    for (let i = 0; i < missing.length; i += MAX_MULTIPLE_ACCOUNTS) {
+      chunks.push(missing.slice(i, i + MAX_MULTIPLE_ACCOUNTS));
+    }
+    await forEachConcurrently(chunks, CHUNK_CONCURRENCY, async chunk => {
+      const keys = chunk.map(i => addresses[i]);
+      const infos = await this.cached(
+        'getMultipleAccountsInfo',
+        [keys, opts?.commitment],
+        opts,
+        0,
+        o => this.executeWithPool(
+          async (conn, _index) => conn.getMultipleAccountsInfo(keys, { commitment: opts?.commitment }),
+          o,
+          'getMultipleAccounts'
+        )
+      );
+      chunk.forEach((addressIndex, j) => {
+        const info = infos[j] ?? null;
+        results[addressIndex] = info;
+        cache.store('getAccountInfo', [addresses[addressIndex], opts?.commitment], info, ttlMs);
+      });
+    });
+    return results;
+  }
+
+  /**
+   * Send arbitrary JSON-RPC requests as batches (one HTTP request per chunk, sized to what the
+   * endpoints accept). Requests that fail inside a batch are retried together on another
+   * endpoint; results come back in request order, with `error` set for those that kept failing.
+   */
+  async rpcBatch<T = any>(
+    requests: RpcBatchRequest[],
+    opts: RpcOperationOptions & { maxBatchSize?: number } = {}
+  ): Promise<RpcBatchResult<T>[]> {
+    const maxRetries = opts.maxRetries ?? this.defaultMaxRetries;
+    const results: RpcBatchResult<T>[] = requests.map(() => ({ error: { message: 'not sent' } }));
+    const methods = new Set(requests.map(r => r.method));
+    // Capability routing only applies when the whole batch is one method
+    const method = methods.size === 1 ? requests[0]?.method : undefined;
+    const batchLimit = Math.min(opts.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE, this.poolManager.getMaxBatchSize(DEFAULT_MAX_BATCH_SIZE));
+    if (batchLimit < 1) throw new Error('No RPC endpoint in the pool accepts JSON-RPC batches');
+
+    let pending = requests.map((_, i) => i);
+    const failedIndexes: number[] = [];
+    for (let round = 0; round <= maxRetries && pending.length > 0; round++) {
+      throwIfAborted(opts.signal);
+      const retry: number[] = [];
+      const chunks: number[][] = [];
+      for (let i = 0; i < pending.length; i += batchLimit) {
+        chunks.push(pending.slice(i, i + batchLimit));
+      }
+      await forEachConcurrently(chunks, CHUNK_CONCURRENCY, async chunk => {
+        let usedIndex = -1;
+        try {
+          const responses = await this.executeWithPool(
+            async (conn, index) => {
+              usedIndex = index;
+              return this.postBatch(conn, chunk.map(i => requests[i]), opts.signal);
+            },
+            { ...opts, maxRetries: 0 },
+            method,
+            { batchSize: chunk.length, avoidIndexes: failedIndexes }
+          );
+          let chunkFailed = false;
+          chunk.forEach((requestIndex, j) => {
+            const response = responses.get(j);
+            if (response && response.error === undefined) {
+              results[requestIndex] = { result: response.result };
+              return;
+            }
+            const error = response?.error
+              ? { code: response.error.code, message: response.error.message || String(response.error) }
+              : { message: 'missing from batch response' };
+            results[requestIndex] = { error };
+            if (error.code === undefined || !PERMANENT_BATCH_ERROR_CODES.includes(error.code)) {
+              retry.push(requestIndex);
+              chunkFailed = true;
+            }
+          });
+          if (chunkFailed && usedIndex >= 0) failedIndexes.push(usedIndex);
+        } catch (err: any) {
+          if (isAbortError(err) || isFixtureMissingError(err)) throw err;
+          if (usedIndex >= 0) failedIndexes.push(usedIndex);
+          for (const requestIndex of chunk) {
+            results[requestIndex] = { error: { message: err?.message || String(err) } };
+            retry.push(requestIndex);
+          }
+        }
+      });
+      pending = retry;
+    }
+    return results;
+  }
+
+  /**
+   * POST one JSON-RPC batch to the connection's endpoint; responses keyed by position in `requests`
+   */
+  private async postBatch(conn: Connection, requests: RpcBatchRequest[], signal?: AbortSignal): Promise<Map<number, any>> {
+    const body = requests.map((r, id) => ({ jsonrpc: '2.0', id, method: r.method, params: r.params ?? [] }));
+    const response = await (getRpcFetch() ?? fetch)(conn.rpcEndpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: signal as any,
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}: ${(await response.text()).slice(0, 200)}`);
+    }
+    const payload: any = await response.json();
+    if (!Array.isArray(payload)) {
+      // Providers without batch support answer with a single error object (set maxBatchSize: 0 for them)
+      throw new Error(`Batch request rejected: ${payload?.error?.message || JSON.stringify(payload).slice(0, 200)}`);
+    }
+    return new Map(payload.map((r: any) => [Number(r.id), r]));
+  }
+
   /**
    * Get epoch info
    */
   async getEpochInfo(opts?: RpcOperationOptions & { commitment?: 'processed' | 'confirmed' | 'finalized' }): Promise<any> {
-    return this.executeWithPool(
-      async (conn, _index) =>
-        conn.getEpochInfo(opts?.commitment),
-      opts
+    return this.cached(
+      'getEpochInfo',
+      [opts?.commitment],
+      opts,
+      0,
+      o => this.executeWithPool(async (conn, _index) => conn.getEpochInfo(opts?.commitment), o, 'getEpochInfo')
     );
   }
 
@@ -321,11 +741,24 @@ export class RpcPoolConnection {
    * Get slot
    */
   async getSlot(opts?: RpcOperationOptions & { commitment?: 'processed' | 'confirmed' | 'finalized' }): Promise<number> {
-    return this.executeWithPool(
-      async (conn, _index) =>
-        conn.getSlot(opts?.commitment),
-      opts
+    const slot = await this.cached(
+      'getSlot',
+      [opts?.commitment],
+      opts,
+      0,
+      o => this.executeWithPool(async (conn, _index) => conn.getSlot(opts?.commitment), o, 'getSlot')
     );
+    // Lets transactions up to this slot be memoized
+    if (opts?.commitment === 'finalized') this.poolManager.getCallCache().noteFinalizedSlot(slot);
+    return slot;
+  }
+
+  /**
+   * Run a client library call that issues `method` itself (e.g. an SDK scanning program accounts)
+   * on a pool endpoint declaring that capability, with the same timeout, retries and abort as the calls above
+   */
+  async runWithPool<T>(method: string, operation: (conn: Connection) => Promise<T>, opts?: RpcOperationOptions): Promise<T> {
+    return this.executeWithPool(async (conn, _index) => operation(conn), opts, method);
   }
 
   /**
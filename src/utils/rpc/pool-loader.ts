@@ -1,53 +1,141 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { newConnection } from '../anchor-setup.js';
-import { RpcEntry, RpcMeta, IRpcPool } from './types.js';
+import { RpcEntry, RpcEntryConfig, RpcMeta, IRpcPool, RpcPoolConfig, RpcPoolDiff, RpcSelectionStrategyName } from './types.js';
+import { isRpcSelectionStrategyName } from './selection-strategies.js';
+import { LATENCY_BUCKETS_MS } from './metrics.js';
+import { registerEndpointUrl, registerSecret } from './redact.js';
+import { getRpcFixturesDir, getRpcRecordMode, REPLAY_RPC_URL } from './record-replay.js';
+
+// Kept out of the statically served public/ directory: the file holds (references to) API keys
+export const DEFAULT_RPC_POOL_FILE = process.env.RPC_POOL_FILE || 'config/rpc-pool.json';
+
+const ENV_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+/**
+ * Replace `${VAR}` references with environment values; the values are registered as secrets
+ * so they get redacted from logs. Unset variables are collected in `missing`.
+ */
+export function interpolateEnv(value: string, missing: string[] = []): string {
+  return value.replace(ENV_REFERENCE, (_m, name: string) => {
+    const resolved = process.env[name];
+    if (resolved === undefined || resolved === '') {
+      missing.push(name);
+      return '';
+    }
+    registerSecret(resolved);
+    return resolved;
+  });
+}
+
+/**
+ * Fail when a pool file would be served to the public: the configured pool file inside
+ * `staticRoot`, or any rpc-pool*.json lying there.
+ */
+export function assertPoolFileNotServed(staticRoot: string, configPath: string = DEFAULT_RPC_POOL_FILE): void {
+  const root = path.resolve(staticRoot);
+  const poolPath = path.resolve(process.cwd(), configPath);
+  if (poolPath === root || poolPath.startsWith(root + path.sep)) {
+    throw new Error(`RPC pool file ${poolPath} is inside the served directory ${root}; move it out (RPC_POOL_FILE)`);
+  }
+  const exposed = fs.existsSync(root) ? fs.readdirSync(root).filter(f => /^rpc-pool.*\.json$/i.test(f)) : [];
+  if (exposed.length > 0) {
+    throw new Error(`RPC pool file(s) found in the served directory ${root}: ${exposed.join(', ')}; move them out of it`);
+  }
+}
+
+/**
+ * Normalize the parsed rpc-pool.json (bare array or { strategy, endpoints })
+ */
+export function parseRpcPoolConfig(parsed: any): RpcPoolConfig {
+  if (Array.isArray(parsed)) return { endpoints: parsed };
+  if (parsed && Array.isArray(parsed.endpoints)) {
+    if (parsed.strategy !== undefined && !isRpcSelectionStrategyName(parsed.strategy)) {
+      console.warn(`[rpc-pool] Unknown selection strategy "${parsed.strategy}", using round-robin`);
+      return { endpoints: parsed.endpoints };
+    }
+    return { strategy: parsed.strategy, endpoints: parsed.endpoints };
+  }
+  throw new Error('rpc-pool.json must be an array of endpoints or { "strategy", "endpoints" }');
+}
+
+function freshMeta(): RpcMeta {
+  return {
+    failures: 0,
+    successes: 0,
+    healthy: true,
+    circuit: 'closed',
+    halfOpenInFlight: 0,
+    halfOpenSuccesses: 0,
+    stale: false,
+    processedTxs: 0,
+    currentConcurrent: 0,
+    avgLatencyMs: undefined,
+    latencySamples: [],
+    latencyBuckets: LATENCY_BUCKETS_MS.map(() => 0).concat(0),
+    latencySumMs: 0,
+    requests: {},
+    errorCounts: { rateLimit429: 0, payment402: 0, timeout: 0, other: 0 },
+    selectedCount: 0,
+    methodHealth: {},
+    rateLimitedCalls: 0,
+    rateLimitWaitMs: 0,
+  };
+}
+
+// Forget the health of an endpoint that now points elsewhere; counters, latency and the
+// slots in flight are kept (same object, so callers holding it stay in sync)
+function resetHealth(meta: RpcMeta): RpcMeta {
+  const fresh = freshMeta();
+  return Object.assign(meta, {
+    failures: fresh.failures,
+    successes: fresh.successes,
+    lastFailureAt: undefined,
+    healthy: fresh.healthy,
+    circuit: fresh.circuit,
+    lastOpenMs: undefined,
+    halfOpenSuccesses: fresh.halfOpenSuccesses,
+    lastProbeAt: undefined,
+    lastSlot: undefined,
+    slotLag: undefined,
+    stale: fresh.stale,
+    backoffUntil: undefined,
+    methodHealth: fresh.methodHealth,
+    rateTokens: undefined,
+    rateRefilledAt: undefined,
+  });
+}
 
 export class RpcPoolLoader implements IRpcPool {
   private pool: RpcEntry[] = [];
   private meta: RpcMeta[] = [];
+  // Endpoints as written in the file (no defaults applied), used when saving changes back
+  private configEntries: RpcEntryConfig[] = [];
+  private configStrategy?: RpcSelectionStrategyName;
+  private configWasArray = true;
+  private strategy: RpcSelectionStrategyName = 'round-robin';
   private loaded = false;
+  private lastRaw?: string;
+  private watcher?: fs.FSWatcher;
 
-  constructor(private configPath: string = 'public/rpc-pool.json') {}
+  constructor(private configPath: string = DEFAULT_RPC_POOL_FILE) {}
+
+  getConfigPath(): string {
+    return path.resolve(process.cwd(), this.configPath);
+  }
 
   load(): void {
     if (this.loaded && this.pool.length > 0) return;
 
+    const fullPath = this.getConfigPath();
     try {
-      const fullPath = path.join(process.cwd(), this.configPath);
-      const raw = fs.readFileSync(fullPath, 'utf8');
-      const parsed = JSON.parse(raw) as Array<{
-        name: string;
-        url: string;
-        ws?: string | null;
-        maxConcurrent?: number;
-        cooldownMs?: number;
-        backoffBaseMs?: number;
-      }>;
-
-      this.pool = parsed.map(r => ({
-        ...r,
-        connection: newConnection(r.url, r.ws || undefined),
-        maxConcurrent: r.maxConcurrent || Number(process.env.RPC_MAX_CONCURRENT_PER_ENDPOINT || 12),
-        cooldownMs: r.cooldownMs || Number(process.env.RPC_COOLDOWN_MS || 60000),
-        backoffBaseMs: r.backoffBaseMs || Number(process.env.RPC_BACKOFF_BASE_MS || 2000),
-      }));
-
-      this.meta = parsed.map(_ => ({
-        failures: 0,
-        successes: 0,
-        healthy: true,
-        processedTxs: 0,
-        currentConcurrent: 0,
-        avgLatencyMs: undefined,
-        errorCounts: { rateLimit429: 0, payment402: 0, timeout: 0, other: 0 },
-      }));
-
-      console.log(`[rpc-pool] Loaded ${this.pool.length} RPC endpoints from ${fullPath}`);
+      this.applyConfig(this.readConfig());
+      const source = getRpcRecordMode() === 'replay' ? `RPC fixtures in ${getRpcFixturesDir()}` : fullPath;
+      console.log(`[rpc-pool] Loaded ${this.pool.length} RPC endpoints from ${source} (strategy: ${this.strategy})`);
       this.loaded = true;
     } catch (e: any) {
       console.error('[rpc-pool] ERROR loading rpc-pool.json:', e.message);
-      console.error('[rpc-pool] Tried path:', path.join(process.cwd(), this.configPath));
+      console.error('[rpc-pool] Tried path:', fullPath);
       console.error('[rpc-pool] Current working directory:', process.cwd());
       console.warn('[rpc-pool] Falling back to single default endpoint');
       this.pool = [];
@@ -56,6 +144,74 @@ export class RpcPoolLoader implements IRpcPool {
     }
   }
 
+  /**
+   * Re-read the pool file and apply it. Health and metrics are kept for endpoints whose
+   * name, url and ws are unchanged; an endpoint whose url/ws changed keeps its metrics only. On a read/parse error the current pool stays in place.
+   */
+  reload(): RpcPoolDiff {
+    const diff = this.applyConfig(this.readConfig());
+    this.loaded = true;
+    return diff;
+  }
+
+  /**
+   * Write a new config to the pool file (atomically) and apply it
+   */
+  saveConfig(config: RpcPoolConfig): RpcPoolDiff {
+    const keepArray = this.configWasArray && !config.strategy;
+    const raw = JSON.stringify(keepArray ? config.endpoints : config, null, 2) + '\n';
+    const fullPath = this.getConfigPath();
+    const tmpPath = `${fullPath}.tmp`;
+    fs.writeFileSync(tmpPath, raw, 'utf8');
+    fs.renameSync(tmpPath, fullPath);
+    this.lastRaw = raw;
+    this.configWasArray = keepArray;
+    return this.applyConfig(config);
+  }
+
+  getConfig(): RpcPoolConfig {
+    this.load();
+    return {
+      strategy: this.configStrategy,
+      endpoints: this.configEntries.map(e => ({ ...e })),
+    };
+  }
+
+  /**
+   * Watch the pool file and re-apply it on change. The callback receives the diff
+   * (or the error when the new file is invalid).
+   */
+  watch(onChange: (diff: RpcPoolDiff | null, err?: Error) => void): void {
+    if (this.watcher) return;
+    const fullPath = this.getConfigPath();
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      this.watcher = fs.watch(path.dirname(fullPath), (_event, filename) => {
+        if (filename && filename.toString() !== path.basename(fullPath)) return;
+        // Editors write in several steps: wait for the file to settle
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => {
+          try {
+            const raw = fs.readFileSync(fullPath, 'utf8');
+            if (raw === this.lastRaw) return;
+            onChange(this.reload());
+          } catch (err: any) {
+            onChange(null, err);
+          }
+        }, 300);
+      });
+      this.watcher.unref();
+      console.log(`[rpc-pool] Watching ${fullPath} for changes`);
+    } catch (err: any) {
+      console.error('[rpc-pool] Cannot watch pool file:', err.message);
+    }
+  }
+
+  unwatch(): void {
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
   getPool(): RpcEntry[] {
     this.load();
     return this.pool;
@@ -66,6 +222,11 @@ export class RpcPoolLoader implements IRpcPool {
     return this.meta;
   }
 
+  getStrategy(): RpcSelectionStrategyName {
+    this.load();
+    return this.strategy;
+  }
+
   getSize(): number {
     return this.getPool().length;
   }
@@ -81,6 +242,89 @@ export class RpcPoolLoader implements IRpcPool {
     if (index < 0 || index >= meta.length) return null;
     return meta[index];
   }
+
+  indexOf(name: string): number {
+    return this.getPool().findIndex(e => e.name === name);
+  }
+
+  private readConfig(): RpcPoolConfig {
+    // Replay: a single stand-in endpoint answered from the fixtures, whatever the pool file says
+    if (getRpcRecordMode() === 'replay') return { endpoints: [{ name: 'replay', url: REPLAY_RPC_URL }] };
+    const raw = fs.readFileSync(this.getConfigPath(), 'utf8');
+    const parsed = JSON.parse(raw);
+    const config = parseRpcPoolConfig(parsed);
+    const names = new Set<string>();
+    for (const e of config.endpoints) {
+      if (!e || !e.name || !e.url) throw new Error('every endpoint needs a name and a url');
+      // The name identifies the endpoint's slots, health and metrics across reloads
+      if (names.has(e.name)) throw new Error(`duplicate endpoint name: ${e.name}`);
+      names.add(e.name);
+    }
+    this.lastRaw = raw;
+    this.configWasArray = Array.isArray(parsed);
+    return config;
+  }
+
+  private applyConfig(config: RpcPoolConfig): RpcPoolDiff {
+    const previous = new Map(this.pool.map((e, i) => [e.name, { entry: e, meta: this.meta[i] }]));
+    const diff: RpcPoolDiff = { added: [], removed: [], updated: [], unchanged: [] };
+    const pool: RpcEntry[] = [];
+    const meta: RpcMeta[] = [];
+
+    for (const r of config.endpoints) {
+      const missing: string[] = [];
+      const url = interpolateEnv(r.url, missing);
+      const ws = r.ws ? interpolateEnv(r.ws, missing) : r.ws;
+      if (missing.length > 0) {
+        console.warn(`[rpc-pool] Skipping endpoint ${r.name}: ${[...new Set(missing)].join(', ')} not set`);
+        continue;
+      }
+      // Keys written into the pool file itself, not only those read from the environment
+      registerEndpointUrl(url);
+      registerEndpointUrl(ws);
+      const entry: RpcEntry = {
+        ...r,
+        url,
+        ws,
+        maxConcurrent: r.maxConcurrent || Number(process.env.RPC_MAX_CONCURRENT_PER_ENDPOINT || 12),
+        cooldownMs: r.cooldownMs || Number(process.env.RPC_COOLDOWN_MS || 60000),
+        backoffBaseMs: r.backoffBaseMs || Number(process.env.RPC_BACKOFF_BASE_MS || 2000),
+      };
+      const prev = previous.get(r.name);
+      previous.delete(r.name);
+      if (prev && prev.entry.url === entry.url && (prev.entry.ws || null) === (entry.ws || null)) {
+        // Same endpoint: keep connection and health/metrics state
+        entry.connection = prev.entry.connection;
+        pool.push(entry);
+        meta.push(prev.meta);
+        const { connection: _a, ...before } = prev.entry;
+        const { connection: _b, ...after } = entry;
+        (JSON.stringify(before) === JSON.stringify(after) ? diff.unchanged : diff.updated).push(r.name);
+      } else if (prev) {
+        // Moved to another URL: new connection and a clean bill of health, but the slots in
+        // flight and the metrics stay with the endpoint
+        entry.connection = newConnection(url, ws || undefined);
+        pool.push(entry);
+        meta.push(resetHealth(prev.meta));
+        diff.updated.push(r.name);
+        console.log(`[rpc-pool] ${r.name}: URL changed, health state reset`);
+      } else {
+        entry.connection = newConnection(url, ws || undefined);
+        pool.push(entry);
+        meta.push(freshMeta());
+        diff.added.push(r.name);
+      }
+    }
+    diff.removed.push(...previous.keys());
+
+    this.pool = pool;
+    this.meta = meta;
+    this.configEntries = config.endpoints.map(e => ({ ...e }));
+    this.configStrategy = config.strategy;
+    const envStrategy = process.env.RPC_SELECTION_STRATEGY;
+    this.strategy = isRpcSelectionStrategyName(envStrategy) ? envStrategy : (config.strategy || 'round-robin');
+    return diff;
+  }
 }
 
 export function createRpcPoolLoader(configPath?: string): RpcPoolLoader {
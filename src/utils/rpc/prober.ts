@@ -0,0 +1,88 @@
+import { RpcHealthManager } from './health-manager.js';
+import { RpcPoolLoader } from './pool-loader.js';
+
+const PROBE_INTERVAL_MS = Number(process.env.RPC_PROBE_INTERVAL_MS || 15000);
+const PROBE_TIMEOUT_MS = Number(process.env.RPC_PROBE_TIMEOUT_MS || 5000);
+// Slots an endpoint may trail the pool median before it is flagged stale
+const MAX_SLOT_LAG = Number(process.env.RPC_MAX_SLOT_LAG || 50);
+
+/**
+ * Periodically probes every enabled endpoint with getSlot.
+ * Probes let open circuits recover without risking real traffic, and the reported slots
+ * flag endpoints that answer but trail the rest of the pool (stale data).
+ */
+export class RpcHealthProber {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(private poolLoader: RpcPoolLoader, private healthManager: RpcHealthManager) {}
+
+  start(intervalMs = PROBE_INTERVAL_MS): void {
+    if (this.timer || !(intervalMs > 0)) return;
+    this.timer = setInterval(() => {
+      this.runOnce().catch(err => console.error('[rpc-prober] Probe round failed:', err?.message || err));
+    }, intervalMs);
+    this.timer.unref();
+    console.log(`[rpc-prober] Probing ${this.poolLoader.getSize()} endpoints every ${intervalMs}ms`);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Probe all enabled endpoints once, then recompute slot lag (skipped if a round is still running)
+   */
+  async runOnce(timeoutMs = PROBE_TIMEOUT_MS): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const pool = this.poolLoader.getPool();
+      const indexes = pool.map((_, idx) => idx).filter(idx => !pool[idx].disabled);
+      await Promise.all(indexes.map(idx => this.healthManager.probe(idx, timeoutMs)));
+      this.updateStaleness();
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Compare each endpoint's last probed slot with the pool median
+   */
+  updateStaleness(now = Date.now()): void {
+    const pool = this.poolLoader.getPool();
+    const meta = this.poolLoader.getMeta();
+    // Only slots from the last couple of rounds are comparable
+    const maxAge = PROBE_INTERVAL_MS * 2 + PROBE_TIMEOUT_MS;
+    const fresh = (idx: number) => {
+      const m = meta[idx];
+      return !!m && !pool[idx].disabled && m.lastSlot !== undefined && !!m.lastProbeAt && now - m.lastProbeAt <= maxAge;
+    };
+
+    const slots = pool.map((_, idx) => idx).filter(fresh).map(idx => meta[idx].lastSlot!).sort((a, b) => a - b);
+    if (slots.length === 0) return;
+    const mid = Math.floor(slots.length / 2);
+    const median = slots.length % 2 ? slots[mid] : Math.round((slots[mid - 1] + slots[mid]) / 2);
+
+    for (let idx = 0; idx < pool.length; idx++) {
+      const m = meta[idx];
+      if (!m) continue;
+      if (!fresh(idx)) {
+        m.slotLag = undefined;
+        m.stale = false;
+        continue;
+      }
+      m.slotLag = Math.max(0, median - m.lastSlot!);
+      const stale = m.slotLag > MAX_SLOT_LAG;
+      if (stale !== m.stale) {
+        console.warn(`[rpc-prober] RPC index ${idx} (${pool[idx].name}) ${stale ? `is ${m.slotLag} slots behind the pool, flagged stale` : 'caught up with the pool'}`);
+      }
+      m.stale = stale;
+    }
+  }
+}
+
+export function createRpcHealthProber(poolLoader: RpcPoolLoader, healthManager: RpcHealthManager): RpcHealthProber {
+  return new RpcHealthProber(poolLoader, healthManager);
+}
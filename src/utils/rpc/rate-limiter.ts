@@ -0,0 +1,90 @@
+import { RpcPoolLoader } from './pool-loader.js';
+import { IRpcRateLimiter, RpcEntry, RpcMeta } from './types.js';
+
+/**
+ * Tokens a call costs on this endpoint. A JSON-RPC batch costs one call per request (`units`)
+ * and may exceed the bucket: the reservation drives it negative and the caller waits the refill.
+ * A single call is capped at the bucket, or a heavy method could never run.
+ */
+export function rateCostOf(entry: RpcEntry, method?: string, units = 1): number {
+  const limit = entry.rateLimit;
+  if (!limit) return 0;
+  const cost = ((method && limit.methodCosts?.[method]) || 1) * units;
+  return units > 1 ? cost : Math.min(cost, burstOf(entry));
+}
+
+function burstOf(entry: RpcEntry): number {
+  const limit = entry.rateLimit!;
+  return Math.max(1, limit.burst ?? limit.requestsPerSecond);
+}
+
+/**
+ * Bring the bucket up to date; returns the tokens now available
+ */
+export function refillRateTokens(entry: RpcEntry, meta: RpcMeta, now = Date.now()): number {
+  const limit = entry.rateLimit;
+  if (!limit || !(limit.requestsPerSecond > 0)) return Infinity;
+  const burst = burstOf(entry);
+  if (meta.rateTokens === undefined || meta.rateRefilledAt === undefined) {
+    meta.rateTokens = burst;
+  } else {
+    const refill = ((now - meta.rateRefilledAt) / 1000) * limit.requestsPerSecond;
+    // The limit may have been lowered by a pool reload
+    meta.rateTokens = Math.min(burst, meta.rateTokens + refill);
+  }
+  meta.rateRefilledAt = now;
+  return meta.rateTokens;
+}
+
+/**
+ * Per-endpoint token buckets (RpcEntry.rateLimit). Callers reserve tokens before a call
+ * and wait the returned delay, so requests are spread out instead of bouncing off 429s.
+ * Endpoints without a rateLimit are unlimited.
+ */
+export class RpcRateLimiter implements IRpcRateLimiter {
+  constructor(private poolLoader: RpcPoolLoader) {}
+
+  /**
+   * Whether a call could start right now without waiting
+   */
+  hasTokens(index: number, method?: string): boolean {
+    const entry = this.poolLoader.getEntry(index);
+    const meta = this.poolLoader.getMetaAt(index);
+    if (!entry?.rateLimit || !meta) return true;
+    return refillRateTokens(entry, meta) >= rateCostOf(entry, method);
+  }
+
+  /**
+   * Take the call's tokens and return how long (ms) to wait before sending it.
+   * Tokens are reserved even when the bucket is short, so concurrent callers queue up in order.
+   */
+  reserve(index: number, method?: string, units = 1): number {
+    const entry = this.poolLoader.getEntry(index);
+    const meta = this.poolLoader.getMetaAt(index);
+    if (!entry?.rateLimit || !meta || !(entry.rateLimit.requestsPerSecond > 0)) return 0;
+
+    const tokens = refillRateTokens(entry, meta) - rateCostOf(entry, method, units);
+    meta.rateTokens = tokens;
+    if (tokens >= 0) return 0;
+
+    const waitMs = Math.ceil((-tokens / entry.rateLimit.requestsPerSecond) * 1000);
+    meta.rateLimitedCalls++;
+    meta.rateLimitWaitMs += waitMs;
+    return waitMs;
+  }
+
+  /**
+   * Give back the tokens of a call that was reserved but never sent (e.g. aborted while waiting)
+   */
+  refund(index: number, method?: string, units = 1): void {
+    const entry = this.poolLoader.getEntry(index);
+    const meta = this.poolLoader.getMetaAt(index);
+    if (!entry?.rateLimit || !meta) return;
+    refillRateTokens(entry, meta);
+    meta.rateTokens = Math.min(burstOf(entry), (meta.rateTokens ?? 0) + rateCostOf(entry, method, units));
+  }
+}
+
+export function createRpcRateLimiter(poolLoader: RpcPoolLoader): RpcRateLimiter {
+  return new RpcRateLimiter(poolLoader);
+}
@@ -0,0 +1,201 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import fetch, { RequestInit, Response } from 'node-fetch';
+import { ConnectionConfig } from '@solana/web3.js';
+
+export type RpcRecordMode = 'off' | 'record' | 'replay';
+
+/**
+ * fetch used for JSON-RPC requests: by web3.js Connections (via newConnection) and by
+ * RpcPoolConnection.rpcBatch
+ */
+export type RpcFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * fetch a web3.js Connection takes (the global fetch API)
+ */
+export type ConnectionFetch = NonNullable<ConnectionConfig['fetch']>;
+
+/**
+ * One recorded JSON-RPC call: the request (minus its id) and the result it got
+ */
+export interface RpcFixture {
+  method: string;
+  params: any[];
+  result: any;
+  recordedAt: number;
+}
+
+// Stand-in endpoint the pool is made of while replaying (never contacted)
+export const REPLAY_RPC_URL = 'http://rpc-replay.invalid';
+
+const FIXTURE_MISSING = 'No recorded RPC response';
+
+/**
+ * Raised in replay mode for a call that has no fixture. Not retried on other endpoints
+ * and not counted against the endpoint's health: record the call again instead.
+ */
+export class RpcFixtureMissingError extends Error {
+  constructor(readonly method: string, readonly params: any[], readonly fixturePath: string) {
+    super(`${FIXTURE_MISSING} for ${method} ${JSON.stringify(params).slice(0, 200)} (expected ${fixturePath})`);
+    this.name = 'RpcFixtureMissingError';
+  }
+}
+
+// web3.js wraps some errors (e.g. "failed to get info about account ...: <error>"), so match the message too
+export function isFixtureMissingError(err: any): boolean {
+  return err instanceof RpcFixtureMissingError || String(err?.message || '').includes(FIXTURE_MISSING);
+}
+
+export function getRpcRecordMode(): RpcRecordMode {
+  const mode = (process.env.RPC_RECORD_MODE || 'off').toLowerCase();
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+export function getRpcFixturesDir(): string {
+  return path.resolve(process.cwd(), process.env.RPC_FIXTURES_DIR || 'fixtures/rpc');
+}
+
+// JSON with sorted object keys, so equal params always hash the same
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().filter(k => value[k] !== undefined).map(k => `${JSON.stringify(k)}:${canonicalJson(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Fixtures on disk, one file per distinct call: <dir>/<method>/<hash of params>.json.
+ * Files hold method, params and result only (no endpoint URL, so no API key).
+ */
+export class RpcFixtureStore {
+  private writes = 0;
+
+  constructor(readonly dir: string = getRpcFixturesDir()) {}
+
+  pathFor(method: string, params: any[]): string {
+    const hash = crypto.createHash('sha256').update(canonicalJson(params)).digest('hex').slice(0, 32);
+    return path.join(this.dir, method.replace(/[^A-Za-z0-9_-]/g, '_'), `${hash}.json`);
+  }
+
+  async read(method: string, params: any[]): Promise<RpcFixture | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.pathFor(method, params), 'utf8'));
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return null;
+      throw err;
+    }
+  }
+
+  async write(fixture: RpcFixture): Promise<void> {
+    const file = this.pathFor(fixture.method, fixture.params);
+    // Hedged or repeated calls may record the same fixture concurrently
+    const tmp = `${file}.${process.pid}.${++this.writes}.tmp`;
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(tmp, JSON.stringify(fixture, null, 2), 'utf8');
+    await fs.rename(tmp, file);
+  }
+
+  /**
+   * Record the successful calls of one HTTP exchange (a single JSON-RPC request or a batch).
+   * Calls answered with an error aren't recorded: they are usually transient (429, node behind).
+   */
+  async recordExchange(requestBody: string, responseBody: string): Promise<number> {
+    const request = JSON.parse(requestBody);
+    const response = JSON.parse(responseBody);
+    const requests: any[] = Array.isArray(request) ? request : [request];
+    const responses: any[] = Array.isArray(response) ? response : [response];
+    const byId = new Map(responses.map(r => [r?.id, r]));
+    let recorded = 0;
+    for (const req of requests) {
+      const res = byId.get(req?.id);
+      if (!req?.method || !res || res.error !== undefined || res.result === undefined) continue;
+      await this.write({ method: req.method, params: req.params ?? [], result: res.result, recordedAt: Date.now() });
+      recorded++;
+    }
+    return recorded;
+  }
+}
+
+function jsonResponse(body: any): Response {
+  return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}
+
+/**
+ * fetch that forwards requests and writes every successful call to the fixture store
+ */
+export function createRecordingFetch(store: RpcFixtureStore, fetchImpl: RpcFetch = fetch): RpcFetch {
+  return async (url, init) => {
+    const response = await fetchImpl(url, init);
+    const text = await response.text();
+    if (response.ok && typeof init?.body === 'string') {
+      try {
+        await store.recordExchange(init.body, text);
+      } catch (err: any) {
+        console.warn('[rpc-record] Could not record response:', err?.message || err);
+      }
+    }
+    return new Response(text, { status: response.status, statusText: response.statusText, headers: response.headers });
+  };
+}
+
+/**
+ * fetch that answers from the fixture store without touching the network. A call without
+ * a fixture fails the whole request with RpcFixtureMissingError.
+ */
+export function createReplayFetch(store: RpcFixtureStore): RpcFetch {
+  return async (_url, init) => {
+    const body = JSON.parse(typeof init?.body === 'string' ? init.body : 'null');
+    const requests: any[] = Array.isArray(body) ? body : [body];
+    const responses: any[] = [];
+    for (const req of requests) {
+      const params = req?.params ?? [];
+      const fixture = await store.read(req?.method, params);
+      if (!fixture) {
+        const err = new RpcFixtureMissingError(req?.method, params, store.pathFor(req?.method, params));
+        console.error(`[rpc-replay] ${err.message}`);
+        throw err;
+      }
+      responses.push({ jsonrpc: '2.0', id: req.id, result: fixture.result });
+    }
+    return jsonResponse(Array.isArray(body) ? responses : responses[0]);
+  };
+}
+
+let rpcFetch: RpcFetch | undefined;
+let rpcFetchMode: RpcRecordMode | undefined;
+
+/**
+ * fetch for RPC requests in the current RPC_RECORD_MODE; undefined when off (plain fetch)
+ */
+export function getRpcFetch(): RpcFetch | undefined {
+  const mode = getRpcRecordMode();
+  if (mode !== rpcFetchMode) {
+    rpcFetchMode = mode;
+    const store = new RpcFixtureStore();
+    rpcFetch = mode === 'record' ? createRecordingFetch(store) : mode === 'replay' ? createReplayFetch(store) : undefined;
+  }
+  return rpcFetch;
+}
+
+/**
+ * getRpcFetch() adapted to the fetch API web3.js Connections call; undefined when off
+ */
+export function getConnectionFetch(): ConnectionFetch | undefined {
+  const rpcFetch = getRpcFetch();
+  if (!rpcFetch) return undefined;
+  return async (input, init) => {
+    const response = await rpcFetch(String(input), {
+      method: init?.method,
+      headers: Object.fromEntries(new globalThis.Headers(init?.headers).entries()),
+      body: typeof init?.body === 'string' ? init.body : undefined,
+    });
+    return new globalThis.Response(await response.text(), {
+      status: response.status,
+      statusText: response.statusText,
+      headers: Object.fromEntries(response.headers.entries()),
+    });
+  };
+}
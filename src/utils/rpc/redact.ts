@@ -0,0 +1,125 @@
+import util from 'util';
+
+// Values interpolated into the pool config and credentials of the configured endpoint URLs; masked wherever they show up
+const secrets = new Set<string>();
+// Shorter values would mask ordinary words
+const MIN_SECRET_LENGTH = 6;
+
+const URL_PATTERN = /\b(?:https?|wss?):\/\/[^\s"'<>`]+/gi;
+// Parameter names that carry credentials (query strings of RPC URLs, provider error messages)
+const SECRET_PARAM_NAMES = 'api[-_]?key|access[-_]?token|auth[-_]?token|x[-_]?token|dkey|client[-_]?secret|secret|password';
+const SECRET_PARAM = new RegExp(`^(?:${SECRET_PARAM_NAMES})$`, 'i');
+// key=value pairs outside of a URL, e.g. "api-key=..." in a provider error message
+const KEY_PARAM_PATTERN = new RegExp(`\\b(${SECRET_PARAM_NAMES})=([^&\\s"'<>]+)`, 'gi');
+
+// Path segments and parameter values of a configured endpoint that look like keys (drpc/quicknode tokens)
+function isKeyLike(value: string): boolean {
+  return value.length >= 20 && /[0-9]/.test(value);
+}
+
+/**
+ * Mask credentials in an RPC URL: user info, values of secret parameters and the path segments
+ * registered from the configured endpoints. Other segments and parameters (pubkeys, signatures) stay readable.
+ */
+export function redactRpcUrl(url: string | undefined | null): string {
+  if (!url) return '';
+  try {
+    const u = new URL(url);
+    if (u.username) u.username = '***';
+    if (u.password) u.password = '***';
+    for (const [key, value] of Array.from(u.searchParams.entries())) {
+      if (SECRET_PARAM.test(key) || secrets.has(value)) u.searchParams.set(key, '***');
+    }
+    u.pathname = u.pathname
+      .split('/')
+      .map(segment => (secrets.has(segment) ? '***' : segment))
+      .join('/');
+    return u.toString().replace(/%2A%2A%2A/g, '***');
+  } catch {
+    return '***';
+  }
+}
+
+/**
+ * Remember the credentials written into a configured endpoint URL (user info, key-like path
+ * segments and parameter values) so redactRpcUrl and redactSecrets mask them
+ */
+export function registerEndpointUrl(url: string | undefined | null): void {
+  if (!url) return;
+  try {
+    const u = new URL(url);
+    registerSecret(decodeURIComponent(u.username));
+    registerSecret(decodeURIComponent(u.password));
+    for (const [key, value] of u.searchParams.entries()) {
+      if (SECRET_PARAM.test(key) || isKeyLike(value)) registerSecret(value);
+    }
+    u.pathname.split('/').filter(isKeyLike).forEach(registerSecret);
+  } catch {
+    // Not a URL: nothing to register
+  }
+}
+
+/**
+ * Remember a secret value (e.g. an API key read from the environment) so redactSecrets masks it
+ */
+export function registerSecret(value: string | undefined | null): void {
+  if (value && value.length >= MIN_SECRET_LENGTH) secrets.add(value);
+}
+
+/**
+ * Mask registered secrets, URLs and key=value credentials in free text (log lines, error messages)
+ */
+export function redactSecrets(text: string): string {
+  if (!text) return text;
+  let out = text;
+  for (const secret of secrets) {
+    if (out.includes(secret)) out = out.split(secret).join('***');
+  }
+  return out
+    // Leave URLs without credentials as written (URL parsing normalizes them)
+    .replace(URL_PATTERN, url => {
+      const redacted = redactRpcUrl(url);
+      return redacted.includes('***') ? redacted : url;
+    })
+    .replace(KEY_PARAM_PATTERN, (_m, key) => `${key}=***`);
+}
+
+/**
+ * Mask secrets in an error's message and stack, in place (errors are rethrown and logged as they are)
+ */
+export function redactError<T>(err: T): T {
+  if (err instanceof Error) {
+    err.message = redactSecrets(err.message);
+    if (err.stack) err.stack = redactSecrets(err.stack);
+  }
+  return err;
+}
+
+/**
+ * Deep copy of a JSON payload with every string passed through redactSecrets
+ */
+export function redactPayload<T>(payload: T): T {
+  if (typeof payload === 'string') return redactSecrets(payload) as any;
+  if (Array.isArray(payload)) return payload.map(item => redactPayload(item)) as any;
+  if (payload && typeof payload === 'object' && Object.getPrototypeOf(payload) === Object.prototype) {
+    const out: any = {};
+    for (const [k, v] of Object.entries(payload)) out[k] = redactPayload(v);
+    return out;
+  }
+  return payload;
+}
+
+let consoleRedacted = false;
+
+/**
+ * Route console.log/info/warn/error/debug through redactSecrets, so no log line carries
+ * an RPC key whatever logged it (including errors from web3.js or node-fetch)
+ */
+export function installConsoleRedaction(): void {
+  if (consoleRedacted) return;
+  consoleRedacted = true;
+  for (const level of ['log', 'info', 'warn', 'error', 'debug'] as const) {
+    const original = console[level].bind(console);
+    console[level] = (...args: any[]) => original(redactSecrets(util.format(...args)));
+  }
+}
@@ -1,19 +1,31 @@
 import { Connection } from '@solana/web3.js';
-import { RpcPoolLoader } from './pool-loader.js';
+import { DEFAULT_RPC_POOL_FILE, RpcPoolLoader } from './pool-loader.js';
 import { RpcSelector } from './selector.js';
 import { RpcHealthManager } from './health-manager.js';
 import { RpcConcurrencyManager } from './concurrency-manager.js';
 import { RpcMetricsTracker } from './metrics.js';
-import { RpcMetrics } from './types.js';
+import { RpcRateLimiter } from './rate-limiter.js';
+import { RpcCallCache } from './call-cache.js';
+import { RpcHealthProber } from './prober.js';
+import { RpcHedgeBudget } from './hedge-budget.js';
+import { RpcLogSubscriber } from './log-subscriber.js';
+import { abortableSleep } from './abort.js';
+import { RpcCallCacheStats, RpcCallRequirements, RpcHedgeStats, RpcEntryConfig, RpcLease, RpcMetrics, RpcPoolDiff, RpcSelectionStrategyName } from './types.js';
+import { recordPoolAudit } from './pool-audit.js';
+import { getRpcRecordMode } from './record-replay.js';
 
 /**
  * RpcPoolManager - Unified orchestrator for all RPC pool operations
  *
  * Manages:
  * - Pool loading and configuration
- * - Round-robin selection with health awareness
- * - Health checking and backoff logic
+ * - Endpoint selection with health awareness (round-robin, weighted, least-outstanding, EWMA)
+ * - Health checking: circuit breaker per RPC, background prober, stale-slot detection
  * - Concurrency limits per RPC
+ * - Request rate limits per RPC (token buckets)
+ * - Shared in-flight calls and short-lived result memoization
+ * - Global budget for hedged requests
+ * - Log subscriptions over the WebSocket endpoints, with failover
  * - Metrics tracking (latency, error counts, processed transactions)
  */
 export class RpcPoolManager {
@@ -22,13 +34,23 @@ export class RpcPoolManager {
   private healthManager: RpcHealthManager;
   private concurrencyManager: RpcConcurrencyManager;
   private metricsTracker: RpcMetricsTracker;
+  private rateLimiter: RpcRateLimiter;
+  private callCache: RpcCallCache;
+  private prober: RpcHealthProber;
+  private hedgeBudget: RpcHedgeBudget;
+  private logSubscriber: RpcLogSubscriber;
 
-  constructor(configPath: string = 'public/rpc-pool.json') {
+  constructor(configPath: string = DEFAULT_RPC_POOL_FILE) {
     this.poolLoader = new RpcPoolLoader(configPath);
     this.selector = new RpcSelector(this.poolLoader);
     this.healthManager = new RpcHealthManager(this.poolLoader);
     this.concurrencyManager = new RpcConcurrencyManager(this.poolLoader);
     this.metricsTracker = new RpcMetricsTracker(this.poolLoader);
+    this.rateLimiter = new RpcRateLimiter(this.poolLoader);
+    this.callCache = new RpcCallCache();
+    this.prober = new RpcHealthProber(this.poolLoader, this.healthManager);
+    this.hedgeBudget = new RpcHedgeBudget();
+    this.logSubscriber = new RpcLogSubscriber(this.poolLoader);
 
     // Ensure pool is loaded
     this.poolLoader.load();
@@ -53,42 +75,93 @@ export class RpcPoolManager {
   // ============ RPC Selection ============
 
   /**
-   * Pick the next healthy RPC based on round-robin
+   * Pick the next healthy RPC with the active selection strategy.
+   * With `call`, only endpoints able to serve that method (and history depth) are considered.
    */
-  pickNextRpc(): { connection: Connection | null; index: number; url?: string } {
-    return this.selector.pickNext();
+  pickNextRpc(call?: RpcCallRequirements): { connection: Connection | null; index: number; url?: string } {
+    return this.selector.pickNext(call);
+  }
+
+  getSelectionStrategy(): RpcSelectionStrategyName {
+    return this.selector.getStrategyName();
+  }
+
+  setSelectionStrategy(name: RpcSelectionStrategyName): void {
+    this.selector.setStrategy(name);
   }
 
   // ============ Health Management ============
 
   /**
-   * Try to acquire an RPC slot (checks health, backoff, and concurrency)
+   * Try to acquire an RPC slot (checks the circuit and concurrency)
+   */
+  tryAcquireRpc(index: number): RpcLease | null {
+    const entry = this.poolLoader.getEntry(index);
+    if (!entry || !this.concurrencyManager.canAcquire(index)) {
+      return null;
+    }
+    if (!this.concurrencyManager.acquire(index)) return null;
+    this.healthManager.beginRequest(index);
+    return { index, name: entry.name };
+  }
+
+  /**
+   * Acquire a slot, then wait until the endpoint's token bucket allows the call
+   * (`units` requests for a JSON-RPC batch).
+   * Returns null when no slot is free; if the signal fires while waiting the slot and
+   * tokens are given back and RpcAbortedError is thrown.
    */
-  tryAcquireRpc(index: number): boolean {
-    if (!this.concurrencyManager.canAcquire(index)) {
-      return false;
+  async acquireRpc(index: number, method?: string, signal?: AbortSignal, units = 1): Promise<RpcLease | null> {
+    const lease = this.tryAcquireRpc(index);
+    if (!lease) return null;
+    const waitMs = this.rateLimiter.reserve(index, method, units);
+    if (waitMs > 0) {
+      try {
+        await abortableSleep(waitMs, signal);
+      } catch (err) {
+        // The pool may have been reloaded while waiting
+        this.rateLimiter.refund(this.resolveIndex(lease), method, units);
+        this.releaseRpc(lease, { aborted: true });
+        throw err;
+      }
     }
-    return this.concurrencyManager.acquire(index);
+    return lease;
   }
 
   /**
    * Release an RPC slot after use
-   * Optionally record success/failure and latency
+   * Optionally record success/failure and latency; aborted calls only free the slot
+   * (and count as an aborted request of `method` when it is given, i.e. the request was sent).
+   * Pass the lease from acquireRpc so the release reaches the acquired endpoint after a reload.
    */
-  releaseRpc(index: number, opts?: { success?: boolean; latencyMs?: number; errorType?: string }): void {
+  releaseRpc(target: number | RpcLease, opts?: { success?: boolean; latencyMs?: number; errorType?: string; aborted?: boolean; method?: string }): void {
+    const index = this.resolveIndex(target);
+    if (index < 0) return;  // Endpoint removed from the pool meanwhile
     this.concurrencyManager.release(index);
+    this.healthManager.endRequest(index);
+    if (opts?.aborted) {
+      if (opts.method) this.metricsTracker.recordRequest(index, opts.method, 'aborted');
+      return;
+    }
+    this.metricsTracker.recordRequest(index, opts?.method, opts?.success ? 'success' : 'error');
 
     if (opts?.latencyMs) {
-      this.metricsTracker.recordLatency(index, opts.latencyMs);
+      this.metricsTracker.recordLatency(index, opts.latencyMs, !!opts.success);
     }
 
     if (opts?.success) {
-      this.healthManager.recordSuccess(index);
+      this.healthManager.recordSuccess(index, opts.method);
     } else {
-      this.healthManager.recordFailure(index, opts?.errorType);
+      this.healthManager.recordFailure(index, opts?.errorType, opts?.method);
     }
   }
 
+  // Current position of a leased endpoint (-1 once removed); plain indexes are taken as they are
+  private resolveIndex(target: number | RpcLease): number {
+    if (typeof target === 'number') return target;
+    return this.poolLoader.getEntry(target.index)?.name === target.name ? target.index : this.poolLoader.indexOf(target.name);
+  }
+
   /**
    * Mark an RPC as failed (low-level call)
    */
@@ -147,13 +220,34 @@ export class RpcPoolManager {
     return this.concurrencyManager.getMaxConcurrent(index);
   }
 
+  // ============ Rate Limiting ============
+
+  /**
+   * Largest JSON-RPC batch some enabled endpoint accepts (capped at `fallback` for endpoints
+   * that don't declare maxBatchSize); 0 when none batches
+   */
+  getMaxBatchSize(fallback: number): number {
+    const sizes = this.poolLoader.getPool()
+      .filter(e => !e.disabled && e.weight !== 0)
+      .map(e => Math.min(e.capabilities?.maxBatchSize ?? fallback, fallback));
+    return sizes.length > 0 ? Math.max(...sizes) : fallback;
+  }
+
+  /**
+   * Whether the endpoint's token bucket allows a call right now
+   */
+  hasRpcTokens(index: number, method?: string): boolean {
+    return this.rateLimiter.hasTokens(index, method);
+  }
+
   // ============ Metrics ============
 
   /**
    * Record transactions processed by an RPC
    */
-  recordRpcProcessed(index: number, count: number = 1): void {
-    this.metricsTracker.recordProcessed(index, count);
+  recordRpcProcessed(target: number | RpcLease, count: number = 1): void {
+    const index = this.resolveIndex(target);
+    if (index >= 0) this.metricsTracker.recordProcessed(index, count);
   }
 
   /**
@@ -163,6 +257,20 @@ export class RpcPoolManager {
     return this.metricsTracker.getMetrics();
   }
 
+  /**
+   * Hit/miss counters of the shared call cache
+   */
+  getCallCacheStats(): RpcCallCacheStats {
+    return this.callCache.getStats();
+  }
+
+  /**
+   * Counters of hedged requests and the global hedge budget
+   */
+  getHedgeStats(): RpcHedgeStats {
+    return this.hedgeBudget.getStats();
+  }
+
   /**
    * Get metrics for a specific RPC
    */
@@ -184,6 +292,127 @@ export class RpcPoolManager {
     return this.metricsTracker.getProcessed(index);
   }
 
+  /**
+   * Latency percentile (0..1) of an RPC's recent successful calls
+   */
+  getRpcLatencyPercentile(index: number, percentile: number): number | undefined {
+    return this.metricsTracker.getLatencyPercentile(index, percentile);
+  }
+
+  /**
+   * Probe every endpoint in the background (circuit recovery and stale-slot detection).
+   * Not in replay mode: probes are live getSlot calls with nothing recorded for them.
+   */
+  startHealthProber(): void {
+    if (getRpcRecordMode() === 'replay') return;
+    this.prober.start();
+  }
+
+  stopHealthProber(): void {
+    this.prober.stop();
+  }
+
+  // ============ Live Configuration ============
+
+  /**
+   * Re-read the pool file; endpoints whose url/ws are unchanged keep their health and metrics
+   */
+  async reloadPool(actor = 'system'): Promise<RpcPoolDiff> {
+    const diff = this.poolLoader.reload();
+    this.selector.setStrategy(this.poolLoader.getStrategy());
+    this.logDiff(diff);
+    await recordPoolAudit({ action: 'reload', actor, diff });
+    return diff;
+  }
+
+  /**
+   * Watch the pool file and re-apply it on every change (not in replay mode, which ignores the file)
+   */
+  watchPoolFile(): void {
+    if (getRpcRecordMode() === 'replay') return;
+    this.poolLoader.watch((diff, err) => {
+      if (err || !diff) {
+        console.error('[RpcPoolManager] Pool file change ignored:', err?.message);
+        return;
+      }
+      this.selector.setStrategy(this.poolLoader.getStrategy());
+      this.logDiff(diff);
+      recordPoolAudit({ action: 'reload', actor: 'file-watch', diff }).catch(() => {});
+    });
+  }
+
+  async addEndpoint(endpoint: RpcEntryConfig, actor = 'system'): Promise<RpcPoolDiff> {
+    if (!endpoint?.name || !endpoint?.url) throw new Error('name and url are required');
+    const config = this.poolLoader.getConfig();
+    if (config.endpoints.some(e => e.name === endpoint.name)) {
+      throw new Error(`Endpoint ${endpoint.name} already exists`);
+    }
+    config.endpoints.push(endpoint);
+    const diff = this.poolLoader.saveConfig(config);
+    await recordPoolAudit({ action: 'add', actor, endpoint: endpoint.name, after: endpoint });
+    return diff;
+  }
+
+  async removeEndpoint(name: string, actor = 'system'): Promise<RpcPoolDiff> {
+    const config = this.poolLoader.getConfig();
+    const existing = config.endpoints.find(e => e.name === name);
+    if (!existing) throw new Error(`Endpoint ${name} not found`);
+    config.endpoints = config.endpoints.filter(e => e.name !== name);
+    const diff = this.poolLoader.saveConfig(config);
+    await recordPoolAudit({ action: 'remove', actor, endpoint: name, before: existing });
+    return diff;
+  }
+
+  /**
+   * Change an endpoint's settings (url, weight, disabled, maxConcurrent, capabilities, ...).
+   * Changing url or ws resets its health and metrics.
+   */
+  async updateEndpoint(name: string, patch: Partial<RpcEntryConfig>, actor = 'system'): Promise<RpcPoolDiff> {
+    const config = this.poolLoader.getConfig();
+    const idx = config.endpoints.findIndex(e => e.name === name);
+    if (idx < 0) throw new Error(`Endpoint ${name} not found`);
+    const before = config.endpoints[idx];
+    const { name: _ignored, ...changes } = patch;
+    const after: RpcEntryConfig = { ...before, ...changes };
+    for (const key of Object.keys(after) as (keyof RpcEntryConfig)[]) {
+      if (after[key] === null && key !== 'ws') delete after[key];
+    }
+    config.endpoints[idx] = after;
+    const diff = this.poolLoader.saveConfig(config);
+    await recordPoolAudit({ action: 'update', actor, endpoint: name, before, after });
+    return diff;
+  }
+
+  /**
+   * Switch the selection strategy and store it in the pool file
+   */
+  async updateSelectionStrategy(strategy: RpcSelectionStrategyName, actor = 'system'): Promise<void> {
+    const config = this.poolLoader.getConfig();
+    const previous = this.selector.getStrategyName();
+    config.strategy = strategy;
+    this.poolLoader.saveConfig(config);
+    this.selector.setStrategy(this.poolLoader.getStrategy());
+    await recordPoolAudit({ action: 'strategy', actor, detail: { from: previous, to: strategy } });
+  }
+
+  /**
+   * Probe an endpoint now; a successful probe moves an open circuit to half-open
+   */
+  async probeEndpoint(name: string, actor = 'system', timeoutMs = 5000): Promise<boolean> {
+    const index = this.poolLoader.indexOf(name);
+    if (index < 0) throw new Error(`Endpoint ${name} not found`);
+    const ok = await this.probeRpc(index, timeoutMs);
+    await recordPoolAudit({ action: 'probe', actor, endpoint: name, detail: { ok } });
+    return ok;
+  }
+
+  private logDiff(diff: RpcPoolDiff): void {
+    const parts = (['added', 'removed', 'updated'] as const)
+      .filter(k => diff[k].length > 0)
+      .map(k => `${k}: ${diff[k].join(', ')}`);
+    console.log(`[RpcPoolManager] Pool reloaded (${this.poolLoader.getSize()} endpoints)${parts.length ? ' - ' + parts.join('; ') : ''}`);
+  }
+
   // ============ Internal Access (for advanced usage) ============
 
   getPoolLoader(): RpcPoolLoader {
@@ -202,9 +431,29 @@ export class RpcPoolManager {
     return this.concurrencyManager;
   }
 
+  getCallCache(): RpcCallCache {
+    return this.callCache;
+  }
+
+  getHedgeBudget(): RpcHedgeBudget {
+    return this.hedgeBudget;
+  }
+
+  getRateLimiter(): RpcRateLimiter {
+    return this.rateLimiter;
+  }
+
   getMetricsTracker(): RpcMetricsTracker {
     return this.metricsTracker;
   }
+
+  getHealthProber(): RpcHealthProber {
+    return this.prober;
+  }
+
+  getLogSubscriber(): RpcLogSubscriber {
+    return this.logSubscriber;
+  }
 }
 
 // Singleton instance for backward compatibility
@@ -0,0 +1,124 @@
+import { IRpcSelectionStrategy, RpcEntry, RpcMeta, RpcSelectionStrategyName } from './types.js';
+
+export const RPC_SELECTION_STRATEGIES: RpcSelectionStrategyName[] = ['round-robin', 'weighted', 'least-outstanding', 'ewma'];
+
+// Latency assumed for endpoints without samples yet, so they still get tried
+const UNMEASURED_LATENCY_MS = 300;
+
+function weightOf(entry: RpcEntry | undefined): number {
+  const w = entry?.weight;
+  return typeof w === 'number' && w > 0 ? w : 1;
+}
+
+/**
+ * Smooth weighted round-robin (plain round-robin when all weights are equal)
+ */
+export class RoundRobinStrategy implements IRpcSelectionStrategy {
+  readonly name = 'round-robin' as const;
+  private currentWeights = new Map<number, number>();
+  private cursor = 0;
+
+  choose(candidates: number[], pool: RpcEntry[]): number {
+    let total = 0;
+    let best = candidates[0];
+    let bestWeight = -Infinity;
+    for (const idx of candidates) {
+      const w = weightOf(pool[idx]);
+      const current = (this.currentWeights.get(idx) || 0) + w;
+      this.currentWeights.set(idx, current);
+      total += w;
+      if (current > bestWeight) {
+        best = idx;
+        bestWeight = current;
+      }
+    }
+    this.currentWeights.set(best, bestWeight - total);
+    this.cursor = (best + 1) % pool.length;
+    return best;
+  }
+
+  getCursor(): number {
+    return this.cursor;
+  }
+
+  reset(): void {
+    this.currentWeights.clear();
+    this.cursor = 0;
+  }
+}
+
+/**
+ * Random pick weighted by success rate (Laplace-smoothed, so new endpoints start at 0.5)
+ */
+export class WeightedSuccessStrategy implements IRpcSelectionStrategy {
+  readonly name = 'weighted' as const;
+  private readonly MIN_WEIGHT = 0.05;
+
+  choose(candidates: number[], pool: RpcEntry[], meta: RpcMeta[]): number {
+    const weights = candidates.map(idx => {
+      const m = meta[idx];
+      // `failures` resets on every success, the error counters are cumulative
+      const errors = m.errorCounts.rateLimit429 + m.errorCounts.payment402 + m.errorCounts.timeout + m.errorCounts.other;
+      const rate = (m.successes + 1) / (m.successes + errors + 2);
+      return Math.max(this.MIN_WEIGHT, rate * rate) * weightOf(pool[idx]);
+    });
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    let r = Math.random() * total;
+    for (let i = 0; i < candidates.length; i++) {
+      r -= weights[i];
+      if (r <= 0) return candidates[i];
+    }
+    return candidates[candidates.length - 1];
+  }
+}
+
+/**
+ * Endpoint with the fewest in-flight requests relative to its maxConcurrent
+ */
+export class LeastOutstandingStrategy implements IRpcSelectionStrategy {
+  readonly name = 'least-outstanding' as const;
+  private tieBreaker = new RoundRobinStrategy();
+
+  choose(candidates: number[], pool: RpcEntry[], meta: RpcMeta[]): number {
+    const load = (idx: number) => meta[idx].currentConcurrent / ((pool[idx].maxConcurrent || 1) * weightOf(pool[idx]));
+    const minLoad = Math.min(...candidates.map(load));
+    return this.tieBreaker.choose(candidates.filter(idx => load(idx) === minLoad), pool);
+  }
+}
+
+/**
+ * Power of two choices on EWMA latency: sample two eligible endpoints and keep the one with
+ * the lower latency scaled by its in-flight requests. Avoids herding on a single fast endpoint.
+ */
+export class EwmaP2CStrategy implements IRpcSelectionStrategy {
+  readonly name = 'ewma' as const;
+
+  choose(candidates: number[], pool: RpcEntry[], meta: RpcMeta[]): number {
+    if (candidates.length === 1) return candidates[0];
+    const a = candidates[Math.floor(Math.random() * candidates.length)];
+    let b = candidates[Math.floor(Math.random() * (candidates.length - 1))];
+    if (b === a) b = candidates[candidates.length - 1];
+    return this.score(meta[a], pool[a]) <= this.score(meta[b], pool[b]) ? a : b;
+  }
+
+  private score(m: RpcMeta, entry: RpcEntry): number {
+    return ((m.avgLatencyMs ?? UNMEASURED_LATENCY_MS) * (m.currentConcurrent + 1)) / weightOf(entry);
+  }
+}
+
+export function isRpcSelectionStrategyName(value: any): value is RpcSelectionStrategyName {
+  return RPC_SELECTION_STRATEGIES.includes(value);
+}
+
+export function createSelectionStrategy(name: RpcSelectionStrategyName = 'round-robin'): IRpcSelectionStrategy {
+  switch (name) {
+    case 'weighted':
+      return new WeightedSuccessStrategy();
+    case 'least-outstanding':
+      return new LeastOutstandingStrategy();
+    case 'ewma':
+      return new EwmaP2CStrategy();
+    default:
+      return new RoundRobinStrategy();
+  }
+}
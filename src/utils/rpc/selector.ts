@@ -1,17 +1,28 @@
 import { Connection } from '@solana/web3.js';
 import { RpcPoolLoader } from './pool-loader.js';
-import { IRpcSelector } from './types.js';
+import { IRpcSelectionStrategy, IRpcSelector, RpcCallRequirements, RpcSelectionStrategyName } from './types.js';
+import { canServeCall } from './capabilities.js';
+import { admitsTraffic } from './circuit-breaker.js';
+import { rateCostOf, refillRateTokens } from './rate-limiter.js';
+import { createSelectionStrategy, RoundRobinStrategy } from './selection-strategies.js';
 
 export class RpcSelector implements IRpcSelector {
-  private roundRobinIndex = 0;
+  private strategy: IRpcSelectionStrategy;
 
-  constructor(private poolLoader: RpcPoolLoader) {}
+  constructor(private poolLoader: RpcPoolLoader, strategy?: RpcSelectionStrategyName) {
+    this.strategy = createSelectionStrategy(strategy || poolLoader.getStrategy());
+  }
 
   /**
-   * Selects the next RPC based on round-robin, preferring healthy endpoints.
-   * Skips endpoints that are unhealthy or in backoff.
+   * Selects the next RPC with the active strategy among healthy endpoints.
+   * Skips endpoints whose circuit is open (or half-open with its trials in flight),
+   * those at their concurrency limit and those that cannot serve `call` (capabilities, per-method backoff).
+   * Endpoints flagged stale by the prober are only used when no up-to-date one is eligible.
+   * Endpoints whose token bucket can take the call now are preferred; when none can,
+   * the strategy picks among all and the caller waits for tokens. `call.avoidIndexes`
+   * are only used when nothing else is eligible.
    */
-  pickNext(): { connection: Connection | null; index: number; url?: string } {
+  pickNext(call?: RpcCallRequirements): { connection: Connection | null; index: number; url?: string } {
     const pool = this.poolLoader.getPool();
     const meta = this.poolLoader.getMeta();
 
@@ -20,18 +31,20 @@ export class RpcSelector implements IRpcSelector {
       return { connection: null, index: -1 };
     }
 
-    const len = pool.length;
     const now = Date.now();
+    let candidates: number[] = [];
 
-    for (let attempt = 0; attempt < len; attempt++) {
-      const idx = this.roundRobinIndex % len;
-      this.roundRobinIndex = (this.roundRobinIndex + 1) % len;
-
+    for (let idx = 0; idx < pool.length; idx++) {
       const m = meta[idx];
       const e = pool[idx];
 
-      // Skip if unhealthy or in backoff
-      if (m && (!m.healthy || (m.backoffUntil && m.backoffUntil > now))) {
+      // Skip if disabled or drained by the admin API / pool file
+      if (e.disabled || e.weight === 0) {
+        continue;
+      }
+
+      // Skip if the circuit doesn't let the request through
+      if (m && !admitsTraffic(m, now)) {
         continue;
       }
 
@@ -41,32 +54,66 @@ export class RpcSelector implements IRpcSelector {
         continue;
       }
 
-      return {
-        connection: e.connection || null,
-        index: idx,
-        url: e.url,
-      };
+      if (!canServeCall(e, m, call, now)) {
+        continue;
+      }
+
+      candidates.push(idx);
+    }
+
+    if (candidates.length === 0) {
+      // No healthy endpoint available
+      return { connection: null, index: -1, url: undefined };
     }
 
-    // No healthy endpoint available
-    return { connection: null, index: -1, url: undefined };
+    if (call?.avoidIndexes?.length) {
+      const others = candidates.filter(idx => !call.avoidIndexes!.includes(idx));
+      if (others.length > 0) candidates = others;
+    }
+
+    const current = candidates.filter(idx => !meta[idx]?.stale);
+    if (current.length > 0) candidates = current;
+
+    const ready = candidates.filter(idx => !meta[idx] || refillRateTokens(pool[idx], meta[idx], now) >= rateCostOf(pool[idx], call?.method));
+    const idx = this.strategy.choose(ready.length > 0 ? ready : candidates, pool, meta);
+    if (meta[idx]) meta[idx].selectedCount++;
+    const e = pool[idx];
+    return {
+      connection: e.connection || null,
+      index: idx,
+      url: e.url,
+    };
+  }
+
+  getStrategyName(): RpcSelectionStrategyName {
+    return this.strategy.name;
+  }
+
+  /**
+   * Switch strategy at runtime (traffic counters are kept)
+   */
+  setStrategy(name: RpcSelectionStrategyName): void {
+    if (name !== this.strategy.name) {
+      this.strategy = createSelectionStrategy(name);
+      console.log(`[RpcSelector] Selection strategy: ${name}`);
+    }
   }
 
   /**
    * Reset round-robin counter (useful for testing)
    */
   reset(): void {
-    this.roundRobinIndex = 0;
+    if (this.strategy instanceof RoundRobinStrategy) this.strategy.reset();
   }
 
   /**
    * Get the current round-robin index
    */
   getCurrentIndex(): number {
-    return this.roundRobinIndex;
+    return this.strategy instanceof RoundRobinStrategy ? this.strategy.getCursor() : 0;
   }
 }
 
-export function createRpcSelector(poolLoader: RpcPoolLoader): RpcSelector {
-  return new RpcSelector(poolLoader);
+export function createRpcSelector(poolLoader: RpcPoolLoader, strategy?: RpcSelectionStrategyName): RpcSelector {
+  return new RpcSelector(poolLoader, strategy);
 }
@@ -1,5 +1,47 @@
 import { Connection } from '@solana/web3.js';
 
+export type RpcSelectionStrategyName = 'round-robin' | 'weighted' | 'least-outstanding' | 'ewma';
+
+/**
+ * What an endpoint can serve. Unset fields mean "no restriction".
+ */
+export type RpcCapabilities = {
+  // Allowlist of JSON-RPC methods; unset = every method
+  methods?: string[];
+  excludedMethods?: string[];
+  // Set to false for providers that reject getProgramAccounts
+  getProgramAccounts?: boolean;
+  // How many days of transaction history the endpoint keeps; unset = full archive
+  historyDays?: number;
+  // Largest JSON-RPC batch (array of requests) the provider accepts; 0 = no batching
+  maxBatchSize?: number;
+};
+
+/**
+ * What a call needs from the endpoint it is routed to
+ */
+export type RpcCallRequirements = {
+  method?: string;
+  // Unix time (seconds) of the oldest data the call reads, checked against historyDays
+  minBlockTime?: number;
+  // Number of requests when the call is a JSON-RPC batch, checked against maxBatchSize
+  batchSize?: number;
+  // Endpoints to avoid (e.g. those that just failed this call); used only if others are eligible
+  avoidIndexes?: number[];
+};
+
+/**
+ * Token bucket of an endpoint: refills at requestsPerSecond up to burst.
+ * A call costs methodCosts[method] tokens (default 1).
+ */
+export type RpcRateLimit = {
+  requestsPerSecond: number;
+  // Bucket size; defaults to requestsPerSecond (one second of traffic)
+  burst?: number;
+  // Credit cost per JSON-RPC method, e.g. { "getProgramAccounts": 10 }
+  methodCosts?: { [method: string]: number };
+};
+
 export type RpcEntry = {
   name: string;
   url: string;
@@ -8,6 +50,48 @@ export type RpcEntry = {
   maxConcurrent?: number;
   cooldownMs?: number;
   backoffBaseMs?: number;
+  capabilities?: RpcCapabilities;
+  // Relative share of traffic (default 1); 0 drains the endpoint
+  weight?: number;
+  // Kept in the pool (and its metrics) but never selected
+  disabled?: boolean;
+  rateLimit?: RpcRateLimit;
+};
+
+export type RpcEntryConfig = Omit<RpcEntry, 'connection'>;
+
+/**
+ * rpc-pool.json: either a bare array of endpoints (legacy) or an object with pool-wide settings
+ */
+export type RpcPoolConfig = {
+  strategy?: RpcSelectionStrategyName;
+  endpoints: RpcEntryConfig[];
+};
+
+/**
+ * Endpoint names affected by a pool reload
+ */
+export type RpcPoolDiff = {
+  added: string[];
+  removed: string[];
+  updated: string[];
+  unchanged: string[];
+};
+
+export type RpcPoolAuditAction = 'add' | 'remove' | 'update' | 'probe' | 'reload' | 'strategy';
+
+/**
+ * One change to the pool (admin API or file reload); URLs are stored redacted
+ */
+export type RpcPoolAuditEntry = {
+  at: number;
+  action: RpcPoolAuditAction;
+  actor: string;
+  endpoint?: string;
+  before?: Partial<RpcEntryConfig>;
+  after?: Partial<RpcEntryConfig>;
+  diff?: RpcPoolDiff;
+  detail?: any;
 };
 
 export type ErrorCounts = {
@@ -17,31 +101,148 @@ export type ErrorCounts = {
   other: number;
 };
 
+/**
+ * Circuit breaker of an endpoint: `closed` serves traffic, `open` serves none until
+ * backoffUntil, `half-open` lets a few trial requests through to decide between the two
+ */
+export type RpcCircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Health of one method on one endpoint, kept apart from the endpoint-wide state
+ */
+export type RpcMethodHealth = {
+  successes: number;
+  failures: number;
+  // Endpoint rejected the method (not found / disabled)
+  unsupported: number;
+  // Endpoint no longer has the requested history
+  historyMisses: number;
+  backoffUntil?: number;
+  lastError?: string;
+};
+
 export type RpcMeta = {
   failures: number;
   successes: number;
   lastFailureAt?: number;
+  // Circuit closed (kept for callers that only need a yes/no)
   healthy: boolean;
+  circuit: RpcCircuitState;
+  // How long the circuit stayed open last time; doubles each time a trial fails
+  lastOpenMs?: number;
+  // Trial requests in flight / succeeded while half-open
+  halfOpenInFlight: number;
+  halfOpenSuccesses: number;
+  // Background prober results
+  lastProbeAt?: number;
+  lastSlot?: number;
+  // Slots behind the pool median; stale endpoints are only used when nothing else is eligible
+  slotLag?: number;
+  stale: boolean;
   processedTxs: number;
   currentConcurrent: number;
   avgLatencyMs?: number;
+  // Latencies of the last successful calls, oldest first (for percentiles)
+  latencySamples: number[];
+  // All recorded latencies, bucketed by LATENCY_BUCKETS_MS (last slot = above the highest bound)
+  latencyBuckets: number[];
+  latencySumMs: number;
+  requests: { [method: string]: RpcRequestCounts };
   backoffUntil?: number;
   errorCounts: ErrorCounts;
+  // Times the selector handed this endpoint out
+  selectedCount: number;
+  methodHealth: { [method: string]: RpcMethodHealth };
+  // Token bucket state (only used when the endpoint has a rateLimit); may go negative
+  // while calls wait for their reserved tokens
+  rateTokens?: number;
+  rateRefilledAt?: number;
+  rateLimitedCalls: number;
+  rateLimitWaitMs: number;
+};
+
+export type RpcRequestOutcome = 'success' | 'error' | 'aborted';
+
+export type RpcRequestCounts = { [outcome in RpcRequestOutcome]: number };
+
+/**
+ * Non-cumulative latency histogram: counts[i] holds calls up to bucketsMs[i],
+ * the last count those slower than every bound
+ */
+export type RpcLatencyHistogram = {
+  bucketsMs: number[];
+  counts: number[];
+  sumMs: number;
 };
 
 export type RpcMetrics = {
   index: number;
+  name?: string;
+  weight?: number;
+  disabled?: boolean;
   healthy: boolean;
+  circuit: RpcCircuitState;
+  lastProbeAt?: number;
+  lastSlot?: number;
+  slotLag?: number;
+  stale: boolean;
   failures: number;
   successes: number;
   processedTxs: number;
   currentConcurrent: number;
   avgLatencyMs?: number;
+  // 90th percentile of recent successful calls; hedged calls go to a second endpoint after this long
+  p90LatencyMs?: number;
+  latencyHistogram: RpcLatencyHistogram;
+  // Requests sent to the endpoint per method
+  requests: { [method: string]: RpcRequestCounts };
   backoffUntil?: number;
   errorCounts: ErrorCounts;
   url?: string;
   maxConcurrent?: number;
   cooldownMs?: number;
+  selectedCount: number;
+  // Share of all selections since startup (0..1)
+  trafficShare: number;
+  capabilities?: RpcCapabilities;
+  methodHealth: { [method: string]: RpcMethodHealth };
+  rateLimit?: RpcRateLimit;
+  // Tokens currently in the bucket (negative while calls are queued)
+  rateTokens?: number;
+  // Calls that had to wait for tokens, and the total time they waited
+  rateLimitedCalls: number;
+  rateLimitWaitMs: number;
+};
+
+/**
+ * Coalescing/memoization counters of RpcCallCache. `coalesced` calls joined an identical
+ * request already in flight; `misses` went upstream.
+ */
+export type RpcCallCacheStats = {
+  hits: number;
+  misses: number;
+  coalesced: number;
+  // Share of calls answered without a new upstream request
+  hitRate: number;
+  entries: number;
+  inFlight: number;
+  byMethod: { [method: string]: { hits: number; misses: number; coalesced: number } };
+};
+
+/**
+ * Counters of RpcHedgeBudget. `hedged` calls sent a second request after the primary
+ * endpoint's p90 latency; `won` counts those answered first by the second request.
+ */
+export type RpcHedgeStats = {
+  // Calls made with hedging enabled
+  calls: number;
+  hedged: number;
+  won: number;
+  // Hedges not sent because the budget was used up
+  skippedByBudget: number;
+  // hedged / calls, never above maxRatio in the long run
+  ratio: number;
+  maxRatio: number;
 };
 
 export interface IRpcPool {
@@ -51,7 +252,15 @@ export interface IRpcPool {
 }
 
 export interface IRpcSelector {
-  pickNext(): { connection: Connection | null; index: number; url?: string };
+  pickNext(call?: RpcCallRequirements): { connection: Connection | null; index: number; url?: string };
+}
+
+/**
+ * Chooses one endpoint among the eligible ones (healthy, not in backoff, below maxConcurrent)
+ */
+export interface IRpcSelectionStrategy {
+  readonly name: RpcSelectionStrategyName;
+  choose(candidates: number[], pool: RpcEntry[], meta: RpcMeta[]): number;
 }
 
 export interface IRpcHealthManager {
@@ -59,11 +268,23 @@ export interface IRpcHealthManager {
   isInBackoff(index: number): boolean;
   setBackoff(index: number, durationMs: number): void;
   clearBackoff(index: number): void;
-  recordFailure(index: number, errorType?: string): void;
-  recordSuccess(index: number): void;
+  recordFailure(index: number, errorType?: string, method?: string): void;
+  recordSuccess(index: number, method?: string): void;
+  beginRequest(index: number): void;
+  endRequest(index: number): void;
   probe(index: number, timeoutMs?: number): Promise<boolean>;
 }
 
+/**
+ * A slot held on an endpoint (RpcPoolManager.acquireRpc). Released by endpoint name, so a
+ * pool reload that moves or removes the endpoint doesn't credit the release to another one.
+ */
+export interface RpcLease {
+  // Position in the pool when the slot was acquired
+  index: number;
+  name: string;
+}
+
 export interface IRpcConcurrencyManager {
   canAcquire(index: number): boolean;
   acquire(index: number): boolean;
@@ -71,9 +292,17 @@ export interface IRpcConcurrencyManager {
   getConcurrentCount(index: number): number;
 }
 
+export interface IRpcRateLimiter {
+  hasTokens(index: number, method?: string): boolean;
+  reserve(index: number, method?: string, units?: number): number;
+  refund(index: number, method?: string, units?: number): void;
+}
+
 export interface IRpcMetricsTracker {
-  recordLatency(index: number, latencyMs: number): void;
+  recordLatency(index: number, latencyMs: number, success?: boolean): void;
+  recordRequest(index: number, method: string | undefined, outcome: RpcRequestOutcome): void;
   getLatency(index: number): number | undefined;
+  getLatencyPercentile(index: number, percentile: number): number | undefined;
   recordProcessed(index: number, count?: number): void;
   getProcessed(index: number): number;
   getMetrics(): RpcMetrics[];
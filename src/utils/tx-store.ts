@@ -0,0 +1,115 @@
+import { TransactionInfo } from '../examples/types.js';
+import { getCacheDataOnly, setCache } from './persist-cache.js';
+import { setNamespacePolicy } from './cache-store/policies.js';
+
+const TX_NAMESPACE = 'transactions';
+const SIGNATURES_NAMESPACE = 'tx-signatures';
+// Newest signatures kept per address; older ones are paged again if ever needed
+const MAX_STORED_SIGNATURES = Number(process.env.TX_STORE_MAX_SIGNATURES_PER_ADDRESS || 20000);
+// Store reads in flight at once when looking up many signatures
+const READ_CONCURRENCY = Number(process.env.TX_STORE_READ_CONCURRENCY || 16);
+
+// Finalized transactions never change: no TTL, only a size bound
+setNamespacePolicy(TX_NAMESPACE, { maxBytes: Number(process.env.TX_STORE_MAX_MB || 2048) * 1024 * 1024 });
+setNamespacePolicy(SIGNATURES_NAMESPACE, { maxEntries: 5000 });
+
+export type StoredSignatureInfo = {
+  signature: string;
+  slot: number;
+  blockTime?: number | null;
+  err: any;
+  memo?: string | null;
+  confirmationStatus?: string | null;
+};
+
+/**
+ * Contiguous, newest-first run of signatures known for an address.
+ * `reachedEnd` means the address history was exhausted past `signatures`.
+ */
+export type AddressSignatureState = {
+  address: string;
+  highestSlot: number;
+  signatures: StoredSignatureInfo[];
+  reachedEnd: boolean;
+  updatedAt: number;
+};
+
+/**
+ * TransactionStore - content-addressed store of TransactionInfo keyed by signature,
+ * plus the per-address signature runs used to page only new signatures.
+ *
+ * Only finalized transactions are stored, so an entry never needs refetching.
+ */
+export class TransactionStore {
+  private memory = new Map<string, TransactionInfo>();
+  private readonly MEMORY_LIMIT = 2000;
+
+  async getTransaction(signature: string): Promise<TransactionInfo | null> {
+    const hot = this.memory.get(signature);
+    if (hot) return hot;
+    const stored = await getCacheDataOnly<TransactionInfo>(TX_NAMESPACE, signature);
+    if (stored) this.remember(stored);
+    return stored;
+  }
+
+  async getTransactions(signatures: string[]): Promise<Map<string, TransactionInfo>> {
+    const found: (TransactionInfo | null)[] = new Array(signatures.length).fill(null);
+    let next = 0;
+    const worker = async () => {
+      while (next < signatures.length) {
+        const i = next++;
+        found[i] = await this.getTransaction(signatures[i]);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(READ_CONCURRENCY, signatures.length) }, worker));
+    // Keep the order of `signatures`
+    const out = new Map<string, TransactionInfo>();
+    signatures.forEach((sig, i) => {
+      const tx = found[i];
+      if (tx) out.set(sig, tx);
+    });
+    return out;
+  }
+
+  async putTransaction(tx: TransactionInfo, address?: string): Promise<void> {
+    this.remember(tx);
+    await setCache(TX_NAMESPACE, tx.signature, tx, {
+      indexes: { signature: tx.signature, walletPubkey: address },
+    });
+  }
+
+  async getAddressState(address: string): Promise<AddressSignatureState | null> {
+    return getCacheDataOnly<AddressSignatureState>(SIGNATURES_NAMESPACE, address);
+  }
+
+  async saveAddressState(state: AddressSignatureState): Promise<void> {
+    const signatures = state.signatures.slice(0, MAX_STORED_SIGNATURES);
+    const truncated = signatures.length < state.signatures.length;
+    await setCache(SIGNATURES_NAMESPACE, state.address, {
+      ...state,
+      signatures,
+      reachedEnd: state.reachedEnd && !truncated,
+      highestSlot: signatures.reduce((max, s) => Math.max(max, s.slot || 0), state.highestSlot || 0),
+      updatedAt: Date.now(),
+    }, { indexes: { walletPubkey: state.address } });
+  }
+
+  private remember(tx: TransactionInfo): void {
+    if (this.memory.size >= this.MEMORY_LIMIT) {
+      // Drop the oldest inserted entry (Map keeps insertion order)
+      const first = this.memory.keys().next().value;
+      if (first !== undefined) this.memory.delete(first);
+    }
+    this.memory.set(tx.signature, tx);
+  }
+}
+
+// Singleton shared by every fee pipeline
+let globalStore: TransactionStore | null = null;
+
+export function getGlobalTransactionStore(): TransactionStore {
+  if (!globalStore) {
+    globalStore = new TransactionStore();
+  }
+  return globalStore;
+}
@@ -1,5 +1,5 @@
 import { Connection } from '@solana/web3.js';
-const endpoint = process.env.RPC_ENDPOINT || 'https://mainnet.helius-rpc.com/?api-key=746b2d69-ddf7-4f2a-8a81-ff88b195679a';
+const endpoint = process.env.RPC_ENDPOINT || 'https://api.mainnet-beta.solana.com';
 const conn = new Connection(endpoint, 'confirmed');
 const sig = process.argv[2];
 if (!sig) {
@@ -15,7 +15,7 @@ if (-not (Test-Path ".\backups")) {
     New-Item -ItemType Directory -Path ".\backups" | Out-Null
 }
 
-Copy-Item ".\public\rpc-pool.json" $backupPath
+Copy-Item ".\config\rpc-pool.json" $backupPath
 Write-Host "  ✓ Backup saved to: $backupPath" -ForegroundColor Green
 
 # Apply optimized config
@@ -26,24 +26,24 @@ $optimizedConfig = @"
 [
   {
     "name": "helius-main",
-    "url": "https://mainnet.helius-rpc.com/?api-key=746b2d69-ddf7-4f2a-8a81-ff88b195679a",
-    "ws": "wss://rpc.helius.xyz/?api-key=746b2d69-ddf7-4f2a-8a81-ff88b195679a",
+    "url": "https://mainnet.helius-rpc.com/?api-key=`${HELIUS_API_KEY}",
+    "ws": "wss://rpc.helius.xyz/?api-key=`${HELIUS_API_KEY}",
     "maxConcurrent": 15,
     "cooldownMs": 60000,
     "backoffBaseMs": 1500
   },
   {
     "name": "onfinality-http",
-    "url": "https://solana.api.onfinality.io/rpc?apikey=03b093ba-6ada-4de4-92c3-02ec50a67e94",
-    "ws": "wss://solana.api.onfinality.io/ws?apikey=03b093ba-6ada-4de4-92c3-02ec50a67e94",
+    "url": "https://solana.api.onfinality.io/rpc?apikey=`${ONFINALITY_API_KEY}",
+    "ws": "wss://solana.api.onfinality.io/ws?apikey=`${ONFINALITY_API_KEY}",
     "maxConcurrent": 18,
     "cooldownMs": 60000,
     "backoffBaseMs": 800
   },
   {
     "name": "drpc-http",
-    "url": "https://lb.drpc.live/solana/Ao_KB5dDik_SvZXE8ruGKzcSQox2x9cR8JUyQmlfqV1j",
-    "ws": "wss://lb.drpc.live/solana/Ao_KB5dDik_SvZXE8ruGKzcSQox2x9cR8JUyQmlfqV1j",
+    "url": "https://lb.drpc.live/solana/`${DRPC_API_KEY}",
+    "ws": "wss://lb.drpc.live/solana/`${DRPC_API_KEY}",
     "maxConcurrent": 18,
     "cooldownMs": 60000,
     "backoffBaseMs": 800
@@ -59,7 +59,7 @@ $optimizedConfig = @"
 ]
 "@
 
-$optimizedConfig | Out-File -FilePath ".\public\rpc-pool.json" -Encoding UTF8 -NoNewline
+$optimizedConfig | Out-File -FilePath ".\config\rpc-pool.json" -Encoding UTF8 -NoNewline
 
 Write-Host "  ✓ Optimized config applied" -ForegroundColor Green
 Write-Host ""
@@ -96,5 +96,5 @@ Write-Host "  3. Monitor logs for [RPC] lines showing tx/s and success rate" -Fo
 Write-Host ""
 
 Write-Host "To restore original config, run:" -ForegroundColor Cyan
-Write-Host "  Copy-Item $backupPath .\public\rpc-pool.json" -ForegroundColor White
+Write-Host "  Copy-Item $backupPath .\config\rpc-pool.json" -ForegroundColor White
 Write-Host ""
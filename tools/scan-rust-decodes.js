@@ -3,7 +3,7 @@ import fs from 'fs';
 import { Connection, PublicKey } from '@solana/web3.js';
 import { spawnSync } from 'child_process';
 
-const RPC = process.env.RPC_ENDPOINT || 'https://mainnet.helius-rpc.com/?api-key=746b2d69-ddf7-4f2a-8a81-ff88b195679a';
+const RPC = process.env.RPC_ENDPOINT || 'https://api.mainnet-beta.solana.com';
 const conn = new Connection(RPC, 'confirmed');
 const cachePath = process.argv[2] || 'cache/wallet-fees-detailed/8fa559ac0fc9b30014169bcefd8ad2bc2c75508d1a6c33b29bb16d0e96fb794a.json';
 const bin = process.argv[3] || './bin/carbon_crafting_decoder.exe';
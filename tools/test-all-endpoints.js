@@ -5,12 +5,18 @@
 
 import { Connection, PublicKey } from '@solana/web3.js';
 
+// Keyed providers read their API key from the environment; endpoints without a key are skipped
+function withKey(prefix, envVar, suffix = '') {
+  const key = process.env[envVar];
+  return key ? `${prefix}${key}${suffix}` : null;
+}
+
 const ENDPOINTS = [
-  { name: "helius-main", url: "https://mainnet.helius-rpc.com/?api-key=746b2d69-ddf7-4f2a-8a81-ff88b195679a" },
-  { name: "onfinality-http", url: "https://solana.api.onfinality.io/rpc?apikey=03b093ba-6ada-4de4-92c3-02ec50a67e94" },
-  { name: "drpc-http", url: "https://lb.drpc.live/solana/Ao_KB5dDik_SvZXE8ruGKzcSQox2x9cR8JUyQmlfqV1j" },
-  { name: "quicknode-main", url: "https://solana-mainnet.quicknode.pro/8f3f3f5b1b6e4e2b8e8f3f5b1b6e4e2b8e8f3f5b/" },
-  { name: "getblock-http", url: "https://go.getblock.io/d30d542dce8a4e25b3a1a6bd5ad95d0e" },
+  { name: "helius-main", url: withKey("https://mainnet.helius-rpc.com/?api-key=", "HELIUS_API_KEY") },
+  { name: "onfinality-http", url: withKey("https://solana.api.onfinality.io/rpc?apikey=", "ONFINALITY_API_KEY") },
+  { name: "drpc-http", url: withKey("https://lb.drpc.live/solana/", "DRPC_API_KEY") },
+  { name: "quicknode-main", url: withKey("https://solana-mainnet.quicknode.pro/", "QUICKNODE_API_KEY", "/") },
+  { name: "getblock-http", url: withKey("https://go.getblock.io/", "GETBLOCK_API_KEY") },
   { name: "publicnode-main", url: "https://solana-rpc.publicnode.com" },
   { name: "shyft-demo", url: "https://rpc.shyft.to/?api_key=demo" },
   { name: "ankr-main", url: "https://rpc.ankr.com/solana" },
@@ -19,13 +25,13 @@ const ENDPOINTS = [
   { name: "serum-main", url: "https://solana-api.projectserum.com" },
   { name: "alchemy-demo", url: "https://solana-mainnet.g.alchemy.com/v2/demo" },
   { name: "rpcpool-free", url: "https://free.rpcpool.com" },
-  { name: "getblock-us", url: "https://go.getblock.us/86aac42ad4484f3c813079afc201451c" },
-  { name: "blockeden-main", url: "https://api.blockeden.xyz/solana/KeCh6p22EX5AeRHxMSmc" },
+  { name: "getblock-us", url: withKey("https://go.getblock.us/", "GETBLOCK_US_API_KEY") },
+  { name: "blockeden-main", url: withKey("https://api.blockeden.xyz/solana/", "BLOCKEDEN_API_KEY") },
   { name: "lavenderfive-main", url: "https://solana.lavenderfive.com/" },
   { name: "leorpc-main", url: "https://solana.leorpc.com/?api_key=FREE" },
   { name: "pocket-main", url: "https://solana.api.pocket.network/" },
   { name: "vibe-main", url: "https://public.rpc.solanavibestation.com/" }
-];
+].filter(endpoint => endpoint.url);
 
 const TEST_WALLET = "9ynTDJrA8EHqmSskLdooeptY7z4U4qrDUT1uQjEqKVJY";
 const TIMEOUT_MS = 5000;